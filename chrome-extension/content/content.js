@@ -102,6 +102,9 @@ class ContentScript {
             case 'SHOW_SUGGESTION':
                 this.showSuggestion(message.data);
                 break;
+            case 'SUGGESTION_DELTA':
+                this.overlay?.applySuggestionDelta(message.data);
+                break;
         }
     }
     /**
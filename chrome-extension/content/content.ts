@@ -122,6 +122,10 @@ class ContentScript {
       case 'SHOW_SUGGESTION':
         this.showSuggestion(message.data as SuggestionData as SuggestionData);
         break;
+      
+      case 'SUGGESTION_DELTA':
+        this.overlay?.applySuggestionDelta(message.data as SuggestionDelta);
+        break;
     }
   }
   
@@ -322,8 +326,17 @@ interface SuggestionEntry {
 }
 
 interface SuggestionData {
+  id?: string;
   type: 'answer' | 'clarify' | 'star' | 'follow-up' | 'filler';
   content: string;
+  partial?: boolean;
+}
+
+interface SuggestionDelta {
+  suggestion_id: string;
+  seq: number;
+  delta: string;
+  discarded?: boolean;
 }
 
 interface Message {
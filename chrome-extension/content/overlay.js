@@ -374,6 +374,12 @@ class ContentOverlay extends EventEmitter {
      * Add a suggestion to the list
      */
     addSuggestion(suggestion) {
+        const index = suggestion.id ? this.suggestions.findIndex(s => s.id === suggestion.id) : -1;
+        if (index >= 0) {
+            this.suggestions[index] = suggestion;
+            this.renderSuggestions();
+            return;
+        }
         this.suggestions.unshift(suggestion);
         // Keep max 10 suggestions
         if (this.suggestions.length > 10) {
@@ -381,6 +387,28 @@ class ContentOverlay extends EventEmitter {
         }
         this.renderSuggestions();
     }
+    /**
+     * Append streamed text to a suggestion that is still being generated
+     */
+    applySuggestionDelta(delta) {
+        const index = this.suggestions.findIndex(s => s.id === delta.suggestion_id);
+        if (delta.discarded) {
+            if (index >= 0 && this.suggestions[index].partial) {
+                this.suggestions.splice(index, 1);
+                this.renderSuggestions();
+            }
+            return;
+        }
+        if (index < 0) {
+            this.addSuggestion({ id: delta.suggestion_id, type: 'answer', content: delta.delta, partial: true });
+            return;
+        }
+        const current = this.suggestions[index];
+        if (!current.partial)
+            return;
+        current.content += delta.delta;
+        this.renderSuggestions();
+    }
     /**
      * Render suggestions list
      */
@@ -391,7 +419,7 @@ class ContentOverlay extends EventEmitter {
         list.innerHTML = this.suggestions.map((s, i) => `
       <div class="fr-suggestion" data-index="${i}">
         <div class="fr-suggestion-type">${s.type}</div>
-        <div class="fr-suggestion-content">${this.escapeHtml(s.content)}</div>
+        <div class="fr-suggestion-content">${this.escapeHtml(s.content)}${s.partial ? '…' : ''}</div>
       </div>
     `).join('');
         // Add click listeners
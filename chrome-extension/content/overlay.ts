@@ -13,8 +13,18 @@ interface OverlaySettings {
 }
 
 interface SuggestionData {
+  /** Server suggestion id; partial text streamed under the same id is replaced by the final suggestion */
+  id?: string;
   type: 'answer' | 'clarify' | 'star' | 'follow-up' | 'filler';
   content: string;
+  partial?: boolean;
+}
+
+interface SuggestionDelta {
+  suggestion_id: string;
+  seq: number;
+  delta: string;
+  discarded?: boolean;
 }
 
 class ContentOverlay extends EventEmitter {
@@ -407,6 +417,13 @@ class ContentOverlay extends EventEmitter {
    * Add a suggestion to the list
    */
   addSuggestion(suggestion: SuggestionData): void {
+    const index = suggestion.id ? this.suggestions.findIndex(s => s.id === suggestion.id) : -1;
+    if (index >= 0) {
+      this.suggestions[index] = suggestion;
+      this.renderSuggestions();
+      return;
+    }
+    
     this.suggestions.unshift(suggestion);
     
     // Keep max 10 suggestions
@@ -417,6 +434,31 @@ class ContentOverlay extends EventEmitter {
     this.renderSuggestions();
   }
   
+  /**
+   * Append streamed text to a suggestion that is still being generated
+   */
+  applySuggestionDelta(delta: SuggestionDelta): void {
+    const index = this.suggestions.findIndex(s => s.id === delta.suggestion_id);
+    
+    if (delta.discarded) {
+      if (index >= 0 && this.suggestions[index].partial) {
+        this.suggestions.splice(index, 1);
+        this.renderSuggestions();
+      }
+      return;
+    }
+    
+    if (index < 0) {
+      this.addSuggestion({ id: delta.suggestion_id, type: 'answer', content: delta.delta, partial: true });
+      return;
+    }
+    
+    const current = this.suggestions[index];
+    if (!current.partial) return;
+    current.content += delta.delta;
+    this.renderSuggestions();
+  }
+  
   /**
    * Render suggestions list
    */
@@ -427,7 +469,7 @@ class ContentOverlay extends EventEmitter {
     list.innerHTML = this.suggestions.map((s, i) => `
       <div class="fr-suggestion" data-index="${i}">
         <div class="fr-suggestion-type">${s.type}</div>
-        <div class="fr-suggestion-content">${this.escapeHtml(s.content)}</div>
+        <div class="fr-suggestion-content">${this.escapeHtml(s.content)}${s.partial ? '…' : ''}</div>
       </div>
     `).join('');
     
@@ -31,6 +31,12 @@ export default async function InterviewPage(props: { params: Promise<{ id: strin
     .eq('session_id', id)
     .order('created_at', { ascending: true });
 
+  const { data: questions } = await supabase
+    .from('interview_questions')
+    .select('id,question_text,response_score,evaluation')
+    .eq('session_id', id)
+    .order('order_index', { ascending: true });
+
   const { data: feedback } = await supabase
     .from('interview_session_feedback')
     .select('id,score,notes,rubric,created_at')
@@ -51,7 +57,9 @@ export default async function InterviewPage(props: { params: Promise<{ id: strin
 
           <InterviewClient
             sessionId={id}
+            status={session?.status}
             initialMessages={(messages ?? []) as unknown as Parameters<typeof InterviewClient>[0]['initialMessages']}
+            initialQuestions={(questions ?? []) as unknown as Parameters<typeof InterviewClient>[0]['initialQuestions']}
             initialFeedback={(feedback ?? []) as unknown as Parameters<typeof InterviewClient>[0]['initialFeedback']}
           />
         </div>
@@ -0,0 +1,50 @@
+import Link from 'next/link';
+import { AppShell } from '@/components/AppShell';
+import { RequireAuth } from '@/components/RequireAuth';
+import { StoryBankClient } from '@/components/StoryBankClient';
+import { createClient } from '@/lib/supabase/server';
+import { STORY_COLUMNS } from '@/lib/storyBank';
+
+export default async function StoriesPage() {
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+
+  if (!userData.user) {
+    return (
+      <AppShell title="Story Bank">
+        <RequireAuth>
+          <div />
+        </RequireAuth>
+      </AppShell>
+    );
+  }
+
+  const { data: stories } = await supabase
+    .from('star_stories')
+    .select(STORY_COLUMNS)
+    .order('updated_at', { ascending: false })
+    .limit(200);
+
+  const { data: docs } = await supabase
+    .from('resume_documents')
+    .select('id,filename,created_at')
+    .not('parsed_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(30);
+
+  return (
+    <AppShell title="Story Bank">
+      <RequireAuth>
+        <div className="stack">
+          <p className="help">
+            <Link href="/dashboard">← Back to dashboard</Link>
+          </p>
+          <StoryBankClient
+            initialStories={(stories ?? []) as unknown as Parameters<typeof StoryBankClient>[0]['initialStories']}
+            resumeDocs={(docs ?? []) as unknown as Parameters<typeof StoryBankClient>[0]['resumeDocs']}
+          />
+        </div>
+      </RequireAuth>
+    </AppShell>
+  );
+}
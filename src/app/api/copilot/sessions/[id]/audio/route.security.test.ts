@@ -0,0 +1,363 @@
+import type { NextRequest } from 'next/server';
+import { STTAllProvidersFailedError, type TranscriptChunk } from '@/lib/sttProvider';
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('@/lib/rateLimit', () => ({
+  rateLimit: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+const transcribe = jest.fn();
+const openStream = jest.fn();
+const checkRateLimit = jest.fn();
+
+jest.mock('@/lib/sttProviders', () => ({
+  getSTTRegistry: () => ({ transcribe, openStream }),
+  validateAuth: jest.fn(),
+  checkRateLimit: (...args: unknown[]) => checkRateLimit(...args),
+  getSTTAuthContext: (userId: string) =>
+    jest.requireActual('@/lib/sttProviders/authContext').getSTTAuthContext(userId),
+}));
+
+jest.mock('@/lib/quota', () => ({
+  getUserPlan: jest.fn().mockResolvedValue({ plan_id: 'pro' }),
+}));
+
+jest.mock('@/lib/llmBudget', () => ({
+  ...jest.requireActual('@/lib/llmBudget'),
+  getUserOrganizationId: jest.fn().mockResolvedValue(null),
+}));
+
+const { rateLimit } = jest.requireMock('@/lib/rateLimit') as {
+  rateLimit: jest.Mock;
+};
+const { createClient } = jest.requireMock('@/lib/supabase/server') as {
+  createClient: jest.Mock;
+};
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+function buildSelectChain(single: jest.Mock): { eq: jest.Mock; single: jest.Mock } {
+  const chain: { eq: jest.Mock; single: jest.Mock } = {
+    eq: jest.fn(() => chain),
+    single,
+  };
+
+  return chain;
+}
+
+function buildEventQuery(stored: unknown) {
+  const chain: Record<string, jest.Mock> = {};
+  chain.eq = jest.fn(() => chain);
+  chain.order = jest.fn(() => chain);
+  chain.limit = jest.fn(() => chain);
+  chain.returns = jest.fn().mockResolvedValue({ data: [], error: null });
+  chain.maybeSingle = jest.fn().mockResolvedValue({ data: stored, error: null });
+  return chain;
+}
+
+function mockSupabase(
+  metadata: Record<string, unknown>,
+  eventInsert = jest.fn(),
+  sessionUpdate = jest.fn(),
+  options: { rpc?: jest.Mock; storedChunk?: unknown } = {}
+) {
+  const sessionSingle = jest.fn().mockResolvedValue({
+    data: {
+      id: SESSION_ID,
+      user_id: 'user-1',
+      status: 'active',
+      started_at: new Date().toISOString(),
+      metadata,
+    },
+    error: null,
+  });
+
+  createClient.mockResolvedValue({
+    auth: {
+      getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+    },
+    rpc: options.rpc ?? jest.fn().mockResolvedValue({ data: null, error: null }),
+    from: jest.fn((table: string) => {
+      if (table === 'copilot_sessions') {
+        return {
+          select: jest.fn(() => buildSelectChain(sessionSingle)),
+          update: jest.fn((row: unknown) => {
+            sessionUpdate(row);
+            return { eq: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })) };
+          }),
+        };
+      }
+
+      if (table === 'copilot_events') {
+        return {
+          select: jest.fn(() => buildEventQuery(options.storedChunk ?? null)),
+          insert: eventInsert,
+        };
+      }
+
+      throw new Error(`Unexpected table: ${table}`);
+    }),
+  });
+}
+
+function audioRequest(contentType = 'audio/webm;codecs=opus', query = 'speaker=interviewer&auto_suggest=false') {
+  return {
+    headers: new Headers({ 'content-type': contentType }),
+    nextUrl: new URL(`http://localhost/api/copilot/sessions/${SESSION_ID}/audio?${query}`),
+    arrayBuffer: async () => new Uint8Array([1, 2, 3, 4]).buffer,
+  } as unknown as NextRequest;
+}
+
+const params = { params: Promise.resolve({ id: SESSION_ID }) };
+
+describe('copilot audio route', () => {
+  const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rateLimit.mockResolvedValue({ ok: true });
+    checkRateLimit.mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('rejects unsupported content types before reading the body', async () => {
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest('application/json'), params);
+
+    expect(response.status).toBe(415);
+    expect(createClient).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 when the STT tier limit is spent', async () => {
+    mockSupabase({ consent_status: 'granted' });
+    checkRateLimit.mockRejectedValue(Object.assign(new Error('Rate limit exceeded'), { statusCode: 429, retryAfter: 1200 }));
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest(), params);
+
+    expect(checkRateLimit).toHaveBeenCalledWith({ userId: 'user-1', orgId: undefined, tier: 'pro' });
+    expect(response.status).toBe(429);
+    await expect(response.json()).resolves.toEqual({ error: 'rate_limited', extra: { retryAfterMs: 1200 } });
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+
+  it('refuses audio for sessions without consent', async () => {
+    mockSupabase({ consent_status: 'pending' });
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest(), params);
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toEqual({ error: 'consent_pending' });
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+
+  it('transcribes through the registry and appends a transcript event', async () => {
+    const eventInsert = jest.fn((row: { payload: Record<string, unknown> }) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'evt-1', event_type: 'transcript', payload: row.payload, created_at: new Date().toISOString() },
+          error: null,
+        }),
+      })),
+    }));
+    mockSupabase({ consent_status: 'granted', mode: 'coding' }, eventInsert);
+    transcribe.mockResolvedValue({ text: ' Walk me through your design. ', isFinal: true, confidence: 0.92, provider: 'deepgram' });
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest(), params);
+
+    expect(transcribe).toHaveBeenCalledWith(expect.any(ArrayBuffer), { language: undefined, mimeType: 'audio/webm' });
+    expect(response.status).toBe(201);
+    expect(eventInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event_type: 'transcript',
+        payload: expect.objectContaining({
+          speaker: 'interviewer',
+          text: 'Walk me through your design.',
+          mode: 'coding',
+          transcript_kind: 'final',
+          stt: { provider: 'deepgram', confidence: 0.92 },
+        }),
+      })
+    );
+    await expect(response.json()).resolves.toMatchObject({
+      ok: true,
+      accepted: 1,
+      suggestions: [],
+      transcript: { provider: 'deepgram', confidence: 0.92, isFinal: true },
+    });
+  });
+
+  it('maps a new diarized speaker to a role and remembers it for the session', async () => {
+    const eventInsert = jest.fn((row: { payload: Record<string, unknown> }) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'evt-2', event_type: 'transcript', payload: row.payload, created_at: new Date().toISOString() },
+          error: null,
+        }),
+      })),
+    }));
+    const sessionUpdate = jest.fn();
+    const rpc = jest
+      .fn()
+      .mockResolvedValue({ data: { 'speaker:0': 'interviewer', 'speaker:1': 'candidate' }, error: null });
+    mockSupabase({ consent_status: 'granted', speaker_map: { 'speaker:0': 'interviewer' } }, eventInsert, sessionUpdate, {
+      rpc,
+    });
+    transcribe.mockResolvedValue({
+      text: 'I would start with a queue.',
+      isFinal: true,
+      confidence: 0.9,
+      provider: 'deepgram',
+      speaker: { label: 'speaker:1', confidence: 0.85, source: 'diarization' },
+    });
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest('audio/webm', 'auto_suggest=false'), params);
+
+    expect(response.status).toBe(201);
+    // Merged in place: the metadata snapshot read before transcription is not written back
+    expect(rpc).toHaveBeenCalledWith('add_copilot_speaker', {
+      p_session_id: SESSION_ID,
+      p_label: 'speaker:1',
+      p_speaker: 'candidate',
+    });
+    expect(sessionUpdate).not.toHaveBeenCalled();
+    expect(eventInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({
+          speaker: 'candidate',
+          speaker_label: 'speaker:1',
+          speaker_confidence: 0.85,
+          speaker_source: 'diarization',
+        }),
+      })
+    );
+  });
+
+  it('answers a retried chunk from the stored event without transcribing it again', async () => {
+    const eventInsert = jest.fn();
+    const storedChunk = {
+      id: 'evt-3',
+      event_type: 'transcript',
+      payload: { text: 'Tell me about yourself.', interim_id: 'c-42', transcript_kind: 'final', stt: { provider: 'deepgram', confidence: 0.9 } },
+      created_at: new Date().toISOString(),
+    };
+    mockSupabase({ consent_status: 'granted' }, eventInsert, jest.fn(), { storedChunk });
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest('audio/webm', 'chunk_id=c-42'), params);
+
+    expect(response.status).toBe(200);
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(eventInsert).not.toHaveBeenCalled();
+    await expect(response.json()).resolves.toMatchObject({
+      events: [storedChunk],
+      accepted: 1,
+      duplicate: true,
+      transcript: { provider: 'deepgram', confidence: 0.9, isFinal: true },
+    });
+  });
+
+  it('skips silent chunks without writing events', async () => {
+    const eventInsert = jest.fn();
+    mockSupabase({ consent_status: 'granted' }, eventInsert);
+    transcribe.mockResolvedValue({ text: '', isFinal: true, confidence: 0, provider: 'null' });
+    const { POST } = await import('./route');
+
+    const response = await POST(audioRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(eventInsert).not.toHaveBeenCalled();
+    await expect(response.json()).resolves.toMatchObject({ accepted: 0, transcript: { provider: 'null' } });
+  });
+
+  it('transcribes a streamed recording live, storing interim and final results', async () => {
+    const eventInsert = jest.fn((row: { payload: Record<string, unknown> }) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue({
+          data: { id: `evt-${row.payload.transcript_kind}`, event_type: 'transcript', payload: row.payload, created_at: new Date().toISOString() },
+          error: null,
+        }),
+      })),
+    }));
+    mockSupabase({ consent_status: 'granted' }, eventInsert);
+    openStream.mockImplementation(async (opts: { onChunk(chunk: TranscriptChunk): void }) => {
+      const results = [
+        { state: 'partial', text: 'Walk me' },
+        { state: 'final', text: 'Walk me through your design.' },
+      ] as const;
+      let sent = 0;
+      return {
+        mode: 'live',
+        send: () => {
+          const result = results[sent++];
+          opts.onChunk({ idempotencyKey: 'k', seq: 1, provider: 'deepgram', receivedAt: '', confidence: 0.9, ...result });
+        },
+        close: async () => undefined,
+      };
+    });
+    const body = [new Uint8Array([1, 2]), new Uint8Array([3, 4])];
+    const read = jest.fn(async () => (body.length > 0 ? { done: false, value: body.shift() } : { done: true }));
+    const { POST } = await import('./route');
+
+    const response = await POST(
+      {
+        ...audioRequest('audio/webm', 'live=true&channel=tab&auto_suggest=false'),
+        body: { getReader: () => ({ read, releaseLock: jest.fn(), cancel: jest.fn() }) },
+      } as unknown as NextRequest,
+      params
+    );
+
+    expect(response.status).toBe(201);
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(openStream).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: SESSION_ID, mimeType: 'audio/webm', channel: 'tab' })
+    );
+    expect(eventInsert.mock.calls.map(([row]) => row.payload.transcript_kind)).toEqual(['interim', 'final']);
+    const [[interim], [final]] = eventInsert.mock.calls;
+    expect(final.payload.interim_id).toBe(interim.payload.interim_id);
+    await expect(response.json()).resolves.toMatchObject({
+      accepted: 1,
+      interims: 1,
+      events: [{ id: 'evt-final' }],
+      transcript: { mode: 'live', providers: ['deepgram'], complete: true },
+    });
+  });
+
+  it('returns a client-safe 502 when every STT provider fails', async () => {
+    mockSupabase({ consent_status: 'granted' });
+    transcribe.mockRejectedValue(
+      new STTAllProvidersFailedError([
+        { provider: 'deepgram', error: new Error('secret upstream detail') },
+        { provider: 'whisper', error: 'circuit_open' },
+      ])
+    );
+    const { POST } = await import('./route');
+
+    const response = await POST(
+      { ...audioRequest(), headers: new Headers({ 'content-type': 'audio/webm', 'x-request-id': 'req-audio-1' }) } as unknown as NextRequest,
+      params
+    );
+
+    expect(response.status).toBe(502);
+    await expect(response.json()).resolves.toEqual({ error: 'stt_unavailable', extra: { requestId: 'req-audio-1' } });
+  });
+});
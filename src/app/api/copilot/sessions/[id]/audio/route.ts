@@ -0,0 +1,436 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { jsonError } from '@/lib/api';
+import { createClient } from '@/lib/supabase/server';
+import { rateLimit } from '@/lib/rateLimit';
+import { isSessionHeartbeatExpired, withHeartbeatMetadata } from '@/lib/copilotSession';
+import { checkIngestConsent } from '@/lib/copilotConsent';
+import {
+  appendTranscriptChunks,
+  findTranscriptChunk,
+  TranscriptIngestError,
+  type AppendTranscriptResult,
+} from '@/lib/copilotTranscript';
+import { copilotOk, copilotRateLimited, sessionExpiredResponse } from '@/lib/copilotApiResponse';
+import {
+  getSpeakerMap,
+  isSpeakerRole,
+  resolveSpeakerRole,
+  saveSpeakerAssignment,
+  type SpeakerAttribution,
+  type SpeakerMap,
+  type SpeakerRole,
+} from '@/lib/copilotSpeakers';
+import {
+  STTAllProvidersFailedError,
+  type STTProviderResult,
+  type STTSpeaker,
+  type TranscriptChunk,
+} from '@/lib/sttProvider';
+import { checkRateLimit, getSTTAuthContext, getSTTRegistry, validateAuth } from '@/lib/sttProviders';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+const ROUTE = '/api/copilot/sessions/[id]/audio';
+
+// ~30s of opus at typical MediaRecorder bitrates, with headroom
+const MAX_AUDIO_BYTES = 5 * 1024 * 1024;
+
+// Live mode: about an hour of opus in one streamed request
+const MAX_LIVE_AUDIO_BYTES = 64 * 1024 * 1024;
+
+const SUPPORTED_AUDIO_TYPES = ['audio/webm', 'audio/ogg', 'audio/wav', 'audio/x-wav', 'audio/mpeg', 'audio/mp4'];
+
+const QuerySchema = z.object({
+  /** Manual override; otherwise the speaker comes from the channel or diarization */
+  speaker: z.enum(['interviewer', 'candidate']).optional(),
+  channel: z.enum(['mic', 'tab']).optional(),
+  language: z.string().trim().min(2).max(10).optional(),
+  chunk_id: z.string().trim().min(1).max(120).optional(),
+  auto_suggest: z.enum(['true', 'false']).optional(),
+  /** Stream one recording as the request body; transcribed live as it arrives */
+  live: z.enum(['true', 'false']).optional(),
+});
+
+type AudioQuery = z.infer<typeof QuerySchema>;
+
+function getRequestId(req: NextRequest) {
+  return req.headers.get('x-request-id') || crypto.randomUUID();
+}
+
+function logCopilotRouteError(route: string, requestId: string, errorClass: string, meta?: Record<string, unknown>) {
+  console.error('[copilot]', { route, requestId, errorClass, ...(meta ?? {}) });
+}
+
+function internalError(requestId: string) {
+  return jsonError(500, 'internal_error', { requestId });
+}
+
+function audioMimeType(req: NextRequest): string | null {
+  const contentType = req.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase() ?? '';
+  return SUPPORTED_AUDIO_TYPES.includes(contentType) ? contentType : null;
+}
+
+interface SpeakerContext {
+  supabase: ServerSupabase;
+  requestId: string;
+  sessionId: string;
+  /** The session's speaker map, updated as new speakers are saved */
+  map: SpeakerMap;
+}
+
+// Manual override, then the session's speaker map; a newly heard diarized speaker is saved to it
+async function chunkSpeaker(
+  ctx: SpeakerContext,
+  detected: STTSpeaker | undefined,
+  manual?: SpeakerRole
+): Promise<SpeakerAttribution> {
+  if (manual) return { role: manual, label: null, confidence: null, source: 'manual' };
+
+  const resolved = resolveSpeakerRole(detected, ctx.map);
+  let speaker = resolved.attribution;
+  if (resolved.map && speaker.label) {
+    // First time this diarized speaker is heard: remember its role for the session
+    try {
+      ctx.map = await saveSpeakerAssignment(ctx.supabase, ctx.sessionId, speaker.label, speaker.role);
+      const stored = ctx.map[speaker.label];
+      if (isSpeakerRole(stored)) speaker = { ...speaker, role: stored };
+    } catch (e) {
+      logCopilotRouteError(ROUTE, ctx.requestId, 'speaker_map_update_failed', {
+        sessionId: ctx.sessionId,
+        code: (e as { code?: string } | null)?.code ?? null,
+      });
+    }
+  }
+  return speaker;
+}
+
+interface LiveIngestContext extends SpeakerContext {
+  userId: string;
+  mode: string;
+  mimeType: string;
+  query: AudioQuery;
+  contextLinks: { resumeDocumentId: string | null; jobId: string | null };
+}
+
+/**
+ * Live mode: the request body is one recording, pushed to the STT stream as
+ * it arrives. Partial and final results are stored (and published to the
+ * session stream) as interim and final transcript events; a partial already
+ * replaced by a newer result is skipped.
+ */
+async function ingestLiveAudio(req: NextRequest, ctx: LiveIngestContext) {
+  if (!req.body) return jsonError(400, 'empty_audio');
+
+  const { supabase, requestId, sessionId, query } = ctx;
+  // Result sequence numbers restart per stream; this keeps interim ids unique in the session
+  const recordingId = crypto.randomUUID();
+  const stored: AppendTranscriptResult = { events: [], suggestions: [], rejected: 0 };
+  const providers = new Set<string>();
+  let interims = 0;
+  let storeError: unknown = null;
+  let sttError: STTAllProvidersFailedError | null = null;
+
+  const latest = new Map<number, TranscriptChunk>();
+  let queue = Promise.resolve();
+
+  const store = async (chunk: TranscriptChunk) => {
+    if (storeError || latest.get(chunk.seq) !== chunk) return;
+    const isFinal = chunk.state === 'final';
+    if (isFinal) latest.delete(chunk.seq);
+
+    try {
+      const speaker = await chunkSpeaker(ctx, chunk.speaker, query.speaker);
+      const result = await appendTranscriptChunks({
+        supabase,
+        sessionId,
+        userId: ctx.userId,
+        mode: ctx.mode,
+        chunks: [
+          {
+            speaker: speaker.role,
+            text: chunk.text.trim().slice(0, 4000),
+            isFinal,
+            interimId: `${recordingId}:${chunk.seq}`,
+            autoSuggest: query.auto_suggest ? query.auto_suggest === 'true' : undefined,
+          },
+        ],
+        source: { provider: chunk.provider, confidence: chunk.confidence, speaker: speaker.label ? speaker : undefined },
+        contextLinks: ctx.contextLinks,
+        logError: (errorClass, meta) => logCopilotRouteError(ROUTE, requestId, errorClass, meta),
+      });
+
+      if (!isFinal) {
+        interims += result.events.length;
+        return;
+      }
+      providers.add(chunk.provider);
+      stored.events.push(...result.events);
+      stored.suggestions.push(...result.suggestions);
+      stored.rejected += result.rejected;
+    } catch (e) {
+      storeError = e;
+    }
+  };
+
+  const stream = await getSTTRegistry().openStream({
+    sessionId,
+    language: query.language,
+    mimeType: ctx.mimeType,
+    channel: query.channel,
+    onChunk: (chunk) => {
+      latest.set(chunk.seq, chunk);
+      queue = queue.then(() => store(chunk));
+    },
+    onError: (error) => {
+      sttError = error;
+    },
+  });
+
+  const reader = req.body.getReader();
+  let received = 0;
+  let tooLarge = false;
+  while (!sttError && !storeError) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_LIVE_AUDIO_BYTES) {
+      tooLarge = true;
+      break;
+    }
+    stream.send(value.slice().buffer);
+  }
+  // Stopped early: drop the rest of the upload
+  if (tooLarge || sttError || storeError) await reader.cancel().catch(() => undefined);
+
+  await stream.close();
+  await queue;
+
+  if (storeError) {
+    if (!(storeError instanceof TranscriptIngestError)) throw storeError;
+    logCopilotRouteError(ROUTE, requestId, storeError.errorClass, { sessionId, code: storeError.code });
+    return internalError(requestId);
+  }
+  if (tooLarge) return jsonError(413, 'audio_too_large', { maxBytes: MAX_LIVE_AUDIO_BYTES });
+  if (received === 0) return jsonError(400, 'empty_audio');
+  if (sttError && stored.events.length === 0) {
+    logCopilotRouteError(ROUTE, requestId, 'stt_failed', {
+      sessionId,
+      providers: (sttError as STTAllProvidersFailedError).providerErrors.map((p) => p.provider),
+    });
+    return jsonError(502, 'stt_unavailable', { requestId });
+  }
+
+  return copilotOk(
+    {
+      events: stored.events,
+      suggestions: stored.suggestions,
+      accepted: stored.events.length,
+      rejected: stored.rejected,
+      interims,
+      transcript: { mode: stream.mode, providers: [...providers], complete: !sttError },
+    },
+    201
+  );
+}
+
+/**
+ * POST /api/copilot/sessions/[id]/audio
+ *
+ * Body: raw audio chunk (Content-Type: audio/webm, audio/ogg, audio/wav, audio/mpeg or audio/mp4)
+ * Query: speaker (manual override) or channel (mic | tab), language,
+ *        chunk_id (retries with the same id are deduplicated), auto_suggest,
+ *        live=true (the body is one streamed recording, see ingestLiveAudio)
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const requestId = getRequestId(req);
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+
+  const anonRl = await rateLimit({ key: `copilot:audio:anon:${ip}`, limit: 120, windowMs: 60_000 });
+  if (!anonRl.ok) return copilotRateLimited();
+
+  const mimeType = audioMimeType(req);
+  if (!mimeType) {
+    return jsonError(415, 'unsupported_media_type', { supported: SUPPORTED_AUDIO_TYPES });
+  }
+
+  const query = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!query.success) return jsonError(400, 'invalid_query', query.error.flatten());
+
+  const live = query.data.live === 'true';
+  const maxBytes = live ? MAX_LIVE_AUDIO_BYTES : MAX_AUDIO_BYTES;
+  const declaredLength = Number(req.headers.get('content-length') ?? 0);
+  if (declaredLength > maxBytes) return jsonError(413, 'audio_too_large', { maxBytes });
+
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return jsonError(401, 'unauthorized');
+
+  const userId = userData.user.id;
+
+  try {
+    const auth = await getSTTAuthContext(userId);
+    validateAuth(auth);
+    await checkRateLimit(auth);
+  } catch (e) {
+    const err = e as Error & { statusCode?: number; retryAfter?: number };
+    if (err.statusCode === 429) return jsonError(429, 'rate_limited', { retryAfterMs: err.retryAfter ?? null });
+    if (err.statusCode) return jsonError(err.statusCode, 'unauthorized');
+    throw e;
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from('copilot_sessions')
+    .select('id, user_id, status, started_at, metadata, resume_document_id, job_id')
+    .eq('id', id)
+    .single<{
+      id: string;
+      user_id: string;
+      status: string;
+      started_at: string;
+      metadata: Record<string, unknown> | null;
+      resume_document_id: string | null;
+      job_id: string | null;
+    }>();
+
+  if (sessionError || !session) return jsonError(404, 'session_not_found');
+  if (session.user_id !== userId) return jsonError(404, 'session_not_found');
+
+  if (isSessionHeartbeatExpired(session)) {
+    const nowIso = new Date().toISOString();
+    await supabase
+      .from('copilot_sessions')
+      .update({
+        status: 'expired',
+        stopped_at: nowIso,
+        metadata: {
+          ...withHeartbeatMetadata(session.metadata, nowIso),
+          expired_reason: 'heartbeat_timeout',
+        },
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('status', 'active');
+
+    return sessionExpiredResponse(session, nowIso);
+  }
+
+  if (session.status !== 'active') return jsonError(409, 'session_not_active');
+
+  // Audio is only processed with recorded consent
+  const consentCheck = checkIngestConsent(session);
+  if (!consentCheck.allowed) return jsonError(403, consentCheck.reason);
+
+  const mode = typeof session.metadata?.mode === 'string' ? session.metadata.mode : 'general';
+  const contextLinks = { resumeDocumentId: session.resume_document_id ?? null, jobId: session.job_id ?? null };
+  const speakers: SpeakerContext = { supabase, requestId, sessionId: id, map: getSpeakerMap(session.metadata) };
+
+  if (live) {
+    return ingestLiveAudio(req, { ...speakers, userId, mode, mimeType, query: query.data, contextLinks });
+  }
+
+  // A retried chunk was already transcribed (and billed); answer with what was stored
+  if (query.data.chunk_id) {
+    const stored = await findTranscriptChunk(supabase, id, query.data.chunk_id);
+    if (stored) {
+      const payload = stored.event.payload;
+      const stt = (payload.stt ?? {}) as Record<string, unknown>;
+      return copilotOk({
+        events: [stored.event],
+        suggestions: stored.suggestions,
+        accepted: 1,
+        rejected: 0,
+        duplicate: true,
+        transcript: {
+          provider: stt.provider ?? null,
+          confidence: stt.confidence ?? null,
+          isFinal: payload.transcript_kind !== 'interim',
+          speaker: payload.speaker_label
+            ? { label: payload.speaker_label, confidence: payload.speaker_confidence ?? null, source: payload.speaker_source }
+            : null,
+        },
+      });
+    }
+  }
+
+  const audio = await req.arrayBuffer();
+  if (audio.byteLength === 0) return jsonError(400, 'empty_audio');
+  if (audio.byteLength > MAX_AUDIO_BYTES) return jsonError(413, 'audio_too_large', { maxBytes: MAX_AUDIO_BYTES });
+
+  let transcription: STTProviderResult & { provider: string };
+  try {
+    transcription = await getSTTRegistry().transcribe(audio, {
+      language: query.data.language,
+      mimeType,
+      channel: query.data.channel,
+    });
+  } catch (e) {
+    if (!(e instanceof STTAllProvidersFailedError)) throw e;
+    logCopilotRouteError(ROUTE, requestId, 'stt_failed', {
+      sessionId: id,
+      providers: e.providerErrors.map((p) => p.provider),
+    });
+    return jsonError(502, 'stt_unavailable', { requestId });
+  }
+
+  const transcript = {
+    provider: transcription.provider,
+    confidence: transcription.confidence ?? null,
+    isFinal: transcription.isFinal,
+    speaker: transcription.speaker ?? null,
+  };
+
+  const text = transcription.text.trim().slice(0, 4000);
+  if (!text) {
+    // Silence, or only the null provider was available
+    return copilotOk({ events: [], suggestions: [], accepted: 0, rejected: 0, transcript });
+  }
+
+  const speaker = await chunkSpeaker(speakers, transcription.speaker, query.data.speaker);
+
+  let result: AppendTranscriptResult;
+  try {
+    result = await appendTranscriptChunks({
+      supabase,
+      sessionId: id,
+      userId,
+      mode,
+      chunks: [
+        {
+          speaker: speaker.role,
+          text,
+          isFinal: transcription.isFinal,
+          interimId: query.data.chunk_id,
+          autoSuggest: query.data.auto_suggest ? query.data.auto_suggest === 'true' : undefined,
+        },
+      ],
+      source: {
+        provider: transcription.provider,
+        confidence: transcription.confidence,
+        speaker: speaker.label ? speaker : undefined,
+      },
+      contextLinks,
+      logError: (errorClass, meta) => logCopilotRouteError(ROUTE, requestId, errorClass, meta),
+    });
+  } catch (e) {
+    if (!(e instanceof TranscriptIngestError)) throw e;
+    logCopilotRouteError(ROUTE, requestId, e.errorClass, { sessionId: id, code: e.code });
+    return internalError(requestId);
+  }
+
+  return copilotOk(
+    {
+      events: result.events,
+      suggestions: result.suggestions,
+      accepted: result.events.length,
+      rejected: result.rejected,
+      transcript,
+    },
+    201
+  );
+}
@@ -65,6 +65,17 @@ function buildEventsRouteSupabaseMock() {
 
       if (table === 'copilot_events') {
         return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              eq: jest.fn(() => ({
+                order: jest.fn(() => ({
+                  limit: jest.fn(() => ({
+                    returns: jest.fn().mockResolvedValue({ data: [], error: null }),
+                  })),
+                })),
+              })),
+            })),
+          })),
           insert: jest.fn(() => ({
             select: jest.fn(() => ({
               single: eventInsertSingle,
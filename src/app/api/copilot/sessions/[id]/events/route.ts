@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { z } from 'zod';
 import { jsonError } from '@/lib/api';
-import { llmProvider, requireEnv } from '@/lib/env';
 import { createClient } from '@/lib/supabase/server';
 import { rateLimit } from '@/lib/rateLimit';
 import { sanitizeCopilotText } from '@/lib/copilotSecurity';
 import { isSessionHeartbeatExpired, withHeartbeatMetadata } from '@/lib/copilotSession';
-import { buildSuggestionPrompt, parseSuggestionContent } from '@/lib/copilotSuggestion';
 import { sessionExpiredResponse } from '@/lib/copilotApiResponse';
+import { publishCopilotEvents, publishCopilotMessage } from '@/lib/copilotEventBus';
 import { checkIngestConsent } from '@/lib/copilotConsent';
+import {
+  appendTranscriptChunks,
+  TranscriptChunkSchema,
+  TranscriptIngestError,
+  type AppendTranscriptResult,
+} from '@/lib/copilotTranscript';
 import {
   startLatencyTracking,
   startStage,
@@ -24,11 +28,11 @@ interface Params {
   params: Promise<{ id: string }>;
 }
 
-const BodySchema = z.object({
+const ROUTE = '/api/copilot/sessions/[id]/events';
+
+// A single transcript chunk, or a system note that is stored without a suggestion
+const BodySchema = TranscriptChunkSchema.extend({
   eventType: z.enum(['transcript', 'system']).default('transcript'),
-  speaker: z.enum(['interviewer', 'candidate', 'system']).default('interviewer'),
-  text: z.string().min(1).max(4000),
-  autoSuggest: z.boolean().optional(),
 });
 
 type EventPayload = Record<string, unknown>;
@@ -71,9 +75,17 @@ export async function POST(req: NextRequest, { params }: Params) {
 
   const { data: session, error: sessionError } = await supabase
     .from('copilot_sessions')
-    .select('id, user_id, status, started_at, metadata')
+    .select('id, user_id, status, started_at, metadata, resume_document_id, job_id')
     .eq('id', id)
-    .single<{ id: string; user_id: string; status: string; started_at: string; metadata: Record<string, unknown> | null }>();
+    .single<{
+      id: string;
+      user_id: string;
+      status: string;
+      started_at: string;
+      metadata: Record<string, unknown> | null;
+      resume_document_id: string | null;
+      job_id: string | null;
+    }>();
 
   if (sessionError || !session) {
     clearLatencyTracking(requestId);
@@ -99,6 +111,7 @@ export async function POST(req: NextRequest, { params }: Params) {
       .eq('id', id)
       .eq('user_id', userData.user.id)
       .eq('status', 'active');
+    await publishCopilotMessage(id, { type: 'session', status: 'expired' });
 
     clearLatencyTracking(requestId);
     return sessionExpiredResponse(session, nowIso);
@@ -117,223 +130,97 @@ export async function POST(req: NextRequest, { params }: Params) {
   }
 
   endStage(requestId, 'ingest');
-  startStage(requestId, 'transcript_parse');
-
-  const cleanedInput = sanitizeCopilotText(parse.data.text);
-
-  const payload: EventPayload = {
-    speaker: parse.data.speaker,
-    text: cleanedInput.sanitized,
-    mode: typeof session.metadata?.mode === 'string' ? session.metadata.mode : 'general',
-    security: {
-      redactions: cleanedInput.redactions,
-      prompt_injection: cleanedInput.hasPromptInjection,
-    },
-  };
-
-  endStage(requestId, 'transcript_parse');
-  startStage(requestId, 'suggestion_persist');
-
-  const { data: createdEvent, error: insertError } = await supabase
-    .from('copilot_events')
-    .insert({
-      session_id: id,
-      user_id: userData.user.id,
-      event_type: parse.data.eventType,
-      payload,
-    })
-    .select('id, event_type, payload, created_at')
-    .single();
-
-  if (insertError || !createdEvent) {
-    logCopilotRouteError('/api/copilot/sessions/[id]/events', requestId, 'db_insert_event_failed', {
-      sessionId: id,
-      code: insertError?.code ?? null,
-    });
-    clearLatencyTracking(requestId);
-    return internalError(requestId);
-  }
-
-  const shouldSuggest =
-    parse.data.autoSuggest !== false &&
-    parse.data.eventType === 'transcript' &&
-    parse.data.speaker === 'interviewer' &&
-    !cleanedInput.hasPromptInjection;
-
-  if (!shouldSuggest) {
-    endStage(requestId, 'suggestion_persist');
-    startStage(requestId, 'delivery');
-    
-    const timings = getLatencyTimings(requestId);
-    const latencyMeta = timings ? latencyTimingsToMetadata(timings) : {};
-    
-    endStage(requestId, 'delivery');
-    logLatencyMetrics(getLatencyTimings(requestId)!, { skipped_suggestion: true });
-    clearLatencyTracking(requestId);
-
-    return NextResponse.json({
-      event: createdEvent,
-      suggestion: null,
-      blocked: cleanedInput.hasPromptInjection,
-      redactions: cleanedInput.redactions,
-      ...latencyMeta,
-    }, { status: 201 });
-  }
 
-  endStage(requestId, 'suggestion_persist');
-  startStage(requestId, 'context_retrieval');
-
-  const { data: transcriptRows } = await supabase
-    .from('copilot_events')
-    .select('id, payload, created_at')
-    .eq('session_id', id)
-    .eq('event_type', 'transcript')
-    .order('created_at', { ascending: false })
-    .limit(16);
-
-  const ordered = (transcriptRows ?? []).slice().reverse();
-  const transcriptText = ordered
-    .map((row) => {
-      const p = row.payload as EventPayload;
-      const speaker = typeof p.speaker === 'string' ? p.speaker : 'unknown';
-      const text = typeof p.text === 'string' ? p.text : '';
-      return `${speaker}: ${text}`;
-    })
-    .join('\n');
-
-  const mode = typeof payload.mode === 'string' ? payload.mode : 'general';
-
-  endStage(requestId, 'context_retrieval');
-  startStage(requestId, 'llm_inference');
-
-  try {
-    if (llmProvider() !== 'openai') {
-      logCopilotRouteError('/api/copilot/sessions/[id]/events', requestId, 'unsupported_provider');
-      clearLatencyTracking(requestId);
-      return jsonError(400, 'unsupported_provider');
-    }
-
-    const client = new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') });
-    const completion = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
-      temperature: 0.3,
-      response_format: { type: 'json_object' },
-      messages: buildSuggestionPrompt({
-        mode,
-        transcriptText: transcriptText || `${parse.data.speaker}: ${cleanedInput.sanitized}`,
-        latestQuestion: cleanedInput.sanitized,
-      }),
-    });
-
-    const content = completion.choices[0]?.message?.content ?? '{}';
-    const parsedSuggestion = parseSuggestionContent(content, mode);
-
-    endStage(requestId, 'llm_inference');
-    startStage(requestId, 'suggestion_persist');
-
-    const suggestionPayload: EventPayload = {
-      category: 'answer',
-      text: parsedSuggestion.shortAnswer,
-      based_on_event_id: createdEvent.id,
-      mode,
-      structured: parsedSuggestion.structured,
-    };
-
-    if (parsedSuggestion.talkingPoints.length > 0) {
-      suggestionPayload.talking_points = parsedSuggestion.talkingPoints;
-    }
-
-    if (parsedSuggestion.followUp) {
-      suggestionPayload.follow_up = parsedSuggestion.followUp;
-    }
-
-    if (parsedSuggestion.complexity) {
-      suggestionPayload.complexity = parsedSuggestion.complexity;
-    }
+  const mode = typeof session.metadata?.mode === 'string' ? session.metadata.mode : 'general';
+  const { eventType, ...chunk } = parse.data;
 
-    if (parsedSuggestion.edgeCases && parsedSuggestion.edgeCases.length > 0) {
-      suggestionPayload.edge_cases = parsedSuggestion.edgeCases;
-    }
-
-    if (parsedSuggestion.checklist && parsedSuggestion.checklist.length > 0) {
-      suggestionPayload.checklist = parsedSuggestion.checklist;
-    }
-
-    const { data: suggestionEvent, error: suggestionError } = await supabase
+  if (eventType === 'system') {
+    const cleanedInput = sanitizeCopilotText(chunk.text);
+    const { data: createdEvent, error: insertError } = await supabase
       .from('copilot_events')
       .insert({
         session_id: id,
         user_id: userData.user.id,
-        event_type: 'suggestion',
-        payload: suggestionPayload,
+        event_type: 'system',
+        payload: {
+          speaker: chunk.speaker,
+          text: cleanedInput.sanitized,
+          mode,
+          security: {
+            redactions: cleanedInput.redactions,
+            prompt_injection: cleanedInput.hasPromptInjection,
+          },
+        },
       })
       .select('id, event_type, payload, created_at')
       .single();
 
-    if (suggestionError) {
-      logCopilotRouteError('/api/copilot/sessions/[id]/events', requestId, 'db_insert_suggestion_failed', {
+    clearLatencyTracking(requestId);
+    if (insertError || !createdEvent) {
+      logCopilotRouteError(ROUTE, requestId, 'db_insert_event_failed', {
         sessionId: id,
-        code: suggestionError.code ?? null,
+        code: insertError?.code ?? null,
       });
-      clearLatencyTracking(requestId);
       return internalError(requestId);
     }
 
-    endStage(requestId, 'suggestion_persist');
-    startStage(requestId, 'delivery');
-
-    const timings = getLatencyTimings(requestId);
-    const latencyMeta = timings ? latencyTimingsToMetadata(timings) : {};
-    
-    endStage(requestId, 'delivery');
-    logLatencyMetrics(timings!);
-    clearLatencyTracking(requestId);
+    await publishCopilotEvents(id, [createdEvent]);
+    return NextResponse.json({ event: createdEvent, suggestion: null }, { status: 201 });
+  }
 
-    return NextResponse.json({ event: createdEvent, suggestion: suggestionEvent, ...latencyMeta }, { status: 201 });
-  } catch (e) {
-    logCopilotRouteError('/api/copilot/sessions/[id]/events', requestId, 'llm_suggestion_failed', {
+  let result: AppendTranscriptResult;
+  try {
+    result = await appendTranscriptChunks({
+      supabase,
       sessionId: id,
-      errorType: e instanceof Error ? e.name : 'unknown',
+      userId: userData.user.id,
+      mode,
+      chunks: [chunk],
+      contextLinks: { resumeDocumentId: session.resume_document_id ?? null, jobId: session.job_id ?? null },
+      logError: (errorClass, meta) => logCopilotRouteError(ROUTE, requestId, errorClass, meta),
+      latencyRequestId: requestId,
     });
+  } catch (e) {
+    clearLatencyTracking(requestId);
+    if (!(e instanceof TranscriptIngestError)) throw e;
+    logCopilotRouteError(ROUTE, requestId, e.errorClass, { sessionId: id, code: e.code });
+    return internalError(requestId);
+  }
 
-    const { data: fallbackSuggestion, error: fallbackError } = await supabase
-      .from('copilot_events')
-      .insert({
-        session_id: id,
-        user_id: userData.user.id,
-        event_type: 'suggestion',
-        payload: {
-          category: 'system',
-          text: 'Suggestion generation is temporarily unavailable. Try rephrasing the question in one short sentence.',
-          based_on_event_id: createdEvent.id,
-          mode,
-          error: 'provider_unavailable',
-        },
-      })
-      .select('id, event_type, payload, created_at')
-      .single();
-
-    if (fallbackError) {
-      logCopilotRouteError('/api/copilot/sessions/[id]/events', requestId, 'db_insert_fallback_suggestion_failed', {
-        sessionId: id,
-        code: fallbackError.code ?? null,
-      });
-    }
-
-    // Log latency metrics even on error path
-    const timings = getLatencyTimings(requestId);
-    if (timings) {
-      logLatencyMetrics(timings, { error: 'llm_suggestion_failed' });
-    }
+  const event = result.events[0];
+  if (!event) {
     clearLatencyTracking(requestId);
+    return jsonError(400, 'invalid_body', { text: 'empty_after_sanitization' });
+  }
 
-    return NextResponse.json(
-      {
-        event: createdEvent,
-        suggestion: fallbackSuggestion ?? null,
-        requestId,
-      },
-      { status: 201 },
+  const suggestion = result.suggestions[0] ?? null;
+  const eventPayload = event.payload as EventPayload;
+  const security = (eventPayload.security ?? {}) as EventPayload;
+
+  startStage(requestId, 'delivery');
+  const timings = getLatencyTimings(requestId);
+  const latencyMeta = timings ? latencyTimingsToMetadata(timings) : {};
+  endStage(requestId, 'delivery');
+
+  const finalTimings = getLatencyTimings(requestId);
+  if (finalTimings) {
+    const suggestionFailed = (suggestion?.payload as EventPayload | undefined)?.category === 'system';
+    logLatencyMetrics(
+      finalTimings,
+      !suggestion ? { skipped_suggestion: true } : suggestionFailed ? { error: 'llm_suggestion_failed' } : undefined
     );
   }
+  clearLatencyTracking(requestId);
+
+  return NextResponse.json(
+    {
+      event,
+      suggestion,
+      blocked: security.prompt_injection === true,
+      redactions: security.redactions ?? [],
+      question: eventPayload.question ?? null,
+      ...latencyMeta,
+    },
+    { status: 201 }
+  );
 }
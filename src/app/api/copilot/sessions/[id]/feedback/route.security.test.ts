@@ -0,0 +1,170 @@
+import type { NextRequest } from 'next/server';
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('@/lib/rateLimit', () => ({
+  rateLimit: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+const { rateLimit } = jest.requireMock('@/lib/rateLimit') as {
+  rateLimit: jest.Mock;
+};
+const { createClient } = jest.requireMock('@/lib/supabase/server') as {
+  createClient: jest.Mock;
+};
+
+const SUGGESTION_ID = '5f0c6a3e-8f0a-4c1e-9a57-0b4b1f4f2d10';
+
+function postRequest(body: unknown, headers: Record<string, string> = {}) {
+  return {
+    headers: new Headers({ 'content-type': 'application/json', ...headers }),
+    json: async () => body,
+  } as unknown as NextRequest;
+}
+
+function buildSupabaseMock(options: { sessionUserId?: string; event?: Record<string, unknown> | null; upsertError?: Record<string, unknown> | null }) {
+  const upsert = jest.fn(() => ({
+    select: jest.fn(() => ({
+      single: jest.fn().mockResolvedValue(
+        options.upsertError ? { data: null, error: options.upsertError } : { data: { id: 'feedback-1', rating: 'helpful' }, error: null },
+      ),
+    })),
+  }));
+
+  const client = {
+    auth: {
+      getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+    },
+    from: jest.fn((table: string) => {
+      if (table === 'copilot_sessions') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              single: jest.fn().mockResolvedValue({
+                data: { id: 'session-1', user_id: options.sessionUserId ?? 'user-1' },
+                error: null,
+              }),
+            })),
+          })),
+        };
+      }
+
+      if (table === 'copilot_events') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              eq: jest.fn(() => ({
+                eq: jest.fn(() => ({
+                  maybeSingle: jest.fn().mockResolvedValue({ data: options.event ?? null, error: null }),
+                })),
+              })),
+            })),
+          })),
+        };
+      }
+
+      if (table === 'copilot_suggestion_feedback') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+            })),
+          })),
+          upsert,
+        };
+      }
+
+      throw new Error(`Unexpected table: ${table}`);
+    }),
+  };
+
+  return { client, upsert };
+}
+
+describe('copilot feedback route security responses', () => {
+  const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rateLimit.mockResolvedValue({ ok: true });
+  });
+
+  afterAll(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('rejects a body without feedback fields', async () => {
+    const { POST } = await import('./route');
+
+    const response = await POST(postRequest({ suggestionId: SUGGESTION_ID }), {
+      params: Promise.resolve({ id: 'session-1' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(createClient).not.toHaveBeenCalled();
+  });
+
+  it('returns session_not_found for non-owner access', async () => {
+    const { client, upsert } = buildSupabaseMock({ sessionUserId: 'user-2' });
+    createClient.mockResolvedValue(client);
+
+    const { POST } = await import('./route');
+
+    const response = await POST(postRequest({ suggestionId: SUGGESTION_ID, rating: 'helpful' }), {
+      params: Promise.resolve({ id: 'session-1' }),
+    });
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: 'session_not_found' });
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('only records feedback against suggestion events', async () => {
+    const { client, upsert } = buildSupabaseMock({
+      event: { id: SUGGESTION_ID, event_type: 'transcript', payload: { text: 'hello' } },
+    });
+    createClient.mockResolvedValue(client);
+
+    const { POST } = await import('./route');
+
+    const response = await POST(postRequest({ suggestionId: SUGGESTION_ID, used: true }), {
+      params: Promise.resolve({ id: 'session-1' }),
+    });
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: 'suggestion_not_found' });
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns internal_error envelope with requestId when the feedback write fails', async () => {
+    const { client } = buildSupabaseMock({
+      event: { id: SUGGESTION_ID, event_type: 'suggestion', payload: { text: 'Use a queue', model: 'gpt-4o-mini' } },
+      upsertError: { code: '23503', message: 'sensitive backend details' },
+    });
+    createClient.mockResolvedValue(client);
+
+    const { POST } = await import('./route');
+
+    const response = await POST(
+      postRequest({ suggestionId: SUGGESTION_ID, rating: 'helpful' }, { 'x-request-id': 'req-feedback-1' }),
+      { params: Promise.resolve({ id: 'session-1' }) },
+    );
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: 'internal_error',
+      extra: { requestId: 'req-feedback-1' },
+    });
+  });
+});
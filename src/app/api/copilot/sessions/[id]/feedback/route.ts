@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server';
+import { jsonError } from '@/lib/api';
+import { createClient } from '@/lib/supabase/server';
+import { rateLimit } from '@/lib/rateLimit';
+import { copilotOk, copilotRateLimited } from '@/lib/copilotApiResponse';
+import {
+  buildFeedbackUpsert,
+  FEEDBACK_COLUMNS,
+  listSessionFeedback,
+  SuggestionFeedbackInputSchema,
+  summarizeSuggestionFeedback,
+  type FeedbackSuggestionEvent,
+  type SuggestionFeedback,
+} from '@/lib/copilotFeedback';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+const ROUTE = '/api/copilot/sessions/[id]/feedback';
+
+function getRequestId(req: NextRequest) {
+  return req.headers.get('x-request-id') || crypto.randomUUID();
+}
+
+function logCopilotRouteError(route: string, requestId: string, errorClass: string, meta?: Record<string, unknown>) {
+  console.error('[copilot]', { route, requestId, errorClass, ...(meta ?? {}) });
+}
+
+function internalError(requestId: string) {
+  return jsonError(500, 'internal_error', { requestId });
+}
+
+async function loadOwnedSession(supabase: Awaited<ReturnType<typeof createClient>>, id: string, userId: string) {
+  const { data: session, error } = await supabase
+    .from('copilot_sessions')
+    .select('id, user_id')
+    .eq('id', id)
+    .single<{ id: string; user_id: string }>();
+
+  if (error || !session || session.user_id !== userId) return null;
+  return session;
+}
+
+/**
+ * GET /api/copilot/sessions/[id]/feedback
+ * Feedback recorded for the session's suggestions, with totals and a
+ * breakdown per mode, model and prompt version
+ */
+export async function GET(req: NextRequest, { params }: Params) {
+  const requestId = getRequestId(req);
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `copilot:feedback:get:${ip}`, limit: 120, windowMs: 60_000 });
+  if (!rl.ok) return copilotRateLimited();
+
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return jsonError(401, 'unauthorized');
+
+  const session = await loadOwnedSession(supabase, id, userData.user.id);
+  if (!session) return jsonError(404, 'session_not_found');
+
+  try {
+    const { feedback, suggestions } = await listSessionFeedback(supabase, id, userData.user.id);
+    return copilotOk({ feedback, summary: summarizeSuggestionFeedback(feedback, suggestions) });
+  } catch (error) {
+    logCopilotRouteError(ROUTE, requestId, 'db_fetch_feedback_failed', {
+      sessionId: id,
+      code: (error as { code?: string } | null)?.code ?? null,
+    });
+    return internalError(requestId);
+  }
+}
+
+/**
+ * POST /api/copilot/sessions/[id]/feedback
+ * Body: { suggestionId, rating?: 'helpful' | 'not_helpful' | null, used?: boolean | null,
+ *         editedText?: string | null, glanceMs?: number }
+ *
+ * Records feedback for one suggestion. Calls accumulate: fields left out
+ * keep their stored value, and only the first glance is kept.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const requestId = getRequestId(req);
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `copilot:feedback:${ip}`, limit: 120, windowMs: 60_000 });
+  if (!rl.ok) return copilotRateLimited();
+
+  const parse = SuggestionFeedbackInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return jsonError(401, 'unauthorized');
+
+  const userId = userData.user.id;
+  const session = await loadOwnedSession(supabase, id, userId);
+  if (!session) return jsonError(404, 'session_not_found');
+
+  const { data: suggestion } = await supabase
+    .from('copilot_events')
+    .select('id, event_type, payload')
+    .eq('id', parse.data.suggestionId)
+    .eq('session_id', id)
+    .eq('user_id', userId)
+    .maybeSingle<FeedbackSuggestionEvent>();
+
+  if (!suggestion || suggestion.event_type !== 'suggestion') return jsonError(404, 'suggestion_not_found');
+
+  const { data: existing } = await supabase
+    .from('copilot_suggestion_feedback')
+    .select('glance_ms')
+    .eq('suggestion_event_id', suggestion.id)
+    .maybeSingle<Pick<SuggestionFeedback, 'glance_ms'>>();
+
+  const { data: feedback, error: upsertError } = await supabase
+    .from('copilot_suggestion_feedback')
+    .upsert(buildFeedbackUpsert(parse.data, suggestion, existing ?? null, { sessionId: id, userId }), {
+      onConflict: 'suggestion_event_id',
+    })
+    .select(FEEDBACK_COLUMNS)
+    .single<SuggestionFeedback>();
+
+  if (upsertError || !feedback) {
+    logCopilotRouteError(ROUTE, requestId, 'db_upsert_feedback_failed', {
+      sessionId: id,
+      code: upsertError?.code ?? null,
+    });
+    return internalError(requestId);
+  }
+
+  return copilotOk({ feedback });
+}
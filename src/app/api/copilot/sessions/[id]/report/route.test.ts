@@ -98,6 +98,38 @@ function buildReportSupabaseMock(options: BuildReportSupabaseMockOptions = {}) {
         };
       }
 
+      if (table === 'copilot_suggestion_feedback') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              eq: jest.fn(() => ({
+                order: jest.fn(() => ({
+                  returns: jest.fn().mockResolvedValue({
+                    data: [
+                      { rating: 'helpful', used: true, edited_text: null, glance_ms: 800, mode: 'general', model: 'gpt-4o-mini', prompt_id: 'copilot_suggestion', prompt_version: 'v1' },
+                      { rating: 'not_helpful', used: false, edited_text: null, glance_ms: null, mode: 'general', model: 'gpt-4o-mini', prompt_id: 'copilot_suggestion', prompt_version: 'v1' },
+                    ],
+                    error: null,
+                  }),
+                })),
+              })),
+            })),
+          })),
+        };
+      }
+
+      if (table === 'copilot_events') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              eq: jest.fn(() => ({
+                eq: jest.fn().mockResolvedValue({ count: 3, error: null }),
+              })),
+            })),
+          })),
+        };
+      }
+
       throw new Error(`Unexpected table: ${table}`);
     }),
   };
@@ -137,6 +169,11 @@ describe('copilot report route', () => {
       },
       report: expect.any(Object),
       summary: expect.objectContaining({ id: 'sum-1' }),
+      feedback: {
+        suggestions: 3,
+        totals: expect.objectContaining({ samples: 2, helpful: 1, not_helpful: 1, helpful_rate: 0.5, avg_glance_ms: 800 }),
+        by_prompt: [expect.objectContaining({ prompt_id: 'copilot_suggestion', prompt_version: 'v1', samples: 2 })],
+      },
     });
   });
 
@@ -4,6 +4,7 @@ import { jsonError } from '@/lib/api';
 import { copilotOk, copilotRateLimited } from '@/lib/copilotApiResponse';
 import { rateLimit } from '@/lib/rateLimit';
 import { normalizeMockInterviewReport } from '@/lib/mockInterviewReport';
+import { loadSessionFeedbackSummary } from '@/lib/copilotFeedback';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -84,6 +85,7 @@ export async function GET(req: NextRequest, { params }: Params) {
   const payload = {
     report,
     summary: reportSource,
+    feedback: await loadSessionFeedbackSummary(supabase, id, userId),
   };
 
   return copilotOk(payload);
@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
+import { verifyContextLinks } from '@/lib/copilotContext';
 
 interface Params {
   params: Promise<{ id: string }>;
 }
 
+// null unlinks; omitted fields are left unchanged
+const PatchSchema = z
+  .object({
+    resumeDocumentId: z.string().uuid().nullable().optional(),
+    jobId: z.string().uuid().nullable().optional(),
+  })
+  .refine((body) => body.resumeDocumentId !== undefined || body.jobId !== undefined, 'nothing to update');
+
+const SESSION_COLUMNS =
+  'id, user_id, interview_session_id, title, metadata, status, started_at, stopped_at, duration_seconds, consumed_minutes, resume_document_id, job_id, created_at, updated_at';
+
 function getRequestId(req: NextRequest) {
   return req.headers.get('x-request-id') || crypto.randomUUID();
 }
@@ -37,7 +50,7 @@ export async function GET(req: NextRequest, { params }: Params) {
 
   const { data: session, error: sessionError } = await supabase
     .from('copilot_sessions')
-    .select('id, user_id, interview_session_id, title, metadata, status, started_at, stopped_at, duration_seconds, consumed_minutes, created_at, updated_at')
+    .select(SESSION_COLUMNS)
     .eq('id', id)
     .eq('user_id', userId)
     .single();
@@ -83,6 +96,53 @@ export async function GET(req: NextRequest, { params }: Params) {
   });
 }
 
+/**
+ * PATCH /api/copilot/sessions/[id]
+ * Body: { resumeDocumentId?: uuid | null, jobId?: uuid | null }
+ * Links the resume and target job used to ground suggestions
+ */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const requestId = getRequestId(req);
+  const rl = await rateLimit({ key: `copilot:patch:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return jsonError(429, 'rate_limited');
+
+  const parse = PatchSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return jsonError(401, 'unauthorized');
+
+  const linkError = await verifyContextLinks(supabase, parse.data);
+  if (linkError) return jsonError(404, linkError);
+
+  const update: Record<string, string | null> = {};
+  if (parse.data.resumeDocumentId !== undefined) update.resume_document_id = parse.data.resumeDocumentId;
+  if (parse.data.jobId !== undefined) update.job_id = parse.data.jobId;
+
+  const { data: session, error: updateError } = await supabase
+    .from('copilot_sessions')
+    .update(update)
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .select(SESSION_COLUMNS)
+    .maybeSingle();
+
+  if (updateError) {
+    logCopilotRouteError('/api/copilot/sessions/[id]', requestId, 'db_update_session_failed', {
+      sessionId: id,
+      code: updateError.code ?? null,
+    });
+    return internalError(requestId);
+  }
+  if (!session) return jsonError(404, 'session_not_found');
+
+  return NextResponse.json({ session });
+}
+
 export async function DELETE(req: NextRequest, { params }: Params) {
   const requestId = getRequestId(req);
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
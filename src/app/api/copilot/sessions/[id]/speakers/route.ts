@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { jsonError } from '@/lib/api';
+import { createClient } from '@/lib/supabase/server';
+import { rateLimit } from '@/lib/rateLimit';
+import { copilotOk, copilotRateLimited } from '@/lib/copilotApiResponse';
+import { getSpeakerMap, isSpeakerLabel, relabelSessionSpeaker } from '@/lib/copilotSpeakers';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+const ROUTE = '/api/copilot/sessions/[id]/speakers';
+
+const RelabelSchema = z.object({
+  label: z.string().refine(isSpeakerLabel, 'invalid speaker label'),
+  speaker: z.enum(['interviewer', 'candidate']),
+});
+
+type SessionRow = { id: string; user_id: string; metadata: Record<string, unknown> | null };
+
+function getRequestId(req: NextRequest) {
+  return req.headers.get('x-request-id') || crypto.randomUUID();
+}
+
+function logCopilotRouteError(route: string, requestId: string, errorClass: string, meta?: Record<string, unknown>) {
+  console.error('[copilot]', { route, requestId, errorClass, ...(meta ?? {}) });
+}
+
+function internalError(requestId: string) {
+  return jsonError(500, 'internal_error', { requestId });
+}
+
+async function loadOwnedSession(supabase: Awaited<ReturnType<typeof createClient>>, id: string, userId: string) {
+  const { data: session, error } = await supabase
+    .from('copilot_sessions')
+    .select('id, user_id, metadata')
+    .eq('id', id)
+    .single<SessionRow>();
+
+  if (error || !session || session.user_id !== userId) return null;
+  return session;
+}
+
+/**
+ * GET /api/copilot/sessions/[id]/speakers
+ * Current speaker label -> role mapping
+ */
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return jsonError(401, 'unauthorized');
+
+  const session = await loadOwnedSession(supabase, id, userData.user.id);
+  if (!session) return jsonError(404, 'session_not_found');
+
+  return copilotOk({ speaker_map: getSpeakerMap(session.metadata) });
+}
+
+/**
+ * POST /api/copilot/sessions/[id]/speakers
+ * Body: { label: 'speaker:0' | 'channel:mic' | 'channel:tab', speaker: 'interviewer' | 'candidate' }
+ *
+ * Corrects the role for a label; future chunks use it and stored
+ * transcript events with that label are relabeled.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const requestId = getRequestId(req);
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `copilot:speakers:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return copilotRateLimited();
+
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return jsonError(401, 'unauthorized');
+
+  const body = await req.json().catch(() => null);
+  const parsed = RelabelSchema.safeParse(body);
+  if (!parsed.success) return jsonError(400, 'invalid_body', parsed.error.flatten());
+
+  const session = await loadOwnedSession(supabase, id, userData.user.id);
+  if (!session) return jsonError(404, 'session_not_found');
+
+  try {
+    const { speakerMap, updated } = await relabelSessionSpeaker(
+      supabase,
+      session,
+      parsed.data.label,
+      parsed.data.speaker
+    );
+    return copilotOk({ speaker_map: speakerMap, updated });
+  } catch (e) {
+    logCopilotRouteError(ROUTE, requestId, 'db_relabel_speaker_failed', {
+      sessionId: id,
+      code: (e as { code?: string } | null)?.code ?? null,
+    });
+    return internalError(requestId);
+  }
+}
@@ -3,8 +3,15 @@ import { jsonError } from '@/lib/api';
 import { createClient } from '@/lib/supabase/server';
 import { rateLimit } from '@/lib/rateLimit';
 import { isSessionHeartbeatExpired, withHeartbeatMetadata } from '@/lib/copilotSession';
-import { buildEventCursor, filterEventsAfterCursor, parseEventCursor } from '@/lib/copilotStreamCursor';
+import {
+  buildEventCursor,
+  catchUpSince,
+  filterEventsAfterCursor,
+  isEventAfterCursor,
+  parseEventCursor,
+} from '@/lib/copilotStreamCursor';
 import { checkIngestConsent } from '@/lib/copilotConsent';
+import { subscribeCopilotSession } from '@/lib/copilotEventBus';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -32,17 +39,17 @@ type EventRow = {
   created_at: string;
 };
 
-const POLL_MS = 1500;
+// New events are pushed over the event bus; the database is re-read this
+// often anyway to catch missed messages and heartbeat expiry
+const RESYNC_MS = 15_000;
+// Ingest requests can publish out of created_at order; resyncs re-read this far behind the cursor
+const CATCH_UP_WINDOW_MS = 30_000;
 
 function sse(event: string, payload: unknown, id?: string) {
   const prefix = id ? `id: ${id}\n` : '';
   return `${prefix}event: ${event}\ndata: ${JSON.stringify({ type: event, payload })}\n\n`;
 }
 
-function sleep(ms: number) {
-  return new Promise<void>((resolve) => setTimeout(resolve, ms));
-}
-
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
@@ -72,95 +79,177 @@ export async function GET(req: NextRequest, { params }: Params) {
   const encoder = new TextEncoder();
   const resumeCursor = parseEventCursor(req.headers.get('last-event-id'));
 
+  // Ends the loop when the client disconnects or the stream is cancelled
+  let stop = () => {};
+
   const stream = new ReadableStream<Uint8Array>({
     async start(controller) {
-      controller.enqueue(encoder.encode(sse('connected', { sessionId: id })));
+      let keepRunning = !req.signal.aborted;
+
+      // Bus callbacks can fire after the client has gone; drop those writes
+      const send = (chunk: string) => {
+        if (!keepRunning) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          keepRunning = false;
+        }
+      };
+
+      send(sse('connected', { sessionId: id }));
 
-      let keepRunning = true;
       let cursor = resumeCursor;
+      let resync = true;
+      const pushed: EventRow[] = [];
+      // Ids sent on this connection; the cursor only moves forward, so late rows are matched by id
+      const sentIds = new Set<string>();
+
+      const deliver = (row: EventRow) => {
+        sentIds.add(row.id);
+        if (!cursor || isEventAfterCursor(row, cursor)) cursor = { createdAt: row.created_at, id: row.id };
+        send(sse('copilot_event', row, buildEventCursor(cursor.createdAt, cursor.id)));
+      };
+      let wake: (() => void) | null = null;
+
+      // Subscribe before the first database read so nothing published in between is missed
+      const unsubscribe = subscribeCopilotSession(id, (message) => {
+        if (!keepRunning) return;
+        if (message.type === 'suggestion.delta') {
+          // Partial suggestion text goes straight out; it is not stored or replayed
+          send(sse('suggestion.delta', message.delta));
+          return;
+        }
+        if (message.type === 'copilot_event') pushed.push(message.event);
+        else resync = true;
+        wake?.();
+      });
 
-      req.signal.addEventListener('abort', () => {
+      const waitForMessage = () =>
+        new Promise<void>((resolve) => {
+          const timer = setTimeout(() => {
+            resync = true;
+            wake = null;
+            resolve();
+          }, RESYNC_MS);
+          wake = () => {
+            clearTimeout(timer);
+            wake = null;
+            resolve();
+          };
+        });
+
+      stop = () => {
         keepRunning = false;
-      });
+        unsubscribe();
+        wake?.();
+      };
+      req.signal.addEventListener('abort', stop);
 
       while (keepRunning) {
-        const { data: currentSession } = await supabase
-          .from('copilot_sessions')
-          .select('id, status, title, started_at, stopped_at, consumed_minutes, metadata')
-          .eq('id', id)
-          .maybeSingle<Pick<SessionRow, 'id' | 'status' | 'title' | 'started_at' | 'stopped_at' | 'consumed_minutes' | 'metadata'>>();
-
-        if (!currentSession) {
-          controller.enqueue(encoder.encode(sse('session', { ...session, status: 'expired' })));
-          break;
-        }
+        if (resync) {
+          resync = false;
+          pushed.length = 0;
 
-        if (isSessionHeartbeatExpired(currentSession)) {
-          const nowIso = new Date().toISOString();
-
-          const { data: expiredSession } = await supabase
+          const { data: currentSession } = await supabase
             .from('copilot_sessions')
-            .update({
-              status: 'expired',
-              stopped_at: nowIso,
-              metadata: {
-                ...withHeartbeatMetadata(currentSession.metadata, nowIso),
-                expired_reason: 'heartbeat_timeout',
-              },
-            })
-            .eq('id', id)
-            .eq('user_id', userData.user.id)
-            .eq('status', 'active')
             .select('id, status, title, started_at, stopped_at, consumed_minutes, metadata')
+            .eq('id', id)
             .maybeSingle<Pick<SessionRow, 'id' | 'status' | 'title' | 'started_at' | 'stopped_at' | 'consumed_minutes' | 'metadata'>>();
 
-          const payload = expiredSession ?? { ...currentSession, status: 'expired', stopped_at: nowIso };
-          controller.enqueue(encoder.encode(sse('session', payload)));
-          break;
-        }
-
-        let eventQuery = supabase
-          .from('copilot_events')
-          .select('id, event_type, payload, created_at')
-          .eq('session_id', id)
-          .order('created_at', { ascending: true })
-          .order('id', { ascending: true })
-          .limit(300);
-
-        if (cursor) {
-          eventQuery = eventQuery.gte('created_at', cursor.createdAt);
-        }
-
-        const { data: events } = await eventQuery.returns<EventRow[]>();
-        const nextEvents = filterEventsAfterCursor(events ?? [], cursor);
-
-        if (!cursor) {
-          controller.enqueue(
-            encoder.encode(
+          if (!currentSession) {
+            send(sse('session', { ...session, status: 'expired' }));
+            break;
+          }
+
+          if (isSessionHeartbeatExpired(currentSession)) {
+            const nowIso = new Date().toISOString();
+
+            const { data: expiredSession } = await supabase
+              .from('copilot_sessions')
+              .update({
+                status: 'expired',
+                stopped_at: nowIso,
+                metadata: {
+                  ...withHeartbeatMetadata(currentSession.metadata, nowIso),
+                  expired_reason: 'heartbeat_timeout',
+                },
+              })
+              .eq('id', id)
+              .eq('user_id', userData.user.id)
+              .eq('status', 'active')
+              .select('id, status, title, started_at, stopped_at, consumed_minutes, metadata')
+              .maybeSingle<Pick<SessionRow, 'id' | 'status' | 'title' | 'started_at' | 'stopped_at' | 'consumed_minutes' | 'metadata'>>();
+
+            const payload = expiredSession ?? { ...currentSession, status: 'expired', stopped_at: nowIso };
+            send(sse('session', payload));
+            break;
+          }
+
+          let eventQuery = supabase
+            .from('copilot_events')
+            .select('id, event_type, payload, created_at')
+            .eq('session_id', id)
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(300);
+
+          // Before anything is sent the client's cursor is exact; after that, catch up on late rows
+          const catchingUp = sentIds.size > 0;
+          if (cursor) {
+            eventQuery = eventQuery.gte(
+              'created_at',
+              catchingUp ? catchUpSince(cursor, CATCH_UP_WINDOW_MS) : cursor.createdAt,
+            );
+          }
+
+          const { data: events } = await eventQuery.returns<EventRow[]>();
+          const nextEvents = catchingUp
+            ? (events ?? []).filter((row) => !sentIds.has(row.id))
+            : filterEventsAfterCursor(events ?? [], cursor);
+
+          if (!cursor) {
+            send(
               sse('snapshot', {
                 session: currentSession,
                 events: events ?? [],
               }),
-            ),
-          );
-        }
+            );
+          }
 
-        for (const row of nextEvents) {
-          const eventCursor = buildEventCursor(row.created_at, row.id);
-          cursor = { createdAt: row.created_at, id: row.id };
-          controller.enqueue(encoder.encode(sse('copilot_event', row, eventCursor)));
-        }
+          for (const row of nextEvents) {
+            deliver(row);
+          }
+
+          send(sse('session', currentSession));
 
-        controller.enqueue(encoder.encode(sse('session', currentSession)));
+          if (currentSession.status !== 'active') {
+            break;
+          }
+        }
 
-        if (currentSession.status !== 'active') {
-          break;
+        // Pushed rows may repeat what the resync already sent. A new row behind the
+        // cursor was published out of order: send it and re-read for any others
+        const ordered = pushed
+          .splice(0)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+        for (const row of ordered) {
+          if (sentIds.has(row.id)) continue;
+          if (cursor && !isEventAfterCursor(row, cursor)) resync = true;
+          deliver(row);
         }
 
-        await sleep(POLL_MS);
+        if (keepRunning && !resync && pushed.length === 0) {
+          await waitForMessage();
+        }
       }
 
-      controller.close();
+      const open = keepRunning;
+      keepRunning = false;
+      unsubscribe();
+      if (open) controller.close();
+    },
+    cancel() {
+      stop();
     },
   });
 
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { jsonError } from '@/lib/api';
-import { llmProvider, requireEnv } from '@/lib/env';
 import { createClient } from '@/lib/supabase/server';
 import { rateLimit } from '@/lib/rateLimit';
+import { runStructuredLLMTask } from '@/lib/llmTaskRunner';
+import { renderPrompt } from '@/lib/promptRegistry';
 import { sanitizeCopilotText } from '@/lib/copilotSecurity';
 import {
   fallbackMockInterviewReport,
+  MockInterviewReportSchema,
   normalizeMockInterviewReport,
   reportToLegacyPayload,
 } from '@/lib/mockInterviewReport';
@@ -90,33 +91,22 @@ export async function POST(req: NextRequest, { params }: Params) {
   const mode = typeof session.metadata?.mode === 'string' ? session.metadata.mode : 'general';
 
   let report = fallbackMockInterviewReport(mode);
+  const prompt = renderPrompt('copilot_summary', { mode, transcript }, { bucketKey: id });
+  let generatedByPrompt = false;
 
   try {
-    if (llmProvider() !== 'openai') {
-      logCopilotRouteError('/api/copilot/sessions/[id]/summarize', requestId, 'unsupported_provider');
-      return jsonError(400, 'unsupported_provider');
-    }
-
-    const client = new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') });
-    const completion = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
+    // Summarizing an unchanged session again is served from the LLM cache
+    const completion = await runStructuredLLMTask({
+      taskType: prompt.taskType,
+      userId: userData.user.id,
       temperature: 0.2,
-      response_format: { type: 'json_object' },
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are an interview coach creating final evaluation reports. Be specific, concise, and actionable. Return strict JSON only.',
-        },
-        {
-          role: 'user',
-          content: `Mode: ${mode}\n\nSession log:\n${transcript}\n\nReturn JSON with keys:\n- overall_score (0-100 number)\n- hiring_signal (one of: strong_no_hire, no_hire, lean_no_hire, lean_hire, hire, strong_hire)\n- summary (string)\n- strengths (string[])\n- weaknesses (string[])\n- next_steps (string[])\n- rubric (object with dimensions: communication, technical_accuracy, problem_solving, structure, ownership, role_fit).\nEach dimension must include: score (1-5), evidence (string), recommendation (string).`,
-        },
-      ],
+      schema: MockInterviewReportSchema,
+      schemaName: 'mock_interview_report',
+      messages: prompt.messages,
     });
 
-    const raw = completion.choices[0]?.message?.content ?? '{}';
-    report = normalizeMockInterviewReport(JSON.parse(raw), mode);
+    report = normalizeMockInterviewReport(completion.data, mode);
+    generatedByPrompt = true;
   } catch (e) {
     logCopilotRouteError('/api/copilot/sessions/[id]/summarize', requestId, 'llm_summary_failed', {
       sessionId: id,
@@ -127,7 +117,10 @@ export async function POST(req: NextRequest, { params }: Params) {
   }
 
   const content = report.summary || 'Session summary generated.';
-  const payload = reportToLegacyPayload(report);
+  const payload = {
+    ...reportToLegacyPayload(report),
+    ...(generatedByPrompt ? { prompt_id: prompt.promptId, prompt_version: prompt.promptVersion } : {}),
+  };
 
   const [{ data: savedSummary, error: summaryError }, { error: reportSummaryError }] = await Promise.all([
     supabase
@@ -6,10 +6,14 @@ import { rateLimit } from '@/lib/rateLimit';
 import { getCopilotQuotaSnapshot } from '@/lib/copilot';
 import { withHeartbeatMetadata } from '@/lib/copilotSession';
 import { grantConsentMetadata } from '@/lib/copilotConsent';
+import { verifyContextLinks } from '@/lib/copilotContext';
 
 const BodySchema = z.object({
   title: z.string().min(1).max(200).optional(),
   interviewSessionId: z.string().uuid().optional(),
+  /** Resume and target job used to ground suggestions */
+  resumeDocumentId: z.string().uuid().optional(),
+  jobId: z.string().uuid().optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
@@ -36,6 +40,9 @@ export async function POST(req: NextRequest) {
     });
   }
 
+  const linkError = await verifyContextLinks(supabase, parse.data);
+  if (linkError) return jsonError(404, linkError);
+
   const nowIso = new Date().toISOString();
 
   const { data, error } = await supabase
@@ -44,11 +51,13 @@ export async function POST(req: NextRequest) {
       user_id: userId,
       interview_session_id: parse.data.interviewSessionId ?? null,
       title: parse.data.title ?? null,
+      resume_document_id: parse.data.resumeDocumentId ?? null,
+      job_id: parse.data.jobId ?? null,
       metadata: grantConsentMetadata(withHeartbeatMetadata(parse.data.metadata ?? {}, nowIso), nowIso),
       status: 'active',
       started_at: nowIso,
     })
-    .select('id, user_id, interview_session_id, title, metadata, status, started_at, stopped_at, duration_seconds, consumed_minutes, created_at, updated_at')
+    .select('id, user_id, interview_session_id, title, metadata, status, started_at, stopped_at, duration_seconds, consumed_minutes, resume_document_id, job_id, created_at, updated_at')
     .single();
 
   if (error) return jsonError(500, 'db_error', error);
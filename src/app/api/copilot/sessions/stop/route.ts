@@ -10,6 +10,7 @@ import {
   recordCopilotUsage,
 } from '@/lib/copilot';
 import { revokeConsentMetadata } from '@/lib/copilotConsent';
+import { publishCopilotMessage } from '@/lib/copilotEventBus';
 
 const BodySchema = z.object({
   sessionId: z.string().uuid(),
@@ -80,6 +81,8 @@ export async function POST(req: NextRequest) {
 
   if (updateError) return jsonError(500, 'db_error', updateError);
 
+  await publishCopilotMessage(session.id, { type: 'session', status: 'stopped' });
+
   return NextResponse.json({
     session: updated,
     usage: {
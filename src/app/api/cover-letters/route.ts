@@ -4,6 +4,7 @@ import { createClient } from '@/lib/supabase/server';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
 import { generateCoverLetter, saveCoverLetter, getUserCoverLetters } from '@/lib/coverLetter';
+import { LLMBudgetExceededError } from '@/lib/llmBudget';
 
 // Validation schema for generating a cover letter
 const GenerateSchema = z.object({
@@ -71,7 +72,7 @@ export async function POST(req: NextRequest) {
       tone: input.tone,
       userName: input.userName,
       additionalContext: input.additionalContext,
-    });
+    }, userData.user.id);
 
     // Save to database if requested
     let savedCoverLetter = null;
@@ -86,6 +87,8 @@ export async function POST(req: NextRequest) {
         metadata: {
           matchedKeywords: result.matchedKeywords,
           alignmentScore: result.alignmentScore,
+          promptId: result.promptId,
+          promptVersion: result.promptVersion,
           jobTitle: input.jobTitle,
           companyName: input.companyName,
         },
@@ -101,6 +104,14 @@ export async function POST(req: NextRequest) {
       },
     }, { status: 201 });
   } catch (error) {
+    if (error instanceof LLMBudgetExceededError) {
+      return jsonError(403, 'llm_budget_exceeded', {
+        scope: error.scope,
+        spent_cents: error.budget.spentCents,
+        budget_cents: error.budget.budgetCents,
+        message: 'Monthly AI spend budget exceeded',
+      });
+    }
     console.error('Cover letter generation failed:', error);
     return jsonError(500, 'generation_failed', { 
       message: error instanceof Error ? error.message : 'Failed to generate cover letter' 
@@ -0,0 +1,117 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { checkQuota } from '@/lib/quota';
+import { checkLLMBudget, recordLLMUsage } from '@/lib/llmBudget';
+import { checkRateLimit, getSTTAuthContext, validateAuth, type STTAuthContext } from '@/lib/sttProviders';
+import { TTSAllProvidersFailedError } from '@/lib/ttsProvider';
+import { getTTSRegistry } from '@/lib/ttsProviders';
+
+const QuerySchema = z.object({
+  voice: z.string().trim().min(1).max(40).optional(),
+  speed: z.coerce.number().min(0.5).max(2).optional(),
+});
+
+/**
+ * GET /api/interviews/[id]/messages/[messageId]/audio
+ * Voice mode: the interviewer's message as speech. Falls back to the
+ * stand-in voice when no TTS provider is available. Metered like the STT
+ * path: plan-tier speech limits, interview time quotas and the LLM budget,
+ * with a ledger row per synthesis.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string; messageId: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `interview_msgs:tts:${ip}`, limit: 60, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const query = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!query.success) return jsonError(400, 'invalid_query', query.error.flatten());
+
+  const { id, messageId } = await ctx.params;
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const userId = userData.user.id;
+
+  let auth: STTAuthContext;
+  try {
+    auth = await getSTTAuthContext(userId);
+    validateAuth(auth);
+    await checkRateLimit(auth);
+  } catch (e) {
+    const err = e as Error & { statusCode?: number; retryAfter?: number };
+    if (err.statusCode === 429) return jsonError(429, 'rate_limited', { retryAfterMs: err.retryAfter ?? null });
+    if (err.statusCode) return jsonError(err.statusCode, 'unauthorized');
+    throw e;
+  }
+
+  const { data: message } = await supabase
+    .from('interview_session_messages')
+    .select('id, role, content')
+    .eq('id', messageId)
+    .eq('session_id', id)
+    .eq('user_id', userId)
+    .single<{ id: string; role: string; content: string }>();
+
+  // Only the interviewer's side is spoken
+  if (!message || message.role !== 'assistant') return jsonError(404, 'not_found');
+
+  // Session and daily time limits, as for spoken answers
+  for (const counter of ['copilot_session_minutes', 'copilot_daily_minutes'] as const) {
+    const quota = await checkQuota(userId, counter);
+    if (!quota.allowed) return jsonError(403, 'quota_exceeded', { type: counter, used: quota.used, limit: quota.limit });
+  }
+
+  const budget = await checkLLMBudget(userId, auth.orgId);
+  if (!budget.allowed) {
+    const orgBlocked = budget.organization?.status === 'blocked';
+    const exceeded = orgBlocked && budget.organization ? budget.organization : budget.user;
+    return jsonError(403, 'llm_budget_exceeded', {
+      scope: orgBlocked ? 'organization' : 'user',
+      spent_cents: exceeded.spentCents,
+      budget_cents: exceeded.budgetCents,
+      message: 'Monthly AI spend budget exceeded',
+    });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const speech = await getTTSRegistry().synthesize(message.content, query.data);
+
+    // The stand-in is local and free; everything else is metered
+    if (speech.provider !== 'stand-in') {
+      await recordLLMUsage({
+        userId,
+        organizationId: auth.orgId ?? null,
+        taskType: 'tts',
+        model: speech.model ?? speech.provider,
+        provider: speech.provider,
+        status: 'succeeded',
+        // Speech is priced per character, not per token
+        inputTokens: speech.characters,
+        outputTokens: 0,
+        costCents: speech.costCents,
+        latencyMs: Date.now() - startedAt,
+        fallbackPosition: 0,
+      });
+    }
+
+    return new Response(speech.audio, {
+      headers: {
+        'content-type': speech.mimeType,
+        'cache-control': 'private, max-age=3600',
+        'x-tts-provider': speech.provider,
+      },
+    });
+  } catch (e) {
+    if (!(e instanceof TTSAllProvidersFailedError)) throw e;
+    console.error('[mock-interviewer] speech synthesis failed', {
+      sessionId: id,
+      providers: e.providerErrors.map((p) => p.provider),
+    });
+    return jsonError(502, 'tts_unavailable');
+  }
+}
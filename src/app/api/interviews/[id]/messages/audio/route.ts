@@ -0,0 +1,153 @@
+import { after, NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { checkQuota, recordUsage } from '@/lib/quota';
+import { STTAllProvidersFailedError, type STTProviderResult } from '@/lib/sttProvider';
+import { checkRateLimit, getSTTAuthContext, getSTTRegistry, validateAuth } from '@/lib/sttProviders';
+import { speechMetrics } from '@/lib/speechMetrics';
+import {
+  interviewerTurnFailure,
+  runInterviewerTurn,
+  streamInterviewerTurn,
+  type InterviewSessionRow,
+} from '@/lib/mockInterviewer';
+
+// A few minutes of opus at typical MediaRecorder bitrates
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+const SUPPORTED_AUDIO_TYPES = ['audio/webm', 'audio/ogg', 'audio/wav', 'audio/x-wav', 'audio/mpeg', 'audio/mp4'];
+
+const QuerySchema = z.object({
+  /** Recording length measured by the client */
+  duration_ms: z.coerce.number().int().min(0).max(30 * 60_000).optional(),
+  language: z.string().trim().min(2).max(10).optional(),
+  /** Stream the interviewer's reply as SSE */
+  stream: z.enum(['true', 'false']).optional(),
+});
+
+function audioMimeType(req: NextRequest): string | null {
+  const contentType = req.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase() ?? '';
+  return SUPPORTED_AUDIO_TYPES.includes(contentType) ? contentType : null;
+}
+
+/**
+ * POST /api/interviews/[id]/messages/audio
+ * Voice mode: a spoken answer (raw audio body) is transcribed, stored as the
+ * candidate's message with delivery metrics in meta.speech, and answered by
+ * the interviewer like a typed message.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `interview_msgs:audio:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const mimeType = audioMimeType(req);
+  if (!mimeType) return jsonError(415, 'unsupported_media_type', { supported: SUPPORTED_AUDIO_TYPES });
+
+  const query = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!query.success) return jsonError(400, 'invalid_query', query.error.flatten());
+
+  const declaredLength = Number(req.headers.get('content-length') ?? 0);
+  if (declaredLength > MAX_AUDIO_BYTES) return jsonError(413, 'audio_too_large', { maxBytes: MAX_AUDIO_BYTES });
+
+  const { id } = await ctx.params;
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const userId = userData.user.id;
+
+  try {
+    const auth = await getSTTAuthContext(userId);
+    validateAuth(auth);
+    await checkRateLimit(auth);
+  } catch (e) {
+    const err = e as Error & { statusCode?: number; retryAfter?: number };
+    if (err.statusCode === 429) return jsonError(429, 'rate_limited', { retryAfterMs: err.retryAfter ?? null });
+    if (err.statusCode) return jsonError(err.statusCode, 'unauthorized');
+    throw e;
+  }
+
+  const { data: session } = await supabase
+    .from('interview_sessions')
+    .select('id, title, status, meta')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single<InterviewSessionRow>();
+
+  if (!session) return jsonError(404, 'not_found');
+  if (session.status === 'completed') return jsonError(409, 'interview_completed');
+
+  // Session and daily time limits, as for typed messages
+  for (const counter of ['copilot_session_minutes', 'copilot_daily_minutes'] as const) {
+    const quota = await checkQuota(userId, counter);
+    if (!quota.allowed) return jsonError(403, 'quota_exceeded', { type: counter, used: quota.used, limit: quota.limit });
+  }
+
+  const audio = await req.arrayBuffer();
+  if (audio.byteLength === 0) return jsonError(400, 'empty_audio');
+  if (audio.byteLength > MAX_AUDIO_BYTES) return jsonError(413, 'audio_too_large', { maxBytes: MAX_AUDIO_BYTES });
+
+  let transcription: STTProviderResult & { provider: string };
+  try {
+    transcription = await getSTTRegistry().transcribe(audio, { language: query.data.language, mimeType });
+  } catch (e) {
+    if (!(e instanceof STTAllProvidersFailedError)) throw e;
+    console.error('[mock-interviewer] transcription failed', {
+      sessionId: id,
+      providers: e.providerErrors.map((p) => p.provider),
+    });
+    return jsonError(502, 'stt_unavailable');
+  }
+
+  const text = transcription.text.trim().slice(0, 8000);
+  // Silence, or only the null provider was available
+  if (!text) return jsonError(422, 'no_speech', { provider: transcription.provider });
+
+  const speech = speechMetrics({ text, durationMs: query.data.duration_ms, spans: transcription.spans });
+
+  const { data, error } = await supabase
+    .from('interview_session_messages')
+    .insert({
+      session_id: id,
+      user_id: userId,
+      role: 'user',
+      content: text,
+      meta: { speech, stt: { provider: transcription.provider, confidence: transcription.confidence ?? null } },
+    })
+    .select('*')
+    .single();
+
+  if (error) return jsonError(500, 'db_error', error);
+
+  // Record usage by recording length, at least a minute per answer
+  const minutes = Math.max(1, Math.ceil(speech.duration_ms / 60_000));
+  await recordUsage(userId, 'copilot_session_minutes', minutes, id);
+  await recordUsage(userId, 'copilot_daily_minutes', minutes, id);
+
+  if (query.data.stream === 'true') {
+    const stream = streamInterviewerTurn((onText) => runInterviewerTurn(supabase, { session, userId, onText }), [
+      ['message', { message: data }],
+    ]);
+    return new Response(stream, {
+      headers: {
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-cache, no-transform',
+        connection: 'keep-alive',
+      },
+    });
+  }
+
+  try {
+    const reply = await runInterviewerTurn(supabase, { session, userId });
+    after(reply.settle);
+    return NextResponse.json({ message: data, reply: reply.message, action: reply.action }, { status: 201 });
+  } catch (e) {
+    // The answer is stored either way; the client can retry the turn
+    const failure = interviewerTurnFailure(e);
+    if (failure.status >= 500) console.error('[mock-interviewer] reply failed', { sessionId: id });
+    return NextResponse.json({ message: data, reply: null, replyError: failure.error }, { status: 201 });
+  }
+}
@@ -1,14 +1,22 @@
-import { NextResponse, type NextRequest } from 'next/server';
+import { after, NextResponse, type NextRequest } from 'next/server';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
 import { checkQuota, recordUsage } from '@/lib/quota';
+import {
+  interviewerTurnFailure,
+  runInterviewerTurn,
+  streamInterviewerTurn,
+  type InterviewSessionRow,
+} from '@/lib/mockInterviewer';
 
 const CreateSchema = z.object({
   role: z.enum(['system', 'user', 'assistant']),
   content: z.string().min(1),
   tokens: z.number().int().optional(),
+  /** Stream the interviewer's reply to a user message as SSE */
+  stream: z.boolean().optional(),
 });
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
@@ -31,6 +39,11 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string
   return NextResponse.json({ messages: data });
 }
 
+/**
+ * POST /api/interviews/[id]/messages
+ * Stores a message. A user message gets the interviewer's next turn as the
+ * reply (unless the interview is completed), streamed when `stream` is set.
+ */
 export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
   const rl = await rateLimit({ key: `interview_msgs:post:${ip}`, limit: 60, windowMs: 60_000 });
@@ -66,6 +79,15 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
     });
   }
 
+  const { data: session } = await supabase
+    .from('interview_sessions')
+    .select('id, title, status, meta')
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .single<InterviewSessionRow>();
+
+  if (!session) return jsonError(404, 'not_found');
+
   const { data, error } = await supabase
     .from('interview_session_messages')
     .insert({
@@ -84,5 +106,32 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
   await recordUsage(userData.user.id, 'copilot_session_minutes', 1, id);
   await recordUsage(userData.user.id, 'copilot_daily_minutes', 1, id);
 
-  return NextResponse.json({ message: data }, { status: 201 });
+  if (parse.data.role !== 'user' || session.status === 'completed') {
+    return NextResponse.json({ message: data }, { status: 201 });
+  }
+
+  const userId = userData.user.id;
+  if (parse.data.stream) {
+    const stream = streamInterviewerTurn((onText) => runInterviewerTurn(supabase, { session, userId, onText }), [
+      ['message', { message: data }],
+    ]);
+    return new Response(stream, {
+      headers: {
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-cache, no-transform',
+        connection: 'keep-alive',
+      },
+    });
+  }
+
+  try {
+    const reply = await runInterviewerTurn(supabase, { session, userId });
+    after(reply.settle);
+    return NextResponse.json({ message: data, reply: reply.message, action: reply.action }, { status: 201 });
+  } catch (e) {
+    // The user message is stored either way; the client can retry the turn
+    const failure = interviewerTurnFailure(e);
+    if (failure.status >= 500) console.error('[mock-interviewer] reply failed', { sessionId: id });
+    return NextResponse.json({ message: data, reply: null, replyError: failure.error }, { status: 201 });
+  }
 }
@@ -0,0 +1,77 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import {
+  buildQuestionPack,
+  MAX_PACK_CANDIDATES,
+  QuestionFiltersSchema,
+  searchQuestionBank,
+  toSessionQuestionRows,
+  type BankQuestion,
+} from '@/lib/questionBank';
+
+const PackSchema = z.object({
+  filters: QuestionFiltersSchema.default({ scope: 'all' }),
+  count: z.number().int().min(1).max(20).default(5),
+});
+
+/**
+ * POST /api/interviews/[id]/questions/pack
+ * Seed the session's question plan from bank questions matching the filters.
+ * Questions are appended after existing ones, easy to hard; bank questions
+ * the session already has are skipped.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `interview_questions:pack:${ip}`, limit: 20, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const { id } = await ctx.params;
+  const parse = PackSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  // Verify session belongs to user
+  const { data: session } = await supabase
+    .from('interview_sessions')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .single();
+
+  if (!session) return jsonError(404, 'not_found');
+
+  const { data: existing, error: existingError } = await supabase
+    .from('interview_questions')
+    .select('bank_question_id, order_index')
+    .eq('session_id', id);
+  if (existingError) return jsonError(500, 'db_error', existingError);
+
+  let candidates: BankQuestion[];
+  try {
+    candidates = await searchQuestionBank(supabase, parse.data.filters, MAX_PACK_CANDIDATES);
+  } catch (error) {
+    console.error('Question pack search failed:', error);
+    return jsonError(500, 'search_failed', { message: 'Failed to search questions' });
+  }
+
+  const pack = buildQuestionPack(candidates, {
+    count: parse.data.count,
+    exclude: (existing ?? []).map((row) => row.bank_question_id).filter((bankId): bankId is string => !!bankId),
+  });
+  if (pack.length === 0) return jsonError(404, 'no_matching_questions');
+
+  const startIndex = (existing ?? []).reduce((max, row) => Math.max(max, row.order_index + 1), 0);
+  const { data, error } = await supabase
+    .from('interview_questions')
+    .insert(toSessionQuestionRows(pack, { sessionId: id, userId: userData.user.id, startIndex }))
+    .select('*');
+
+  if (error) return jsonError(500, 'db_error', error);
+  return NextResponse.json({ questions: data }, { status: 201 });
+}
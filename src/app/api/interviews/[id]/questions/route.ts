@@ -3,6 +3,9 @@ import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
+import { planNextQuestion } from '@/lib/questionPlanner';
+import { scoreAnswer } from '@/lib/answerScoring';
+import { LLMBudgetExceededError } from '@/lib/llmBudget';
 
 const CreateQuestionSchema = z.object({
   question_text: z.string().min(1).max(2000),
@@ -16,6 +19,8 @@ const UpdateQuestionSchema = z.object({
   response_score: z.number().int().min(1).max(5).optional(),
   rubric: z.record(z.string(), z.any()).optional(),
   answered: z.boolean().optional(),
+  /** Score a new response_text automatically unless response_score is given */
+  auto_score: z.boolean().default(true),
 });
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
@@ -115,7 +120,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
   // Verify question belongs to user's session
   const { data: existing } = await supabase
     .from('interview_questions')
-    .select('id, session_id')
+    .select('id, session_id, question_text, question_type, difficulty, rubric')
     .eq('id', id)
     .single();
 
@@ -124,7 +129,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
   // Verify session belongs to user
   const { data: session } = await supabase
     .from('interview_sessions')
-    .select('id')
+    .select('id, meta')
     .eq('id', existing.session_id)
     .eq('user_id', userData.user.id)
     .single();
@@ -139,7 +144,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
     updateData.answered_at = parse.data.answered ? new Date().toISOString() : null;
   }
 
-  const { data, error } = await supabase
+  const { data: updated, error } = await supabase
     .from('interview_questions')
     .update(updateData)
     .eq('id', id)
@@ -147,5 +152,38 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
     .single();
 
   if (error) return jsonError(500, 'db_error', error);
-  return NextResponse.json({ question: data });
+
+  // Score a new answer on the rubric unless the client scored it
+  let data = updated;
+  let scored = parse.data.response_score !== undefined;
+  let scoreError: string | null = null;
+  const responseText = parse.data.response_text?.trim();
+  if (responseText && parse.data.response_score === undefined && parse.data.auto_score) {
+    try {
+      const score = await scoreAnswer(supabase, {
+        question: { ...existing, rubric: parse.data.rubric ?? existing.rubric, response_text: responseText },
+        mode: typeof session.meta?.mode === 'string' ? session.meta.mode : 'general',
+        userId: userData.user.id,
+        sessionId: session.id,
+      });
+      if (score) {
+        data = { ...data, ...score };
+        scored = true;
+      }
+    } catch (e) {
+      console.error('[answer-scoring] failed to score answer', { questionId: id, code: (e as { code?: string })?.code ?? null });
+      scoreError = e instanceof LLMBudgetExceededError ? 'llm_budget_exceeded' : 'scoring_failed';
+    }
+  }
+
+  // A scored answer lets the planner pick the next question once the plan is answered
+  const nextQuestion = scored
+    ? await planNextQuestion(supabase, { session, userId: userData.user.id, whenAllAnswered: true })
+    : null;
+
+  return NextResponse.json({
+    question: data,
+    next_question: nextQuestion,
+    ...(scoreError ? { score_error: scoreError } : {}),
+  });
 }
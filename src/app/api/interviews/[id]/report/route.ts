@@ -1,41 +1,29 @@
 import { NextResponse, type NextRequest } from 'next/server';
-import OpenAI from 'openai';
 import { z } from 'zod';
-import { llmProvider, requireEnv } from '@/lib/env';
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
-import { normalizeMockInterviewReport } from '@/lib/mockInterviewReport';
+import {
+  formatInterviewQA,
+  MockInterviewReportSchema,
+  normalizeMockInterviewReport,
+} from '@/lib/mockInterviewReport';
+import { runStructuredLLMTask } from '@/lib/llmTaskRunner';
+import { renderPrompt } from '@/lib/promptRegistry';
+import { tryScoreAnswer } from '@/lib/answerScoring';
+import { executeBatch } from '@/lib/connectionPool';
+import { candidateSpeechByQuestion, INTERVIEW_MESSAGE_COLUMNS, type InterviewMessage } from '@/lib/mockInterviewer';
+import type { SpeechMetrics } from '@/lib/speechMetrics';
+
+// Most unscored answers to score while generating a report, and how many to score at once
+const MAX_REPORT_SCORING = 10;
+const REPORT_SCORING_CONCURRENCY = 4;
 
 const GenerateReportSchema = z.object({
   mode: z.enum(['general', 'behavioral', 'technical', 'situational']).default('general'),
 });
 
-// System prompt for report generation
-const REPORT_SYSTEM_PROMPT = `You are an expert interview coach. Analyze the candidate's responses to generate a comprehensive mock interview report.
-
-Evaluate each response on four key dimensions:
-1. CLARITY: How clearly did the candidate communicate? (1-5)
-2. CONFIDENCE: How confident did the candidate sound? (1-5)
-3. RELEVANCE: How relevant was the answer to the question? (1-5)
-4. STRUCTURE: How well-organized was the response? (1-5)
-
-For each dimension, provide:
-- score: 1-5 integer
-- evidence: Specific quote or observation supporting the score
-- recommendation: Actionable improvement tip
-
-Finally, generate:
-- overall_score: 0-100 weighted average
-- hiring_signal: one of [strong_no_hire, no_hire, lean_no_hire, lean_hire, hire, strong_hire]
-- summary: 2-3 sentence overall assessment
-- strengths: Array of 3-5 specific strengths
-- weaknesses: Array of 3-5 specific areas for improvement
-- next_steps: Array of 3-5 prioritized action items (P1, P2, P3...)
-
-Output ONLY valid JSON matching this exact structure. No markdown, no explanation.`;
-
 export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
   const rl = await rateLimit({ key: `interview_report:post:${ip}`, limit: 15, windowMs: 60_000 });
@@ -62,29 +50,54 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
   if (!session) return jsonError(404, 'not_found');
 
   // Get questions and responses
-  const { data: questions } = await supabase
+  const { data: storedQuestions } = await supabase
     .from('interview_questions')
     .select('*')
     .eq('session_id', id)
     .order('order_index', { ascending: true });
 
-  if (!questions || questions.length === 0) {
+  if (!storedQuestions || storedQuestions.length === 0) {
     return jsonError(400, 'no_questions', { message: 'No questions to generate report from' });
   }
 
-  // Build prompt with Q&A
-  const qaList = questions
-    .map((q, i) => {
-      const difficulty = q.difficulty || 'medium';
-      const type = q.question_type || 'general';
-      return `Q${i + 1} [${type}, ${difficulty}]: ${q.question_text}\nA: ${q.response_text || '(no response)'}`;
-    })
-    .join('\n\n');
+  // Per-answer scores feed the report. Answers are scored when submitted; only fill the gaps here
+  const unscored = storedQuestions
+    .filter((question) => question.response_text?.trim() && !question.evaluation)
+    .slice(0, MAX_REPORT_SCORING);
+  // Voice-mode answers are scored with their delivery, as the interviewer does
+  let delivery = new Map<string, SpeechMetrics>();
+  if (unscored.length > 0) {
+    const { data: messages } = await supabase
+      .from('interview_session_messages')
+      .select(INTERVIEW_MESSAGE_COLUMNS)
+      .eq('session_id', id)
+      .order('created_at', { ascending: true })
+      .returns<InterviewMessage[]>();
+    delivery = candidateSpeechByQuestion(messages ?? []);
+  }
+  const scores = await executeBatch(
+    unscored.map((question) => ({
+      id: question.id,
+      query: () =>
+        tryScoreAnswer(supabase, {
+          question,
+          mode,
+          userId: userData.user.id,
+          sessionId: id,
+          delivery: delivery.get(question.id),
+        }),
+    })),
+    REPORT_SCORING_CONCURRENCY
+  );
+  const questions = storedQuestions.map((question) => {
+    const score = scores.get(question.id);
+    return score ? { ...question, ...score } : question;
+  });
 
-  const userPrompt = `Interview Mode: ${mode}\n\nInterview Q&A:\n${qaList}\n\nGenerate the report in JSON format.`;
+  // Build prompt with Q&A
+  const qaList = formatInterviewQA(questions);
 
-  const provider = llmProvider();
-  if (provider !== 'openai') return jsonError(500, 'unsupported_provider', { provider });
+  const prompt = renderPrompt('interview_report', { mode, qaList }, { bucketKey: id });
 
   const admin = createAdminClient();
 
@@ -95,47 +108,26 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
       user_id: userData.user.id,
       kind: 'interview_report',
       status: 'running',
-      provider,
-      model: 'gpt-4o-mini',
-      input: { mode, question_count: questions.length },
+      input: { mode, question_count: questions.length, prompt_id: prompt.promptId, prompt_version: prompt.promptVersion },
       started_at: new Date().toISOString(),
     })
     .select('*')
     .single();
 
   try {
-    const client = new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') });
-
-    const completion = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: REPORT_SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt },
-      ],
+    // Regenerating the report for unchanged answers is served from the LLM cache
+    const completion = await runStructuredLLMTask({
+      taskType: prompt.taskType,
+      userId: userData.user.id,
       temperature: 0.3,
-      max_tokens: 2000,
+      maxTokens: 2000,
+      schema: MockInterviewReportSchema,
+      schemaName: 'mock_interview_report',
+      messages: prompt.messages,
     });
 
-    const content = completion.choices[0]?.message?.content ?? '';
-    
-    // Parse the JSON response
-    let parsedReport: unknown;
-    try {
-      // Try to extract JSON from the response (in case there's extra text)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedReport = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error('No JSON found in response');
-      }
-    } catch {
-      console.error('[report] Failed to parse LLM response:', content);
-      // Use fallback report
-      parsedReport = {};
-    }
-
-    // Normalize the report
-    const normalizedReport = normalizeMockInterviewReport(parsedReport, mode);
+    // Apply acceptance minimums (3+ items, prioritized next steps)
+    const normalizedReport = normalizeMockInterviewReport(completion.data, mode);
 
     // Save report to database
     const { data: savedReport, error: saveErr } = await admin
@@ -151,6 +143,8 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
         weaknesses: normalizedReport.weaknesses,
         next_steps: normalizedReport.next_steps,
         rubric: normalizedReport.rubric,
+        prompt_id: prompt.promptId,
+        prompt_version: prompt.promptVersion,
         generated_at: new Date().toISOString(),
       })
       .select('*')
@@ -166,6 +160,8 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
         .from('jobs')
         .update({
           status: 'succeeded',
+          provider: completion.provider,
+          model: completion.model,
           output: normalizedReport as unknown as Record<string, unknown>,
           finished_at: new Date().toISOString(),
         })
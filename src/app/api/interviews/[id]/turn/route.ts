@@ -0,0 +1,65 @@
+import { after, NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import {
+  interviewerTurnFailure,
+  runInterviewerTurn,
+  streamInterviewerTurn,
+  type InterviewSessionRow,
+} from '@/lib/mockInterviewer';
+
+const TurnSchema = z.object({
+  stream: z.boolean().optional(),
+});
+
+/**
+ * POST /api/interviews/[id]/turn
+ * Generates the interviewer's next turn without a new user message: the
+ * opening question, or a retry after a failed reply.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `interview_turn:post:${ip}`, limit: 20, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const { id } = await ctx.params;
+  const parse = TurnSchema.safeParse((await req.json().catch(() => null)) ?? {});
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { data: session } = await supabase
+    .from('interview_sessions')
+    .select('id, title, status, meta')
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .single<InterviewSessionRow>();
+
+  if (!session) return jsonError(404, 'not_found');
+
+  const userId = userData.user.id;
+  if (parse.data.stream) {
+    const stream = streamInterviewerTurn((onText) => runInterviewerTurn(supabase, { session, userId, onText }));
+    return new Response(stream, {
+      headers: {
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-cache, no-transform',
+        connection: 'keep-alive',
+      },
+    });
+  }
+
+  try {
+    const turn = await runInterviewerTurn(supabase, { session, userId });
+    after(turn.settle);
+    return NextResponse.json({ message: turn.message, action: turn.action }, { status: 201 });
+  } catch (e) {
+    const failure = interviewerTurnFailure(e);
+    if (failure.status >= 500) console.error('[mock-interviewer] turn failed', { sessionId: id });
+    return jsonError(failure.status, failure.error);
+  }
+}
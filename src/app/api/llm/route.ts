@@ -6,14 +6,29 @@ import { createAdminClient } from '@/lib/supabase/admin';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
 import { checkQuota, recordUsage } from '@/lib/quota';
+import { checkLLMBudget, getUserOrganizationId } from '@/lib/llmBudget';
 import {
   selectModel,
   getFallbackChain,
   getUserPreferences,
   detectTaskType,
   getLLMClient,
+  getStructuredOutputStats,
+  LLM_PROVIDERS,
   MODEL_CONFIGS,
 } from '@/lib/llmRouter';
+import { getModelHealth } from '@/lib/llmHealth';
+import { getLLMCache, llmCacheScope, type LLMCacheOptions, type LLMCacheRequest } from '@/lib/llmCache';
+import {
+  getLLMClientFor,
+  getOrganizationLLMConfig,
+  isModelAllowed,
+  LLMCredentialsUnavailableError,
+  LLMModelNotAllowedError,
+  logLLMCredentialUse,
+  restrictToAllowedModels,
+  type OrganizationLLMConfig,
+} from '@/lib/llmCredentials';
 
 const BodySchema = z.object({
   messages: z
@@ -35,9 +50,24 @@ const BodySchema = z.object({
   prefer_cost: z.boolean().optional(),
   prefer_quality: z.boolean().optional(),
   use_fallback: z.boolean().optional(),
+  stream: z.boolean().optional(),
   metadata: z.record(z.string(), z.any()).optional(),
+  // false = personalized, never cached; semantic = also match a similar last message
+  cache: z
+    .union([
+      z.literal(false),
+      z.object({
+        semantic: z.boolean().optional(),
+        ttl_seconds: z.number().int().min(0).max(7 * 24 * 60 * 60).optional(),
+      }),
+    ])
+    .optional(),
 });
 
+function sse(event: string, payload: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify({ type: event, payload })}\n\n`;
+}
+
 export async function POST(req: NextRequest) {
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
   const rl = await rateLimit({ key: `llm:${ip}`, limit: 20, windowMs: 60_000 });
@@ -72,6 +102,20 @@ export async function POST(req: NextRequest) {
     });
   }
 
+  // Check monthly LLM spend budget (plan + organization)
+  const organizationId = await getUserOrganizationId(user.id);
+  const budget = await checkLLMBudget(user.id, organizationId);
+  if (!budget.allowed) {
+    const orgBlocked = budget.organization?.status === 'blocked';
+    const exceeded = orgBlocked && budget.organization ? budget.organization : budget.user;
+    return jsonError(403, 'llm_budget_exceeded', {
+      scope: orgBlocked ? 'organization' : 'user',
+      spent_cents: exceeded.spentCents,
+      budget_cents: exceeded.budgetCents,
+      message: 'Monthly AI spend budget exceeded',
+    });
+  }
+
   // Get user preferences
   const userPrefs = await getUserPreferences(user.id);
   const autoOptimize = userPrefs?.auto_optimize ?? true;
@@ -102,6 +146,32 @@ export async function POST(req: NextRequest) {
     selectedModel = parse.data.model ?? defaultModel();
   }
 
+  // Organization keys (BYOK) and allowed-models restrictions
+  let orgLLM: OrganizationLLMConfig | null = null;
+  try {
+    orgLLM = organizationId ? await getOrganizationLLMConfig(organizationId) : null;
+  } catch (e) {
+    // Without the org's settings its model restrictions can't be enforced
+    if (e instanceof LLMCredentialsUnavailableError) return jsonError(503, 'llm_config_unavailable');
+    throw e;
+  }
+  if (orgLLM && !isModelAllowed(selectedModel, orgLLM)) {
+    if (parse.data.model) {
+      return jsonError(403, 'model_not_allowed', {
+        message: `Model ${selectedModel} is not allowed for your organization`,
+        allowed: orgLLM.allowedModels,
+      });
+    }
+    try {
+      selectedModel = restrictToAllowedModels(getFallbackChain(taskType, selectedModel), orgLLM)[0];
+    } catch (e) {
+      if (e instanceof LLMModelNotAllowedError) {
+        return jsonError(403, 'model_not_allowed', { message: e.message, allowed: orgLLM.allowedModels });
+      }
+      throw e;
+    }
+  }
+
   const config = MODEL_CONFIGS[selectedModel];
   if (!config) {
     return jsonError(400, 'invalid_model', { message: `Unknown model: ${selectedModel}` });
@@ -109,9 +179,19 @@ export async function POST(req: NextRequest) {
 
   // Get fallback chain if enabled
   const fallbackChain = parse.data.use_fallback !== false
-    ? getFallbackChain(taskType, selectedModel)
+    ? restrictToAllowedModels(getFallbackChain(taskType, selectedModel), orgLLM)
     : undefined;
 
+  // Record which key served the request in the organization audit log
+  const auditServedBy = (served: { model: string; provider: string }) =>
+    orgLLM
+      ? logLLMCredentialUse({ config: orgLLM, userId: user.id, taskType, model: served.model, provider: served.provider })
+      : Promise.resolve();
+
+  const ledger = { userId: user.id, organizationId, taskType };
+  const temperature = parse.data.temperature ?? userPrefs?.temperature ?? 0.7;
+  const maxTokens = parse.data.max_tokens ?? userPrefs?.max_tokens ?? 4096;
+
   const admin = createAdminClient();
 
   const { data: job } = await admin
@@ -132,8 +212,192 @@ export async function POST(req: NextRequest) {
     .select('*')
     .single();
 
+  if (parse.data.stream) {
+    const client = getLLMClientFor(orgLLM);
+
+    if (!client.isProviderAvailable(config.provider) && !(fallbackChain && fallbackChain.length > 1)) {
+      if (job?.id) {
+        await admin
+          .from('jobs')
+          .update({
+            status: 'failed',
+            error: 'provider_unavailable',
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', job.id);
+      }
+
+      return jsonError(503, 'provider_unavailable', {
+        message: `Provider ${config.provider} is not configured`,
+        available: LLM_PROVIDERS.filter((p) => client.isProviderAvailable(p)),
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const messages = parse.data.messages;
+
+    // Set once the client disconnects; nothing is enqueued after that
+    let closed = req.signal.aborted;
+    req.signal.addEventListener('abort', () => {
+      closed = true;
+    });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let text = '';
+        let usage: { inputTokens: number; outputTokens: number } | null = null;
+        let finished = false;
+
+        const send = (event: string, payload: unknown) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(sse(event, payload)));
+          } catch {
+            // The stream was cancelled between the check and the enqueue
+            closed = true;
+          }
+        };
+
+        try {
+          // Breaking out of the loop returns the generator, which stops the upstream stream
+          for await (const delta of client.stream(messages, {
+            model: selectedModel,
+            temperature,
+            max_tokens: maxTokens,
+            fallbackChain,
+            ledger,
+          })) {
+            if (closed) break;
+
+            if (delta.type === 'text') {
+              text += delta.text;
+              send('delta', { text: delta.text });
+            } else if (delta.type === 'usage') {
+              usage = { inputTokens: delta.inputTokens, outputTokens: delta.outputTokens };
+              send('usage', usage);
+            } else {
+              finished = true;
+              await recordUsage(user.id, counterType, 1);
+              await auditServedBy(delta);
+
+              if (job?.id) {
+                await admin
+                  .from('jobs')
+                  .update({
+                    status: 'succeeded',
+                    provider: delta.provider,
+                    model: delta.model,
+                    output: { text, model: delta.model, usage, finish_reason: delta.reason },
+                    finished_at: new Date().toISOString(),
+                  })
+                  .eq('id', job.id);
+              }
+
+              send('done', {
+                model: delta.model,
+                provider: delta.provider,
+                finishReason: delta.reason,
+                usage,
+                jobId: job?.id ?? null,
+              });
+            }
+          }
+
+          if (!finished && job?.id) {
+            await admin
+              .from('jobs')
+              .update({
+                status: 'failed',
+                error: 'client_disconnected',
+                output: text ? { text, partial: true } : null,
+                finished_at: new Date().toISOString(),
+              })
+              .eq('id', job.id);
+          }
+        } catch (e) {
+          const msg = e instanceof Error ? e.message : 'unknown_error';
+
+          if (job?.id) {
+            await admin
+              .from('jobs')
+              .update({
+                status: 'failed',
+                error: msg,
+                output: text ? { text, partial: true } : null,
+                finished_at: new Date().toISOString(),
+              })
+              .eq('id', job.id);
+          }
+
+          send('error', { error: 'llm_failed', message: msg });
+        }
+
+        if (!closed) controller.close();
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-cache, no-transform',
+        connection: 'keep-alive',
+      },
+    });
+  }
+
+  const cache = getLLMCache();
+  // The semantic key is always the prompt's own last message, never client text,
+  // so a hit needs a similar question under an identical rest of the prompt
+  const lastMessage = parse.data.messages[parse.data.messages.length - 1].content;
+  const cacheOptions: LLMCacheOptions =
+    parse.data.cache === false
+      ? { personalized: true }
+      : {
+          semanticKey: parse.data.cache?.semantic ? lastMessage.slice(0, 2000) : undefined,
+          ttlSeconds: parse.data.cache?.ttl_seconds,
+        };
+  const cacheRequest: LLMCacheRequest = {
+    taskType: taskType ?? 'conversation',
+    scope: llmCacheScope({ userId: user.id, organizationId }),
+    messages: parse.data.messages,
+    model: selectedModel,
+    temperature,
+    maxTokens,
+    owner: { userId: user.id, organizationId },
+  };
+
   try {
-    const client = getLLMClient();
+    const client = getLLMClientFor(orgLLM);
+
+    const cached = await cache.lookup(cacheRequest, cacheOptions);
+    if (cached.hit && cached.response) {
+      await recordUsage(user.id, counterType, 1);
+
+      if (job?.id) {
+        await admin
+          .from('jobs')
+          .update({
+            status: 'succeeded',
+            provider: cached.response.provider,
+            model: cached.response.model,
+            output: { text: cached.response.text, cached: cached.hit },
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', job.id);
+      }
+
+      return NextResponse.json({
+        text: cached.response.text,
+        model: cached.response.model,
+        provider: cached.response.provider,
+        raw: null,
+        cached: cached.hit,
+        jobId: job?.id ?? null,
+      });
+    }
 
     // Check if provider is available
     if (!client.isProviderAvailable(config.provider)) {
@@ -144,10 +408,13 @@ export async function POST(req: NextRequest) {
           parse.data.messages,
           {
             fallbackChain,
-            temperature: parse.data.temperature ?? userPrefs?.temperature ?? 0.7,
-            max_tokens: parse.data.max_tokens ?? userPrefs?.max_tokens ?? 4096,
+            temperature,
+            max_tokens: maxTokens,
+            ledger,
           }
         );
+        await cache.store(cacheRequest, { text: result.text, model: result.model, provider: result.provider }, cacheOptions);
+        await auditServedBy(result);
         
         const estimatedMinutes = 1;
         await recordUsage(user.id, counterType, estimatedMinutes);
@@ -176,7 +443,7 @@ export async function POST(req: NextRequest) {
       
       return jsonError(503, 'provider_unavailable', {
         message: `Provider ${config.provider} is not configured`,
-        available: ['openai', 'anthropic', 'google'].filter((p) => client.isProviderAvailable(p)),
+        available: LLM_PROVIDERS.filter((p) => client.isProviderAvailable(p)),
       });
     }
 
@@ -184,11 +451,18 @@ export async function POST(req: NextRequest) {
       parse.data.messages,
       {
         model: selectedModel,
-        temperature: parse.data.temperature ?? userPrefs?.temperature ?? 0.7,
-        max_tokens: parse.data.max_tokens ?? userPrefs?.max_tokens ?? 4096,
+        temperature,
+        max_tokens: maxTokens,
         fallbackChain,
+        ledger,
       }
     );
+    await cache.store(
+      cacheRequest,
+      { text: completion.text, model: completion.model, provider: completion.provider },
+      cacheOptions
+    );
+    await auditServedBy(completion);
 
     const text = completion.text;
 
@@ -239,10 +513,11 @@ export async function GET(req: NextRequest) {
   if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
 
   const client = getLLMClient();
-  const availableProviders = ['openai', 'anthropic', 'google'].filter((p) =>
+  const availableProviders = LLM_PROVIDERS.filter((p) =>
     client.isProviderAvailable(p)
   );
 
+  const health = getModelHealth();
   const models = Object.values(MODEL_CONFIGS)
     .filter((m) => availableProviders.includes(m.provider))
     .map((m) => ({
@@ -255,10 +530,16 @@ export async function GET(req: NextRequest) {
       avgLatencyMs: m.avgLatencyMs,
       strengths: m.strengths,
       bestFor: m.bestFor,
+      health: {
+        ...health.snapshot(m.id, m.avgLatencyMs),
+        circuit: health.providerState(m.provider),
+      },
     }));
 
   return NextResponse.json({
     models,
     availableProviders,
+    structuredOutput: getStructuredOutputStats(),
+    cache: getLLMCache().getStats(),
   });
 }
@@ -0,0 +1,87 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { checkOrganizationAccess } from '@/lib/organizations';
+import { BankQuestionUpdateSchema, QUESTION_BANK_COLUMNS, toBankUpdate } from '@/lib/questionBank';
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+// Organization questions the caller may edit; global questions are read-only
+async function loadEditable(supabase: Supabase, id: string) {
+  const { data: question } = await supabase
+    .from('question_bank')
+    .select('id, organization_id')
+    .eq('id', id)
+    .maybeSingle<{ id: string; organization_id: string | null }>();
+
+  if (!question) return { status: 404 as const };
+  if (!question.organization_id) return { status: 403 as const };
+  const allowed = await checkOrganizationAccess(supabase, question.organization_id, ['owner', 'admin']);
+  return allowed ? { status: 200 as const, question } : { status: 403 as const };
+}
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `questions:id:get:${ip}`, limit: 120, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const { id } = await ctx.params;
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { data, error } = await supabase.from('question_bank').select(QUESTION_BANK_COLUMNS).eq('id', id).maybeSingle();
+
+  if (error) return jsonError(500, 'db_error', error);
+  if (!data) return jsonError(404, 'not_found');
+  return NextResponse.json({ question: data });
+}
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `questions:id:patch:${ip}`, limit: 60, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const { id } = await ctx.params;
+  const parse = BankQuestionUpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const editable = await loadEditable(supabase, id);
+  if (editable.status === 404) return jsonError(404, 'not_found');
+  if (editable.status === 403) return jsonError(403, 'forbidden');
+
+  const { data, error } = await supabase
+    .from('question_bank')
+    .update(toBankUpdate(parse.data))
+    .eq('id', id)
+    .select(QUESTION_BANK_COLUMNS)
+    .single();
+
+  if (error) return jsonError(500, 'db_error', error);
+  return NextResponse.json({ question: data });
+}
+
+export async function DELETE(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `questions:id:del:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const { id } = await ctx.params;
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const editable = await loadEditable(supabase, id);
+  if (editable.status === 404) return jsonError(404, 'not_found');
+  if (editable.status === 403) return jsonError(403, 'forbidden');
+
+  const { error } = await supabase.from('question_bank').delete().eq('id', id);
+  if (error) return jsonError(500, 'db_error', error);
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { checkOrganizationAccess } from '@/lib/organizations';
+import { parseQuestionImport, QUESTION_BANK_COLUMNS } from '@/lib/questionBank';
+
+const ImportSchema = z.object({
+  organization_id: z.string().uuid(),
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1).max(1_000_000),
+  // Preview by default; save inserts the valid rows
+  save: z.boolean().default(false),
+});
+
+/**
+ * POST /api/questions/import
+ * Import questions into an organization's bank from CSV or JSON. Questions
+ * the organization already has (same text) are skipped.
+ */
+export async function POST(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `questions:import:${ip}`, limit: 10, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const parse = ImportSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const organizationId = parse.data.organization_id;
+  if (!(await checkOrganizationAccess(supabase, organizationId, ['owner', 'admin']))) {
+    return jsonError(403, 'forbidden');
+  }
+
+  const { questions, errors } = parseQuestionImport(parse.data.format, parse.data.content);
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from('question_bank')
+    .select('question_text')
+    .eq('organization_id', organizationId);
+  if (existingError) return jsonError(500, 'db_error', existingError);
+
+  const seen = new Set((existingRows ?? []).map((row) => String(row.question_text).toLowerCase()));
+  const fresh = questions.filter((question) => {
+    const key = question.question_text.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const skipped = questions.length - fresh.length;
+
+  if (!parse.data.save || fresh.length === 0) {
+    return NextResponse.json({ questions: fresh, errors, skipped });
+  }
+
+  const { data, error } = await supabase
+    .from('question_bank')
+    .insert(fresh.map((question) => ({ ...question, organization_id: organizationId, created_by: userData.user.id })))
+    .select(QUESTION_BANK_COLUMNS);
+
+  if (error) return jsonError(500, 'db_error', error);
+  return NextResponse.json({ questions: data, errors, skipped }, { status: 201 });
+}
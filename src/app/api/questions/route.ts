@@ -0,0 +1,75 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { checkOrganizationAccess } from '@/lib/organizations';
+import {
+  BankQuestionInputSchema,
+  QUESTION_BANK_COLUMNS,
+  QuestionFiltersSchema,
+  searchQuestionBank,
+  toBankRow,
+} from '@/lib/questionBank';
+
+const CreateSchema = BankQuestionInputSchema.extend({
+  organization_id: z.string().uuid(),
+});
+
+/**
+ * GET /api/questions?q=&type=&difficulty=&competency=&role=&company=&organization_id=&scope=&limit=
+ * Search the global question bank and the caller's organization questions
+ */
+export async function GET(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `questions:get:${ip}`, limit: 60, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const params = Object.fromEntries(req.nextUrl.searchParams);
+  const parse = QuestionFiltersSchema.safeParse(params);
+  if (!parse.success) return jsonError(400, 'invalid_query', parse.error.flatten());
+  const limit = Math.min(Math.max(Number(params.limit) || 20, 1), 100);
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  try {
+    const questions = await searchQuestionBank(supabase, parse.data, limit);
+    return NextResponse.json({ questions });
+  } catch (error) {
+    console.error('Question search failed:', error);
+    return jsonError(500, 'search_failed', { message: 'Failed to search questions' });
+  }
+}
+
+/**
+ * POST /api/questions
+ * Add a question to an organization's bank (owners and admins)
+ */
+export async function POST(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `questions:post:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const parse = CreateSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { organization_id: organizationId, ...input } = parse.data;
+  if (!(await checkOrganizationAccess(supabase, organizationId, ['owner', 'admin']))) {
+    return jsonError(403, 'forbidden');
+  }
+
+  const { data, error } = await supabase
+    .from('question_bank')
+    .insert({ ...toBankRow(input), organization_id: organizationId, created_by: userData.user.id })
+    .select(QUESTION_BANK_COLUMNS)
+    .single();
+
+  if (error) return jsonError(500, 'db_error', error);
+  return NextResponse.json({ question: data }, { status: 201 });
+}
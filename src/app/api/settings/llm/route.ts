@@ -3,7 +3,7 @@ import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { jsonError } from '@/lib/api';
 import { rateLimit } from '@/lib/rateLimit';
-import { getLLMClient, MODEL_CONFIGS } from '@/lib/llmRouter';
+import { getLLMClient, LLM_PROVIDERS, MODEL_CONFIGS } from '@/lib/llmRouter';
 
 const PatchSchema = z.object({
   provider: z.string().min(1).max(50).optional(),
@@ -32,7 +32,7 @@ export async function GET(req: NextRequest) {
 
   // Get available models for the user
   const client = getLLMClient();
-  const availableProviders = ['openai', 'anthropic', 'google'].filter((p) =>
+  const availableProviders = LLM_PROVIDERS.filter((p) =>
     client.isProviderAvailable(p)
   );
 
@@ -79,7 +79,7 @@ export async function PATCH(req: NextRequest) {
     if (!client.isProviderAvailable(patch.provider)) {
       return jsonError(400, 'provider_unavailable', {
         message: `Provider ${patch.provider} is not configured`,
-        availableProviders: ['openai', 'anthropic', 'google'].filter((p) =>
+        availableProviders: LLM_PROVIDERS.filter((p) =>
           client.isProviderAvailable(p)
         ),
       });
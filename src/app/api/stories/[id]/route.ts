@@ -0,0 +1,108 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { inferCompetencies, StarStoryInputSchema, STORY_COLUMNS, type StarStory } from '@/lib/storyBank';
+
+// Every field optional on update; defaults would otherwise blank omitted fields
+const UpdateSchema = StarStoryInputSchema.extend({
+  situation: StarStoryInputSchema.shape.situation.removeDefault(),
+  task: StarStoryInputSchema.shape.task.removeDefault(),
+  action: StarStoryInputSchema.shape.action.removeDefault(),
+  result: StarStoryInputSchema.shape.result.removeDefault(),
+  tags: StarStoryInputSchema.shape.tags.removeDefault(),
+}).partial();
+
+/**
+ * GET /api/stories/[id]
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:get:${ip}`, limit: 60, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { id } = await params;
+  const { data, error } = await supabase
+    .from('star_stories')
+    .select(STORY_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .maybeSingle();
+
+  if (error) return jsonError(500, 'db_error', error);
+  if (!data) return jsonError(404, 'not_found', { message: 'Story not found' });
+  return NextResponse.json({ story: data });
+}
+
+/**
+ * PATCH /api/stories/[id]
+ * Update a story; competencies are re-inferred when the text changes and none are given
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:patch:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const parse = UpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { id } = await params;
+  const { data: existing, error: loadError } = await supabase
+    .from('star_stories')
+    .select(STORY_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .maybeSingle<StarStory>();
+
+  if (loadError) return jsonError(500, 'db_error', loadError);
+  if (!existing) return jsonError(404, 'not_found', { message: 'Story not found' });
+
+  const update: Partial<StarStory> = { ...parse.data };
+  if (update.tags) update.tags = Array.from(new Set(update.tags.map((tag) => tag.toLowerCase())));
+
+  const textChanged = (['title', 'situation', 'task', 'action', 'result'] as const).some((f) => parse.data[f] !== undefined);
+  if (!parse.data.competencies && textChanged) {
+    const merged = { ...existing, ...update };
+    update.competencies = inferCompetencies(
+      [merged.title, merged.situation, merged.task, merged.action, merged.result].join(' ')
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('star_stories')
+    .update(update)
+    .eq('id', id)
+    .eq('user_id', userData.user.id)
+    .select(STORY_COLUMNS)
+    .single();
+
+  if (error) return jsonError(500, 'update_failed', { message: 'Failed to update story' });
+  return NextResponse.json({ story: data });
+}
+
+/**
+ * DELETE /api/stories/[id]
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:delete:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { id } = await params;
+  const { error } = await supabase.from('star_stories').delete().eq('id', id).eq('user_id', userData.user.id);
+
+  if (error) return jsonError(500, 'delete_failed', { message: 'Failed to delete story' });
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { draftStoriesFromResume, listStories, STORY_COLUMNS } from '@/lib/storyBank';
+
+const ImportSchema = z.object({
+  resumeDocumentId: z.string().uuid(),
+  // Preview drafts by default; save inserts them into the bank
+  save: z.boolean().default(false),
+});
+
+/**
+ * POST /api/stories/import
+ * Draft STAR stories from the accomplishment bullets of a parsed resume.
+ * Bullets already in the bank (same action text) are skipped.
+ */
+export async function POST(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:import:${ip}`, limit: 10, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const parse = ImportSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { data: doc, error: docError } = await supabase
+    .from('resume_documents')
+    .select('id, parsed_text')
+    .eq('id', parse.data.resumeDocumentId)
+    .eq('user_id', userData.user.id)
+    .maybeSingle();
+
+  if (docError) return jsonError(500, 'db_error', docError);
+  if (!doc) return jsonError(404, 'document_not_found');
+  if (typeof doc.parsed_text !== 'string' || !doc.parsed_text.trim()) {
+    return jsonError(409, 'resume_not_parsed', { message: 'Resume has not been parsed yet' });
+  }
+
+  try {
+    const existing = new Set((await listStories(supabase, userData.user.id)).map((s) => s.action.toLowerCase()));
+    const drafts = draftStoriesFromResume(doc.parsed_text, doc.id).filter(
+      (draft) => !existing.has(draft.action.toLowerCase())
+    );
+
+    if (!parse.data.save || drafts.length === 0) {
+      return NextResponse.json({ drafts });
+    }
+
+    const { data, error } = await supabase
+      .from('star_stories')
+      .insert(drafts.map((draft) => ({ ...draft, user_id: userData.user.id })))
+      .select(STORY_COLUMNS);
+
+    if (error) return jsonError(500, 'db_error', error);
+    return NextResponse.json({ stories: data }, { status: 201 });
+  } catch (error) {
+    console.error('Story import failed:', error);
+    return jsonError(500, 'import_failed', { message: 'Failed to import stories' });
+  }
+}
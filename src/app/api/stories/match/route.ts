@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { listStories, matchStories } from '@/lib/storyBank';
+
+const MatchSchema = z.object({
+  question: z.string().trim().min(1).max(2000),
+  limit: z.number().int().min(1).max(5).default(3),
+});
+
+/**
+ * POST /api/stories/match
+ * Best-matching stories for an interview question (used by mock interviews)
+ */
+export async function POST(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:match:${ip}`, limit: 60, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const parse = MatchSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  try {
+    const stories = await listStories(supabase, userData.user.id);
+    const matches = matchStories(stories, parse.data.question, parse.data.limit);
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('Story match failed:', error);
+    return jsonError(500, 'fetch_failed', { message: 'Failed to match stories' });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { jsonError } from '@/lib/api';
+import { rateLimit } from '@/lib/rateLimit';
+import { listStories, StarStoryInputSchema, STORY_COLUMNS, toStoryRow } from '@/lib/storyBank';
+
+/**
+ * GET /api/stories
+ * List the user's STAR stories, most recently edited first
+ */
+export async function GET(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:get:${ip}`, limit: 60, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  try {
+    const stories = await listStories(supabase, userData.user.id);
+    return NextResponse.json({ stories });
+  } catch (error) {
+    console.error('Failed to fetch stories:', error);
+    return jsonError(500, 'fetch_failed', { message: 'Failed to fetch stories' });
+  }
+}
+
+/**
+ * POST /api/stories
+ * Create a story; competencies are inferred from the text when omitted
+ */
+export async function POST(req: NextRequest) {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const rl = await rateLimit({ key: `stories:post:${ip}`, limit: 30, windowMs: 60_000 });
+  if (!rl.ok) return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+
+  const parse = StarStoryInputSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) return jsonError(400, 'invalid_body', parse.error.flatten());
+
+  const supabase = await createClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return jsonError(401, 'unauthorized');
+
+  const { data, error } = await supabase
+    .from('star_stories')
+    .insert({ ...toStoryRow(parse.data), user_id: userData.user.id, source: 'manual' })
+    .select(STORY_COLUMNS)
+    .single();
+
+  if (error) return jsonError(500, 'db_error', error);
+  return NextResponse.json({ story: data }, { status: 201 });
+}
@@ -5,6 +5,7 @@ import {
   getTeamStats,
   checkOrganizationAccess 
 } from '@/lib/organizations';
+import { getOrganizationLLMSpend } from '@/lib/llmBudget';
 
 // GET /api/teams/[id]/analytics - Get team analytics
 export async function GET(
@@ -44,7 +45,7 @@ export async function GET(
         startDate.setDate(startDate.getDate() - 30);
     }
 
-    const [analytics, stats] = await Promise.all([
+    const [analytics, stats, llmSpend] = await Promise.all([
       getOrganizationAnalytics(
         supabase, 
         id, 
@@ -52,6 +53,7 @@ export async function GET(
         endDate.toISOString().split('T')[0]
       ),
       getTeamStats(supabase, id),
+      getOrganizationLLMSpend(id),
     ]);
 
     return NextResponse.json({
@@ -61,6 +63,7 @@ export async function GET(
       },
       stats,
       analytics,
+      llmSpend,
     });
   } catch (error) {
     console.error('Error fetching analytics:', error);
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerOrganizationClient, checkOrganizationAccess } from '@/lib/organizations';
+import {
+  BYOK_PROVIDERS,
+  deleteOrganizationCredential,
+  isBYOKProvider,
+  listOrganizationCredentials,
+  setOrganizationCredential,
+} from '@/lib/llmCredentials';
+import { SecretEncryptionError } from '@/lib/secrets';
+
+// GET /api/teams/[id]/llm-credentials - List stored provider keys (hints only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getServerOrganizationClient();
+
+    const hasAccess = await checkOrganizationAccess(supabase, id, ['owner', 'admin']);
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const credentials = await listOrganizationCredentials(id);
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('llm_allowed_models, llm_platform_fallback')
+      .eq('id', id)
+      .single();
+
+    return NextResponse.json({
+      credentials,
+      providers: BYOK_PROVIDERS,
+      allowedModels: organization?.llm_allowed_models ?? null,
+      platformFallback: organization?.llm_platform_fallback ?? false,
+    });
+  } catch (error) {
+    console.error('Error fetching LLM credentials:', error);
+    return NextResponse.json({ error: 'Failed to fetch LLM credentials' }, { status: 500 });
+  }
+}
+
+// PUT /api/teams/[id]/llm-credentials - Store or replace a provider key
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getServerOrganizationClient();
+
+    // Only owners can manage keys
+    const hasAccess = await checkOrganizationAccess(supabase, id, ['owner']);
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { provider, api_key } = body;
+
+    if (!isBYOKProvider(provider)) {
+      return NextResponse.json({ error: `provider must be one of: ${BYOK_PROVIDERS.join(', ')}` }, { status: 400 });
+    }
+    if (typeof api_key !== 'string' || api_key.trim().length < 8 || api_key.length > 512) {
+      return NextResponse.json({ error: 'api_key is required' }, { status: 400 });
+    }
+
+    const credential = await setOrganizationCredential(id, provider, api_key.trim(), user.id);
+    return NextResponse.json({ credential });
+  } catch (error) {
+    if (error instanceof SecretEncryptionError) {
+      console.error('LLM credential encryption unavailable:', error.message);
+      return NextResponse.json({ error: 'Credential storage is not configured' }, { status: 503 });
+    }
+    console.error('Error saving LLM credential:', error);
+    return NextResponse.json({ error: 'Failed to save LLM credential' }, { status: 500 });
+  }
+}
+
+// DELETE /api/teams/[id]/llm-credentials?provider=openai - Remove a provider key
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await getServerOrganizationClient();
+
+    const hasAccess = await checkOrganizationAccess(supabase, id, ['owner']);
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const provider = request.nextUrl.searchParams.get('provider');
+    if (!isBYOKProvider(provider)) {
+      return NextResponse.json({ error: `provider must be one of: ${BYOK_PROVIDERS.join(', ')}` }, { status: 400 });
+    }
+
+    const deleted = await deleteOrganizationCredential(id, provider, user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Credential not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting LLM credential:', error);
+    return NextResponse.json({ error: 'Failed to delete LLM credential' }, { status: 500 });
+  }
+}
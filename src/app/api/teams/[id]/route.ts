@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerOrganizationClient, getOrganization, checkOrganizationAccess } from '@/lib/organizations';
+import { MODEL_CONFIGS } from '@/lib/llmRouter';
+import { invalidateOrganizationLLMConfig } from '@/lib/llmCredentials';
 
 // GET /api/teams/[id] - Get organization details
 export async function GET(
@@ -44,13 +46,51 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { name, logo_url, settings, plan } = body;
+    const {
+      name,
+      logo_url,
+      settings,
+      plan,
+      llm_budget_cents_monthly,
+      llm_budget_warn_pct,
+      llm_allowed_models,
+      llm_platform_fallback,
+    } = body;
 
     const updates: Record<string, unknown> = {};
     if (name) updates.name = name;
     if (logo_url !== undefined) updates.logo_url = logo_url;
     if (settings) updates.settings = settings;
     if (plan) updates.plan = plan;
+    if (llm_budget_cents_monthly !== undefined) {
+      if (llm_budget_cents_monthly !== null && (!Number.isInteger(llm_budget_cents_monthly) || llm_budget_cents_monthly < 0)) {
+        return NextResponse.json({ error: 'llm_budget_cents_monthly must be a non-negative integer or null' }, { status: 400 });
+      }
+      updates.llm_budget_cents_monthly = llm_budget_cents_monthly;
+    }
+    if (llm_budget_warn_pct !== undefined) {
+      if (!Number.isInteger(llm_budget_warn_pct) || llm_budget_warn_pct < 1 || llm_budget_warn_pct > 100) {
+        return NextResponse.json({ error: 'llm_budget_warn_pct must be an integer between 1 and 100' }, { status: 400 });
+      }
+      updates.llm_budget_warn_pct = llm_budget_warn_pct;
+    }
+    if (llm_allowed_models !== undefined) {
+      if (
+        llm_allowed_models !== null &&
+        (!Array.isArray(llm_allowed_models) ||
+          llm_allowed_models.length === 0 ||
+          !llm_allowed_models.every((m: unknown) => typeof m === 'string' && MODEL_CONFIGS[m]))
+      ) {
+        return NextResponse.json({ error: 'llm_allowed_models must be a non-empty array of known model ids or null' }, { status: 400 });
+      }
+      updates.llm_allowed_models = llm_allowed_models;
+    }
+    if (llm_platform_fallback !== undefined) {
+      if (typeof llm_platform_fallback !== 'boolean') {
+        return NextResponse.json({ error: 'llm_platform_fallback must be a boolean' }, { status: 400 });
+      }
+      updates.llm_platform_fallback = llm_platform_fallback;
+    }
 
     const { data: organization, error } = await supabase
       .from('organizations')
@@ -60,6 +100,7 @@ export async function PATCH(
       .single();
 
     if (error) throw error;
+    if (llm_allowed_models !== undefined || llm_platform_fallback !== undefined) invalidateOrganizationLLMConfig(id);
 
     return NextResponse.json({ organization });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { NextResponse } from 'next/server';
+import { checkLLMBudget, getUserOrganizationId } from '@/lib/llmBudget';
 
 // Pro plan limits
 const PRO_LIMITS = {
@@ -57,6 +58,10 @@ export async function GET() {
     }
   }
 
+  // Month-to-date AI spend against the plan/org budget
+  const organizationId = await getUserOrganizationId(user.id);
+  const budget = await checkLLMBudget(user.id, organizationId);
+
   // Return with plan limits merged
   const isPro = plan.plan_id === 'pro';
   
@@ -77,5 +82,13 @@ export async function GET() {
       smart_mode_minutes_monthly: usage.smart_mode_minutes?.used ?? 0,
       resume_deep_reviews_monthly: usage.resume_deep_reviews?.used ?? 0,
     },
+    llm_spend: {
+      spent_cents: budget.user.spentCents,
+      budget_cents: budget.user.budgetCents,
+      status: budget.status,
+      organization: budget.organization
+        ? { spent_cents: budget.organization.spentCents, budget_cents: budget.organization.budgetCents }
+        : null,
+    },
   });
 }
@@ -50,6 +50,7 @@ export async function AppShell(props: { title?: string; children: React.ReactNod
             <Link href="/jobs">Jobs</Link>
             <Link href="/copilot/live">Live Copilot</Link>
             <Link href="/resume">Resume</Link>
+            <Link href="/stories">Stories</Link>
             <Link href="/settings">Settings</Link>
           </nav>
 
@@ -1,7 +1,12 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import { ShareReport } from './ShareReport';
+import type { StoryMatch } from '@/lib/storyBank';
+import type { AnswerEvaluation } from '@/lib/answerScoring';
+import { RUBRIC_DIMENSIONS } from '@/lib/mockInterviewReport';
+import { describeSpeechMetrics } from '@/lib/speechMetrics';
 
 type Msg = {
   id: string;
@@ -10,6 +15,56 @@ type Msg = {
   created_at: string;
 };
 
+type TurnEvent = {
+  type: 'message' | 'delta' | 'done' | 'error';
+  payload: Record<string, unknown>;
+};
+
+const TURN_ERRORS: Record<string, string> = {
+  interview_completed: 'The interview has been wrapped up.',
+  awaiting_answer: 'Answer the current question first.',
+  llm_budget_exceeded: 'Your monthly AI budget has been reached.',
+  no_speech: 'No speech was detected. Try recording again.',
+  stt_unavailable: 'Transcription is unavailable right now. Type your answer instead.',
+  unsupported_media_type: 'This browser records audio in a format that is not supported.',
+};
+
+function turnErrorMessage(code: string) {
+  return TURN_ERRORS[code] ?? 'The interviewer could not reply. Try again.';
+}
+
+// Read `event:`/`data:` frames from a streamed turn response
+async function readTurnEvents(res: Response, onEvent: (event: TurnEvent) => void) {
+  const reader = res.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const frames = buffered.split('\n\n');
+    buffered = frames.pop() ?? '';
+    for (const frame of frames) {
+      const data = frame.split('\n').find((line) => line.startsWith('data: '));
+      if (!data) continue;
+      try {
+        onEvent(JSON.parse(data.slice('data: '.length)) as TurnEvent);
+      } catch {
+        // Skip malformed frames
+      }
+    }
+  }
+}
+
+type ScoredQuestion = {
+  id: string;
+  question_text: string;
+  response_score: number | null;
+  evaluation: AnswerEvaluation | null;
+};
+
 type Feedback = {
   id: string;
   score: number | null;
@@ -20,24 +75,103 @@ type Feedback = {
 
 export function InterviewClient(props: {
   sessionId: string;
+  status?: string;
   initialMessages: Msg[];
+  initialQuestions?: ScoredQuestion[];
   initialFeedback?: Feedback[];
 }) {
   const [messages, setMessages] = useState<Msg[]>(props.initialMessages ?? []);
   const [sending, setSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [replyFailed, setReplyFailed] = useState(false);
+  const [completed, setCompleted] = useState(props.status === 'completed');
+
+  const [voiceMode, setVoiceMode] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const recorderRef = useRef<{ recorder: MediaRecorder; startedAt: number } | null>(null);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
 
   const [draft, setDraft] = useState('');
 
+  const [questions, setQuestions] = useState<ScoredQuestion[]>(props.initialQuestions ?? []);
+
   const [score, setScore] = useState<string>('');
   const [notes, setNotes] = useState('');
-  const [rubric, setRubric] = useState<string>('{}');
   const [savingFeedback, setSavingFeedback] = useState(false);
   const [feedbackSaved, setFeedbackSaved] = useState<string | null>(null);
 
+  const [storyMatches, setStoryMatches] = useState<StoryMatch[] | null>(null);
+  const [findingStory, setFindingStory] = useState(false);
+
   const feedback = props.initialFeedback ?? [];
+  const lastQuestion = useMemo(
+    () => [...messages].reverse().find((m) => m.role === 'assistant')?.content ?? '',
+    [messages]
+  );
 
   const exportUrl = useMemo(() => `/api/interviews/${props.sessionId}/export`, [props.sessionId]);
+  const scoredQuestions = questions.filter((q) => q.evaluation);
+
+  // Answers are scored when the interviewer moves on; pick up new scores
+  async function refreshScores() {
+    const res = await fetch(`/api/interviews/${props.sessionId}/questions`).catch(() => null);
+    if (!res?.ok) return;
+    const json = await res.json().catch(() => ({}));
+    if (Array.isArray(json.questions)) setQuestions(json.questions);
+  }
+
+  // Voice mode: play the interviewer's message through TTS
+  function speak(messageId: string) {
+    playerRef.current?.pause();
+    const player = new Audio(`/api/interviews/${props.sessionId}/messages/${messageId}/audio`);
+    playerRef.current = player;
+    player.play().catch(() => setError('Could not play the interviewer audio.'));
+  }
+
+  /**
+   * POST with `stream: true` (a recorded answer sets it in the URL) and
+   * apply the streamed turn. Throws if the request fails; returns the error
+   * code if only the interviewer's reply failed (the user's message is
+   * stored by then).
+   */
+  async function takeTurn(url: string, body: Record<string, unknown> | Blob): Promise<string | null> {
+    const res = await fetch(
+      url,
+      body instanceof Blob
+        ? { method: 'POST', headers: { 'content-type': body.type.split(';')[0] || 'audio/webm' }, body }
+        : { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ ...body, stream: true }) }
+    );
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      throw new Error(json?.error ? turnErrorMessage(json.error) : 'Failed to send');
+    }
+
+    // No reply (the interview is completed): just the stored message
+    if (!res.headers.get('content-type')?.includes('text/event-stream')) {
+      const json = await res.json().catch(() => ({}));
+      if (json.message) setMessages((m) => [...m, json.message]);
+      return null;
+    }
+
+    const outcome: { error: string | null } = { error: null };
+    setStreamingReply('');
+    await readTurnEvents(res, (event) => {
+      if (event.type === 'message' || event.type === 'done') {
+        const message = event.payload.message as Msg;
+        if (event.type === 'done') setStreamingReply(null);
+        if (event.type === 'done' && voiceMode) speak(message.id);
+        if (event.payload.action === 'wrap_up') setCompleted(true);
+        setMessages((m) => [...m, message]);
+      } else if (event.type === 'delta') {
+        setStreamingReply((text) => (text ?? '') + String(event.payload.text ?? ''));
+      } else {
+        outcome.error = String(event.payload.error ?? 'interviewer_unavailable');
+      }
+    });
+    setStreamingReply(null);
+    return outcome.error;
+  }
 
   async function sendMessage() {
     const text = draft.trim();
@@ -45,24 +179,118 @@ export function InterviewClient(props: {
 
     setError(null);
     setFeedbackSaved(null);
+    setReplyFailed(false);
     setSending(true);
     setDraft('');
 
     try {
-      const res = await fetch(`/api/interviews/${props.sessionId}/messages`, {
+      const replyError = await takeTurn(`/api/interviews/${props.sessionId}/messages`, { role: 'user', content: text });
+      if (replyError) {
+        setReplyFailed(true);
+        setError(turnErrorMessage(replyError));
+      }
+      void refreshScores();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed');
+      setDraft(text);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  // Opening question, or a retry after a failed reply
+  async function requestTurn() {
+    setError(null);
+    setReplyFailed(false);
+    setSending(true);
+
+    try {
+      const replyError = await takeTurn(`/api/interviews/${props.sessionId}/turn`, {});
+      if (replyError) {
+        setReplyFailed(true);
+        setError(turnErrorMessage(replyError));
+      }
+      void refreshScores();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function startRecording() {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        const durationMs = Date.now() - (recorderRef.current?.startedAt ?? Date.now());
+        recorderRef.current = null;
+        void sendRecording(new Blob(chunks, { type: recorder.mimeType }), durationMs);
+      };
+      playerRef.current?.pause();
+      recorder.start();
+      recorderRef.current = { recorder, startedAt: Date.now() };
+      setRecording(true);
+    } catch {
+      setError('Microphone access is needed to answer by voice.');
+    }
+  }
+
+  function stopRecording() {
+    recorderRef.current?.recorder.stop();
+    setRecording(false);
+  }
+
+  async function sendRecording(audio: Blob, durationMs: number) {
+    if (audio.size === 0) return;
+
+    setError(null);
+    setFeedbackSaved(null);
+    setReplyFailed(false);
+    setSending(true);
+
+    try {
+      const replyError = await takeTurn(
+        `/api/interviews/${props.sessionId}/messages/audio?stream=true&duration_ms=${Math.round(durationMs)}`,
+        audio
+      );
+      if (replyError) {
+        setReplyFailed(true);
+        setError(turnErrorMessage(replyError));
+      }
+      void refreshScores();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function findStory() {
+    if (!lastQuestion) return;
+    setError(null);
+    setFindingStory(true);
+
+    try {
+      const res = await fetch('/api/stories/match', {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ role: 'user', content: text }),
+        body: JSON.stringify({ question: lastQuestion, limit: 2 }),
       });
       const json = await res.json().catch(() => ({}));
-      if (!res.ok) throw new Error(json?.error ?? 'Failed to send');
+      if (!res.ok) throw new Error(json?.error ?? 'Failed to match stories');
 
-      setMessages((m) => [...m, json.message]);
+      setStoryMatches(json.matches ?? []);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed');
-      setDraft(text);
     } finally {
-      setSending(false);
+      setFindingStory(false);
     }
   }
 
@@ -71,18 +299,8 @@ export function InterviewClient(props: {
     setFeedbackSaved(null);
     setSavingFeedback(true);
 
-    let rubricObj: Record<string, unknown> = {};
-    try {
-      rubricObj = rubric.trim() ? JSON.parse(rubric) : {};
-    } catch {
-      setSavingFeedback(false);
-      setError('Rubric must be valid JSON');
-      return;
-    }
-
-    const payload: { notes?: string; rubric: Record<string, unknown>; score?: number } = {
+    const payload: { notes?: string; score?: number } = {
       notes: notes.trim() || undefined,
-      rubric: rubricObj,
     };
     if (score.trim()) payload.score = Number(score);
 
@@ -98,7 +316,6 @@ export function InterviewClient(props: {
       setFeedbackSaved('Saved. (Refresh to see it in the list)');
       setScore('');
       setNotes('');
-      setRubric('{}');
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed');
     } finally {
@@ -124,19 +341,64 @@ export function InterviewClient(props: {
                   <div className="cardInner stack" style={{ gap: 6 }}>
                     <div className="row" style={{ justifyContent: 'space-between' }}>
                       <span className="badge">{m.role}</span>
-                      <span className="small mono">{new Date(m.created_at).toLocaleString()}</span>
+                      <span className="row" style={{ gap: 8 }}>
+                        {voiceMode && m.role === 'assistant' ? (
+                          <button className="button" type="button" onClick={() => speak(m.id)}>
+                            Play
+                          </button>
+                        ) : null}
+                        <span className="small mono">{new Date(m.created_at).toLocaleString()}</span>
+                      </span>
                     </div>
                     <p style={{ margin: 0, lineHeight: 1.5, whiteSpace: 'pre-wrap' }}>{m.content}</p>
                   </div>
                 </li>
               ))
-            ) : (
-              <li className="small">No messages yet. Start with a question or answer.</li>
-            )}
+            ) : streamingReply === null ? (
+              <li className="row" style={{ justifyContent: 'space-between' }}>
+                <span className="small">The interviewer opens with the first question.</span>
+                <button className="button buttonPrimary" type="button" onClick={requestTurn} disabled={sending}>
+                  {sending ? 'Starting…' : 'Start interview'}
+                </button>
+              </li>
+            ) : null}
+            {streamingReply !== null ? (
+              <li className="card" style={{ background: 'rgba(255,255,255,0.04)', boxShadow: 'none' }} aria-live="polite">
+                <div className="cardInner stack" style={{ gap: 6 }}>
+                  <span className="badge">assistant</span>
+                  <p style={{ margin: 0, lineHeight: 1.5, whiteSpace: 'pre-wrap' }}>{streamingReply}…</p>
+                </div>
+              </li>
+            ) : null}
           </ol>
 
+          {replyFailed && !sending ? (
+            <div className="row" style={{ justifyContent: 'flex-end' }}>
+              <button className="button" type="button" onClick={requestTurn}>
+                Retry interviewer reply
+              </button>
+            </div>
+          ) : null}
+
           <hr className="hr" />
 
+          <div className="row" style={{ justifyContent: 'space-between' }}>
+            <label className="small">
+              <input type="checkbox" checked={voiceMode} onChange={(e) => setVoiceMode(e.target.checked)} /> Voice mode
+              (hear the interviewer, answer by speaking)
+            </label>
+            {voiceMode && !completed ? (
+              <button
+                className={recording ? 'button' : 'button buttonPrimary'}
+                type="button"
+                onClick={recording ? stopRecording : startRecording}
+                disabled={sending && !recording}
+              >
+                {recording ? 'Stop and send' : sending ? 'Sending…' : 'Record answer'}
+              </button>
+            ) : null}
+          </div>
+
           <form
             className="stack"
             onSubmit={(e) => {
@@ -155,7 +417,9 @@ export function InterviewClient(props: {
               />
             </label>
             <div className="row" style={{ justifyContent: 'space-between' }}>
-              <span className="small">Saved in DB via <span className="mono">/api/interviews/:id/messages</span></span>
+              <span className="small">
+                {completed ? 'Interview completed. Messages are saved as notes.' : 'The interviewer replies after each answer.'}
+              </span>
               <button className="button buttonPrimary" disabled={sending} type="submit">
                 {sending ? 'Sending…' : 'Send'}
               </button>
@@ -168,8 +432,91 @@ export function InterviewClient(props: {
 
       <aside className="card" aria-label="Feedback and score">
         <div className="cardInner stack">
+          <div className="row" style={{ justifyContent: 'space-between' }}>
+            <h2 className="cardTitle">Story bank</h2>
+            <button className="button" type="button" onClick={findStory} disabled={!lastQuestion || findingStory}>
+              {findingStory ? 'Searching…' : 'Find a story'}
+            </button>
+          </div>
+          <p className="cardDesc">Best-matching STAR story for the interviewer&apos;s last question.</p>
+          {storyMatches === null ? null : storyMatches.length ? (
+            storyMatches.map(({ story, competencies }) => (
+              <div key={story.id} className="card" style={{ background: 'rgba(255,255,255,0.04)', boxShadow: 'none' }}>
+                <div className="cardInner stack" style={{ gap: 6 }}>
+                  <div className="row" style={{ justifyContent: 'space-between' }}>
+                    <strong>{story.title}</strong>
+                    {competencies.length ? <span className="badge">{competencies.join(', ')}</span> : null}
+                  </div>
+                  {(['situation', 'task', 'action', 'result'] as const).map((field) =>
+                    story[field] ? (
+                      <p key={field} className="small" style={{ margin: 0 }}>
+                        <strong>{field[0].toUpperCase()}:</strong> {story[field]}
+                      </p>
+                    ) : null
+                  )}
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="small">
+              No matching story. Add one in the <Link href="/stories">story bank</Link>.
+            </p>
+          )}
+
+          <hr className="hr" />
+
+          <h2 className="cardTitle">Answer scores</h2>
+          <p className="cardDesc">
+            Each answer is scored on clarity, confidence, relevance and structure when the interviewer moves on.
+          </p>
+          <ul className="stack" style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+            {scoredQuestions.length ? (
+              scoredQuestions.map((q) => (
+                <li key={q.id} className="card" style={{ background: 'rgba(255,255,255,0.04)', boxShadow: 'none' }}>
+                  <div className="cardInner stack" style={{ gap: 8 }}>
+                    <div className="row" style={{ justifyContent: 'space-between', alignItems: 'start' }}>
+                      <strong>{q.question_text}</strong>
+                      <span className="badge">Score: {q.response_score ?? '—'}/5</span>
+                    </div>
+                    <div className="row" style={{ gap: 6, flexWrap: 'wrap' }}>
+                      {RUBRIC_DIMENSIONS.map((dimension) => (
+                        <span key={dimension} className="badge" title={q.evaluation?.rubric[dimension]?.recommendation}>
+                          {dimension} {q.evaluation?.rubric[dimension]?.score ?? '—'}
+                        </span>
+                      ))}
+                    </div>
+                    {q.evaluation?.delivery ? (
+                      <p className="small" style={{ margin: 0 }}>
+                        Delivery: {describeSpeechMetrics(q.evaluation.delivery)}
+                      </p>
+                    ) : null}
+                    {q.evaluation?.evidence_quotes.length ? (
+                      <ul className="small" style={{ margin: 0, paddingLeft: 18 }}>
+                        {q.evaluation.evidence_quotes.map((quote) => (
+                          <li key={quote}>&ldquo;{quote}&rdquo;</li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    {q.evaluation?.improved_answer ? (
+                      <details>
+                        <summary className="small">Suggested answer</summary>
+                        <p className="small" style={{ margin: '6px 0 0', whiteSpace: 'pre-wrap' }}>
+                          {q.evaluation.improved_answer}
+                        </p>
+                      </details>
+                    ) : null}
+                  </div>
+                </li>
+              ))
+            ) : (
+              <li className="small">No scored answers yet.</li>
+            )}
+          </ul>
+
+          <hr className="hr" />
+
           <h2 className="cardTitle">Feedback + score</h2>
-          <p className="cardDesc">In the MVP, scoring is manual input stored to the DB.</p>
+          <p className="cardDesc">Your own notes on the session, alongside the automatic answer scores.</p>
 
           <div className="stack">
             <label className="label">
@@ -187,10 +534,6 @@ export function InterviewClient(props: {
               Notes
               <textarea className="textarea" value={notes} onChange={(e) => setNotes(e.target.value)} />
             </label>
-            <label className="label">
-              Rubric (JSON)
-              <textarea className="textarea mono" value={rubric} onChange={(e) => setRubric(e.target.value)} />
-            </label>
 
             <div className="row" style={{ justifyContent: 'flex-end' }}>
               <button className="button buttonPrimary" type="button" onClick={saveFeedback} disabled={savingFeedback}>
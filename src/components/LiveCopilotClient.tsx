@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
 import styles from './LiveCopilotClient.module.css';
 import { formatCopilotActionError } from './liveCopilotDataControls';
+import { createClient } from '@/lib/supabase/browser';
 import { sloClient, SLO_TYPE_OVERLAY_INTERACTION, SLO_TYPE_TRANSCRIPT_TO_SUGGESTION, getStatusEmoji, formatLatency, type SLOCompliance, type SLOMetric } from '@/lib/sloClient';
 
 interface SpeechRecognitionAlternativeLite {
@@ -43,6 +44,8 @@ type CopilotSession = {
   consumed_minutes: number;
 };
 
+type ContextOption = { id: string; label: string };
+
 type CopilotHistorySession = {
   id: string;
   title: string | null;
@@ -82,6 +85,51 @@ type StreamEnvelope<T> = {
   payload: T;
 };
 
+// Partial suggestion text from `suggestion.delta` events (see copilotSuggestionStream)
+type SuggestionDelta = {
+  suggestion_id: string;
+  based_on_event_id: string;
+  seq: number;
+  delta: string;
+  discarded?: boolean;
+};
+
+type StreamingSuggestion = {
+  id: string;
+  text: string;
+  seq: number;
+  startedAt: string;
+};
+
+// Feedback the user gave on a suggestion (see /api/copilot/sessions/[id]/feedback)
+type SuggestionFeedbackState = {
+  rating: 'helpful' | 'not_helpful' | null;
+  used: boolean | null;
+  editedText: string | null;
+};
+
+type SuggestionFeedbackUpdate = Partial<SuggestionFeedbackState> & { glanceMs?: number };
+
+type SessionFeedbackSummary = {
+  suggestions: number;
+  totals: {
+    samples: number;
+    helpful_rate: number | null;
+    used_rate: number | null;
+    edited: number;
+    avg_glance_ms: number | null;
+  };
+  by_prompt: Array<{
+    mode: string | null;
+    model: string | null;
+    prompt_id: string | null;
+    prompt_version: string | null;
+    samples: number;
+    helpful_rate: number | null;
+    used_rate: number | null;
+  }>;
+};
+
 type TranscriptChunkInput = {
   speaker: 'interviewer' | 'candidate' | 'system';
   text: string;
@@ -188,6 +236,10 @@ function asPercent(value: number | null, max: number): number {
   return Math.max(0, Math.min(100, Math.round((value / max) * 100)));
 }
 
+function formatRate(value: number | null): string {
+  return value === null ? '—' : `${asPercent(value, 1)}%`;
+}
+
 function scoreTone(value: number | null, max: number): 'high' | 'medium' | 'low' {
   if (value === null) return 'low';
   const ratio = value / max;
@@ -264,9 +316,14 @@ function calculateDurationMinutes(startedAt?: string | null, stoppedAt?: string
 export function LiveCopilotClient() {
   const [mode, setMode] = useState<CopilotMode>('general');
   const [title, setTitle] = useState('');
+  const [resumeOptions, setResumeOptions] = useState<ContextOption[]>([]);
+  const [jobOptions, setJobOptions] = useState<ContextOption[]>([]);
+  const [resumeDocumentId, setResumeDocumentId] = useState('');
+  const [jobId, setJobId] = useState('');
   const [session, setSession] = useState<CopilotSession | null>(null);
   const [transcript, setTranscript] = useState<CopilotEvent[]>([]);
   const [suggestions, setSuggestions] = useState<CopilotEvent[]>([]);
+  const [streamingSuggestions, setStreamingSuggestions] = useState<StreamingSuggestion[]>([]);
   const [connecting, setConnecting] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [draftText, setDraftText] = useState('');
@@ -294,6 +351,7 @@ export function LiveCopilotClient() {
   const [historyReportLoading, setHistoryReportLoading] = useState(false);
   const [historyReportError, setHistoryReportError] = useState<string | null>(null);
   const [historyReportCopied, setHistoryReportCopied] = useState(false);
+  const [historyFeedback, setHistoryFeedback] = useState<SessionFeedbackSummary | null>(null);
   const [deletingHistoryId, setDeletingHistoryId] = useState<string | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [deleteSuccess, setDeleteSuccess] = useState<string | null>(null);
@@ -336,6 +394,13 @@ export function LiveCopilotClient() {
 
   // Transcript timestamps for latency tracking
   const transcriptTimestampsRef = useRef<Map<string, number>>(new Map());
+  // Last transcript submission, for time to first streamed word
+  const lastTranscriptSubmitRef = useRef<number | null>(null);
+  // When each suggestion first appeared, and which have been looked at, for glance latency
+  const suggestionShownAtRef = useRef<Map<string, number>>(new Map());
+  const suggestionGlancedRef = useRef<Set<string>>(new Set());
+  const [suggestionFeedback, setSuggestionFeedback] = useState<Record<string, SuggestionFeedbackState>>({});
+  const [editingSuggestion, setEditingSuggestion] = useState<{ id: string; text: string } | null>(null);
 
   const streamRef = useRef<EventSource | null>(null);
   const recognitionRef = useRef<SpeechRecognitionLite | null>(null);
@@ -347,6 +412,45 @@ export function LiveCopilotClient() {
 
   const isActive = session?.status === 'active';
 
+  // Resumes and saved jobs the user can ground suggestions in
+  useEffect(() => {
+    let mounted = true;
+    const supabase = createClient();
+
+    async function loadContextOptions() {
+      const [{ data: resumes }, { data: jobs }] = await Promise.all([
+        supabase
+          .from('resume_documents')
+          .select('id, filename, created_at')
+          .not('parsed_text', 'is', null)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('jobs')
+          .select('id, title, company')
+          .not('title', 'is', null)
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+      if (!mounted) return;
+
+      setResumeOptions(
+        (resumes ?? []).map((r: { id: string; filename: string | null }) => ({ id: r.id, label: r.filename || 'Resume' })),
+      );
+      setJobOptions(
+        (jobs ?? []).map((j: { id: string; title: string; company: string | null }) => ({
+          id: j.id,
+          label: j.company ? `${j.title} · ${j.company}` : j.title,
+        })),
+      );
+    }
+
+    void loadContextOptions();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
   useEffect(() => {
     return () => {
       streamRef.current?.close();
@@ -599,6 +703,7 @@ export function LiveCopilotClient() {
   useEffect(() => {
     if (activePanel !== 'analytics' || !selectedHistoryId) {
       setHistoryReport(null);
+      setHistoryFeedback(null);
       setHistoryReportError(null);
       setHistoryReportLoading(false);
       setHistoryReportCopied(false);
@@ -612,6 +717,7 @@ export function LiveCopilotClient() {
     const fallbackReport = fallbackSummary ? parseReportPayload(fallbackSummary.payload) : null;
 
     setHistoryReport(fallbackReport ? { ...fallbackReport, source: 'legacy' } : null);
+    setHistoryFeedback(null);
     setHistoryReportError(null);
     setHistoryReportCopied(false);
     setHistoryReportLoading(true);
@@ -621,7 +727,11 @@ export function LiveCopilotClient() {
     const loadReport = async () => {
       try {
         const res = await fetch(`/api/copilot/sessions/${selectedHistoryId}/report`);
-        const json = (await res.json().catch(() => ({}))) as { report?: unknown; error?: string };
+        const json = (await res.json().catch(() => ({}))) as {
+          report?: unknown;
+          feedback?: SessionFeedbackSummary | null;
+          error?: string;
+        };
 
         if (!res.ok) {
           if (res.status === 404) return;
@@ -634,6 +744,7 @@ export function LiveCopilotClient() {
         if (parsed) {
           setHistoryReport({ ...parsed, source: 'api' });
         }
+        setHistoryFeedback(json.feedback ?? null);
       } catch (e) {
         if (cancelled) return;
         setHistoryReportError(e instanceof Error ? e.message : 'Failed to load report');
@@ -682,6 +793,32 @@ export function LiveCopilotClient() {
       }
     });
 
+    es.addEventListener('suggestion.delta', (event) => {
+      const parsed = parseEnvelope<SuggestionDelta>((event as MessageEvent<string>).data);
+      if (!parsed) return;
+
+      const delta = parsed.payload;
+      setStreamingSuggestions((prev) => {
+        const current = prev.find((item) => item.id === delta.suggestion_id);
+        if (delta.discarded) return prev.filter((item) => item.id !== delta.suggestion_id);
+        if (current && delta.seq <= current.seq) return prev;
+        if (current) {
+          return prev.map((item) =>
+            item.id === delta.suggestion_id ? { ...item, text: item.text + delta.delta, seq: delta.seq } : item,
+          );
+        }
+        return [...prev, { id: delta.suggestion_id, text: delta.delta, seq: delta.seq, startedAt: new Date().toISOString() }];
+      });
+
+      if (delta.seq === 0 && lastTranscriptSubmitRef.current) {
+        const latency = Date.now() - lastTranscriptSubmitRef.current;
+        if (latency > 0) {
+          sloClient.recordMetric(SLO_TYPE_TRANSCRIPT_TO_SUGGESTION, 'transcriptToFirstWord', latency);
+          updateSLOCompliance();
+        }
+      }
+    });
+
     es.addEventListener('session', (event) => {
       const parsed = parseEnvelope<CopilotSession>((event as MessageEvent<string>).data);
       if (!parsed) return;
@@ -706,6 +843,9 @@ export function LiveCopilotClient() {
     setSubmitting(true);
     setTranscript([]);
     setSuggestions([]);
+    setStreamingSuggestions([]);
+    setSuggestionFeedback({});
+    setEditingSuggestion(null);
     setSummary(null);
     setMicPreview('');
     setLastMicSyncAt(null);
@@ -716,6 +856,8 @@ export function LiveCopilotClient() {
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({
           title: title.trim() || `Live ${mode} session`,
+          resumeDocumentId: resumeDocumentId || undefined,
+          jobId: jobId || undefined,
           metadata: {
             mode,
             beta: true,
@@ -796,6 +938,7 @@ export function LiveCopilotClient() {
         const batch = queue.splice(0, 8);
         // Track submission time for SLO
         const submitTime = Date.now();
+        lastTranscriptSubmitRef.current = submitTime;
         
         const res = await fetch(`/api/copilot/sessions/${session.id}/transcript`, {
           method: 'POST',
@@ -941,6 +1084,7 @@ export function LiveCopilotClient() {
 
     // Track transcript submission time for SLO measurement
     const transcriptSubmitTime = Date.now();
+    lastTranscriptSubmitRef.current = transcriptSubmitTime;
 
     try {
       const res = await fetch(`/api/copilot/sessions/${session.id}/transcript`, {
@@ -987,6 +1131,71 @@ export function LiveCopilotClient() {
     }
   }, [draftSpeaker, draftText, session?.id, submitting, updateSLOCompliance]);
 
+  // Correct a diarized speaker once; the server relabels every stored line with that label
+  const relabelSpeaker = useCallback(
+    async (label: string, speaker: 'interviewer' | 'candidate') => {
+      if (!session?.id) return;
+
+      try {
+        const res = await fetch(`/api/copilot/sessions/${session.id}/speakers`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ label, speaker }),
+        });
+        const json = (await res.json().catch(() => ({}))) as { error?: string };
+        if (!res.ok) throw new Error(json.error ?? 'Failed to update speaker');
+
+        setTranscript((prev) =>
+          prev.map((item) =>
+            item.payload.speaker_label === label ? { ...item, payload: { ...item.payload, speaker } } : item,
+          ),
+        );
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to update speaker');
+      }
+    },
+    [session?.id],
+  );
+
+  // Feedback calls accumulate server-side, so each one only sends what changed
+  const sendSuggestionFeedback = useCallback(
+    async (suggestionId: string, update: SuggestionFeedbackUpdate) => {
+      if (!session?.id) return;
+
+      const { glanceMs, ...state } = update;
+      if (Object.keys(state).length > 0) {
+        setSuggestionFeedback((prev) => ({
+          ...prev,
+          [suggestionId]: { ...(prev[suggestionId] ?? { rating: null, used: null, editedText: null }), ...state },
+        }));
+      }
+
+      try {
+        const res = await fetch(`/api/copilot/sessions/${session.id}/feedback`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ suggestionId, ...state, ...(glanceMs !== undefined ? { glanceMs } : {}) }),
+        });
+        const json = (await res.json().catch(() => ({}))) as { error?: string };
+        if (!res.ok) throw new Error(json.error ?? 'Failed to save feedback');
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to save feedback');
+      }
+    },
+    [session?.id],
+  );
+
+  const recordSuggestionGlance = useCallback(
+    (suggestionId: string) => {
+      const shownAt = suggestionShownAtRef.current.get(suggestionId);
+      if (shownAt === undefined || suggestionGlancedRef.current.has(suggestionId)) return;
+
+      suggestionGlancedRef.current.add(suggestionId);
+      void sendSuggestionFeedback(suggestionId, { glanceMs: Math.max(0, Date.now() - shownAt) });
+    },
+    [sendSuggestionFeedback],
+  );
+
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
@@ -1199,6 +1408,8 @@ export function LiveCopilotClient() {
         id: item.id,
         text: asText(item.payload.text, asText(item.payload.content, '')).trim(),
         speaker: asText(item.payload.speaker, 'speaker'),
+        speakerLabel: asText(item.payload.speaker_label, ''),
+        speakerConfidence: typeof item.payload.speaker_confidence === 'number' ? item.payload.speaker_confidence : null,
         created_at: item.created_at,
       })),
     [transcript],
@@ -1221,11 +1432,33 @@ export function LiveCopilotClient() {
         talkingPoints: Array.isArray(item.payload.talking_points)
           ? item.payload.talking_points.filter((x): x is string => typeof x === 'string')
           : [],
+        storyTitle:
+          item.payload.star_story && typeof item.payload.star_story === 'object'
+            ? asText((item.payload.star_story as Record<string, unknown>).title, '').trim()
+            : '',
         created_at: item.created_at,
       })),
     [suggestions],
   );
 
+  // Partial answers still being generated; dropped once the stored suggestion arrives
+  const pendingSuggestions = useMemo(
+    () => streamingSuggestions.filter((item) => !suggestions.some((event) => event.id === item.id)),
+    [streamingSuggestions, suggestions],
+  );
+
+  // A streamed suggestion counts as shown from its first word
+  useEffect(() => {
+    if (!isActive) return;
+    const shownAt = suggestionShownAtRef.current;
+    for (const item of streamingSuggestions) {
+      if (!shownAt.has(item.id)) shownAt.set(item.id, Date.parse(item.startedAt));
+    }
+    for (const item of suggestions) {
+      if (!shownAt.has(item.id)) shownAt.set(item.id, Date.now());
+    }
+  }, [isActive, streamingSuggestions, suggestions]);
+
   const analyticsSummary = useMemo(() => {
     const codingStructuredTips = suggestionRows.filter((row) => row.complexity || row.edgeCases.length > 0 || row.checklist.length > 0).length;
     const withFollowUps = suggestionRows.filter((row) => row.followUp).length;
@@ -1374,6 +1607,36 @@ export function LiveCopilotClient() {
                 disabled={isActive || submitting}
               />
             </label>
+
+            <label className="label">
+              Resume for context
+              <select
+                className="select"
+                value={resumeDocumentId}
+                onChange={(e) => setResumeDocumentId(e.target.value)}
+                disabled={isActive || submitting}
+              >
+                <option value="">None</option>
+                {resumeOptions.map((option) => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="label">
+              Target job
+              <select
+                className="select"
+                value={jobId}
+                onChange={(e) => setJobId(e.target.value)}
+                disabled={isActive || submitting}
+              >
+                <option value="">None</option>
+                {jobOptions.map((option) => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
           </div>
 
           <div className={styles.controlGrid}>
@@ -1730,12 +1993,33 @@ export function LiveCopilotClient() {
                   {transcriptRows.map((row) => (
                     <li key={row.id} className={styles.feedCard}>
                       <div className={styles.feedMeta}>
-                        <span className="badge">{row.speaker}</span>
+                        <span className="badge" title={row.speakerConfidence !== null ? `Speaker confidence ${Math.round(row.speakerConfidence * 100)}%` : undefined}>
+                          {row.speaker}
+                        </span>
+                        {row.speakerLabel && (row.speaker === 'interviewer' || row.speaker === 'candidate') ? (
+                          <button
+                            className="button"
+                            type="button"
+                            onClick={() => void relabelSpeaker(row.speakerLabel, row.speaker === 'interviewer' ? 'candidate' : 'interviewer')}
+                            aria-label={`Mark ${row.speakerLabel} as ${row.speaker === 'interviewer' ? 'candidate' : 'interviewer'}`}
+                          >
+                            Swap
+                          </button>
+                        ) : null}
                         <span className="small mono">{new Date(row.created_at).toLocaleTimeString()}</span>
                       </div>
                       <p className={styles.feedText}>{row.text}</p>
                     </li>
                   ))}
+                  {pendingSuggestions.map((item) => (
+                    <li key={item.id} className={styles.feedCard} aria-busy="true">
+                      <div className={styles.feedMeta}>
+                        <span className="badge">answer</span>
+                        <span className="small mono">{new Date(item.startedAt).toLocaleTimeString()}</span>
+                      </div>
+                      <p className={styles.feedText}>{item.text}…</p>
+                    </li>
+                  ))}
                 </ol>
               </div>
             </section> : null}
@@ -1749,12 +2033,19 @@ export function LiveCopilotClient() {
                 {!isActive && suggestionRows.length === 0 ? (
                   <p className={styles.emptyState}>Start a session and send transcript lines to get suggestions.</p>
                 ) : null}
-                {isActive && suggestionRows.length === 0 ? (
+                {isActive && suggestionRows.length === 0 && pendingSuggestions.length === 0 ? (
                   <p className={styles.emptyState}>Suggestions will appear after transcript lines are sent.</p>
                 ) : null}
                 <ol className={styles.feedList}>
-                  {suggestionRows.map((row) => (
-                    <li key={row.id} className={styles.feedCard}>
+                  {suggestionRows.map((row) => {
+                    const feedback = suggestionFeedback[row.id];
+                    return (
+                    <li
+                      key={row.id}
+                      className={styles.feedCard}
+                      onMouseEnter={() => recordSuggestionGlance(row.id)}
+                      onFocus={() => recordSuggestionGlance(row.id)}
+                    >
                       <div className={styles.feedMeta}>
                         <span className="badge">{row.category}</span>
                         <span className="small mono">{new Date(row.created_at).toLocaleTimeString()}</span>
@@ -1807,8 +2098,95 @@ export function LiveCopilotClient() {
                           <strong>Follow-up:</strong> {row.followUp}
                         </p>
                       ) : null}
+                      {row.storyTitle ? (
+                        <p className="small" style={{ margin: 0 }}>
+                          <strong>Story:</strong> {row.storyTitle}
+                        </p>
+                      ) : null}
+                      {row.category === 'answer' && session?.id ? (
+                        <div className="row" style={{ gap: 6, flexWrap: 'wrap' }} role="group" aria-label="Suggestion feedback">
+                          <button
+                            className="button"
+                            type="button"
+                            aria-pressed={feedback?.rating === 'helpful'}
+                            onClick={() =>
+                              void sendSuggestionFeedback(row.id, { rating: feedback?.rating === 'helpful' ? null : 'helpful' })
+                            }
+                          >
+                            Helpful
+                          </button>
+                          <button
+                            className="button"
+                            type="button"
+                            aria-pressed={feedback?.rating === 'not_helpful'}
+                            onClick={() =>
+                              void sendSuggestionFeedback(row.id, {
+                                rating: feedback?.rating === 'not_helpful' ? null : 'not_helpful',
+                              })
+                            }
+                          >
+                            Not helpful
+                          </button>
+                          <button
+                            className="button"
+                            type="button"
+                            aria-pressed={feedback?.used === true}
+                            onClick={() => void sendSuggestionFeedback(row.id, { used: feedback?.used === true ? null : true })}
+                          >
+                            Used it
+                          </button>
+                          <button
+                            className="button"
+                            type="button"
+                            aria-pressed={feedback?.used === false}
+                            onClick={() => void sendSuggestionFeedback(row.id, { used: feedback?.used === false ? null : false })}
+                          >
+                            Ignored
+                          </button>
+                          <button
+                            className="button"
+                            type="button"
+                            onClick={() => setEditingSuggestion({ id: row.id, text: feedback?.editedText ?? row.text })}
+                          >
+                            Edit
+                          </button>
+                        </div>
+                      ) : null}
+                      {editingSuggestion?.id === row.id ? (
+                        <form
+                          className="stack"
+                          style={{ gap: 6 }}
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            void sendSuggestionFeedback(row.id, { editedText: editingSuggestion.text.trim() || null });
+                            setEditingSuggestion(null);
+                          }}
+                        >
+                          <label className="label">
+                            What you actually said
+                            <textarea
+                              className="textarea"
+                              value={editingSuggestion.text}
+                              onChange={(e) => setEditingSuggestion({ id: row.id, text: e.target.value })}
+                            />
+                          </label>
+                          <div className="row" style={{ gap: 6 }}>
+                            <button className="button buttonPrimary" type="submit">
+                              Save
+                            </button>
+                            <button className="button" type="button" onClick={() => setEditingSuggestion(null)}>
+                              Cancel
+                            </button>
+                          </div>
+                        </form>
+                      ) : feedback?.editedText ? (
+                        <p className="small" style={{ margin: 0 }}>
+                          <strong>Your answer:</strong> {feedback.editedText}
+                        </p>
+                      ) : null}
                     </li>
-                  ))}
+                    );
+                  })}
                 </ol>
               </div>
             </section> : null}
@@ -2178,6 +2556,31 @@ export function LiveCopilotClient() {
                                 : <li className="small">No next steps captured.</li>}
                             </ul>
                           </div>
+                          {historyFeedback && historyFeedback.totals.samples > 0 ? (
+                            <div>
+                              <h5 className={styles.subSectionTitle}>
+                                Suggestion feedback ({historyFeedback.totals.samples} of {historyFeedback.suggestions} rated)
+                              </h5>
+                              <div className={styles.metricGrid}>
+                                <div className={styles.metricCard}><span className="small">Helpful</span><strong>{formatRate(historyFeedback.totals.helpful_rate)}</strong></div>
+                                <div className={styles.metricCard}><span className="small">Used</span><strong>{formatRate(historyFeedback.totals.used_rate)}</strong></div>
+                                <div className={styles.metricCard}><span className="small">Edited</span><strong>{historyFeedback.totals.edited}</strong></div>
+                                <div className={styles.metricCard}>
+                                  <span className="small">Time to glance</span>
+                                  <strong>{historyFeedback.totals.avg_glance_ms === null ? '—' : `${(historyFeedback.totals.avg_glance_ms / 1000).toFixed(1)}s`}</strong>
+                                </div>
+                              </div>
+                              {historyFeedback.by_prompt.length > 1 ? (
+                                <ul className={styles.pointsList}>
+                                  {historyFeedback.by_prompt.map((group) => (
+                                    <li key={`${group.mode}-${group.model}-${group.prompt_id}-${group.prompt_version}`} className="small">
+                                      {group.model ?? 'unknown model'} · {group.prompt_id ?? 'prompt'} {group.prompt_version ?? ''}: {formatRate(group.helpful_rate)} helpful, {formatRate(group.used_rate)} used ({group.samples})
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : null}
+                            </div>
+                          ) : null}
                         </>
                       ) : null}
                     </div>
@@ -70,6 +70,7 @@ export function SettingsClient(props: { initial: Settings | null }) {
               <option value="anthropic">Anthropic</option>
               <option value="google">Google</option>
               <option value="openrouter">OpenRouter</option>
+              <option value="openai_compatible">Self-hosted (OpenAI-compatible)</option>
             </select>
           </label>
 
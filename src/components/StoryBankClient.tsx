@@ -0,0 +1,326 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useToastHook } from '@/components/Toast';
+import { STORY_COMPETENCIES, type StarStory, type StarStoryDraft, type StoryCompetency } from '@/lib/storyBank';
+
+type ResumeDoc = { id: string; filename: string | null; created_at: string };
+
+type Form = {
+  title: string;
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  tags: string;
+  competencies: StoryCompetency[];
+};
+
+const EMPTY_FORM: Form = { title: '', situation: '', task: '', action: '', result: '', tags: '', competencies: [] };
+
+const STAR_FIELDS = [
+  { key: 'situation', label: 'Situation', placeholder: 'Context: where you were and what was going on' },
+  { key: 'task', label: 'Task', placeholder: 'What you were responsible for' },
+  { key: 'action', label: 'Action', placeholder: 'What you did, step by step' },
+  { key: 'result', label: 'Result', placeholder: 'Outcome, ideally with numbers' },
+] as const;
+
+function competencyLabel(c: string) {
+  return c.replace('_', ' ');
+}
+
+export function StoryBankClient(props: { initialStories: StarStory[]; resumeDocs: ResumeDoc[] }) {
+  const toast = useToastHook();
+  const [stories, setStories] = useState<StarStory[]>(props.initialStories ?? []);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<Form>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const [resumeId, setResumeId] = useState('');
+  const [drafts, setDrafts] = useState<StarStoryDraft[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const titleId = useId();
+  const tagsId = useId();
+  const resumeSelectId = useId();
+
+  function edit(story: StarStory | null) {
+    setEditingId(story?.id ?? null);
+    setForm(
+      story
+        ? {
+            title: story.title,
+            situation: story.situation,
+            task: story.task,
+            action: story.action,
+            result: story.result,
+            tags: story.tags.join(', '),
+            competencies: story.competencies,
+          }
+        : EMPTY_FORM
+    );
+  }
+
+  function toggleCompetency(c: StoryCompetency) {
+    setForm((f) => ({
+      ...f,
+      competencies: f.competencies.includes(c) ? f.competencies.filter((x) => x !== c) : [...f.competencies, c],
+    }));
+  }
+
+  async function save() {
+    if (!form.title.trim()) return;
+    setSaving(true);
+
+    try {
+      const body = {
+        title: form.title,
+        situation: form.situation,
+        task: form.task,
+        action: form.action,
+        result: form.result,
+        tags: form.tags
+          .split(',')
+          .map((t) => t.trim())
+          .filter(Boolean),
+        // Empty selection lets the server infer competencies from the text
+        competencies: form.competencies.length > 0 ? form.competencies : undefined,
+      };
+      const res = await fetch(editingId ? `/api/stories/${editingId}` : '/api/stories', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? 'Save failed');
+
+      const saved = json.story as StarStory;
+      setStories((s) => [saved, ...s.filter((x) => x.id !== saved.id)]);
+      edit(saved);
+      toast.success('Story Saved', saved.title);
+    } catch (e) {
+      toast.error('Save Failed', e instanceof Error ? e.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(story: StarStory) {
+    try {
+      const res = await fetch(`/api/stories/${story.id}`, { method: 'DELETE' });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? 'Delete failed');
+
+      setStories((s) => s.filter((x) => x.id !== story.id));
+      if (editingId === story.id) edit(null);
+    } catch (e) {
+      toast.error('Delete Failed', e instanceof Error ? e.message : 'Delete failed');
+    }
+  }
+
+  async function importFromResume(save: boolean) {
+    if (!resumeId) return;
+    setImporting(true);
+
+    try {
+      const res = await fetch('/api/stories/import', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ resumeDocumentId: resumeId, save }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.message ?? json?.error ?? 'Import failed');
+
+      if (save) {
+        const added = (json.stories ?? []) as StarStory[];
+        setStories((s) => [...added, ...s]);
+        setDrafts([]);
+        toast.success('Stories Imported', `${added.length} added. Fill in situation and task for each.`);
+      } else {
+        setDrafts(json.drafts ?? []);
+        if (!json.drafts?.length) toast.info('Nothing to Import', 'No new accomplishment bullets found.');
+      }
+    } catch (e) {
+      toast.error('Import Failed', e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <div className="grid2" style={{ alignItems: 'start' }}>
+      <section className="card" aria-labelledby="story-editor-heading">
+        <div className="cardInner stack">
+          <div className="row" style={{ justifyContent: 'space-between' }}>
+            <h2 className="cardTitle" id="story-editor-heading">
+              {editingId ? 'Edit story' : 'New story'}
+            </h2>
+            {editingId ? (
+              <button className="button" type="button" onClick={() => edit(null)}>
+                New story
+              </button>
+            ) : null}
+          </div>
+          <p className="cardDesc">
+            Behavioral questions in live and mock sessions surface the best-matching story from this bank.
+          </p>
+
+          <form
+            className="stack"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void save();
+            }}
+          >
+            <label className="label" htmlFor={titleId}>
+              Title
+              <input
+                id={titleId}
+                className="input"
+                value={form.title}
+                onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
+                placeholder="e.g. Ledger migration under a hard deadline"
+                required
+              />
+            </label>
+
+            {STAR_FIELDS.map((field) => (
+              <label key={field.key} className="label">
+                {field.label}
+                <textarea
+                  className="textarea"
+                  value={form[field.key]}
+                  onChange={(e) => setForm((f) => ({ ...f, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                />
+              </label>
+            ))}
+
+            <label className="label" htmlFor={tagsId}>
+              Tags (comma separated)
+              <input
+                id={tagsId}
+                className="input"
+                value={form.tags}
+                onChange={(e) => setForm((f) => ({ ...f, tags: e.target.value }))}
+                placeholder="postgres, payments"
+              />
+            </label>
+
+            <fieldset className="stack" style={{ border: 'none', padding: 0, margin: 0, gap: 6 }}>
+              <legend className="label">Competencies (leave empty to detect from the text)</legend>
+              <div className="row" style={{ gap: 8, flexWrap: 'wrap' }}>
+                {STORY_COMPETENCIES.map((c) => (
+                  <label key={c} className="small row" style={{ gap: 4 }}>
+                    <input type="checkbox" checked={form.competencies.includes(c)} onChange={() => toggleCompetency(c)} />
+                    {competencyLabel(c)}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="row" style={{ justifyContent: 'flex-end' }}>
+              <button className="button buttonPrimary" type="submit" disabled={saving || !form.title.trim()}>
+                {saving ? 'Saving…' : 'Save story'}
+              </button>
+            </div>
+          </form>
+
+          <hr className="hr" />
+
+          <h3 style={{ margin: 0, fontSize: '1rem' }}>Import from resume</h3>
+          <label className="label" htmlFor={resumeSelectId}>
+            Parsed resume
+            <select
+              id={resumeSelectId}
+              className="input"
+              value={resumeId}
+              onChange={(e) => {
+                setResumeId(e.target.value);
+                setDrafts([]);
+              }}
+            >
+              <option value="">Select a resume…</option>
+              {props.resumeDocs.map((doc) => (
+                <option key={doc.id} value={doc.id}>
+                  {doc.filename ?? 'Untitled'} ({new Date(doc.created_at).toLocaleDateString()})
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="row" style={{ gap: 8, justifyContent: 'flex-end' }}>
+            <button className="button" type="button" disabled={!resumeId || importing} onClick={() => importFromResume(false)}>
+              {importing ? 'Reading…' : 'Preview bullets'}
+            </button>
+            <button
+              className="button buttonPrimary"
+              type="button"
+              disabled={drafts.length === 0 || importing}
+              onClick={() => importFromResume(true)}
+            >
+              Add {drafts.length || ''} to bank
+            </button>
+          </div>
+          {drafts.length > 0 ? (
+            <ul className="stack small" style={{ margin: 0, paddingLeft: 18 }}>
+              {drafts.map((draft) => (
+                <li key={draft.action}>
+                  {draft.action}
+                  {draft.result ? <strong> → {draft.result}</strong> : null}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      </section>
+
+      <aside className="card" aria-labelledby="stories-heading">
+        <div className="cardInner stack">
+          <h2 className="cardTitle" id="stories-heading">
+            Your stories ({stories.length})
+          </h2>
+          <ul className="stack" style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+            {stories.length ? (
+              stories.map((story) => (
+                <li key={story.id} className="card" style={{ background: 'rgba(255,255,255,0.04)', boxShadow: 'none' }}>
+                  <div className="cardInner stack" style={{ gap: 6 }}>
+                    <div className="row" style={{ justifyContent: 'space-between' }}>
+                      <strong>{story.title}</strong>
+                      <span className="small">{story.source === 'resume' ? 'from resume' : null}</span>
+                    </div>
+                    {story.result ? <p className="small" style={{ margin: 0 }}>{story.result}</p> : null}
+                    <div className="row" style={{ gap: 6, flexWrap: 'wrap' }}>
+                      {story.competencies.map((c) => (
+                        <span key={c} className="badge">
+                          {competencyLabel(c)}
+                        </span>
+                      ))}
+                      {story.tags.map((t) => (
+                        <span key={t} className="small mono">
+                          #{t}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="row" style={{ justifyContent: 'space-between' }}>
+                      <span className="small">Used {story.times_used}×</span>
+                      <div className="row" style={{ gap: 8 }}>
+                        <button className="button" type="button" onClick={() => edit(story)}>
+                          Edit
+                        </button>
+                        <button className="button" type="button" onClick={() => remove(story)} aria-label={`Delete ${story.title}`}>
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </li>
+              ))
+            ) : (
+              <li className="small">No stories yet. Write one or import your resume bullets.</li>
+            )}
+          </ul>
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -19,9 +19,28 @@ interface UsageData {
     smart_mode_minutes_monthly: number;
     resume_deep_reviews_monthly: number;
   };
+  llm_spend?: {
+    spent_cents: number;
+    budget_cents: number | null;
+    status: 'ok' | 'warn' | 'blocked';
+  };
+}
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
 }
 
-function ProgressBar({ used, limit, label }: { used: number; limit: number; label: string }) {
+function ProgressBar({
+  used,
+  limit,
+  label,
+  format = String,
+}: {
+  used: number;
+  limit: number;
+  label: string;
+  format?: (value: number) => string;
+}) {
   const percentage = limit > 0 ? Math.min((used / limit) * 100, 100) : 0;
   const isNearLimit = percentage >= 80;
 
@@ -35,7 +54,7 @@ function ProgressBar({ used, limit, label }: { used: number; limit: number; labe
         />
       </div>
       <span className="usage-value">
-        {used} / {limit}
+        {format(used)} / {format(limit)}
       </span>
     </div>
   );
@@ -118,8 +137,23 @@ export function UsageWidget() {
             limit={data.limits.resume_deep_reviews_monthly}
             label="Resume Reviews (monthly)"
           />
+          {data.llm_spend && data.llm_spend.budget_cents !== null && (
+            <ProgressBar
+              used={data.llm_spend.spent_cents}
+              limit={data.llm_spend.budget_cents}
+              label="AI spend (monthly)"
+              format={formatCents}
+            />
+          )}
         </div>
 
+        {data.llm_spend?.status === 'warn' && (
+          <p className="small help">You are close to your monthly AI spend budget.</p>
+        )}
+        {data.llm_spend?.status === 'blocked' && (
+          <p className="small error">Monthly AI spend budget reached. AI features resume next month.</p>
+        )}
+
         {!data.isPro && (
           <p className="small help">
             Upgrade to Pro for higher limits: 400 min/month, 30 min/session, 45 min/day, Smart mode 80 min/month, 10 resume reviews/month.
@@ -0,0 +1,130 @@
+jest.mock('@/lib/llmTaskRunner', () => ({ runStructuredLLMTask: jest.fn() }));
+
+import { runStructuredLLMTask } from '@/lib/llmTaskRunner';
+import {
+  answerScore,
+  normalizeAnswerScore,
+  renderAnswerScoringPrompt,
+  scoreAnswer,
+} from '@/lib/answerScoring';
+import { formatInterviewQA } from '@/lib/mockInterviewReport';
+import { speechMetrics } from '@/lib/speechMetrics';
+
+const runTask = runStructuredLLMTask as jest.MockedFunction<typeof runStructuredLLMTask>;
+
+const ANSWER = 'I led the billing rewrite. We cut invoice errors by 40% in one quarter.';
+
+function dimension(score: number) {
+  return { score, evidence: 'e', recommendation: 'r' };
+}
+
+const RUBRIC = { clarity: dimension(4), confidence: dimension(3), relevance: dimension(5), structure: dimension(4) };
+
+describe('answer scoring', () => {
+  beforeEach(() => runTask.mockReset());
+
+  it('averages the dimensions into a 1-5 score', () => {
+    expect(answerScore(RUBRIC)).toBe(4);
+    expect(
+      answerScore({ clarity: dimension(1), confidence: dimension(1), relevance: dimension(2), structure: dimension(1) })
+    ).toBe(1);
+  });
+
+  it('clamps scores and keeps only quotes found in the answer', () => {
+    const score = normalizeAnswerScore(
+      {
+        rubric: { ...RUBRIC, clarity: dimension(9) },
+        evidence_quotes: ['"we cut invoice errors  by 40%"', 'I single-handedly saved the company', 7],
+        improved_answer: ' Better answer ',
+      },
+      ANSWER
+    );
+
+    expect(score.rubric.clarity.score).toBe(5);
+    expect(score.evidence_quotes).toEqual(['we cut invoice errors  by 40%']);
+    expect(score.improved_answer).toBe('Better answer');
+  });
+
+  it('renders the question rubric and redacts the answer', () => {
+    const prompt = renderAnswerScoringPrompt(
+      {
+        id: 'q1',
+        question_text: 'Describe a project you led.',
+        question_type: 'behavioral',
+        difficulty: 'medium',
+        response_text: 'Email me at jane@example.com about it.',
+        rubric: { hints: ['Quantified result'], sample_answer: 'A STAR story.' },
+      },
+      'behavioral'
+    );
+    const user = prompt.messages.find((message) => message.role === 'user')?.content ?? '';
+
+    expect(prompt.promptId).toBe('answer_scoring');
+    expect(user).toContain('Question [behavioral, medium]: Describe a project you led.');
+    expect(user).toContain('- Quantified result');
+    expect(user).toContain('A STAR story.');
+    expect(user).toContain('[REDACTED_EMAIL]');
+    expect(user).not.toContain('jane@example.com');
+  });
+
+  it('adds spoken delivery to the scoring prompt', () => {
+    const question = { id: 'q1', question_text: 'Describe a project you led.', response_text: ANSWER };
+    const delivery = speechMetrics({ text: 'um '.repeat(2) + 'word '.repeat(118), durationMs: 60_000 });
+    const user = (prompt: ReturnType<typeof renderAnswerScoringPrompt>) =>
+      prompt.messages.find((message) => message.role === 'user')?.content ?? '';
+
+    expect(user(renderAnswerScoringPrompt(question, 'behavioral', { delivery }))).toContain(
+      'Spoken delivery: 120 wpm (good pace), 2 filler words'
+    );
+    expect(user(renderAnswerScoringPrompt(question, 'behavioral'))).toContain('Spoken delivery: (typed answer)');
+  });
+
+  it('stores the score and evaluation on the question', async () => {
+    runTask.mockResolvedValueOnce({
+      data: { rubric: RUBRIC, evidence_quotes: ['billing rewrite'], improved_answer: 'Improved.' },
+      model: 'test-model',
+    } as unknown as Awaited<ReturnType<typeof runStructuredLLMTask>>);
+    const update = jest.fn(() => ({ eq: jest.fn(async () => ({ error: null })) }));
+    const supabase = { from: jest.fn(() => ({ update })) } as unknown as Parameters<typeof scoreAnswer>[0];
+
+    const result = await scoreAnswer(supabase, {
+      question: { id: 'q1', question_text: 'Describe a project you led.', response_text: ANSWER },
+      mode: 'behavioral',
+      userId: 'u1',
+      sessionId: 's1',
+    });
+
+    expect(result).toMatchObject({
+      response_score: 4,
+      evaluation: { evidence_quotes: ['billing rewrite'], prompt_id: 'answer_scoring', model: 'test-model' },
+    });
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ response_score: 4, evaluation: result?.evaluation, scored_at: expect.any(String) })
+    );
+  });
+
+  it('skips questions without an answer', async () => {
+    const supabase = { from: jest.fn() } as unknown as Parameters<typeof scoreAnswer>[0];
+    const question = { id: 'q1', question_text: 'Q?', response_text: ' ' };
+
+    await expect(scoreAnswer(supabase, { question, mode: 'general', userId: 'u1', sessionId: 's1' })).resolves.toBeNull();
+    expect(runTask).not.toHaveBeenCalled();
+  });
+
+  it('adds per-answer scores to the report Q&A', () => {
+    const qa = formatInterviewQA([
+      { question_text: 'Q1?', response_text: 'A1', evaluation: { rubric: RUBRIC } },
+      { question_text: 'Q2?', response_text: 'A2' },
+    ]);
+
+    expect(qa).toContain('A: A1\nAnswer scores: clarity 4/5, confidence 3/5, relevance 5/5, structure 4/5');
+    expect(qa).toMatch(/A: A2$/);
+  });
+
+  it('adds spoken delivery to the report Q&A', () => {
+    const delivery = speechMetrics({ text: 'um '.repeat(2) + 'word '.repeat(118), durationMs: 60_000 });
+    const qa = formatInterviewQA([{ question_text: 'Q1?', response_text: 'A1', evaluation: { rubric: RUBRIC, delivery } }]);
+
+    expect(qa).toContain('\nSpoken delivery: 120 wpm (good pace), 2 filler words');
+  });
+});
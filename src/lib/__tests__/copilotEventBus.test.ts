@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  createMemoryTransport,
+  createUpstashTransport,
+  publishCopilotEvents,
+  setCopilotBusTransport,
+  subscribeCopilotSession,
+  type CopilotBusMessage,
+} from '@/lib/copilotEventBus';
+
+const row = (id: string) => ({ id, event_type: 'transcript', payload: { text: id }, created_at: '2026-01-01T00:00:00.000Z' });
+
+function sseBody(lines: string[]) {
+  const chunks = lines.map((line) => new TextEncoder().encode(line));
+  return {
+    getReader: () => ({
+      read: async () => (chunks.length ? { value: chunks.shift(), done: false } : { value: undefined, done: true }),
+    }),
+  };
+}
+
+describe('copilotEventBus', () => {
+  afterEach(() => {
+    setCopilotBusTransport(null);
+    jest.restoreAllMocks();
+  });
+
+  it('fans published events out to the session subscribers only', async () => {
+    setCopilotBusTransport(createMemoryTransport());
+    const first = jest.fn();
+    const second = jest.fn();
+    const other = jest.fn();
+    const unsubscribeFirst = subscribeCopilotSession('s1', first);
+    subscribeCopilotSession('s1', second);
+    subscribeCopilotSession('s2', other);
+
+    await publishCopilotEvents('s1', [row('e1'), row('e2')]);
+    unsubscribeFirst();
+    await publishCopilotEvents('s1', [row('e3')]);
+
+    expect(first.mock.calls.map(([m]) => m.event.id)).toEqual(['e1', 'e2']);
+    expect(second.mock.calls.map(([m]) => m.event.id)).toEqual(['e1', 'e2', 'e3']);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('keeps delivering when a listener throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setCopilotBusTransport(createMemoryTransport());
+    const healthy = jest.fn();
+    subscribeCopilotSession('s1', () => {
+      throw new Error('stream closed');
+    });
+    subscribeCopilotSession('s1', healthy);
+
+    await publishCopilotEvents('s1', [row('e1')]);
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith('[copilot-bus] listener failed', expect.any(Object));
+  });
+
+  it('publishes through Upstash and logs instead of throwing on failure', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetchMock = jest.fn().mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce({ ok: false, status: 500 });
+    jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+    setCopilotBusTransport(createUpstashTransport({ url: 'https://redis.example/', token: 't' }));
+
+    await publishCopilotEvents('s1', [row('e1'), row('e2')]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://redis.example');
+    const [command, channel, message] = JSON.parse(init.body);
+    expect([command, channel]).toEqual(['PUBLISH', 'copilot:session:s1']);
+    expect(JSON.parse(message)).toEqual({ type: 'copilot_event', event: row('e1') });
+    expect(console.error).toHaveBeenCalledWith(
+      '[copilot-bus] publish failed',
+      expect.objectContaining({ sessionId: 's1', transport: 'upstash' }),
+    );
+  });
+
+  it('delivers Upstash subscription messages split across chunks', async () => {
+    const message: CopilotBusMessage = { type: 'session', status: 'stopped' };
+    const frame = `data: message,copilot:session:s1,${JSON.stringify(message)}\n`;
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, body: sseBody(['data: subscribe,copilot:session:s1,1\n', frame.slice(0, 20), frame.slice(20)]) })
+      .mockReturnValue(new Promise(() => undefined));
+    jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+    setCopilotBusTransport(createUpstashTransport({ url: 'https://redis.example', token: 't' }));
+
+    const received = await new Promise<CopilotBusMessage>((resolve) => {
+      const unsubscribe = subscribeCopilotSession('s1', (m) => {
+        unsubscribe();
+        resolve(m);
+      });
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://redis.example/subscribe/copilot%3Asession%3As1');
+    expect(received).toEqual(message);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  buildFeedbackUpsert,
+  SuggestionFeedbackInputSchema,
+  summarizeSuggestionFeedback,
+  type SuggestionFeedback,
+} from '@/lib/copilotFeedback';
+
+const SUGGESTION_ID = '5f0c6a3e-8f0a-4c1e-9a57-0b4b1f4f2d10';
+
+const suggestion = {
+  id: SUGGESTION_ID,
+  event_type: 'suggestion',
+  payload: {
+    text: 'Start with a hash map.',
+    mode: 'coding',
+    model: 'gpt-4o-mini',
+    prompt_id: 'copilot_suggestion',
+    prompt_version: 'v2',
+  },
+};
+
+const ids = { sessionId: 'session-1', userId: 'user-1' };
+
+function feedback(overrides: Partial<SuggestionFeedback>): SuggestionFeedback {
+  return {
+    id: 'f',
+    suggestion_event_id: 's',
+    session_id: 'session-1',
+    user_id: 'user-1',
+    rating: null,
+    used: null,
+    edited_text: null,
+    glance_ms: null,
+    mode: 'coding',
+    model: 'gpt-4o-mini',
+    prompt_id: 'copilot_suggestion',
+    prompt_version: 'v2',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('copilotFeedback', () => {
+  it('requires at least one feedback field', () => {
+    expect(SuggestionFeedbackInputSchema.safeParse({ suggestionId: SUGGESTION_ID }).success).toBe(false);
+    expect(SuggestionFeedbackInputSchema.safeParse({ suggestionId: SUGGESTION_ID, rating: null }).success).toBe(true);
+  });
+
+  it('writes only the fields sent, with the suggestion context copied in', () => {
+    const row = buildFeedbackUpsert({ suggestionId: SUGGESTION_ID, rating: 'helpful' }, suggestion, null, ids);
+
+    expect(row).toEqual({
+      suggestion_event_id: SUGGESTION_ID,
+      session_id: 'session-1',
+      user_id: 'user-1',
+      mode: 'coding',
+      model: 'gpt-4o-mini',
+      prompt_id: 'copilot_suggestion',
+      prompt_version: 'v2',
+      rating: 'helpful',
+    });
+  });
+
+  it('keeps the first glance and ignores edits identical to the suggestion', () => {
+    const input = { suggestionId: SUGGESTION_ID, glanceMs: 1200, editedText: 'Start with a hash map.' };
+
+    expect(buildFeedbackUpsert(input, suggestion, null, ids)).toMatchObject({ glance_ms: 1200, edited_text: null });
+    expect(buildFeedbackUpsert(input, suggestion, { glance_ms: 400 }, ids)).not.toHaveProperty('glance_ms');
+    expect(
+      buildFeedbackUpsert({ suggestionId: SUGGESTION_ID, editedText: 'Sort first, then two pointers.' }, suggestion, null, ids)
+    ).toMatchObject({ edited_text: 'Sort first, then two pointers.' });
+  });
+
+  it('aggregates rates per mode, model and prompt version', () => {
+    const summary = summarizeSuggestionFeedback(
+      [
+        feedback({ rating: 'helpful', used: true, glance_ms: 600 }),
+        feedback({ rating: 'helpful', used: false, glance_ms: 1000, edited_text: 'Mine' }),
+        feedback({ rating: 'not_helpful', prompt_version: 'v1' }),
+      ],
+      5
+    );
+
+    expect(summary.suggestions).toBe(5);
+    expect(summary.totals).toMatchObject({ samples: 3, helpful: 2, not_helpful: 1, edited: 1, helpful_rate: 0.667 });
+    expect(summary.by_prompt).toEqual([
+      expect.objectContaining({ prompt_version: 'v2', samples: 2, helpful_rate: 1, used_rate: 0.5, avg_glance_ms: 800 }),
+      expect.objectContaining({ prompt_version: 'v1', samples: 1, helpful_rate: 0, used_rate: null, avg_glance_ms: null }),
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  classifyQuestionType,
+  classifyUtterance,
+  detectQuestion,
+  isIncompleteFragment,
+  questionDetectionPayload,
+  type DetectionTranscriptEvent,
+} from '@/lib/copilotQuestionDetection';
+
+const NOW = Date.parse('2026-03-01T10:00:00.000Z');
+
+function event(
+  speaker: string,
+  text: string,
+  msAgo: number,
+  extra: Record<string, unknown> = {}
+): DetectionTranscriptEvent {
+  return {
+    payload: { speaker, text, transcript_kind: 'final', ...extra },
+    created_at: new Date(NOW - msAgo).toISOString(),
+  };
+}
+
+describe('copilot question detection', () => {
+  it('classifies questions, prompts and statements', () => {
+    expect(classifyUtterance('How would you approach this?')).toBe('question');
+    expect(classifyUtterance('Walk me through your last project')).toBe('question');
+    expect(classifyUtterance('Thanks, that makes sense.')).toBe('statement');
+    expect(classifyUtterance('Okay.')).toBe('statement');
+    expect(classifyUtterance('Why?', true)).toBe('follow_up');
+    expect(classifyUtterance('And how did the team react?', true)).toBe('follow_up');
+  });
+
+  it('types questions by topic', () => {
+    expect(classifyQuestionType('Tell me about a time you disagreed with your manager')).toBe('behavioral');
+    expect(classifyQuestionType('Tell me about a time you scaled a service')).toBe('behavioral');
+    expect(classifyQuestionType('How would you design a URL shortener that scales to millions of users?')).toBe(
+      'system_design'
+    );
+    expect(classifyQuestionType('What is the time complexity of your algorithm?')).toBe('technical');
+    expect(classifyQuestionType('What are your salary expectations?')).toBe('salary');
+    expect(classifyQuestionType('Where are you based?')).toBe('general');
+  });
+
+  it('treats chunks ending mid-sentence as incomplete', () => {
+    expect(isIncompleteFragment('Tell me about a time when you,')).toBe(true);
+    expect(isIncompleteFragment('Can you walk me through the')).toBe(true);
+    expect(isIncompleteFragment('What did you learn?')).toBe(false);
+  });
+
+  it('waits for the rest of a fragmented question, then merges it', () => {
+    const first = detectQuestion({ text: 'Tell me about a time when', isFinal: true, recent: [], now: NOW });
+    expect(first).toMatchObject({ shouldSuggest: false, reason: 'incomplete' });
+
+    const recent = [event('interviewer', 'Tell me about a time when', 1_500, { question: questionDetectionPayload(first, false) })];
+    const second = detectQuestion({ text: 'you had to push back on a deadline.', isFinal: true, recent, now: NOW });
+
+    expect(second).toMatchObject({
+      shouldSuggest: true,
+      reason: 'question',
+      kind: 'question',
+      type: 'behavioral',
+      text: 'Tell me about a time when you had to push back on a deadline.',
+    });
+  });
+
+  it('never suggests on interim chunks or plain statements', () => {
+    expect(detectQuestion({ text: 'What is your approach?', isFinal: false, recent: [], now: NOW }).shouldSuggest).toBe(false);
+    expect(detectQuestion({ text: 'Great, thanks for that.', isFinal: true, recent: [], now: NOW })).toMatchObject({
+      shouldSuggest: false,
+      reason: 'statement',
+    });
+  });
+
+  it('suggests once per question and drops quick repeats', () => {
+    const question = detectQuestion({ text: 'How would you shard this table?', isFinal: true, recent: [], now: NOW });
+    const recent = [
+      event('interviewer', 'How would you shard this table?', 6_000, { question: questionDetectionPayload(question, true) }),
+    ];
+
+    const repeat = detectQuestion({ text: 'How would you shard this table?', isFinal: true, recent, now: NOW });
+    expect(repeat).toMatchObject({ shouldSuggest: false, reason: 'already_suggested' });
+  });
+
+  it('links follow-ups to the previous question after the candidate answers', () => {
+    const question = detectQuestion({
+      text: 'How would you design a rate limiter?',
+      isFinal: true,
+      recent: [],
+      now: NOW - 60_000,
+    });
+    const recent = [
+      event('candidate', 'I would use a token bucket per user.', 20_000),
+      event('interviewer', 'How would you design a rate limiter?', 60_000, {
+        question: questionDetectionPayload(question, true),
+      }),
+    ];
+
+    const followUp = detectQuestion({ text: 'What about across regions?', isFinal: true, recent, now: NOW });
+
+    expect(followUp).toMatchObject({
+      shouldSuggest: true,
+      reason: 'follow_up',
+      kind: 'follow_up',
+      type: 'system_design',
+      followUpTo: 'How would you design a rate limiter?',
+    });
+  });
+
+  it('does not merge across candidate speech or long pauses', () => {
+    const recent = [
+      event('candidate', 'Sure.', 1_000),
+      event('interviewer', 'Let me share some context first and', 2_000),
+    ];
+
+    const detection = detectQuestion({ text: 'What is your experience with Postgres?', isFinal: true, recent, now: NOW });
+    expect(detection.text).toBe('What is your experience with Postgres?');
+
+    const paused = detectQuestion({
+      text: 'What is your experience with Postgres?',
+      isFinal: true,
+      recent: [event('interviewer', 'Okay.', 30_000)],
+      now: NOW,
+    });
+    expect(paused.text).toBe('What is your experience with Postgres?');
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  getSpeakerMap,
+  isSpeakerLabel,
+  relabelSessionSpeaker,
+  resolveSpeakerRole,
+  saveSpeakerAssignment,
+} from '@/lib/copilotSpeakers';
+
+describe('copilot speaker mapping', () => {
+  it('accepts only known speaker label formats', () => {
+    expect(isSpeakerLabel('speaker:0')).toBe(true);
+    expect(isSpeakerLabel('channel:tab')).toBe(true);
+    expect(isSpeakerLabel('channel:screen')).toBe(false);
+    expect(isSpeakerLabel("speaker:0' or 1=1")).toBe(false);
+  });
+
+  it('drops malformed entries from session metadata', () => {
+    expect(
+      getSpeakerMap({ speaker_map: { 'speaker:0': 'candidate', 'speaker:1': 'system', bogus: 'interviewer' } })
+    ).toEqual({ 'speaker:0': 'candidate' });
+    expect(getSpeakerMap(null)).toEqual({});
+  });
+
+  it('defaults to interviewer when the STT result has no speaker', () => {
+    const { attribution, map } = resolveSpeakerRole(undefined, {});
+    expect(attribution).toEqual({ role: 'interviewer', label: null, confidence: null, source: 'default' });
+    expect(map).toBeNull();
+  });
+
+  it('maps capture channels without touching the session map', () => {
+    const mic = resolveSpeakerRole({ label: 'channel:mic', confidence: 0.9, source: 'channel' }, {});
+    const tab = resolveSpeakerRole({ label: 'channel:tab', confidence: 0.9, source: 'channel' }, {});
+
+    expect(mic.attribution.role).toBe('candidate');
+    expect(tab.attribution.role).toBe('interviewer');
+    expect(mic.map).toBeNull();
+  });
+
+  it('assigns new diarized speakers in order of appearance', () => {
+    const first = resolveSpeakerRole({ label: 'speaker:0', confidence: 0.8, source: 'diarization' }, {});
+    expect(first.attribution.role).toBe('interviewer');
+    expect(first.map).toEqual({ 'speaker:0': 'interviewer' });
+
+    const second = resolveSpeakerRole({ label: 'speaker:1', confidence: 0.7, source: 'diarization' }, first.map!);
+    expect(second.attribution.role).toBe('candidate');
+    expect(second.map).toEqual({ 'speaker:0': 'interviewer', 'speaker:1': 'candidate' });
+
+    const again = resolveSpeakerRole({ label: 'speaker:0', confidence: 0.9, source: 'diarization' }, second.map!);
+    expect(again.attribution.role).toBe('interviewer');
+    expect(again.map).toBeNull();
+  });
+
+  it('prefers a user correction over the channel default', () => {
+    const { attribution } = resolveSpeakerRole(
+      { label: 'channel:mic', confidence: 0.9, source: 'channel' },
+      { 'channel:mic': 'interviewer' }
+    );
+    expect(attribution.role).toBe('interviewer');
+  });
+
+  it('relabel updates the session map and past transcript events', async () => {
+    const eqUser = jest.fn().mockResolvedValue({ error: null });
+    const update = jest.fn(() => ({ eq: jest.fn(() => ({ eq: eqUser })) }));
+    const rpc = jest.fn().mockResolvedValue({ data: 3, error: null });
+    const supabase = { from: jest.fn(() => ({ update })), rpc };
+
+    const result = await relabelSessionSpeaker(
+      supabase as never,
+      { id: 'session-1', user_id: 'user-1', metadata: { mode: 'coding', speaker_map: { 'speaker:0': 'interviewer' } } },
+      'speaker:0',
+      'candidate'
+    );
+
+    expect(result).toEqual({ speakerMap: { 'speaker:0': 'candidate' }, updated: 3 });
+    expect(update).toHaveBeenCalledWith({ metadata: { mode: 'coding', speaker_map: { 'speaker:0': 'candidate' } } });
+    expect(rpc).toHaveBeenCalledWith('relabel_copilot_speaker', {
+      p_session_id: 'session-1',
+      p_label: 'speaker:0',
+      p_speaker: 'candidate',
+    });
+  });
+
+  it('merges a new speaker into the stored map and keeps a role stored first', async () => {
+    const rpc = jest
+      .fn()
+      .mockResolvedValue({ data: { 'speaker:0': 'interviewer', 'speaker:1': 'interviewer' }, error: null });
+
+    const map = await saveSpeakerAssignment({ rpc } as never, 'session-1', 'speaker:1', 'candidate');
+
+    expect(rpc).toHaveBeenCalledWith('add_copilot_speaker', {
+      p_session_id: 'session-1',
+      p_label: 'speaker:1',
+      p_speaker: 'candidate',
+    });
+    expect(map['speaker:1']).toBe('interviewer');
+  });
+});
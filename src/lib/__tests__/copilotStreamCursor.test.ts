@@ -1,5 +1,6 @@
 import {
   buildEventCursor,
+  catchUpSince,
   filterEventsAfterCursor,
   isEventAfterCursor,
   parseEventCursor,
@@ -60,4 +61,10 @@ describe('copilotStreamCursor', () => {
       { id: 'evt_4', created_at: '2026-02-16T08:00:00.500Z' },
     ]);
   });
+
+  it('starts catch-up reads a window behind the cursor', () => {
+    expect(catchUpSince({ createdAt: '2026-02-16T08:00:30.000+00:00', id: 'evt_1' }, 30_000)).toBe(
+      '2026-02-16T08:00:00.000Z',
+    );
+  });
 });
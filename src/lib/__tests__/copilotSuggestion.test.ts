@@ -1,4 +1,11 @@
-import { buildSuggestionPrompt, parseSuggestionContent } from '@/lib/copilotSuggestion';
+import {
+  buildSuggestionPrompt,
+  createShortAnswerExtractor,
+  SuggestionOutputSchema,
+  suggestionFailureNotice,
+  toParsedSuggestion,
+} from '@/lib/copilotSuggestion';
+import { LLMBudgetExceededError } from '@/lib/llmBudget';
 
 describe('copilotSuggestion', () => {
   it('includes coding-only structured fields in prompt', () => {
@@ -23,9 +30,41 @@ describe('copilotSuggestion', () => {
     expect(behavioralUserMessage?.content).not.toContain('"complexity"');
   });
 
-  it('parses and normalizes coding structured payload', () => {
-    const parsed = parseSuggestionContent(
-      JSON.stringify({
+  it('steers the prompt with the detected question type and follow-up context', () => {
+    const prompt = buildSuggestionPrompt({
+      mode: 'general',
+      transcriptText: 'interviewer: Tell me about a time you missed a deadline',
+      latestQuestion: 'What would you do differently?',
+      questionType: 'behavioral',
+      followUpTo: 'Tell me about a time you missed a deadline',
+    });
+
+    const userMessage = prompt.find((msg) => msg.role === 'user');
+    expect(userMessage?.content).toContain('Question type: behavioral');
+    expect(userMessage?.content).toContain('(Follow-up to: Tell me about a time you missed a deadline)');
+  });
+
+  it('adds resume and job context only when provided', () => {
+    const input = {
+      mode: 'general',
+      transcriptText: 'interviewer: Why this role?',
+      latestQuestion: 'Why this role?',
+    };
+    const withContext = buildSuggestionPrompt({
+      ...input,
+      candidateContext: '\n\nTarget role: Staff Engineer at Globex',
+    });
+    const without = buildSuggestionPrompt(input);
+
+    expect(withContext.find((msg) => msg.role === 'user')?.content).toContain(
+      'Why this role?\n\nTarget role: Staff Engineer at Globex\n\nReturn JSON'
+    );
+    expect(without.find((msg) => msg.role === 'user')?.content).toContain('Why this role?\n\nReturn JSON');
+  });
+
+  it('normalizes coding structured payload', () => {
+    const parsed = toParsedSuggestion(
+      SuggestionOutputSchema.parse({
         short_answer: 'I would start with a hash map.',
         talking_points: ['Single pass', 'Store complements'],
         follow_up: 'Should I discuss memory tradeoffs?',
@@ -51,8 +90,11 @@ describe('copilotSuggestion', () => {
     });
   });
 
-  it('falls back gracefully for non-json content', () => {
-    const parsed = parseSuggestionContent('Try clarifying constraints first.', 'general');
+  it('drops coding-only fields outside coding mode', () => {
+    const parsed = toParsedSuggestion(
+      SuggestionOutputSchema.parse({ short_answer: ' Try clarifying constraints first. ', complexity: 'O(n)' }),
+      'general',
+    );
 
     expect(parsed.shortAnswer).toBe('Try clarifying constraints first.');
     expect(parsed.talkingPoints).toEqual([]);
@@ -61,4 +103,24 @@ describe('copilotSuggestion', () => {
       talking_points: [],
     });
   });
+
+  it('rejects output without a short answer', () => {
+    expect(SuggestionOutputSchema.safeParse({ talking_points: ['a'] }).success).toBe(false);
+    expect(SuggestionOutputSchema.safeParse({ short_answer: '   ' }).success).toBe(false);
+  });
+
+  it('distinguishes budget exhaustion from provider failures', () => {
+    const budget = suggestionFailureNotice(
+      new LLMBudgetExceededError('user', { spentCents: 100, budgetCents: 100, warnPct: 80, status: 'blocked' }),
+    );
+    expect(budget.error).toBe('budget_exceeded');
+    expect(suggestionFailureNotice(new Error('timeout')).error).toBe('provider_unavailable');
+  });
+
+  it('decodes the streamed short answer across split chunks and escapes', () => {
+    const extractor = createShortAnswerExtractor();
+    const chunks = ['{"short_', 'answer": "Use a ', 'hash map\\', 'n then \\u00', 'e9', 'crit\\"s', '", "talking_points": ["x"]}'];
+
+    expect(chunks.map((chunk) => extractor.push(chunk))).toEqual(['', 'Use a ', 'hash map', '\n then ', 'é', 'crit"s', '']);
+  });
 });
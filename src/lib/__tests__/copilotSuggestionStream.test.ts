@@ -0,0 +1,47 @@
+import { createSuggestionDeltaPublisher } from '@/lib/copilotSuggestionStream';
+import { subscribeCopilotSession, type CopilotBusMessage } from '@/lib/copilotEventBus';
+
+describe('copilotSuggestionStream', () => {
+  it('publishes answer text deltas to the session in order', () => {
+    const received: CopilotBusMessage[] = [];
+    const other = jest.fn();
+    const unsubscribe = subscribeCopilotSession('session-1', (message) => received.push(message));
+    const unsubscribeOther = subscribeCopilotSession('session-2', other);
+
+    const publisher = createSuggestionDeltaPublisher('session-1', 'event-1');
+    publisher.onText('{"short_answer": "I would');
+    publisher.onText(' start');
+    publisher.onText(' small"}');
+    unsubscribe();
+    unsubscribeOther();
+    publisher.onText('ignored');
+
+    expect(received).toEqual(
+      ['I would', ' start', ' small'].map((delta, seq) => ({
+        type: 'suggestion.delta',
+        delta: { suggestion_id: publisher.suggestionId, based_on_event_id: 'event-1', seq, delta },
+      })),
+    );
+    expect(other).not.toHaveBeenCalled();
+    expect(publisher.firstDeltaMs()).not.toBeNull();
+  });
+
+  it('only announces a discard once text was streamed', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeCopilotSession('session-3', listener);
+
+    const silent = createSuggestionDeltaPublisher('session-3', 'event-1');
+    silent.discard();
+    expect(listener).not.toHaveBeenCalled();
+    expect(silent.firstDeltaMs()).toBeNull();
+
+    const streamed = createSuggestionDeltaPublisher('session-3', 'event-2');
+    streamed.onText('{"short_answer": "Par');
+    streamed.discard();
+    expect(listener).toHaveBeenLastCalledWith({
+      type: 'suggestion.delta',
+      delta: expect.objectContaining({ seq: 1, delta: '', discarded: true }),
+    });
+    unsubscribe();
+  });
+});
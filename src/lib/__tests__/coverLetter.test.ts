@@ -1,4 +1,19 @@
-import { getToneGuidance } from '../coverLetter';
+import { generateCoverLetter, getToneGuidance, type CoverLetterInput } from '../coverLetter';
+import { LLMBudgetExceededError } from '../llmBudget';
+
+const runStructuredLLMTask = jest.fn();
+
+jest.mock('../llmTaskRunner', () => ({
+  runStructuredLLMTask: (...args: unknown[]) => runStructuredLLMTask(...args),
+}));
+
+const INPUT: CoverLetterInput = {
+  jobTitle: 'Staff Engineer',
+  companyName: 'Acme',
+  jobDescription: 'Lead the platform team.',
+  resumeContent: 'Led the ledger migration.',
+  tone: 'professional',
+};
 
 describe('coverLetter', () => {
   describe('getToneGuidance', () => {
@@ -38,4 +53,27 @@ describe('coverLetter', () => {
       expect(guidance).toContain('polished');
     });
   });
+
+  describe('generateCoverLetter', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('rethrows budget errors unchanged', async () => {
+      const budgetError = new LLMBudgetExceededError('user', { spentCents: 500, budgetCents: 500, warnPct: 80, status: 'blocked' });
+      runStructuredLLMTask.mockRejectedValueOnce(budgetError);
+
+      await expect(generateCoverLetter(INPUT, 'user-1')).rejects.toBe(budgetError);
+    });
+
+    it('wraps other failures', async () => {
+      runStructuredLLMTask.mockRejectedValueOnce(new Error('schema_mismatch'));
+
+      await expect(generateCoverLetter(INPUT, 'user-1')).rejects.toThrow('Failed to generate cover letter');
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import type { z } from 'zod';
+import {
+  diffEvalRuns,
+  findUngroundedClaims,
+  formatEvalDiff,
+  REPORT_GOLDEN_SET,
+  runEvalSuite,
+  scoreSuggestion,
+  SUGGESTION_GOLDEN_SET,
+  type EvalClient,
+} from '../evals';
+
+const GOOD_SUGGESTION = {
+  short_answer: 'Use a hash map from value to index and check for the complement in one pass.',
+  talking_points: ['Single pass over the array', 'Store each value with its index'],
+  follow_up: 'Should I return the indices in sorted order?',
+  complexity: 'O(n) time, O(n) space',
+  edge_cases: ['Duplicate values'],
+  checklist: ['Clarify input', 'Code', 'Test'],
+};
+
+const GOOD_REPORT = {
+  overall_score: 78,
+  hiring_signal: 'hire',
+  summary: 'Clear, structured answers with measurable impact.',
+  strengths: ['Structured answers', 'Quantified results', 'Proactive communication'],
+  weaknesses: ['Could name trade-offs', 'Brief on conflict', 'Little on metrics setup'],
+  next_steps: ['P1: Add trade-offs', 'P2: Practice conflict stories', 'P3: Explain metrics'],
+  rubric: {
+    clarity: { score: 4, evidence: 'Milestones were explained plainly', recommendation: 'Keep it up' },
+    confidence: { score: 4, evidence: 'Direct ownership language', recommendation: 'Pause less' },
+    relevance: { score: 4, evidence: 'Answered what was asked', recommendation: 'Tie to role' },
+    structure: { score: 4, evidence: 'Situation, action, result', recommendation: 'Lead with result' },
+  },
+};
+
+// Returns the same canned output for every case of a kind
+function scriptedClient(suggestion: Record<string, unknown>, report: Record<string, unknown> = GOOD_REPORT) {
+  const completeStructured = jest.fn(
+    async (_messages: Array<{ role: string; content: string }>, schema: z.ZodType, options: { schemaName: string }) => {
+      const raw = options.schemaName === 'copilot_suggestion' ? suggestion : report;
+      return {
+        data: schema.parse(raw),
+        text: JSON.stringify(raw),
+        model: 'gpt-4o-mini',
+        provider: 'openai',
+        usage: null,
+        repairs: 0,
+        raw: null,
+      };
+    }
+  );
+  return { completeStructured } as unknown as EvalClient & { completeStructured: typeof completeStructured };
+}
+
+describe('evals', () => {
+  describe('findUngroundedClaims', () => {
+    it('flags quantities and organizations missing from the context', () => {
+      const claims = findUngroundedClaims(
+        'At Google I cut latency by 30% over 5 years at a logistics startup.',
+        'user: I was a backend engineer at a logistics startup for three years.'
+      );
+      expect(claims).toEqual(expect.arrayContaining(['30%', '5 years']));
+      expect(claims).not.toContain('logistics startup');
+    });
+
+    it('accepts claims grounded in the transcript and flags forbidden phrases', () => {
+      expect(findUngroundedClaims('We cut failed charges by 40%.', 'cut failed charges by 40%')).toEqual([]);
+      expect(findUngroundedClaims('With ten years of Go', 'context', ['ten years'])).toEqual(['ten years']);
+    });
+  });
+
+  describe('scoreSuggestion', () => {
+    const codingCase = SUGGESTION_GOLDEN_SET.find((c) => c.id === 'coding-two-sum')!;
+
+    it('passes a complete grounded coding answer', () => {
+      const score = scoreSuggestion(codingCase, {
+        shortAnswer: GOOD_SUGGESTION.short_answer,
+        talkingPoints: GOOD_SUGGESTION.talking_points,
+        complexity: GOOD_SUGGESTION.complexity,
+        edgeCases: GOOD_SUGGESTION.edge_cases,
+        checklist: GOOD_SUGGESTION.checklist,
+        structured: {},
+      });
+      expect(score.passed).toBe(true);
+      expect(score.score).toBe(1);
+    });
+
+    it('fails length, required fields and grounding independently', () => {
+      const score = scoreSuggestion(codingCase, {
+        shortAnswer: `${'word '.repeat(100)}I did this at Meta for 8 years.`,
+        talkingPoints: ['one'],
+        structured: {},
+      });
+      const failed = score.checks.filter((c) => !c.passed).map((c) => c.name);
+      expect(failed).toEqual(
+        expect.arrayContaining(['required_fields', 'length_limit', 'no_invented_experience', 'mentions_expected'])
+      );
+      expect(score.score).toBe(0);
+    });
+  });
+
+  describe('runEvalSuite', () => {
+    it('replays the golden set through the production prompts', async () => {
+      const client = scriptedClient(GOOD_SUGGESTION);
+      const run = await runEvalSuite([...SUGGESTION_GOLDEN_SET, ...REPORT_GOLDEN_SET], { label: 'baseline' }, client);
+
+      expect(client.completeStructured).toHaveBeenCalledTimes(SUGGESTION_GOLDEN_SET.length + REPORT_GOLDEN_SET.length);
+      const [messages] = client.completeStructured.mock.calls[0];
+      expect(messages[1].content).toContain('Latest interviewer question:\nTell me about a time you disagreed');
+
+      const coding = run.cases.find((c) => c.caseId === 'coding-two-sum')!;
+      expect(coding).toMatchObject({ promptId: 'copilot_suggestion', promptVersion: 'v1', passed: true });
+
+      // The same strong report fails the expectations of the empty-answers case
+      const empty = run.cases.find((c) => c.caseId === 'report-no-responses')!;
+      expect(empty.checks.filter((c) => !c.passed).map((c) => c.name)).toEqual([
+        'overall_score_range',
+        'hiring_signal',
+      ]);
+      expect(run.passRate).toBeLessThan(1);
+    });
+
+    it('scores provider failures as zero without aborting the run', async () => {
+      const client = {
+        completeStructured: jest.fn().mockRejectedValue(new Error('All LLM providers failed')),
+      } as unknown as EvalClient;
+
+      const run = await runEvalSuite(SUGGESTION_GOLDEN_SET.slice(0, 2), { label: 'down' }, client);
+
+      expect(run.cases).toHaveLength(2);
+      expect(run.meanScore).toBe(0);
+      expect(run.cases[0].error).toBe('All LLM providers failed');
+    });
+
+    it('pins prompt versions per variant', async () => {
+      const client = scriptedClient(GOOD_SUGGESTION);
+      const run = await runEvalSuite(
+        SUGGESTION_GOLDEN_SET.slice(0, 1),
+        { label: 'v2', promptVersions: { copilot_suggestion: 'v2' }, model: 'claude-haiku-3-5' },
+        client
+      );
+
+      expect(run.cases[0].promptVersion).toBe('v2');
+      expect(client.completeStructured.mock.calls[0][2]).toMatchObject({ model: 'claude-haiku-3-5' });
+    });
+  });
+
+  describe('diffEvalRuns', () => {
+    it('reports regressions and flipped checks between variants', async () => {
+      const cases = SUGGESTION_GOLDEN_SET.filter((c) => c.id === 'behavioral-conflict');
+      const baseline = await runEvalSuite(cases, { label: 'v1' }, scriptedClient(GOOD_SUGGESTION));
+      const candidate = await runEvalSuite(
+        cases,
+        { label: 'v2' },
+        scriptedClient({ ...GOOD_SUGGESTION, short_answer: 'At Amazon I resolved it in 2 weeks.' })
+      );
+
+      const diff = diffEvalRuns(baseline, candidate);
+
+      expect(diff.cases[0]).toMatchObject({ caseId: 'behavioral-conflict', status: 'regressed' });
+      expect(diff.cases[0].flippedChecks).toEqual(['-no_invented_experience']);
+      expect(diff.meanScoreDelta).toBeLessThan(0);
+      expect(formatEvalDiff(diff)).toContain('| behavioral-conflict | 1.00 |');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+const rpc = jest.fn();
+const budgets: Record<string, { llm_budget_cents_monthly: number | null; llm_budget_warn_pct: number }> = {};
+
+jest.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: () => ({
+    rpc: (name: string, args: unknown) =>
+      name === 'get_user_plan' ? Promise.resolve({ data: [{ plan_id: 'free' }], error: null }) : rpc(name, args),
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: () => Promise.resolve({ data: budgets[table] ?? null, error: null }),
+        }),
+      }),
+    }),
+  }),
+}));
+
+import { assertWithinBudget, checkLLMBudget, evaluateBudget, LLMBudgetExceededError } from '../llmBudget';
+
+describe('llmBudget', () => {
+  describe('evaluateBudget', () => {
+    it('treats a null budget as unlimited', () => {
+      expect(evaluateBudget(1_000_000, null)).toBe('ok');
+    });
+
+    it('warns once spend crosses the warning threshold', () => {
+      expect(evaluateBudget(79, 100, 80)).toBe('ok');
+      expect(evaluateBudget(80, 100, 80)).toBe('warn');
+      expect(evaluateBudget(95, 100, 50)).toBe('warn');
+    });
+
+    it('blocks once spend reaches the budget', () => {
+      expect(evaluateBudget(100, 100)).toBe('blocked');
+      expect(evaluateBudget(0, 0)).toBe('blocked');
+    });
+  });
+
+  describe('checkLLMBudget', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      budgets.plans = { llm_budget_cents_monthly: 100, llm_budget_warn_pct: 80 };
+      budgets.organizations = { llm_budget_cents_monthly: 5000, llm_budget_warn_pct: 90 };
+    });
+
+    it('combines user and organization spend and reports the worst status', async () => {
+      rpc.mockResolvedValue({ data: [{ user_spend_cents: '85.5', organization_spend_cents: '1200' }], error: null });
+
+      const check = await checkLLMBudget('user-1', 'org-1');
+
+      expect(rpc).toHaveBeenCalledWith('get_llm_spend', { p_user_id: 'user-1', p_organization_id: 'org-1' });
+      expect(check.allowed).toBe(true);
+      expect(check.status).toBe('warn');
+      expect(check.user).toEqual({ spentCents: 85.5, budgetCents: 100, warnPct: 80, status: 'warn' });
+      expect(check.organization?.status).toBe('ok');
+    });
+
+    it('blocks when the organization budget is spent', async () => {
+      rpc.mockResolvedValue({ data: [{ user_spend_cents: 10, organization_spend_cents: 5000 }], error: null });
+
+      const check = await checkLLMBudget('user-1', 'org-1');
+
+      expect(check.allowed).toBe(false);
+      expect(() => assertWithinBudget(check)).toThrow(LLMBudgetExceededError);
+    });
+
+    it('fails open when spend cannot be read', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      rpc.mockRejectedValue(new Error('db_down'));
+
+      const check = await checkLLMBudget('user-1');
+
+      expect(check.allowed).toBe(true);
+      expect(check.organization).toBeNull();
+      errorSpy.mockRestore();
+    });
+  });
+});
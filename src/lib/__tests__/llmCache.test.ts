@@ -0,0 +1,138 @@
+import { cosineSimilarity, llmCacheKey, LLMResponseCache, type LLMCacheRequest } from '../llmCache';
+
+const vectors: Record<string, number[]> = {
+  'tell me about yourself': [1, 0, 0],
+  'tell me a bit about yourself': [0.98, 0.2, 0],
+  'why do you want this job?': [0, 1, 0],
+};
+
+function request(content: string, overrides: Partial<LLMCacheRequest> = {}): LLMCacheRequest {
+  return {
+    taskType: 'conversation',
+    scope: 'org:o1:user:u1',
+    messages: [{ role: 'user', content }],
+    model: 'gpt-4o-mini',
+    temperature: 0.3,
+    ...overrides,
+  };
+}
+
+describe('llmCache', () => {
+  let cache: LLMResponseCache;
+  const embed = jest.fn(async (text: string) => vectors[text.toLowerCase()] ?? null);
+
+  beforeEach(async () => {
+    embed.mockClear();
+    cache = new LLMResponseCache({ embed, similarityThreshold: 0.95 });
+    await cache.clear();
+  });
+
+  describe('llmCacheKey', () => {
+    it('ignores whitespace differences but not model, temperature or format', () => {
+      const base = llmCacheKey(request('Hello  world'));
+      expect(llmCacheKey(request(' Hello world '))).toBe(base);
+      expect(llmCacheKey(request('Hello world', { model: 'gpt-4o' }))).not.toBe(base);
+      expect(llmCacheKey(request('Hello world', { temperature: 0.7 }))).not.toBe(base);
+      expect(llmCacheKey(request('Hello world', { format: 'json_object' }))).not.toBe(base);
+    });
+  });
+
+  it('cosineSimilarity handles mismatched and zero vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  it('respects per-task TTLs and caller overrides', async () => {
+    const response = { text: 'draft', model: 'gpt-4o', provider: 'openai' };
+
+    // writing is not cached by default
+    await cache.store(request('Write a haiku', { taskType: 'writing' }), response);
+    expect((await cache.lookup(request('Write a haiku', { taskType: 'writing' }))).hit).toBeNull();
+
+    await cache.store(request('Write a haiku', { taskType: 'writing' }), response, { ttlSeconds: 60 });
+    const lookup = await cache.lookup(request('Write a haiku', { taskType: 'writing' }), { ttlSeconds: 60 });
+    expect(lookup).toEqual({ hit: 'exact', response });
+  });
+
+  it('matches similar questions by embedding within the same namespace', async () => {
+    const response = { text: 'Lead with your current role', model: 'gpt-4o-mini', provider: 'openai' };
+    await cache.store(request('Q: Tell me about yourself'), response, { semanticKey: 'Tell me about yourself' });
+
+    const similar = await cache.lookup(request('Q: Tell me a bit about yourself'), {
+      semanticKey: 'Tell me a bit about yourself',
+    });
+    const different = await cache.lookup(request('Q: Why do you want this job?'), {
+      semanticKey: 'Why do you want this job?',
+    });
+    const otherModel = await cache.lookup(request('Q: Tell me a bit about yourself', { model: 'gpt-4o' }), {
+      semanticKey: 'Tell me a bit about yourself',
+    });
+
+    expect(similar).toEqual({ hit: 'semantic', response });
+    expect(different.hit).toBeNull();
+    expect(otherModel.hit).toBeNull();
+    expect(cache.getStats().conversation).toMatchObject({ semanticHits: 1, misses: 2 });
+  });
+
+  it('never serves entries across users or organizations', async () => {
+    const response = { text: 'private', model: 'gpt-4o-mini', provider: 'openai' };
+    await cache.store(request('Q: Tell me about yourself'), response, { semanticKey: 'Tell me about yourself' });
+
+    const otherUser = await cache.lookup(request('Q: Tell me about yourself', { scope: 'org:o1:user:u2' }), {
+      semanticKey: 'Tell me about yourself',
+    });
+    const otherOrg = await cache.lookup(request('Q: Tell me a bit about yourself', { scope: 'org:o2:user:u1' }), {
+      semanticKey: 'Tell me a bit about yourself',
+    });
+
+    expect(llmCacheKey(request('Hi', { scope: 'org:o1:user:u2' }))).not.toBe(llmCacheKey(request('Hi')));
+    expect(otherUser.hit).toBeNull();
+    expect(otherOrg.hit).toBeNull();
+  });
+
+  it('requires the rest of the prompt to match for a semantic hit', async () => {
+    const response = { text: 'Lead with your current role', model: 'gpt-4o-mini', provider: 'openai' };
+    const withSystem = (system: string, question: string) =>
+      request(question, {
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: question },
+        ],
+      });
+    await cache.store(withSystem('Resume A', 'Tell me about yourself'), response, {
+      semanticKey: 'Tell me about yourself',
+    });
+
+    const sameContext = await cache.lookup(withSystem('Resume A', 'Tell me a bit about yourself'), {
+      semanticKey: 'Tell me a bit about yourself',
+    });
+    const otherContext = await cache.lookup(withSystem('Resume B', 'Tell me a bit about yourself'), {
+      semanticKey: 'Tell me a bit about yourself',
+    });
+
+    expect(sameContext.hit).toBe('semantic');
+    expect(otherContext.hit).toBeNull();
+  });
+
+  it('bills semantic-key embeddings to the request owner', async () => {
+    const owner = { userId: 'u1', organizationId: 'o1' };
+    const response = { text: 'Lead with your current role', model: 'gpt-4o-mini', provider: 'openai' };
+    await cache.store(request('Q: Tell me about yourself', { owner }), response, { semanticKey: 'Tell me about yourself' });
+    await cache.lookup(request('Q: Tell me a bit about yourself', { owner }), {
+      semanticKey: 'Tell me a bit about yourself',
+    });
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed).toHaveBeenCalledWith('Tell me about yourself', { ...owner, taskType: 'cache_embedding' });
+    expect(embed).toHaveBeenCalledWith('Tell me a bit about yourself', { ...owner, taskType: 'cache_embedding' });
+  });
+
+  it('skips semantic matching when no embedding is available', async () => {
+    cache = new LLMResponseCache({ embed: async () => null });
+    await cache.store(request('Q: a'), { text: 'a', model: 'm', provider: 'p' }, { semanticKey: 'unknown' });
+
+    const lookup = await cache.lookup(request('Q: b'), { semanticKey: 'unknown' });
+    expect(lookup.hit).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+import { randomBytes } from 'crypto';
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ chat: { completions: { create: jest.fn() } } })),
+}));
+
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const tables: Record<string, { data: unknown; error: { code: string } | null }> = {};
+
+jest.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: () => ({
+    from: (table: string) => {
+      const result = Promise.resolve(tables[table] ?? { data: null, error: null });
+      return { select: () => ({ eq: () => Object.assign(result, { maybeSingle: () => result }) }) };
+    },
+  }),
+}));
+
+import {
+  getLLMClientFor,
+  getOrganizationLLMConfig,
+  invalidateOrganizationLLMConfig,
+  isBYOKProvider,
+  LLMCredentialsUnavailableError,
+  LLMModelNotAllowedError,
+  logLLMCredentialUse,
+  restrictToAllowedModels,
+  type OrganizationLLMConfig,
+} from '../llmCredentials';
+import { getLLMClient } from '../llmRouter';
+import { decryptSecret, encryptSecret, SecretEncryptionError, secretHint } from '../secrets';
+
+function orgConfig(overrides: Partial<OrganizationLLMConfig> = {}): OrganizationLLMConfig {
+  return { organizationId: 'org-1', credentials: {}, hints: {}, allowedModels: null, ownKeysOnly: false, ...overrides };
+}
+
+describe('llmCredentials', () => {
+  const originalKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+
+  beforeEach(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+  });
+
+  afterAll(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEY = originalKey;
+  });
+
+  describe('secrets', () => {
+    it('round-trips keys with a random IV', () => {
+      const first = encryptSecret('sk-test-1234567890');
+      const second = encryptSecret('sk-test-1234567890');
+
+      expect(first).not.toBe(second);
+      expect(first).not.toContain('sk-test');
+      expect(decryptSecret(first)).toBe('sk-test-1234567890');
+      expect(secretHint('sk-test-1234567890')).toBe('…7890');
+    });
+
+    it('rejects tampered ciphertext and a missing key', () => {
+      const [version, iv, tag, ciphertext] = encryptSecret('sk-test').split(':');
+      const tampered = [version, iv, tag, Buffer.from('other').toString('base64')].join(':');
+      expect(() => decryptSecret(tampered)).toThrow(SecretEncryptionError);
+      expect(() => decryptSecret(ciphertext)).toThrow('Unrecognized secret format');
+
+      delete process.env.CREDENTIALS_ENCRYPTION_KEY;
+      expect(() => encryptSecret('sk-test')).toThrow('CREDENTIALS_ENCRYPTION_KEY is not configured');
+    });
+  });
+
+  describe('restrictToAllowedModels', () => {
+    const chain = ['gpt-4o-mini', 'claude-haiku-3-5', 'gemini-2.0-flash'];
+
+    it('leaves the chain alone without restrictions', () => {
+      expect(restrictToAllowedModels(chain, null)).toBe(chain);
+      expect(restrictToAllowedModels(chain, orgConfig())).toBe(chain);
+    });
+
+    it('keeps chain order for allowed models', () => {
+      const config = orgConfig({ allowedModels: ['gemini-2.0-flash', 'claude-haiku-3-5'] });
+      expect(restrictToAllowedModels(chain, config)).toEqual(['claude-haiku-3-5', 'gemini-2.0-flash']);
+    });
+
+    it('keeps organizations with their own keys on those providers', () => {
+      const config = orgConfig({ credentials: { anthropic: { id: 'cred-1', apiKey: 'sk-ant' } }, ownKeysOnly: true });
+
+      expect(restrictToAllowedModels(chain, config)).toEqual(['claude-haiku-3-5']);
+      expect(restrictToAllowedModels(['gpt-4o-mini'], config).every((id) => id.startsWith('claude'))).toBe(true);
+      expect(restrictToAllowedModels(chain, { ...config, ownKeysOnly: false })).toBe(chain);
+      expect(() => restrictToAllowedModels(chain, orgConfig({ ownKeysOnly: true }))).toThrow(LLMModelNotAllowedError);
+    });
+
+    it('falls back to the allowed list, then throws', () => {
+      expect(restrictToAllowedModels(chain, orgConfig({ allowedModels: ['gpt-4o'] }))).toEqual(['gpt-4o']);
+      expect(() => restrictToAllowedModels(chain, orgConfig({ allowedModels: ['retired-model'] }))).toThrow(
+        LLMModelNotAllowedError
+      );
+    });
+  });
+
+  describe('getLLMClientFor', () => {
+    it('uses the platform client without organization keys', () => {
+      expect(getLLMClientFor(null)).toBe(getLLMClient());
+      expect(getLLMClientFor(orgConfig({ allowedModels: ['gpt-4o'] }))).toBe(getLLMClient());
+    });
+
+    it('reuses one client per organization until its keys change', () => {
+      const config = orgConfig({ credentials: { openai: { id: 'cred-1', apiKey: 'sk-org' } } });
+      const client = getLLMClientFor(config);
+
+      expect(client).not.toBe(getLLMClient());
+      expect(client.credentialFor('openai')).toBe('cred-1');
+      expect(client.credentialFor('anthropic')).toBeNull();
+      expect(getLLMClientFor(config)).toBe(client);
+      expect(getLLMClientFor(orgConfig({ credentials: { openai: { id: 'cred-2', apiKey: 'sk-new' } } }))).not.toBe(client);
+    });
+
+    it('builds a new client when a key is rotated in place', () => {
+      const client = getLLMClientFor(orgConfig({ credentials: { openai: { id: 'cred-1', apiKey: 'sk-old' } } }));
+      const rotated = getLLMClientFor(orgConfig({ credentials: { openai: { id: 'cred-1', apiKey: 'sk-rotated' } } }));
+
+      expect(rotated).not.toBe(client);
+    });
+  });
+
+  describe('getOrganizationLLMConfig', () => {
+    beforeEach(() => {
+      invalidateOrganizationLLMConfig();
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('skips a key that fails to decrypt and keeps the allowed models', async () => {
+      tables.organization_llm_credentials = {
+        data: [
+          { id: 'cred-1', provider: 'openai', encrypted_key: encryptSecret('sk-org'), key_hint: '…-org' },
+          { id: 'cred-2', provider: 'anthropic', encrypted_key: 'v1:corrupt', key_hint: '…rupt' },
+        ],
+        error: null,
+      };
+      tables.organizations = { data: { llm_allowed_models: ['gpt-4o-mini'] }, error: null };
+
+      const config = await getOrganizationLLMConfig('org-1');
+
+      expect(config?.allowedModels).toEqual(['gpt-4o-mini']);
+      expect(config?.credentials.openai).toEqual({ id: 'cred-1', apiKey: 'sk-org' });
+      expect(config?.credentials.anthropic).toBeUndefined();
+      // The undecryptable Anthropic key must not move Anthropic requests to platform keys
+      expect(config?.ownKeysOnly).toBe(true);
+      expect(restrictToAllowedModels(['claude-haiku-3-5', 'gpt-4o-mini'], config)).toEqual(['gpt-4o-mini']);
+    });
+
+    it('uses platform keys for other providers only after opting in', async () => {
+      tables.organization_llm_credentials = {
+        data: [{ id: 'cred-1', provider: 'openai', encrypted_key: encryptSecret('sk-org'), key_hint: '…-org' }],
+        error: null,
+      };
+      tables.organizations = { data: { llm_allowed_models: null, llm_platform_fallback: true }, error: null };
+
+      const config = await getOrganizationLLMConfig('org-1');
+
+      expect(config?.ownKeysOnly).toBe(false);
+      expect(restrictToAllowedModels(['gpt-4o-mini', 'claude-haiku-3-5'], config)).toEqual([
+        'gpt-4o-mini',
+        'claude-haiku-3-5',
+      ]);
+    });
+
+    it('throws instead of dropping restrictions when the organization cannot be read', async () => {
+      tables.organization_llm_credentials = { data: [], error: null };
+      tables.organizations = { data: null, error: { code: '57014' } };
+
+      await expect(getOrganizationLLMConfig('org-1')).rejects.toThrow(LLMCredentialsUnavailableError);
+    });
+  });
+
+  it('never fails a completed request when the audit write fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // The mocked admin client has no insert, so the audit write throws
+    await expect(
+      logLLMCredentialUse({ config: orgConfig(), userId: 'user-1', model: 'gpt-4o-mini', provider: 'openai' })
+    ).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith('[llm-credentials] failed to audit credential use', expect.any(Object));
+    error.mockRestore();
+  });
+
+  it('recognizes BYOK providers', () => {
+    expect(isBYOKProvider('anthropic')).toBe(true);
+    expect(isBYOKProvider('openai_compatible')).toBe(false);
+    expect(isBYOKProvider(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { ModelHealthTracker, isTimeoutError } from '../llmHealth';
+
+describe('llmHealth', () => {
+  describe('ModelHealthTracker', () => {
+    it('reports unknown until the minimum sample count is reached', () => {
+      const tracker = new ModelHealthTracker({ minSamples: 3 });
+      tracker.record('gpt-4o-mini', 'openai', 'success', 400);
+      tracker.record('gpt-4o-mini', 'openai', 'success', 600);
+
+      const snap = tracker.snapshot('gpt-4o-mini', 800);
+      expect(snap.status).toBe('unknown');
+      expect(tracker.effectiveLatency('gpt-4o-mini', 800)).toBe(800);
+    });
+
+    it('computes p50/p95 from successful attempts only', () => {
+      const tracker = new ModelHealthTracker({ minSamples: 1 });
+      for (const ms of [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000]) {
+        tracker.record('claude-haiku-3-5', 'anthropic', 'success', ms);
+      }
+      tracker.record('claude-haiku-3-5', 'anthropic', 'timeout', 30_000);
+
+      const snap = tracker.snapshot('claude-haiku-3-5', 700);
+      expect(snap.p50LatencyMs).toBe(500);
+      expect(snap.p95LatencyMs).toBe(1000);
+      expect(snap.timeoutRate).toBeCloseTo(1 / 11);
+      expect(snap.status).toBe('healthy');
+    });
+
+    it('marks a model degraded on high error rate or slow p95', () => {
+      const tracker = new ModelHealthTracker({ minSamples: 4 });
+      for (let i = 0; i < 3; i++) tracker.record('gpt-4o', 'openai', 'success', 1000);
+      tracker.record('gpt-4o', 'openai', 'error', 50);
+      expect(tracker.isDegraded('gpt-4o', 1500)).toBe(true);
+
+      for (let i = 0; i < 4; i++) tracker.record('gemini-2.0-flash', 'google', 'success', 5000);
+      expect(tracker.isDegraded('gemini-2.0-flash', 600)).toBe(true);
+    });
+
+    it('keeps only the most recent samples', () => {
+      const tracker = new ModelHealthTracker({ windowSize: 3, minSamples: 1 });
+      tracker.record('gpt-4o', 'openai', 'error', 10);
+      for (let i = 0; i < 3; i++) tracker.record('gpt-4o', 'openai', 'success', 100);
+
+      expect(tracker.snapshot('gpt-4o').errorRate).toBe(0);
+      expect(tracker.snapshot('gpt-4o').samples).toBe(3);
+    });
+
+    it('opens the provider circuit after consecutive failures and half-opens after the reset timeout', () => {
+      jest.useFakeTimers();
+      const tracker = new ModelHealthTracker({ circuit: { failureThreshold: 2, resetTimeoutMs: 1000 } });
+      tracker.record('gpt-4o', 'openai', 'error', 10);
+      tracker.record('gpt-4o-mini', 'openai', 'timeout', 10);
+
+      expect(tracker.canAttemptProvider('openai')).toBe(false);
+      expect(tracker.canAttemptProvider('anthropic')).toBe(true);
+
+      jest.advanceTimersByTime(1000);
+      expect(tracker.providerState('openai')).toBe('half-open');
+
+      tracker.record('gpt-4o-mini', 'openai', 'success', 10);
+      expect(tracker.providerState('openai')).toBe('closed');
+      jest.useRealTimers();
+    });
+  });
+
+  describe('isTimeoutError', () => {
+    it('detects timeout-like errors', () => {
+      expect(isTimeoutError(new Error('Request timed out.'))).toBe(true);
+      const aborted = new Error('The operation was aborted');
+      aborted.name = 'AbortError';
+      expect(isTimeoutError(aborted)).toBe(true);
+      expect(isTimeoutError(new Error('rate limit'))).toBe(false);
+      expect(isTimeoutError('timeout')).toBe(false);
+    });
+  });
+});
@@ -4,9 +4,63 @@ import {
   detectTaskType,
   MODEL_CONFIGS,
   FALLBACK_CHAINS,
+  LLMClient,
+  LLMStructuredOutputError,
+  getStructuredOutputStats,
+  resetStructuredOutputStats,
+  type LLMStreamDelta,
 } from '../llmRouter';
+import { z } from 'zod';
+import { getModelHealth } from '../llmHealth';
+
+const openaiCreate = jest.fn();
+const openaiEmbeddingsCreate = jest.fn();
+const anthropicCreate = jest.fn();
+const geminiGenerateContentStream = jest.fn();
+const recordLLMUsage = jest.fn();
+
+jest.mock('../llmBudget', () => ({
+  recordLLMUsage: (...args: unknown[]) => recordLLMUsage(...args),
+}));
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: (...args: unknown[]) => openaiCreate(...args) } },
+    embeddings: { create: (...args: unknown[]) => openaiEmbeddingsCreate(...args) },
+  })),
+}));
+
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    messages: { create: (...args: unknown[]) => anthropicCreate(...args) },
+  })),
+}));
+
+jest.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+    getGenerativeModel: () => ({
+      generateContentStream: (...args: unknown[]) => geminiGenerateContentStream(...args),
+    }),
+  })),
+}));
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) yield item;
+}
+
+async function collect(stream: AsyncIterable<LLMStreamDelta>): Promise<LLMStreamDelta[]> {
+  const out: LLMStreamDelta[] = [];
+  for await (const delta of stream) out.push(delta);
+  return out;
+}
 
 describe('llmRouter', () => {
+  beforeEach(() => {
+    getModelHealth().reset();
+  });
+
   describe('selectModel', () => {
     it('should return default model when no options provided', () => {
       const model = selectModel();
@@ -131,6 +185,42 @@ describe('llmRouter', () => {
     });
   });
 
+  describe('health-aware routing', () => {
+    function recordMany(modelId: string, provider: string, outcome: 'success' | 'error', latencyMs: number, n: number) {
+      for (let i = 0; i < n; i++) getModelHealth().record(modelId, provider, outcome, latencyMs);
+    }
+
+    it('ranks by observed latency once enough samples exist', () => {
+      // Flash is statically fastest; make it observed-slow (but not degraded)
+      recordMany('gemini-2.0-flash', 'google', 'success', 1000, 5);
+      expect(selectModel({ preferSpeed: true })).toBe('claude-haiku-3-5');
+    });
+
+    it('demotes degraded models in the fallback chain', () => {
+      recordMany('gpt-4o-mini', 'openai', 'success', 500, 3);
+      getModelHealth().record('gpt-4o-mini', 'openai', 'error', 500);
+      getModelHealth().record('gpt-4o-mini', 'openai', 'error', 500);
+      getModelHealth().record('gpt-4o-mini', 'openai', 'success', 500);
+
+      expect(getFallbackChain('conversation')).toEqual(['claude-haiku-3-5', 'gemini-2.0-flash', 'gpt-4o-mini']);
+    });
+
+    it('skips providers whose circuit is open', () => {
+      recordMany('claude-haiku-3-5', 'anthropic', 'error', 100, 3);
+
+      expect(getFallbackChain('conversation')).toEqual(['gpt-4o-mini', 'gemini-2.0-flash']);
+      expect(selectModel({ preferSpeed: true })).not.toMatch(/claude/);
+    });
+
+    it('keeps the chain when every provider circuit is open', () => {
+      recordMany('gpt-4o-mini', 'openai', 'error', 100, 3);
+      recordMany('claude-haiku-3-5', 'anthropic', 'error', 100, 3);
+      recordMany('gemini-2.0-flash', 'google', 'error', 100, 3);
+
+      expect(getFallbackChain('conversation')).toHaveLength(3);
+    });
+  });
+
   describe('detectTaskType', () => {
     it('should detect coding tasks', () => {
       const messages = [
@@ -193,4 +283,418 @@ describe('llmRouter', () => {
       expect(providers.has('google')).toBe(true);
     });
   });
+
+  describe('LLMClient.stream', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      process.env = {
+        ...originalEnv,
+        OPENAI_API_KEY: 'sk-test',
+        ANTHROPIC_API_KEY: 'sk-ant-test',
+        GOOGLE_GENERATIVE_AI_API_KEY: 'google-test',
+      };
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    it('normalizes OpenAI chunks into text, usage and finish deltas', async () => {
+      openaiCreate.mockResolvedValue(
+        fromArray([
+          { choices: [{ delta: { content: 'Hel' }, finish_reason: null }] },
+          { choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] },
+          { choices: [], usage: { prompt_tokens: 12, completion_tokens: 2 } },
+        ]),
+      );
+
+      const deltas = await collect(
+        new LLMClient().stream([{ role: 'user', content: 'Hi' }], { model: 'gpt-4o-mini' }),
+      );
+
+      expect(openaiCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true, stream_options: { include_usage: true } }),
+      );
+      expect(deltas).toEqual([
+        { type: 'text', text: 'Hel' },
+        { type: 'text', text: 'lo' },
+        { type: 'usage', inputTokens: 12, outputTokens: 2 },
+        { type: 'finish', reason: 'stop', model: 'gpt-4o-mini', provider: 'openai' },
+      ]);
+    });
+
+    it('normalizes Anthropic events and maps max_tokens to length', async () => {
+      anthropicCreate.mockResolvedValue(
+        fromArray([
+          { type: 'message_start', message: { usage: { input_tokens: 20 } } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Sure' } },
+          { type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 1 } },
+          { type: 'message_stop' },
+        ]),
+      );
+
+      const deltas = await collect(
+        new LLMClient().stream([{ role: 'user', content: 'Hi' }], { model: 'claude-haiku-3-5' }),
+      );
+
+      expect(deltas).toEqual([
+        { type: 'text', text: 'Sure' },
+        { type: 'usage', inputTokens: 20, outputTokens: 1 },
+        { type: 'finish', reason: 'length', model: 'claude-haiku-3-5', provider: 'anthropic' },
+      ]);
+    });
+
+    it('normalizes Gemini chunks and keeps the latest cumulative usage', async () => {
+      geminiGenerateContentStream.mockResolvedValue({
+        stream: fromArray([
+          { text: () => 'A', candidates: [{}], usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 1 } },
+          {
+            text: () => 'B',
+            candidates: [{ finishReason: 'STOP' }],
+            usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2 },
+          },
+        ]),
+      });
+
+      const deltas = await collect(
+        new LLMClient().stream([{ role: 'user', content: 'Hi' }], { model: 'gemini-2.0-flash' }),
+      );
+
+      expect(deltas).toEqual([
+        { type: 'text', text: 'A' },
+        { type: 'text', text: 'B' },
+        { type: 'usage', inputTokens: 5, outputTokens: 2 },
+        { type: 'finish', reason: 'stop', model: 'gemini-2.0-flash', provider: 'google' },
+      ]);
+    });
+
+    it('falls over to the next model when the primary fails before emitting', async () => {
+      openaiCreate.mockRejectedValue(new Error('openai_down'));
+      anthropicCreate.mockResolvedValue(
+        fromArray([
+          { type: 'message_start', message: { usage: { input_tokens: 3 } } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text: 'ok' } },
+          { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 1 } },
+        ]),
+      );
+
+      const deltas = await collect(
+        new LLMClient().stream([{ role: 'user', content: 'Hi' }], {
+          fallbackChain: ['gpt-4o-mini', 'claude-haiku-3-5'],
+          ledger: { userId: 'user-1', taskType: 'conversation' },
+        }),
+      );
+
+      expect(recordLLMUsage).toHaveBeenCalledTimes(2);
+      expect(recordLLMUsage).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ model: 'gpt-4o-mini', status: 'failed', fallbackPosition: 0, error: 'openai_down' }),
+      );
+      expect(recordLLMUsage).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          userId: 'user-1',
+          taskType: 'conversation',
+          model: 'claude-haiku-3-5',
+          status: 'succeeded',
+          inputTokens: 3,
+          outputTokens: 1,
+          fallbackPosition: 1,
+        }),
+      );
+      expect(deltas[0]).toEqual({ type: 'text', text: 'ok' });
+      expect(deltas[deltas.length - 1]).toEqual({
+        type: 'finish',
+        reason: 'stop',
+        model: 'claude-haiku-3-5',
+        provider: 'anthropic',
+      });
+    });
+
+    it('rethrows a mid-stream failure instead of falling over', async () => {
+      openaiCreate.mockResolvedValue(
+        (async function* () {
+          yield { choices: [{ delta: { content: 'partial' }, finish_reason: null }] };
+          throw new Error('connection_reset');
+        })(),
+      );
+
+      const received: LLMStreamDelta[] = [];
+      await expect(async () => {
+        for await (const delta of new LLMClient().stream([{ role: 'user', content: 'Hi' }], {
+          fallbackChain: ['gpt-4o-mini', 'claude-haiku-3-5'],
+        })) {
+          received.push(delta);
+        }
+      }).rejects.toThrow('connection_reset');
+
+      expect(received).toEqual([{ type: 'text', text: 'partial' }]);
+      expect(anthropicCreate).not.toHaveBeenCalled();
+    });
+
+    it('records an attempt the consumer stopped reading as aborted', async () => {
+      openaiCreate.mockResolvedValue(
+        fromArray([
+          { choices: [{ delta: { content: 'first part' }, finish_reason: null }] },
+          { choices: [{ delta: { content: ' never read' }, finish_reason: null }] },
+        ]),
+      );
+
+      for await (const delta of new LLMClient().stream([{ role: 'user', content: 'Tell me a story' }], {
+        model: 'gpt-4o-mini',
+        ledger: { userId: 'user-1', taskType: 'conversation' },
+      })) {
+        if (delta.type === 'text') break;
+      }
+
+      expect(recordLLMUsage).toHaveBeenCalledTimes(1);
+      expect(recordLLMUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'aborted', userId: 'user-1', inputTokens: 4, outputTokens: 3 }),
+      );
+      expect(getModelHealth().snapshot('gpt-4o-mini')).toMatchObject({ samples: 1, errorRate: 0 });
+    });
+  });
+
+  describe('LLMClient.embed', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      process.env = { ...originalEnv, OPENAI_API_KEY: 'sk-test' };
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('records each embedding call in the ledger', async () => {
+      openaiEmbeddingsCreate.mockResolvedValue({ data: [{ embedding: [0.1, 0.2] }], usage: { prompt_tokens: 1000 } });
+
+      const vector = await new LLMClient().embed('Tell me about yourself', {
+        ledger: { userId: 'user-1', organizationId: 'org-1', taskType: 'cache_embedding' },
+      });
+
+      expect(vector).toEqual([0.1, 0.2]);
+      expect(recordLLMUsage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          organizationId: 'org-1',
+          taskType: 'cache_embedding',
+          model: 'text-embedding-3-small',
+          status: 'succeeded',
+          inputTokens: 1000,
+          costCents: 0.002,
+        }),
+      );
+    });
+
+    it('records a failed embedding call and rethrows', async () => {
+      openaiEmbeddingsCreate.mockRejectedValue(new Error('rate_limited'));
+
+      await expect(new LLMClient().embed('Hi', { ledger: { userId: 'user-1' } })).rejects.toThrow('rate_limited');
+      expect(recordLLMUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error: 'rate_limited', costCents: 0 }),
+      );
+    });
+  });
+
+  describe('LLMClient.completeStructured', () => {
+    const originalEnv = process.env;
+    const Schema = z.object({ answer: z.string(), score: z.number().min(0).max(10) });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      resetStructuredOutputStats();
+      process.env = { ...originalEnv, OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'sk-ant-test' };
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    function openaiReply(content: string) {
+      return { choices: [{ message: { content } }], usage: { prompt_tokens: 10, completion_tokens: 5 } };
+    }
+
+    it('trips the circuit for an organization key without affecting the platform key', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const orgClient = new LLMClient({ openai: { id: 'cred-1', apiKey: 'sk-org' } });
+      openaiCreate.mockRejectedValue(new Error('invalid_api_key'));
+      for (let i = 0; i < 3; i++) {
+        await expect(orgClient.complete([{ role: 'user', content: 'Hi' }], { fallbackChain: ['gpt-4o-mini'] })).rejects.toThrow();
+      }
+
+      expect(getModelHealth().canAttemptProvider('openai:cred-1')).toBe(false);
+      expect(getModelHealth().canAttemptProvider('openai')).toBe(true);
+      expect(recordLLMUsage).toHaveBeenLastCalledWith(expect.objectContaining({ credentialId: 'cred-1' }));
+      expect(getModelHealth().snapshot('gpt-4o-mini').samples).toBe(0);
+      expect(getModelHealth().snapshot('gpt-4o-mini@cred-1').errorRate).toBe(1);
+
+      openaiCreate.mockResolvedValue(openaiReply('hello'));
+      const result = await new LLMClient().complete([{ role: 'user', content: 'Hi' }], { fallbackChain: ['gpt-4o-mini'] });
+      expect(result.text).toBe('hello');
+    });
+
+    it('requests OpenAI json_schema mode and returns the typed object', async () => {
+      openaiCreate.mockResolvedValue(openaiReply('{"answer":"yes","score":7}'));
+
+      const result = await new LLMClient().completeStructured([{ role: 'user', content: 'Rate it' }], Schema, {
+        schemaName: 'rating',
+        model: 'gpt-4o-mini',
+      });
+
+      expect(openaiCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response_format: {
+            type: 'json_schema',
+            json_schema: expect.objectContaining({
+              name: 'rating',
+              schema: expect.objectContaining({ type: 'object', required: ['answer', 'score'] }),
+            }),
+          },
+        }),
+      );
+      expect(result.data).toEqual({ answer: 'yes', score: 7 });
+      expect(result.repairs).toBe(0);
+      expect(getStructuredOutputStats().rating).toMatchObject({ requests: 1, repaired: 0, repairRate: 0 });
+    });
+
+    it('retries with a repair prompt and sums usage across attempts', async () => {
+      openaiCreate
+        .mockResolvedValueOnce(openaiReply('{"answer":"yes","score":42}'))
+        .mockResolvedValueOnce(openaiReply('```json\n{"answer":"yes","score":9}\n```'));
+
+      const result = await new LLMClient().completeStructured([{ role: 'user', content: 'Rate it' }], Schema, {
+        schemaName: 'rating',
+        model: 'gpt-4o-mini',
+      });
+
+      const repairMessages = openaiCreate.mock.calls[1][0].messages;
+      expect(repairMessages[repairMessages.length - 1].content).toContain('score');
+      expect(result.data.score).toBe(9);
+      expect(result.repairs).toBe(1);
+      expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 10 });
+      expect(getStructuredOutputStats().rating).toMatchObject({ requests: 1, repaired: 1, repairRate: 1 });
+    });
+
+    it('throws LLMStructuredOutputError when repairs are exhausted', async () => {
+      openaiCreate.mockResolvedValue(openaiReply('not json'));
+
+      await expect(
+        new LLMClient().completeStructured([{ role: 'user', content: 'Rate it' }], Schema, {
+          schemaName: 'rating',
+          model: 'gpt-4o-mini',
+          maxRepairs: 1,
+        }),
+      ).rejects.toBeInstanceOf(LLMStructuredOutputError);
+      expect(openaiCreate).toHaveBeenCalledTimes(2);
+      expect(getStructuredOutputStats().rating.failed).toBe(1);
+    });
+
+    it('forces an Anthropic tool call and reads the tool input', async () => {
+      anthropicCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', name: 'rating', input: { answer: 'ok', score: 3 } }],
+        usage: { input_tokens: 8, output_tokens: 4 },
+      });
+
+      const result = await new LLMClient().completeStructured([{ role: 'user', content: 'Rate it' }], Schema, {
+        schemaName: 'rating',
+        model: 'claude-haiku-3-5',
+      });
+
+      expect(anthropicCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [expect.objectContaining({ name: 'rating' })],
+          tool_choice: { type: 'tool', name: 'rating' },
+        }),
+      );
+      expect(result.data).toEqual({ answer: 'ok', score: 3 });
+    });
+
+    it('streams the first attempt to onText and parses the collected text', async () => {
+      openaiCreate.mockResolvedValue(
+        fromArray([
+          { choices: [{ delta: { content: '{"answer":"ye' }, finish_reason: null }] },
+          { choices: [{ delta: { content: 's","score":4}' }, finish_reason: 'stop' }] },
+          { choices: [], usage: { prompt_tokens: 10, completion_tokens: 6 } },
+        ]),
+      );
+      const chunks: string[] = [];
+
+      const result = await new LLMClient().completeStructured([{ role: 'user', content: 'Rate it' }], Schema, {
+        schemaName: 'rating',
+        model: 'gpt-4o-mini',
+        onText: (text) => chunks.push(text),
+      });
+
+      expect(openaiCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+      expect(chunks).toEqual(['{"answer":"ye', 's","score":4}']);
+      expect(result.data).toEqual({ answer: 'yes', score: 4 });
+      expect(result.usage).toEqual({ inputTokens: 10, outputTokens: 6 });
+    });
+  });
+
+  describe('openai_compatible provider', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    async function loadRouter() {
+      let router: typeof import('../llmRouter') | undefined;
+      await jest.isolateModulesAsync(async () => {
+        router = await import('../llmRouter');
+      });
+      return router!;
+    }
+
+    it('builds zero-cost configs from the model list', async () => {
+      const { openAICompatibleModelConfigs } = await loadRouter();
+      const configs = openAICompatibleModelConfigs(' llama-3.1-8b , qwen2.5-7b,, ');
+
+      expect(Object.keys(configs)).toEqual(['local/llama-3.1-8b', 'local/qwen2.5-7b']);
+      expect(configs['local/llama-3.1-8b']).toMatchObject({
+        provider: 'openai_compatible',
+        providerModel: 'llama-3.1-8b',
+        costPer1kInput: 0,
+        costPer1kOutput: 0,
+      });
+    });
+
+    it('registers configured models, appends them to fallback chains and calls the local server', async () => {
+      process.env = {
+        ...originalEnv,
+        OPENAI_API_KEY: undefined,
+        ANTHROPIC_API_KEY: undefined,
+        GOOGLE_GENERATIVE_AI_API_KEY: undefined,
+        OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8080/v1',
+        OPENAI_COMPATIBLE_MODELS: 'llama-3.1-8b',
+      };
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const router = await loadRouter();
+
+      expect(router.MODEL_CONFIGS['local/llama-3.1-8b']).toBeDefined();
+      expect(router.getFallbackChain('conversation').slice(-1)).toEqual(['local/llama-3.1-8b']);
+
+      openaiCreate.mockResolvedValue({ choices: [{ message: { content: 'hi' } }], usage: null });
+      const client = new router.LLMClient();
+      expect(client.isProviderAvailable('openai')).toBe(false);
+      expect(client.isProviderAvailable('openai_compatible')).toBe(true);
+
+      const result = await client.complete([{ role: 'user', content: 'Hi' }], {
+        fallbackChain: router.getFallbackChain('conversation'),
+      });
+
+      expect(openaiCreate).toHaveBeenCalledWith(expect.objectContaining({ model: 'llama-3.1-8b' }));
+      expect(result).toMatchObject({ text: 'hi', model: 'local/llama-3.1-8b', provider: 'openai_compatible' });
+    });
+  });
 });
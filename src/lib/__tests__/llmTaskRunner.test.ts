@@ -0,0 +1,344 @@
+const complete = jest.fn();
+const completeStructured = jest.fn();
+const getUserPreferences = jest.fn();
+const checkLLMBudget = jest.fn();
+const getOrganizationLLMConfig = jest.fn();
+const logLLMCredentialUse = jest.fn();
+
+jest.mock('../llmRouter', () => ({
+  ...jest.requireActual('../llmRouter'),
+  getLLMClient: () => ({ complete, completeStructured }),
+  getUserPreferences: (...args: unknown[]) => getUserPreferences(...args),
+}));
+
+jest.mock('../llmBudget', () => ({
+  ...jest.requireActual('../llmBudget'),
+  getUserOrganizationId: jest.fn().mockResolvedValue('org-1'),
+  checkLLMBudget: (...args: unknown[]) => checkLLMBudget(...args),
+}));
+
+jest.mock('../llmCredentials', () => ({
+  ...jest.requireActual('../llmCredentials'),
+  getOrganizationLLMConfig: (...args: unknown[]) => getOrganizationLLMConfig(...args),
+  logLLMCredentialUse: (...args: unknown[]) => logLLMCredentialUse(...args),
+}));
+
+import { FALLBACK_CHAINS, MODEL_CONFIGS } from '../llmRouter';
+import * as env from '../env';
+import { LLMBudgetExceededError } from '../llmBudget';
+import { getLLMCache } from '../llmCache';
+import { resolveTaskChain, runLLMTask, runStructuredLLMTask } from '../llmTaskRunner';
+import { scoreAnswer } from '../answerScoring';
+import { z } from 'zod';
+
+describe('llmTaskRunner', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await getLLMCache().clear();
+    getUserPreferences.mockResolvedValue(null);
+    getOrganizationLLMConfig.mockResolvedValue(null);
+    checkLLMBudget.mockResolvedValue({
+      allowed: true,
+      status: 'ok',
+      user: { spentCents: 0, budgetCents: 100, warnPct: 80, status: 'ok' },
+      organization: null,
+    });
+  });
+
+  describe('resolveTaskChain', () => {
+    it('uses the task fallback chain by default', () => {
+      const chain = resolveTaskChain('conversation');
+      expect(chain).toEqual([FALLBACK_CHAINS.conversation.primary, ...FALLBACK_CHAINS.conversation.fallbacks]);
+    });
+
+    it('puts a valid preferred model first', () => {
+      const chain = resolveTaskChain('conversation', 'gpt-4o');
+      expect(chain[0]).toBe('gpt-4o');
+      expect(chain).toContain('claude-haiku-3-5');
+    });
+
+    it('ignores unknown preferred models', () => {
+      const chain = resolveTaskChain('conversation', 'not-a-model');
+      expect(chain[0]).toBe(FALLBACK_CHAINS.conversation.primary);
+    });
+
+    it('tries a pinned provider first and keeps the others as fallbacks', () => {
+      const pinned = jest.spyOn(env, 'llmProvider').mockReturnValue('anthropic');
+      try {
+        const chain = resolveTaskChain('conversation');
+        const full = [FALLBACK_CHAINS.conversation.primary, ...FALLBACK_CHAINS.conversation.fallbacks];
+
+        expect(MODEL_CONFIGS[chain[0]].provider).toBe('anthropic');
+        expect([...chain].sort()).toEqual([...full].sort());
+        expect(chain.some((id) => MODEL_CONFIGS[id].provider === 'openai')).toBe(true);
+      } finally {
+        pinned.mockRestore();
+      }
+    });
+  });
+
+  describe('runLLMTask', () => {
+    it('applies user preferences and reports cost and fallback position', async () => {
+      getUserPreferences.mockResolvedValue({
+        user_id: 'user-1',
+        preferred_model: 'gpt-4o',
+        temperature: 0.9,
+        max_tokens: 512,
+      });
+      complete.mockResolvedValue({
+        text: '{"short_answer":"ok"}',
+        model: 'claude-haiku-3-5',
+        provider: 'anthropic',
+        usage: { inputTokens: 1000, outputTokens: 1000 },
+        raw: {},
+      });
+
+      const result = await runLLMTask({
+        taskType: 'conversation',
+        userId: 'user-1',
+        responseFormat: 'json_object',
+        messages: [{ role: 'user', content: 'Tell me about yourself' }],
+      });
+
+      expect(complete).toHaveBeenCalledWith(
+        [{ role: 'user', content: 'Tell me about yourself' }],
+        expect.objectContaining({
+          fallbackChain: ['gpt-4o', ...FALLBACK_CHAINS.conversation.fallbacks],
+          temperature: 0.9,
+          max_tokens: 512,
+          responseFormat: 'json_object',
+          ledger: { userId: 'user-1', organizationId: 'org-1', taskType: 'conversation' },
+        }),
+      );
+      expect(result.model).toBe('claude-haiku-3-5');
+      expect(result.fallbackPosition).toBe(1);
+      expect(result.costCents).toBe(4.8);
+    });
+
+    it('lets the task temperature override the saved preference', async () => {
+      getUserPreferences.mockResolvedValue({ user_id: 'user-1', temperature: 0.9 });
+      complete.mockResolvedValue({ text: '', model: 'gpt-4o-mini', provider: 'openai', usage: null, raw: {} });
+
+      const result = await runLLMTask({
+        taskType: 'conversation',
+        userId: 'user-1',
+        temperature: 0.3,
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(complete).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ temperature: 0.3 }));
+      expect(result.costCents).toBe(0);
+      expect(result.fallbackPosition).toBe(0);
+    });
+
+    it('still runs when preferences cannot be loaded', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      getUserPreferences.mockRejectedValue(new Error('SUPABASE_SERVICE_ROLE_KEY is required'));
+      complete.mockResolvedValue({ text: 'ok', model: 'gpt-4o-mini', provider: 'openai', usage: null, raw: {} });
+
+      const result = await runLLMTask({
+        taskType: 'conversation',
+        userId: 'user-1',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(result.text).toBe('ok');
+      warnSpy.mockRestore();
+    });
+
+    it('refuses to call the model once the organization budget is spent', async () => {
+      checkLLMBudget.mockResolvedValue({
+        allowed: false,
+        status: 'blocked',
+        user: { spentCents: 10, budgetCents: 100, warnPct: 80, status: 'ok' },
+        organization: { spentCents: 5000, budgetCents: 5000, warnPct: 80, status: 'blocked' },
+      });
+
+      const run = runLLMTask({
+        taskType: 'conversation',
+        userId: 'user-1',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      await expect(run).rejects.toBeInstanceOf(LLMBudgetExceededError);
+      await expect(run).rejects.toMatchObject({ scope: 'organization' });
+      expect(checkLLMBudget).toHaveBeenCalledWith('user-1', 'org-1');
+      expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('reports a near-limit budget status', async () => {
+      checkLLMBudget.mockResolvedValue({
+        allowed: true,
+        status: 'warn',
+        user: { spentCents: 85, budgetCents: 100, warnPct: 80, status: 'warn' },
+        organization: null,
+      });
+      complete.mockResolvedValue({ text: 'ok', model: 'gpt-4o-mini', provider: 'openai', usage: null, raw: {} });
+
+      const result = await runLLMTask({
+        taskType: 'conversation',
+        userId: 'user-1',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(result.budgetStatus).toBe('warn');
+    });
+  });
+
+  describe('organization credentials', () => {
+    it('narrows the chain to allowed models and audits the serving key', async () => {
+      getOrganizationLLMConfig.mockResolvedValue({
+        organizationId: 'org-1',
+        credentials: {},
+        hints: {},
+        allowedModels: ['claude-haiku-3-5'],
+        ownKeysOnly: false,
+      });
+      complete.mockResolvedValue({ text: 'ok', model: 'claude-haiku-3-5', provider: 'anthropic', usage: null, raw: {} });
+
+      await runLLMTask({ taskType: 'conversation', userId: 'user-1', messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(complete).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ fallbackChain: ['claude-haiku-3-5'] })
+      );
+      expect(logLLMCredentialUse).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', model: 'claude-haiku-3-5', provider: 'anthropic' })
+      );
+    });
+
+    it('does not audit requests outside an organization config', async () => {
+      complete.mockResolvedValue({ text: 'ok', model: 'gpt-4o-mini', provider: 'openai', usage: null, raw: {} });
+
+      await runLLMTask({ taskType: 'conversation', userId: 'user-1', messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(logLLMCredentialUse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runStructuredLLMTask', () => {
+    it('passes the schema to the client and returns typed data with repair count', async () => {
+      const schema = z.object({ short_answer: z.string() });
+      completeStructured.mockResolvedValue({
+        data: { short_answer: 'ok' },
+        text: '{"short_answer":"ok"}',
+        model: 'gpt-4o-mini',
+        provider: 'openai',
+        usage: { inputTokens: 1000, outputTokens: 0 },
+        repairs: 1,
+        raw: {},
+      });
+
+      const result = await runStructuredLLMTask({
+        taskType: 'conversation',
+        userId: 'user-1',
+        schema,
+        schemaName: 'copilot_suggestion',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(completeStructured).toHaveBeenCalledWith(
+        [{ role: 'user', content: 'Hi' }],
+        schema,
+        expect.objectContaining({ schemaName: 'copilot_suggestion', fallbackChain: expect.any(Array) }),
+      );
+      expect(result.data.short_answer).toBe('ok');
+      expect(result.repairs).toBe(1);
+      expect(result.costCents).toBe(0.15);
+    });
+  });
+
+  describe('response cache', () => {
+    const reply = {
+      text: 'A closure captures variables from its enclosing scope.',
+      model: 'gpt-4o-mini',
+      provider: 'openai',
+      usage: { inputTokens: 100, outputTokens: 100 },
+      raw: {},
+    };
+
+    it('serves a repeated prompt from the cache without calling the model', async () => {
+      complete.mockResolvedValue(reply);
+      const request = {
+        taskType: 'simple_qa' as const,
+        userId: 'user-1',
+        messages: [{ role: 'user', content: 'What is a closure?' }],
+      };
+
+      const first = await runLLMTask(request);
+      const second = await runLLMTask({
+        ...request,
+        messages: [{ role: 'user', content: '  What is a   closure? ' }],
+      });
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(first.cacheHit).toBeNull();
+      expect(second).toMatchObject({ text: reply.text, cacheHit: 'exact', costCents: 0, usage: null });
+      expect(getLLMCache().getStats().simple_qa).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+    });
+
+    it('never caches personalized requests', async () => {
+      complete.mockResolvedValue(reply);
+      const request = {
+        taskType: 'simple_qa' as const,
+        userId: 'user-1',
+        messages: [{ role: 'user', content: 'Summarize my resume' }],
+        cache: { personalized: true },
+      };
+
+      await runLLMTask(request);
+      const second = await runLLMTask(request);
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(second.cacheHit).toBeNull();
+      expect(getLLMCache().getStats().simple_qa.bypassed).toBe(2);
+    });
+
+    it('re-validates cached structured output against the schema', async () => {
+      const schema = z.object({ short_answer: z.string() });
+      completeStructured.mockResolvedValue({ ...reply, data: { short_answer: 'ok' }, repairs: 0 });
+      const request = {
+        taskType: 'analysis' as const,
+        schema,
+        schemaName: 'answer',
+        messages: [{ role: 'user', content: 'Explain CAP' }],
+      };
+
+      await runStructuredLLMTask(request);
+      const cached = await runStructuredLLMTask(request);
+      const changedSchema = await runStructuredLLMTask({
+        ...request,
+        schema: z.object({ short_answer: z.string(), talking_points: z.array(z.string()) }),
+      });
+
+      expect(cached).toMatchObject({ cacheHit: 'exact', data: { short_answer: 'ok' } });
+      expect(changedSchema.cacheHit).toBeNull();
+      expect(completeStructured).toHaveBeenCalledTimes(2);
+    });
+
+    it('serves feature calls such as answer scoring from the cache, per user', async () => {
+      const dimension = { score: 4, evidence: 'e', recommendation: 'r' };
+      completeStructured.mockResolvedValue({
+        ...reply,
+        data: {
+          rubric: { clarity: dimension, confidence: dimension, relevance: dimension, structure: dimension },
+          evidence_quotes: [],
+          improved_answer: 'Better.',
+        },
+        repairs: 0,
+      });
+      const update = jest.fn(() => ({ eq: jest.fn(async () => ({ error: null })) }));
+      const supabase = { from: jest.fn(() => ({ update })) } as unknown as Parameters<typeof scoreAnswer>[0];
+      const question = { id: 'q1', question_text: 'Describe a project you led.', response_text: 'I led billing.' };
+
+      await scoreAnswer(supabase, { question, mode: 'behavioral', userId: 'user-1', sessionId: 's1' });
+      await scoreAnswer(supabase, { question, mode: 'behavioral', userId: 'user-1', sessionId: 's1' });
+      expect(completeStructured).toHaveBeenCalledTimes(1);
+      expect(update).toHaveBeenCalledTimes(2);
+
+      await scoreAnswer(supabase, { question, mode: 'behavioral', userId: 'user-2', sessionId: 's2' });
+      expect(completeStructured).toHaveBeenCalledTimes(2);
+      expect(getLLMCache().getStats().analysis).toMatchObject({ hits: 1, misses: 2 });
+    });
+  });
+});
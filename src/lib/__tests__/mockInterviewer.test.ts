@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/llmTaskRunner', () => ({ runStructuredLLMTask: jest.fn() }));
+
+import { speechMetrics } from '@/lib/speechMetrics';
+import {
+  candidateAnswerSinceQuestion,
+  candidateSpeechByQuestion,
+  interviewerState,
+  MAX_FOLLOW_UPS,
+  normalizeInterviewerTurn,
+  planFromSession,
+  renderInterviewerPrompt,
+  streamInterviewerTurn,
+  type InterviewMessage,
+  type PlannedQuestion,
+} from '@/lib/mockInterviewer';
+
+let seq = 0;
+
+function msg(role: InterviewMessage['role'], content: string, meta?: Record<string, unknown>): InterviewMessage {
+  seq += 1;
+  return { id: `m${seq}`, role, content, meta: meta ?? {}, created_at: `2026-01-01T00:00:${String(seq).padStart(2, '0')}Z` };
+}
+
+function question(id: string, text: string, order: number): PlannedQuestion {
+  return { id, question_text: text, question_type: 'behavioral', difficulty: 'medium', order_index: order };
+}
+
+const QUESTIONS = [question('q1', 'Tell me about a project you led.', 0), question('q2', 'Describe a conflict.', 1)];
+
+describe('mock interviewer', () => {
+  it('builds the plan from session meta and the stored questions', () => {
+    const plan = planFromSession({ id: 's1', meta: { role: 'Backend Engineer', seniority: 'Senior', mode: 'behavioral' } }, QUESTIONS);
+    expect(plan).toMatchObject({ role: 'Backend Engineer', seniority: 'Senior', mode: 'behavioral', questionCount: 5 });
+
+    expect(planFromSession({ id: 's1', meta: {} }, []).questionCount).toBe(5);
+    expect(planFromSession({ id: 's1', meta: { question_count: 3 } }, QUESTIONS).questionCount).toBe(3);
+  });
+
+  it('opens with the first planned question', () => {
+    const plan = planFromSession({ id: 's1', meta: {} }, QUESTIONS);
+    const state = interviewerState(plan, []);
+
+    expect(state.allowed).toEqual(['next_question']);
+    expect(state.nextQuestion?.id).toBe('q1');
+    expect(state.awaitingAnswer).toBe(false);
+  });
+
+  it('limits follow-ups and moves through the plan to the wrap-up', () => {
+    const plan = planFromSession({ id: 's1', meta: { question_count: 2 } }, QUESTIONS);
+    const history = [
+      msg('assistant', QUESTIONS[0].question_text, { action: 'next_question', question_id: 'q1' }),
+      msg('user', 'I led the billing rewrite.'),
+    ];
+
+    let state = interviewerState(plan, history);
+    expect(state.allowed).toEqual(['follow_up', 'next_question']);
+    expect(state.currentQuestionId).toBe('q1');
+    expect(state.nextQuestion?.id).toBe('q2');
+
+    for (let i = 0; i < MAX_FOLLOW_UPS; i++) {
+      history.push(msg('assistant', 'What was the impact?', { action: 'follow_up', question_id: 'q1' }));
+      history.push(msg('user', 'Invoices went out on time.'));
+    }
+    state = interviewerState(plan, history);
+    expect(state.followUps).toBe(MAX_FOLLOW_UPS);
+    expect(state.allowed).toEqual(['next_question']);
+
+    history.push(msg('assistant', QUESTIONS[1].question_text, { action: 'next_question', question_id: 'q2' }));
+    history.push(msg('user', 'We disagreed on scope.'));
+    state = interviewerState(plan, history);
+    expect(state.allowed).toEqual(['follow_up', 'wrap_up']);
+    expect(state.nextQuestion).toBeNull();
+
+    history.push(msg('assistant', 'Thanks for your time.', { action: 'wrap_up', question_id: null }));
+    expect(interviewerState(plan, history)).toMatchObject({ wrappedUp: true, allowed: [] });
+  });
+
+  it('waits for the candidate after an interviewer turn', () => {
+    const plan = planFromSession({ id: 's1', meta: {} }, QUESTIONS);
+    // Interviewer messages from before turn tracking count as questions
+    const state = interviewerState(plan, [msg('assistant', 'Why this company?', {})]);
+
+    expect(state.questionsAsked).toBe(1);
+    expect(state.awaitingAnswer).toBe(true);
+  });
+
+  it('replaces an action that is not allowed', () => {
+    const plan = planFromSession({ id: 's1', meta: { question_count: 1 } }, QUESTIONS);
+    const history = [
+      msg('assistant', 'Q1', { action: 'next_question', question_id: 'q1' }),
+      msg('user', 'Answer'),
+      msg('assistant', 'More?', { action: 'follow_up' }),
+      msg('user', 'More'),
+      msg('assistant', 'And?', { action: 'follow_up' }),
+      msg('user', 'Done'),
+    ];
+    const state = interviewerState(plan, history);
+
+    expect(state.allowed).toEqual(['wrap_up']);
+    expect(normalizeInterviewerTurn({ action: 'follow_up', message: 'One more?' }, state).action).toBe('wrap_up');
+    expect(normalizeInterviewerTurn({ action: 'wrap_up', message: 'Thanks' }, state).action).toBe('wrap_up');
+  });
+
+  it('collects the answer to the current question across follow-ups', () => {
+    const history = [
+      msg('assistant', 'Q1', { action: 'next_question', question_id: 'q1' }),
+      msg('user', 'Old answer'),
+      msg('assistant', 'Q2', { action: 'next_question', question_id: 'q2' }),
+      msg('user', 'First part.'),
+      msg('assistant', 'Go on', { action: 'follow_up' }),
+      msg('user', 'Second part.'),
+    ];
+
+    expect(candidateAnswerSinceQuestion(history)).toBe('First part.\n\nSecond part.');
+  });
+
+  it('groups spoken delivery by the question it answers', () => {
+    const first = speechMetrics({ text: 'um I led it', durationMs: 4_000 });
+    const second = speechMetrics({ text: 'and shipped it', durationMs: 2_000 });
+    const history = [
+      msg('assistant', 'Q1', { action: 'next_question', question_id: 'q1' }),
+      msg('user', 'um I led it', { speech: first }),
+      msg('assistant', 'Go on', { action: 'follow_up' }),
+      msg('user', 'and shipped it', { speech: second }),
+      msg('assistant', 'Q2', { action: 'next_question', question_id: 'q2' }),
+      msg('user', 'Typed answer'),
+    ];
+
+    const delivery = candidateSpeechByQuestion(history);
+
+    expect(Array.from(delivery.keys())).toEqual(['q1']);
+    expect(delivery.get('q1')).toMatchObject({ duration_ms: 6_000, word_count: 7, filler_count: 1 });
+  });
+
+  it('renders the plan, progress and conversation into the prompt', () => {
+    const plan = planFromSession({ id: 's1', meta: { role: 'Data Engineer', seniority: 'Mid' } }, QUESTIONS);
+    const history = [
+      msg('assistant', QUESTIONS[0].question_text, { action: 'next_question', question_id: 'q1' }),
+      msg('user', 'Reach me at jane@example.com about the pipeline work.'),
+    ];
+    const state = interviewerState(plan, history);
+    const prompt = renderInterviewerPrompt(plan, state, history);
+    const user = prompt.messages[1].content;
+
+    expect(prompt.promptId).toBe('mock_interviewer');
+    expect(user).toContain('Role: Data Engineer');
+    expect(user).toContain('Question 1 of 5, 0 follow-up(s) asked on it');
+    expect(user).toContain('Planned next question: Describe a conflict. [behavioral, medium]');
+    expect(user).toContain('Allowed actions: follow_up, next_question');
+    expect(user).toContain('Interviewer: Tell me about a project you led.');
+    expect(user).toContain('Candidate: Reach me at [REDACTED_EMAIL] about the pipeline work.');
+  });
+
+  it('sends done before scoring the answer', async () => {
+    const events: string[] = [];
+    let body = '';
+    const stream = streamInterviewerTurn(async (onText) => {
+      onText('Thanks. ');
+      return {
+        message: msg('assistant', 'Thanks. Next one.'),
+        action: 'next_question',
+        settle: async () => {
+          // Let the reader take what was queued before scoring started
+          await new Promise((resolve) => setImmediate(resolve));
+          events.push(body.includes('event: done') ? 'scored after done' : 'scored before done');
+        },
+      };
+    });
+
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      body += decoder.decode(chunk.value);
+    }
+
+    expect(body).toContain('event: delta');
+    expect(events).toEqual(['scored after done']);
+  });
+
+  it('finishes the turn after the client disconnects', async () => {
+    let release = () => {};
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const settle = jest.fn(async () => {});
+    const stream = streamInterviewerTurn(async (onText) => {
+      await gate;
+      onText('Still stored.');
+      return { message: msg('assistant', 'Still stored.'), action: 'follow_up', settle };
+    });
+
+    await stream.cancel();
+    release();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(settle).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  getPromptTemplate,
+  listPromptTemplates,
+  parsePromptSplits,
+  PromptTemplateError,
+  registerPrompt,
+  renderPrompt,
+  resolvePromptVersion,
+} from '../promptRegistry';
+
+describe('promptRegistry', () => {
+  it('registers the built-in prompts with their task types', () => {
+    const ids = new Set(listPromptTemplates().map((t) => t.id));
+    expect(ids).toEqual(new Set(['copilot_suggestion', 'copilot_summary', 'interview_report', 'cover_letter', 'mock_interviewer', 'answer_scoring']));
+    expect(getPromptTemplate('interview_report', 'v1')?.taskType).toBe('analysis');
+  });
+
+  it('renders variables and reports the version used', () => {
+    const rendered = renderPrompt('copilot_summary', { mode: 'coding', transcript: 'user: hi' }, { version: 'v1' });
+
+    expect(rendered.promptId).toBe('copilot_summary');
+    expect(rendered.promptVersion).toBe('v1');
+    expect(rendered.messages[1].content).toContain('Mode: coding\n\nSession log:\nuser: hi');
+    expect(rendered.messages[1].content).not.toContain('{{');
+  });
+
+  it('does not re-expand placeholders inside variable values', () => {
+    const rendered = renderPrompt('copilot_summary', { mode: '{{transcript}}', transcript: '$& x' }, { version: 'v1' });
+    expect(rendered.messages[1].content).toContain('Mode: {{transcript}}\n\nSession log:\n$& x');
+  });
+
+  it('rejects missing variables and unknown versions', () => {
+    expect(() => renderPrompt('copilot_summary', { mode: 'general' }, { version: 'v1' })).toThrow(PromptTemplateError);
+    expect(() => renderPrompt('copilot_summary', { mode: 'general', transcript: '' }, { version: 'v9' })).toThrow(
+      PromptTemplateError
+    );
+    expect(() => resolvePromptVersion('nope')).toThrow(PromptTemplateError);
+  });
+
+  it('rejects templates that use undeclared variables', () => {
+    expect(() =>
+      registerPrompt({
+        id: 'broken',
+        version: 'v1',
+        taskType: 'simple_qa',
+        variables: [],
+        weight: 100,
+        messages: [{ role: 'user', content: 'Hello {{name}}' }],
+      })
+    ).toThrow(PromptTemplateError);
+  });
+
+  describe('traffic split', () => {
+    it('serves only versions with default weight when no override is set', () => {
+      for (let i = 0; i < 20; i++) {
+        expect(resolvePromptVersion('copilot_suggestion', `session-${i}`, {})).toBe('v1');
+      }
+    });
+
+    it('is sticky per bucket key and splits roughly by weight', () => {
+      const splits = { copilot_suggestion: { v1: 50, v2: 50 } };
+      const first = resolvePromptVersion('copilot_suggestion', 'session-abc', splits);
+      expect(resolvePromptVersion('copilot_suggestion', 'session-abc', splits)).toBe(first);
+
+      let v2 = 0;
+      for (let i = 0; i < 1000; i++) {
+        if (resolvePromptVersion('copilot_suggestion', `session-${i}`, splits) === 'v2') v2++;
+      }
+      expect(v2).toBeGreaterThan(400);
+      expect(v2).toBeLessThan(600);
+    });
+
+    it('routes all traffic to a version given the full weight', () => {
+      const splits = { copilot_suggestion: { v2: 100 } };
+      expect(resolvePromptVersion('copilot_suggestion', 'any', splits)).toBe('v2');
+    });
+  });
+
+  describe('parsePromptSplits', () => {
+    it('keeps non-negative numeric weights only', () => {
+      expect(parsePromptSplits('{"copilot_suggestion":{"v1":70,"v2":"30","v3":-1}}')).toEqual({
+        copilot_suggestion: { v1: 70 },
+      });
+      expect(parsePromptSplits(undefined)).toEqual({});
+    });
+
+    it('ignores invalid JSON', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      expect(parsePromptSplits('{not json')).toEqual({});
+      warnSpy.mockRestore();
+    });
+  });
+});
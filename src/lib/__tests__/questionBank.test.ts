@@ -0,0 +1,119 @@
+import {
+  BankQuestionInputSchema,
+  buildQuestionPack,
+  parseQuestionImport,
+  QuestionFiltersSchema,
+  toBankRow,
+  toSessionQuestionRows,
+  type BankQuestion,
+} from '@/lib/questionBank';
+
+function bankQuestion(overrides: Partial<BankQuestion>): BankQuestion {
+  return {
+    id: 'q',
+    organization_id: null,
+    created_by: null,
+    question_text: 'Question?',
+    question_type: 'behavioral',
+    difficulty: 'medium',
+    competencies: [],
+    roles: [],
+    company_tags: [],
+    sample_answer: '',
+    rubric_hints: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('question bank', () => {
+  it('normalizes tags and infers competencies', () => {
+    const row = toBankRow(
+      BankQuestionInputSchema.parse({
+        question_text: 'Tell me about a time you disagreed with a teammate.',
+        roles: ['Backend Engineer', 'backend engineer '],
+        company_tags: ['Acme'],
+      })
+    );
+
+    expect(row).toMatchObject({
+      question_type: 'behavioral',
+      difficulty: 'medium',
+      roles: ['backend engineer'],
+      company_tags: ['acme'],
+    });
+    expect(row.competencies).toEqual(expect.arrayContaining(['conflict', 'teamwork']));
+  });
+
+  it('imports CSV rows with list cells and reports invalid rows', () => {
+    const csv = [
+      'Question,Type,Difficulty,Roles,Company Tags,Sample Answer,Rubric Hints',
+      '"Design a rate limiter.",technical,hard,backend engineer;sre,Acme,"Token bucket, per-key counters",Clarifies limits|Discusses storage',
+      ',behavioral,easy,,,,',
+      'Why us?,general,impossible,,,,',
+    ].join('\n');
+
+    const { questions, errors } = parseQuestionImport('csv', csv);
+
+    expect(questions).toHaveLength(1);
+    expect(questions[0]).toMatchObject({
+      question_text: 'Design a rate limiter.',
+      question_type: 'technical',
+      difficulty: 'hard',
+      roles: ['backend engineer', 'sre'],
+      company_tags: ['acme'],
+      sample_answer: 'Token bucket, per-key counters',
+      rubric_hints: ['Clarifies limits', 'Discusses storage'],
+    });
+    expect(errors.map((error) => error.row)).toEqual([2, 3]);
+    expect(errors[1].message).toMatch(/^difficulty:/);
+  });
+
+  it('imports JSON arrays and { questions } objects', () => {
+    const item = { question_text: 'What motivates you?', type: 'general', competencies: ['communication'] };
+
+    expect(parseQuestionImport('json', JSON.stringify([item])).questions[0]).toMatchObject({
+      question_text: 'What motivates you?',
+      question_type: 'general',
+      competencies: ['communication'],
+    });
+    expect(parseQuestionImport('json', JSON.stringify({ questions: [item] })).questions).toHaveLength(1);
+    expect(parseQuestionImport('json', '{').errors).toEqual([{ row: 0, message: 'Invalid JSON' }]);
+  });
+
+  it('requires an organization for organization scope', () => {
+    expect(QuestionFiltersSchema.safeParse({ scope: 'organization' }).success).toBe(false);
+    expect(QuestionFiltersSchema.parse({ role: 'SRE' })).toMatchObject({ scope: 'all', role: 'SRE' });
+  });
+
+  it('builds a pack without repeats, ordered easy to hard', () => {
+    const candidates = [
+      bankQuestion({ id: 'hard', difficulty: 'hard' }),
+      bankQuestion({ id: 'easy', difficulty: 'easy' }),
+      bankQuestion({ id: 'medium', difficulty: 'medium' }),
+      bankQuestion({ id: 'seen', difficulty: 'easy' }),
+    ];
+
+    const pack = buildQuestionPack(candidates, { count: 3, exclude: ['seen'], random: () => 0.5 });
+
+    expect(pack.map((question) => question.id)).toEqual(['easy', 'medium', 'hard']);
+  });
+
+  it('maps a pack to session questions with the rubric attached', () => {
+    const rows = toSessionQuestionRows(
+      [bankQuestion({ id: 'b1', sample_answer: 'Strong answer', rubric_hints: ['Uses STAR'], competencies: ['impact'] })],
+      { sessionId: 's1', userId: 'u1', startIndex: 3 }
+    );
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        session_id: 's1',
+        user_id: 'u1',
+        bank_question_id: 'b1',
+        order_index: 3,
+        rubric: { competencies: ['impact'], sample_answer: 'Strong answer', hints: ['Uses STAR'] },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  recommendDifficulty,
+  selectNextQuestion,
+  sessionBankFilters,
+  sessionQuestionCount,
+  type SessionQuestion,
+} from '@/lib/questionPlanner';
+import type { BankQuestion } from '@/lib/questionBank';
+
+function bankQuestion(overrides: Partial<BankQuestion>): BankQuestion {
+  return {
+    id: 'b',
+    organization_id: null,
+    created_by: null,
+    question_text: 'Question?',
+    question_type: 'behavioral',
+    difficulty: 'medium',
+    competencies: [],
+    roles: [],
+    company_tags: [],
+    sample_answer: '',
+    rubric_hints: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function asked(overrides: Partial<SessionQuestion>): SessionQuestion {
+  return {
+    id: 'q',
+    bank_question_id: null,
+    question_text: 'Asked?',
+    difficulty: 'medium',
+    response_score: null,
+    answered_at: null,
+    order_index: 0,
+    rubric: null,
+    ...overrides,
+  };
+}
+
+describe('question planner', () => {
+  it('recommends harder questions after strong answers and easier ones after weak answers', () => {
+    expect(
+      recommendDifficulty([
+        { difficulty: 'medium', score: 5 },
+        { difficulty: 'medium', score: 4 },
+      ])
+    ).toMatchObject({ current_difficulty: 'medium', recommended_difficulty: 'hard', avg_score: 4.5 });
+
+    expect(
+      recommendDifficulty([
+        { difficulty: 'hard', score: 2 },
+        { difficulty: 'hard', score: 2 },
+      ]).recommended_difficulty
+    ).toBe('medium');
+
+    // One answer is not enough to move
+    expect(recommendDifficulty([{ difficulty: 'easy', score: 5 }]).recommended_difficulty).toBe('easy');
+    expect(recommendDifficulty([])).toMatchObject({ total_questions: 0, recommended_difficulty: 'medium' });
+  });
+
+  it('reports the performance trend', () => {
+    const scores = [1, 2, 4, 5].map((score) => ({ difficulty: 'medium', score }));
+    expect(recommendDifficulty(scores).performance_trend).toBe('improving');
+    expect(recommendDifficulty([...scores].reverse()).performance_trend).toBe('declining');
+  });
+
+  it('picks the closest difficulty, then the most uncovered competencies', () => {
+    const history = [asked({ question_text: 'Tell me about a project.', rubric: { competencies: ['leadership'] } })];
+    const candidates = [
+      bankQuestion({ id: 'easy', difficulty: 'easy', competencies: ['conflict', 'teamwork'] }),
+      bankQuestion({ id: 'hard-covered', difficulty: 'hard', competencies: ['leadership'] }),
+      bankQuestion({ id: 'hard-new', difficulty: 'hard', competencies: ['ownership', 'impact'] }),
+    ];
+
+    expect(selectNextQuestion(candidates, history, 'hard')).toEqual({
+      question: candidates[2],
+      recommended_difficulty: 'hard',
+      covers: ['ownership', 'impact'],
+    });
+    expect(selectNextQuestion(candidates, history, 'easy')?.question.id).toBe('easy');
+  });
+
+  it('never repeats a question already asked', () => {
+    const history = [
+      asked({ bank_question_id: 'b1' }),
+      asked({ question_text: 'Why do you want to work here?' }),
+    ];
+    const candidates = [
+      bankQuestion({ id: 'b1' }),
+      bankQuestion({ id: 'b2', question_text: 'why do you want to work here? ' }),
+    ];
+
+    expect(selectNextQuestion(candidates, history, 'medium')).toBeNull();
+  });
+
+  it('counts at least the default number of questions', () => {
+    expect(sessionQuestionCount({}, 2)).toBe(5);
+    expect(sessionQuestionCount(null, 7)).toBe(7);
+    expect(sessionQuestionCount({ question_count: 3 }, 7)).toBe(3);
+    expect(sessionQuestionCount({ question_count: 50 }, 0)).toBe(20);
+  });
+
+  it('builds bank filters from session meta', () => {
+    expect(
+      sessionBankFilters({
+        mode: 'technical',
+        role: ' Backend Engineer ',
+        company: 'Acme',
+        organization_id: '0b6f3c1e-8d52-4e1a-9f0e-2c4d5a6b7c8d',
+      })
+    ).toEqual({
+      scope: 'all',
+      type: 'technical',
+      role: 'Backend Engineer',
+      company: 'Acme',
+      organization_id: '0b6f3c1e-8d52-4e1a-9f0e-2c4d5a6b7c8d',
+    });
+    expect(sessionBankFilters({ mode: 'case-study', organization_id: 'not-a-uuid' })).toMatchObject({
+      type: undefined,
+      organization_id: undefined,
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { combineSpeechMetrics, countFillers, describeSpeechMetrics, speechMetrics } from '@/lib/speechMetrics';
+import { speechSpans } from '@/lib/sttProvider';
+
+describe('speech metrics', () => {
+  it('counts single and multi-word fillers', () => {
+    expect(countFillers('Um, so I mean we, uh, basically shipped it. Um.')).toEqual({
+      um: 2,
+      'i mean': 1,
+      uh: 1,
+      basically: 1,
+    });
+    expect(countFillers('The umbrella team was humming.')).toEqual({});
+  });
+
+  it('uses the recording length for the speaking rate', () => {
+    const metrics = speechMetrics({ text: 'one two three four five six', durationMs: 3_000 });
+
+    expect(metrics).toMatchObject({ duration_ms: 3_000, word_count: 6, words_per_minute: 120, pause_count: null });
+  });
+
+  it('finds long pauses from word timings', () => {
+    const spans = speechSpans([
+      { start: 0, end: 0.5 },
+      { start: 0.6, end: 1 },
+      { start: 3, end: 3.5 },
+    ]);
+    const metrics = speechMetrics({ text: 'one two three', spans });
+
+    expect(metrics.duration_ms).toBe(3_500);
+    expect(metrics.pause_count).toBe(1);
+    expect(metrics.longest_pause_ms).toBe(2_000);
+  });
+
+  it('combines the recordings of one answer', () => {
+    const combined = combineSpeechMetrics([
+      speechMetrics({ text: 'um one two', durationMs: 1_000 }),
+      speechMetrics({ text: 'three um four', durationMs: 1_000, spans: [{ start: 0, end: 1 }] }),
+    ]);
+
+    expect(combined).toMatchObject({ word_count: 6, words_per_minute: 180, filler_count: 2, fillers: { um: 2 } });
+    expect(combined?.pause_count).toBe(0);
+    expect(combineSpeechMetrics([])).toBeNull();
+  });
+
+  it('describes pace, fillers and pauses', () => {
+    const metrics = speechMetrics({ text: 'um '.repeat(3) + 'word '.repeat(139), durationMs: 60_000 });
+
+    expect(describeSpeechMetrics(metrics)).toBe('142 wpm (good pace), 3 filler words');
+    expect(describeSpeechMetrics({ ...metrics, words_per_minute: 90, filler_count: 1, pause_count: 1 })).toBe(
+      '90 wpm (slow), 1 filler word, 1 long pause'
+    );
+  });
+});
@@ -5,9 +5,16 @@ import {
   NullSTTProvider,
   FailingSTTProvider,
   buildTranscriptChunk,
+  dominantSpeaker,
   _resetSeqCounter,
 } from '@/lib/sttProvider';
-import type { STTProvider } from '@/lib/sttProvider';
+import type {
+  STTProvider,
+  STTProviderResult,
+  STTStreamHandlers,
+  StreamingSTTProvider,
+  TranscriptChunk,
+} from '@/lib/sttProvider';
 
 // ---------------------------------------------------------------------------
 // CircuitBreaker unit tests
@@ -142,6 +149,48 @@ describe('STTProviderRegistry', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Speaker attribution tests
+// ---------------------------------------------------------------------------
+
+describe('speaker attribution', () => {
+  it('picks the dominant diarized speaker weighted by word confidence', () => {
+    const speaker = dominantSpeaker([
+      { speaker: 0, confidence: 0.9 },
+      { speaker: 1, confidence: 0.2 },
+      { speaker: 1, confidence: 0.2 },
+      { speaker: 0, confidence: 0.7 },
+    ]);
+
+    expect(speaker?.label).toBe('speaker:0');
+    expect(speaker?.source).toBe('diarization');
+    expect(speaker?.confidence).toBeCloseTo(0.8);
+  });
+
+  it('returns undefined when words carry no speaker', () => {
+    expect(dominantSpeaker([{ confidence: 0.9 }])).toBeUndefined();
+  });
+
+  it('labels results by capture channel over diarization', async () => {
+    const registry = new STTProviderRegistry();
+    registry.register({
+      name: 'diarizing',
+      async transcribe() {
+        return { text: 'hi', isFinal: true, speaker: { label: 'speaker:1', confidence: 0.6, source: 'diarization' } };
+      },
+      async healthCheck() {
+        return true;
+      },
+    });
+
+    const diarized = await registry.transcribe(new ArrayBuffer(8));
+    expect(diarized.speaker?.label).toBe('speaker:1');
+
+    const channeled = await registry.transcribe(new ArrayBuffer(8), { channel: 'mic' });
+    expect(channeled.speaker).toEqual({ label: 'channel:mic', confidence: 0.9, source: 'channel' });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // buildTranscriptChunk tests
 // ---------------------------------------------------------------------------
@@ -184,3 +233,151 @@ describe('buildTranscriptChunk', () => {
     expect(c1.idempotencyKey).not.toBe(c2.idempotencyKey);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Streaming tests
+// ---------------------------------------------------------------------------
+
+class FakeLiveProvider implements StreamingSTTProvider {
+  readonly name = 'live';
+  handlers: STTStreamHandlers | null = null;
+  sent: number[] = [];
+  openError: Error | null = null;
+
+  async transcribe(): Promise<STTProviderResult> {
+    throw new Error('batch_not_used');
+  }
+  async healthCheck() {
+    return true;
+  }
+  async openStream(handlers: STTStreamHandlers) {
+    if (this.openError) throw this.openError;
+    this.handlers = handlers;
+    return {
+      send: (audio: ArrayBuffer) => {
+        this.sent.push(audio.byteLength);
+      },
+      close: async () => {
+        this.handlers?.onResult({ text: 'flushed on close', isFinal: true });
+      },
+    };
+  }
+}
+
+function batchProvider(name: string, calls: number[]): STTProvider {
+  return {
+    name,
+    async transcribe(audio: ArrayBuffer) {
+      calls.push(audio.byteLength);
+      return { text: `${name} transcript`, isFinal: true, confidence: 0.8 };
+    },
+    async healthCheck() {
+      return true;
+    },
+  };
+}
+
+describe('STTProviderRegistry.openStream', () => {
+  const bytes = (n: number) => new Uint8Array(n).buffer;
+
+  it('streams partial and final results with a shared idempotency key', async () => {
+    const live = new FakeLiveProvider();
+    const registry = new STTProviderRegistry();
+    registry.register(live);
+    const chunks: TranscriptChunk[] = [];
+
+    const stream = await registry.openStream({ sessionId: 'sess-1', onChunk: (c) => chunks.push(c) });
+    stream.send(bytes(4));
+    live.handlers!.onResult({ text: 'Tell me', isFinal: false });
+    live.handlers!.onResult({ text: 'Tell me about yourself', isFinal: true, confidence: 0.9 });
+    live.handlers!.onResult({ text: '', isFinal: false });
+    await stream.close();
+
+    expect(stream.mode).toBe('live');
+    expect(live.sent).toEqual([4]);
+    expect(chunks.map((c) => [c.state, c.text, c.seq])).toEqual([
+      ['partial', 'Tell me', 1],
+      ['final', 'Tell me about yourself', 1],
+      ['final', 'flushed on close', 2],
+    ]);
+    expect(chunks[0].idempotencyKey).toBe(chunks[1].idempotencyKey);
+  });
+
+  it('fails over mid-stream to batch and replays unfinalized audio with the header', async () => {
+    const live = new FakeLiveProvider();
+    const batchCalls: number[] = [];
+    const registry = new STTProviderRegistry();
+    registry.register(live, { failureThreshold: 1, resetTimeoutMs: 60_000 });
+    registry.register(batchProvider('whisper', batchCalls));
+    const chunks: TranscriptChunk[] = [];
+
+    const stream = await registry.openStream({ sessionId: 'sess-1', onChunk: (c) => chunks.push(c), batchBytes: 100 });
+    stream.send(bytes(10)); // header chunk
+    live.handlers!.onResult({ text: 'First answer', isFinal: true });
+    stream.send(bytes(20));
+    live.handlers!.onError(new Error('socket_closed'));
+
+    expect(stream.mode).toBe('batch');
+    expect(registry.getCircuitState('live')).toBe('open');
+
+    stream.send(bytes(30));
+    await stream.close();
+
+    // Replay: header + unfinalized 20 bytes, then the 30 bytes sent after failover (with header)
+    expect(batchCalls).toEqual([30, 40]);
+    expect(chunks.map((c) => [c.provider, c.state, c.seq])).toEqual([
+      ['live', 'final', 1],
+      ['whisper', 'final', 2],
+      ['whisper', 'final', 3],
+    ]);
+  });
+
+  it('starts in batch mode when no streaming provider can open', async () => {
+    const live = new FakeLiveProvider();
+    live.openError = new Error('handshake_failed');
+    const batchCalls: number[] = [];
+    const registry = new STTProviderRegistry();
+    registry.register(live);
+    registry.register(batchProvider('whisper', batchCalls));
+    const chunks: TranscriptChunk[] = [];
+
+    const stream = await registry.openStream({ sessionId: 's', onChunk: (c) => chunks.push(c), batchBytes: 8 });
+    stream.send(bytes(8));
+    await stream.close();
+
+    expect(stream.mode).toBe('batch');
+    expect(batchCalls).toEqual([8]);
+    expect(chunks[0]).toMatchObject({ provider: 'whisper', state: 'final', text: 'whisper transcript' });
+  });
+
+  it('retries a batch provider that failed once while its circuit is closed', async () => {
+    const calls: number[] = [];
+    const flaky = batchProvider('whisper', calls);
+    const transcribe = jest.spyOn(flaky, 'transcribe').mockRejectedValueOnce(new Error('timeout'));
+    const registry = new STTProviderRegistry();
+    registry.register(flaky, { failureThreshold: 3 });
+    registry.register(batchProvider('fallback', []));
+    const chunks: TranscriptChunk[] = [];
+
+    const stream = await registry.openStream({ sessionId: 's', onChunk: (c) => chunks.push(c), batchBytes: 8 });
+    stream.send(bytes(8));
+    stream.send(bytes(8));
+    await stream.close();
+
+    expect(transcribe).toHaveBeenCalledTimes(2);
+    expect(chunks.map((c) => c.provider)).toEqual(['fallback', 'whisper']);
+  });
+
+  it('reports an error and rejects audio when every provider fails', async () => {
+    const registry = new STTProviderRegistry();
+    registry.register(new FailingSTTProvider('a'));
+    const onError = jest.fn();
+
+    const stream = await registry.openStream({ sessionId: 's', onChunk: jest.fn(), onError });
+    stream.send(bytes(4));
+    await stream.close();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(STTAllProvidersFailedError));
+    expect(() => stream.send(bytes(4))).toThrow('STT stream is closed');
+  });
+});
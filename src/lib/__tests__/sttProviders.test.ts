@@ -1,3 +1,7 @@
+/**
+ * @jest-environment node
+ */
+
 /**
  * STT Provider Tests
  *
@@ -12,6 +16,7 @@ import {
   checkRateLimit,
   validateAuth,
   getRateLimitStatus,
+  LocalWhisperSTTProvider,
 } from '@/lib/sttProviders';
 
 // ---------------------------------------------------------------------------
@@ -106,6 +111,15 @@ describe('checkRateLimit', () => {
     // Note: Uses global limiter - unique user ID to avoid conflicts
     await expect(checkRateLimit({ userId: 'test-user-unique-789', tier: 'free' })).resolves.not.toThrow();
   });
+
+  it('keeps counting across calls and rejects once the tier limit is spent', async () => {
+    const auth = { userId: 'test-user-limited', tier: 'free' as const };
+    for (let i = 0; i < 10; i++) {
+      await checkRateLimit(auth);
+    }
+
+    await expect(checkRateLimit(auth)).rejects.toMatchObject({ statusCode: 429 });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -123,6 +137,78 @@ describe('getRateLimitStatus', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// LocalWhisperSTTProvider tests
+// ---------------------------------------------------------------------------
+
+describe('LocalWhisperSTTProvider', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  function jsonResponse(body: unknown, status = 200) {
+    return { ok: status >= 200 && status < 300, status, json: async () => body };
+  }
+
+  it('posts audio to an OpenAI-compatible server and scores segments', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        text: ' Tell me about yourself. ',
+        segments: [{ avg_logprob: Math.log(0.9), no_speech_prob: 0 }, { avg_logprob: Math.log(0.7), no_speech_prob: 0 }],
+      })
+    );
+    const provider = new LocalWhisperSTTProvider({ baseURL: 'http://whisper.local:8000/', model: 'small' });
+
+    const result = await provider.transcribe(new ArrayBuffer(8), { mimeType: 'audio/ogg', language: 'de' });
+
+    expect(result.text).toBe('Tell me about yourself.');
+    expect(result.isFinal).toBe(true);
+    expect(result.confidence).toBeCloseTo(0.8);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://whisper.local:8000/v1/audio/transcriptions');
+    const form = init.body as FormData;
+    expect(form.get('model')).toBe('small');
+    expect(form.get('language')).toBe('de');
+    expect((form.get('file') as File).name).toBe('audio.ogg');
+  });
+
+  it('uses the whisper.cpp inference endpoint', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ text: 'hello' }));
+    const provider = new LocalWhisperSTTProvider({ baseURL: 'http://127.0.0.1:8080', api: 'whisper.cpp' });
+
+    const result = await provider.transcribe(new ArrayBuffer(8));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:8080/inference');
+    expect((fetchMock.mock.calls[0][1].body as FormData).get('model')).toBeNull();
+    expect(result).toEqual({ text: 'hello', isFinal: true, confidence: undefined });
+  });
+
+  it('throws on server errors so the registry can fail over', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'model not loaded' }, 503));
+    const provider = new LocalWhisperSTTProvider({ baseURL: 'http://whisper.local:8000' });
+
+    await expect(provider.transcribe(new ArrayBuffer(8))).rejects.toThrow(
+      'Local Whisper transcription failed: model not loaded'
+    );
+  });
+
+  it('reports unhealthy when the server is unreachable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const provider = new LocalWhisperSTTProvider({ baseURL: 'http://whisper.local:8000' });
+
+    await expect(provider.healthCheck()).resolves.toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Factory tests (without SDK initialization issues)
 // ---------------------------------------------------------------------------
@@ -143,6 +229,17 @@ describe('createProductionSTTRegistry', () => {
     // Should have at least null provider (fallback)
     expect(providers).toContain('null');
   });
+
+  it('registers a configured local Whisper server ahead of the fallback', () => {
+    process.env.LOCAL_WHISPER_URL = 'http://whisper.local:8000';
+    process.env.STT_LOCAL_ONLY = 'true';
+    try {
+      expect(createProductionSTTRegistry().registeredProviders).toEqual(['local-whisper', 'null']);
+    } finally {
+      delete process.env.LOCAL_WHISPER_URL;
+      delete process.env.STT_LOCAL_ONLY;
+    }
+  });
 });
 
 // ---------------------------------------------------------------------------
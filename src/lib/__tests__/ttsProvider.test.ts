@@ -0,0 +1,85 @@
+import {
+  FailingTTSProvider,
+  StandInTTSProvider,
+  TTSAllProvidersFailedError,
+  TTSProviderRegistry,
+} from '@/lib/ttsProvider';
+
+function ascii(audio: ArrayBuffer, offset: number, length: number): string {
+  return String.fromCharCode(...new Uint8Array(audio, offset, length));
+}
+
+describe('StandInTTSProvider', () => {
+  it('renders a WAV paced by word count and speed', async () => {
+    const provider = new StandInTTSProvider();
+    const normal = await provider.synthesize('Tell me about a time you led a project');
+    const fast = await provider.synthesize('Tell me about a time you led a project', { speed: 2 });
+
+    expect(normal.mimeType).toBe('audio/wav');
+    expect(ascii(normal.audio, 0, 4)).toBe('RIFF');
+    expect(ascii(normal.audio, 8, 4)).toBe('WAVE');
+    // 9 words x 0.4 s x 8 kHz x 2 bytes, plus the header
+    expect(normal.audio.byteLength).toBe(44 + 9 * 3_200 * 2);
+    expect(fast.audio.byteLength).toBe(44 + 9 * 1_600 * 2);
+  });
+
+  it('caps the length of long texts', async () => {
+    const result = await new StandInTTSProvider().synthesize('word '.repeat(500));
+
+    expect(result.audio.byteLength).toBe(44 + 30 * 8_000 * 2);
+  });
+});
+
+describe('TTSProviderRegistry', () => {
+  it('falls back to the next provider', async () => {
+    const registry = new TTSProviderRegistry();
+    registry.register(new FailingTTSProvider('primary'));
+    registry.register(new StandInTTSProvider());
+
+    const result = await registry.synthesize('Hello there');
+
+    expect(result.provider).toBe('stand-in');
+    expect(registry.registeredProviders).toEqual(['primary', 'stand-in']);
+  });
+
+  it('skips providers with an open circuit', async () => {
+    const failing = new FailingTTSProvider('primary');
+    const synthesize = jest.spyOn(failing, 'synthesize');
+    const registry = new TTSProviderRegistry();
+    registry.register(failing, { failureThreshold: 1 });
+    registry.register(new StandInTTSProvider());
+
+    await registry.synthesize('one');
+    await registry.synthesize('two');
+
+    expect(synthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it('estimates cost from the characters sent', async () => {
+    const priced = new StandInTTSProvider();
+    Object.defineProperty(priced, 'costPer1kChars', { value: 1.5 });
+    const registry = new TTSProviderRegistry();
+    registry.register(priced);
+
+    const freeRegistry = new TTSProviderRegistry();
+    freeRegistry.register(new StandInTTSProvider());
+
+    const paid = await registry.synthesize(`  ${'a'.repeat(2000)}  `);
+    const free = await freeRegistry.synthesize('Hello');
+
+    expect(paid.characters).toBe(2000);
+    expect(paid.costCents).toBe(3);
+    expect(free.costCents).toBe(0);
+  });
+
+  it('throws when every provider fails', async () => {
+    const registry = new TTSProviderRegistry();
+    registry.register(new FailingTTSProvider('a'));
+    registry.register(new FailingTTSProvider('b'));
+
+    const error = await registry.synthesize('Hello').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TTSAllProvidersFailedError);
+    expect((error as TTSAllProvidersFailedError).providerErrors.map((e) => e.provider)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Per-answer scoring
+ *
+ * Scores each answered mock interview question on the report rubric
+ * (clarity, confidence, relevance, structure) against the question's rubric
+ * hints and sample answer, with verbatim evidence quotes and a suggested
+ * improved answer. Spoken answers are also judged on their delivery
+ * (speaking rate, fillers, pauses). The overall 1-5 score goes into response_score (which
+ * drives adaptive difficulty) and the breakdown into evaluation; the final
+ * report reads both.
+ */
+
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+import { renderPrompt, type RenderedPrompt } from '@/lib/promptRegistry';
+import { runStructuredLLMTask } from '@/lib/llmTaskRunner';
+import { sanitizeCopilotText } from '@/lib/copilotSecurity';
+import {
+  fallbackMockInterviewReport,
+  MockInterviewRubricSchema,
+  normalizeMockInterviewRubric,
+  RUBRIC_DIMENSIONS,
+  type MockInterviewRubric,
+} from '@/lib/mockInterviewReport';
+import { describeSpeechMetrics, type SpeechMetrics } from '@/lib/speechMetrics';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+// Model output contract
+export const AnswerScoreSchema = z.object({
+  rubric: MockInterviewRubricSchema,
+  evidence_quotes: z.array(z.string()).default([]),
+  improved_answer: z.string().default(''),
+});
+
+export type AnswerScore = z.infer<typeof AnswerScoreSchema>;
+
+/** Stored in interview_questions.evaluation */
+export interface AnswerEvaluation extends AnswerScore {
+  /** Speaking rate, fillers and pauses when the answer was spoken */
+  delivery?: SpeechMetrics;
+  prompt_id: string;
+  prompt_version: string;
+  model: string;
+}
+
+/** The question row fields scoring reads */
+export interface ScorableQuestion {
+  id: string;
+  question_text: string;
+  question_type?: string | null;
+  difficulty?: string | null;
+  response_text?: string | null;
+  rubric?: Record<string, unknown> | null;
+}
+
+const MAX_EVIDENCE_QUOTES = 3;
+const MAX_ANSWER_CHARS = 6000;
+
+/** Overall 1-5 score: the mean of the dimension scores */
+export function answerScore(rubric: MockInterviewRubric): number {
+  const total = RUBRIC_DIMENSIONS.reduce((sum, dimension) => sum + rubric[dimension].score, 0);
+  return Math.max(1, Math.min(5, Math.round(total / RUBRIC_DIMENSIONS.length)));
+}
+
+function comparable(text: string) {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Clamp the model's scores and keep only evidence quotes that really are in
+ * the answer
+ */
+export function normalizeAnswerScore(input: unknown, answer: string): AnswerScore {
+  const maybe = (typeof input === 'object' && input ? input : {}) as Record<string, unknown>;
+  const haystack = comparable(answer);
+
+  const quotes = Array.isArray(maybe.evidence_quotes) ? maybe.evidence_quotes : [];
+  const evidence = new Set<string>();
+  for (const quote of quotes) {
+    if (typeof quote !== 'string') continue;
+    const cleaned = quote.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').trim();
+    if (cleaned && haystack.includes(comparable(cleaned))) evidence.add(cleaned);
+    if (evidence.size >= MAX_EVIDENCE_QUOTES) break;
+  }
+
+  return {
+    rubric: normalizeMockInterviewRubric(maybe.rubric, fallbackMockInterviewReport('general').rubric),
+    evidence_quotes: Array.from(evidence),
+    improved_answer: typeof maybe.improved_answer === 'string' ? maybe.improved_answer.trim() : '',
+  };
+}
+
+function rubricList(rubric: Record<string, unknown> | null | undefined, key: string): string[] {
+  const value = rubric?.[key];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+}
+
+export function renderAnswerScoringPrompt(
+  question: ScorableQuestion,
+  mode: string,
+  options: { bucketKey?: string; delivery?: SpeechMetrics | null } = {}
+): RenderedPrompt {
+  const answer = sanitizeCopilotText(question.response_text ?? '').sanitized;
+  const hints = rubricList(question.rubric, 'hints');
+  const sampleAnswer = question.rubric?.sample_answer;
+
+  return renderPrompt(
+    'answer_scoring',
+    {
+      mode,
+      question: question.question_text,
+      questionType: question.question_type || 'general',
+      difficulty: question.difficulty || 'medium',
+      rubricHints: hints.length ? hints.map((hint) => `- ${hint}`).join('\n') : '(none)',
+      sampleAnswer: typeof sampleAnswer === 'string' && sampleAnswer.trim() ? sampleAnswer.trim() : '(none)',
+      answer: answer.length > MAX_ANSWER_CHARS ? `${answer.slice(0, MAX_ANSWER_CHARS)}…` : answer,
+      delivery: options.delivery ? describeSpeechMetrics(options.delivery) : '(typed answer)',
+    },
+    { bucketKey: options.bucketKey }
+  );
+}
+
+/**
+ * Score a question's answer and store response_score, evaluation and
+ * scored_at on the row. Delivery metrics of a spoken answer go into the
+ * prompt and are stored with the evaluation. Returns the stored evaluation, or null when the
+ * question has no answer. LLM and database errors are thrown.
+ */
+export async function scoreAnswer(
+  supabase: ServerSupabase,
+  args: {
+    question: ScorableQuestion;
+    mode: string;
+    userId: string;
+    sessionId: string;
+    /** Delivery metrics of a spoken answer */
+    delivery?: SpeechMetrics | null;
+  }
+): Promise<{ response_score: number; evaluation: AnswerEvaluation } | null> {
+  const { question } = args;
+  const answer = question.response_text?.trim();
+  if (!answer) return null;
+
+  const prompt = renderAnswerScoringPrompt({ ...question, response_text: answer }, args.mode, {
+    bucketKey: args.sessionId,
+    delivery: args.delivery,
+  });
+  // Re-scoring an unchanged answer (resubmission, report gap-fill) is served from the LLM cache
+  const completion = await runStructuredLLMTask({
+    taskType: prompt.taskType,
+    userId: args.userId,
+    temperature: 0.2,
+    maxTokens: 900,
+    schema: AnswerScoreSchema,
+    schemaName: 'answer_score',
+    messages: prompt.messages,
+  });
+
+  const score = normalizeAnswerScore(completion.data, answer);
+  const evaluation: AnswerEvaluation = {
+    ...score,
+    ...(args.delivery ? { delivery: args.delivery } : {}),
+    prompt_id: prompt.promptId,
+    prompt_version: prompt.promptVersion,
+    model: completion.model,
+  };
+  const responseScore = answerScore(score.rubric);
+
+  const { error } = await supabase
+    .from('interview_questions')
+    .update({ response_score: responseScore, evaluation, scored_at: new Date().toISOString() })
+    .eq('id', question.id);
+  if (error) throw error;
+
+  return { response_score: responseScore, evaluation };
+}
+
+/**
+ * scoreAnswer for side paths (the interviewer, the report): failures are
+ * logged and return null
+ */
+export async function tryScoreAnswer(
+  supabase: ServerSupabase,
+  args: Parameters<typeof scoreAnswer>[1]
+): Promise<Awaited<ReturnType<typeof scoreAnswer>>> {
+  try {
+    return await scoreAnswer(supabase, args);
+  } catch (error) {
+    console.error('[answer-scoring] failed to score answer', {
+      questionId: args.question.id,
+      code: (error as { code?: string } | null)?.code ?? null,
+    });
+    return null;
+  }
+}
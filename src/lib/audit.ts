@@ -65,6 +65,10 @@ export type AuditAction =
   | 'admin.feature_flag_change'
   | 'admin.settings_change'
   
+  | 'organization.llm_credential_set'
+  | 'organization.llm_credential_delete'
+  | 'llm.request'
+  
   // Compliance
   | 'consent.grant'
   | 'consent.revoke'
@@ -90,6 +94,7 @@ export type AuditResourceType =
   | 'notification'
   | 'consent'
   | 'audit_log'
+  | 'llm_credential'
   | 'admin';
 
 export interface AuditLogEntry {
@@ -47,7 +47,7 @@ const memoryCache = new Map<string, { data: string; expiresAt: number }>();
  */
 export async function getCache<T>(key: string): Promise<CacheResult<T>> {
   if (!hasUpstash()) {
-    return getMemoryCache<T>(key);
+    return getMemoryCache<T>(`cache:${key}`);
   }
 
   try {
@@ -58,7 +58,7 @@ export async function getCache<T>(key: string): Promise<CacheResult<T>> {
     return { hit: false, data: null };
   } catch (e) {
     console.error('[cache] get error, falling back to memory', e);
-    return getMemoryCache<T>(key);
+    return getMemoryCache<T>(`cache:${key}`);
   }
 }
 
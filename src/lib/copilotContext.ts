@@ -0,0 +1,298 @@
+/**
+ * Copilot candidate context
+ *
+ * A session can be linked to one of the user's resumes (resume_documents)
+ * and a target job (jobs). For each detected question the most relevant
+ * resume passages and job requirements are retrieved (lexical overlap,
+ * weighted toward the sections that suit the question type) and rendered
+ * into the suggestion prompt, so answers draw on the user's real projects.
+ */
+
+import type { createClient } from '@/lib/supabase/server';
+import { sanitizeCopilotText } from '@/lib/copilotSecurity';
+import type { QuestionType } from '@/lib/copilotQuestionDetection';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+export type ResumeSection = 'summary' | 'experience' | 'projects' | 'skills' | 'education' | 'other';
+
+export interface ResumePassage {
+  section: ResumeSection;
+  text: string;
+}
+
+export interface JobContext {
+  title: string;
+  company: string;
+  requirements: string[];
+}
+
+export interface CandidateContextSource {
+  resume: ResumePassage[];
+  job: JobContext | null;
+}
+
+export interface SessionContextLinks {
+  resumeDocumentId: string | null;
+  jobId: string | null;
+}
+
+export interface CandidateContext {
+  /** Rendered prompt section ('' when nothing relevant) */
+  text: string;
+  resumePassages: number;
+  jobRequirements: number;
+}
+
+const MAX_PASSAGE_CHARS = 320;
+const MAX_RESUME_PASSAGES = 3;
+const MAX_JOB_REQUIREMENTS = 4;
+const MAX_RESUME_CHARS = 12_000;
+
+// Parsed resumes and jobs change rarely; cache per link for the life of a session
+const SOURCE_TTL_MS = 5 * 60_000;
+const sourceCache = new Map<string, { source: CandidateContextSource | null; expiresAt: number }>();
+
+// All-caps headings inside collapsed text ("... SKILLS Go, TypeScript") get their own piece
+const INLINE_HEADING =
+  /\b((?:WORK |PROFESSIONAL |RELEVANT )?EXPERIENCE|EMPLOYMENT(?: HISTORY)?|SUMMARY|PROFILE|OBJECTIVE|PROJECTS|PORTFOLIO|(?:TECHNICAL |CORE )?SKILLS|TECHNOLOGIES|EDUCATION|CERTIFICATIONS?)\b/g;
+
+const SECTION_HEADINGS: Array<{ section: ResumeSection; pattern: RegExp }> = [
+  { section: 'summary', pattern: /\b(?:summary|profile|objective|about me)\b/i },
+  { section: 'experience', pattern: /\b(?:(?:work|professional|relevant) )?experience\b|\bemployment(?: history)?\b/i },
+  { section: 'projects', pattern: /\b(?:projects|selected work|portfolio)\b/i },
+  { section: 'skills', pattern: /\b(?:(?:technical|core) )?skills\b|\btechnologies\b/i },
+  { section: 'education', pattern: /\beducation\b|\bcertifications?\b/i },
+];
+
+// Sections worth the most for each kind of question
+const SECTION_WEIGHTS: Record<QuestionType, Partial<Record<ResumeSection, number>>> = {
+  behavioral: { experience: 1.5, projects: 1.3, summary: 1.1 },
+  technical: { skills: 1.4, projects: 1.3, experience: 1.2 },
+  system_design: { experience: 1.4, projects: 1.4, skills: 1.1 },
+  salary: { summary: 1.2, experience: 1.1 },
+  general: { summary: 1.3, experience: 1.2 },
+};
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by can could did do does for from had has have how i if in into is it its me my of on or our so that the their them then there these they this to was we were what when where which who why will with would you your tell describe walk through about time'.split(
+    ' '
+  )
+);
+
+/**
+ * Lowercased content words with stopwords dropped (also used for story matching)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}+#.]+/gu) ?? [])
+    .map((token) => token.replace(/\.+$/, ''))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function clip(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+/**
+ * Split parsed resume text into short passages tagged with their section.
+ * Parsed text often has line breaks collapsed, so bullets and sentences
+ * are used as boundaries and headings are matched inline.
+ */
+export function splitResumePassages(text: string): ResumePassage[] {
+  const pieces = text
+    .slice(0, MAX_RESUME_CHARS)
+    .replace(INLINE_HEADING, '\n$1\n')
+    .split(/\n+|\s*[•●▪◦]\s*|\s+[-–]\s+(?=[A-Z])|(?<=[.!?])\s+(?=[A-Z])/)
+    .map((piece) => piece.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const passages: ResumePassage[] = [];
+  let section: ResumeSection = 'summary';
+
+  for (const piece of pieces) {
+    // A short piece that is a heading switches section
+    const heading = piece.split(' ').length <= 3 && SECTION_HEADINGS.find(({ pattern }) => pattern.test(piece));
+    if (heading) {
+      section = heading.section;
+      continue;
+    }
+    if (piece.split(' ').length < 4) continue;
+    passages.push({ section, text: clip(piece, MAX_PASSAGE_CHARS) });
+  }
+  return passages;
+}
+
+/**
+ * Requirements from a job row: explicit `requirements` when present,
+ * otherwise requirement-like lines of the description.
+ */
+export function extractJobRequirements(job: Record<string, unknown>): string[] {
+  if (Array.isArray(job.requirements)) {
+    const explicit = job.requirements.filter((r): r is string => typeof r === 'string' && r.trim().length > 0);
+    if (explicit.length > 0) return explicit.map((r) => clip(r.trim(), 200));
+  }
+
+  const description =
+    typeof job.job_description === 'string' ? job.job_description : typeof job.jd_text === 'string' ? job.jd_text : '';
+
+  return description
+    .split(/\n+|\s*[•●▪◦]\s*|(?<=[.!?;])\s+/)
+    .map((line) => line.replace(/^\s*(?:[-*]|\d+[.)])\s+/, '').trim())
+    .filter((line) => line.split(' ').length >= 4)
+    .filter((line) =>
+      /\b(?:experience|proficien|knowledge|familiar|degree|years?|ability|skills?|required|must|strong|expert|background)\b/i.test(line)
+    )
+    .slice(0, 30)
+    .map((line) => clip(line, 200));
+}
+
+function rank<T>(items: T[], textOf: (item: T) => string, query: string[], weightOf: (item: T) => number): T[] {
+  if (query.length === 0) return [];
+
+  // Rarer terms count more (idf over the candidate items)
+  const docTokens = items.map((item) => new Set(tokenize(textOf(item))));
+  const df = new Map<string, number>();
+  for (const tokens of docTokens) for (const token of tokens) df.set(token, (df.get(token) ?? 0) + 1);
+
+  const querySet = new Set(query);
+  return items
+    .map((item, i) => {
+      let score = 0;
+      for (const token of querySet) {
+        if (docTokens[i].has(token)) score += Math.log(1 + items.length / (df.get(token) ?? 1));
+      }
+      return { item, score: score * weightOf(item) };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.item);
+}
+
+/**
+ * Pick the passages and requirements relevant to one question and render
+ * them as a prompt section.
+ */
+export function buildCandidateContext(
+  source: CandidateContextSource | null,
+  question: { text: string; type: QuestionType }
+): CandidateContext {
+  if (!source) return { text: '', resumePassages: 0, jobRequirements: 0 };
+
+  const query = tokenize(question.text);
+  const weights = SECTION_WEIGHTS[question.type];
+
+  let passages = rank(source.resume, (p) => p.text, query, (p) => weights[p.section] ?? 1).slice(0, MAX_RESUME_PASSAGES);
+  // Nothing matched an open question ("tell me about yourself"): fall back to the top of the experience section
+  if (passages.length === 0 && (question.type === 'behavioral' || question.type === 'general')) {
+    passages = source.resume.filter((p) => p.section === 'experience' || p.section === 'summary').slice(0, 2);
+  }
+
+  const requirements = source.job
+    ? rank(source.job.requirements, (r) => r, query, () => 1).slice(0, MAX_JOB_REQUIREMENTS)
+    : [];
+  const jobRequirements = requirements.length > 0 ? requirements : (source.job?.requirements.slice(0, 2) ?? []);
+
+  const lines: string[] = [];
+  if (passages.length > 0) {
+    lines.push('Candidate resume excerpts (reference these real projects and results; do not invent others):');
+    for (const passage of passages) lines.push(`- [${passage.section}] ${passage.text}`);
+  }
+  if (source.job) {
+    if (lines.length > 0) lines.push('');
+    lines.push(`Target role: ${source.job.title}${source.job.company ? ` at ${source.job.company}` : ''}`);
+    if (jobRequirements.length > 0) {
+      lines.push('Relevant job requirements:');
+      for (const requirement of jobRequirements) lines.push(`- ${requirement}`);
+    }
+  }
+
+  return {
+    text: lines.length > 0 ? `\n\n${lines.join('\n')}` : '',
+    resumePassages: passages.length,
+    jobRequirements: source.job ? jobRequirements.length : 0,
+  };
+}
+
+/**
+ * Load the linked resume and job (cached briefly). Returns null when the
+ * session has no links or neither row is usable; failures are logged and
+ * treated as no context so suggestions still work.
+ */
+export async function loadCandidateContextSource(
+  supabase: ServerSupabase,
+  links: SessionContextLinks
+): Promise<CandidateContextSource | null> {
+  if (!links.resumeDocumentId && !links.jobId) return null;
+
+  const cacheKey = `${links.resumeDocumentId ?? '-'}:${links.jobId ?? '-'}`;
+  const cached = sourceCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.source;
+
+  let source: CandidateContextSource | null = null;
+  try {
+    const [resumeResult, jobResult] = await Promise.all([
+      links.resumeDocumentId
+        ? supabase.from('resume_documents').select('id, parsed_text').eq('id', links.resumeDocumentId).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      links.jobId
+        ? supabase.from('jobs').select('*').eq('id', links.jobId).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+    if (resumeResult.error) throw resumeResult.error;
+    if (jobResult.error) throw jobResult.error;
+
+    // Resume and job text end up in a prompt: redact contact details and drop injected instructions
+    const resumeText = typeof resumeResult.data?.parsed_text === 'string' ? resumeResult.data.parsed_text : '';
+    const resume = splitResumePassages(resumeText)
+      .map((p) => ({ ...p, clean: sanitizeCopilotText(p.text) }))
+      .filter((p) => !p.clean.hasPromptInjection)
+      .map((p) => ({ section: p.section, text: p.clean.sanitized }));
+
+    const jobRow = jobResult.data as Record<string, unknown> | null;
+    const job: JobContext | null = jobRow
+      ? {
+          title: typeof jobRow.title === 'string' ? jobRow.title : 'Unknown role',
+          company: typeof jobRow.company === 'string' ? jobRow.company : '',
+          requirements: extractJobRequirements(jobRow).filter((r) => !sanitizeCopilotText(r).hasPromptInjection),
+        }
+      : null;
+
+    if (resume.length > 0 || job) source = { resume, job };
+  } catch (error) {
+    console.error('[copilot-context] failed to load session context', {
+      resumeDocumentId: links.resumeDocumentId,
+      jobId: links.jobId,
+      errorType: error instanceof Error ? error.name : 'unknown',
+    });
+    return null;
+  }
+
+  sourceCache.set(cacheKey, { source, expiresAt: Date.now() + SOURCE_TTL_MS });
+  return source;
+}
+
+/**
+ * Check the user can read the rows they want to link (RLS scopes both tables).
+ * Returns an error code, or null when the links are valid.
+ */
+export async function verifyContextLinks(
+  supabase: ServerSupabase,
+  links: Partial<SessionContextLinks>
+): Promise<'resume_not_found' | 'job_not_found' | null> {
+  if (links.resumeDocumentId) {
+    const { data } = await supabase.from('resume_documents').select('id').eq('id', links.resumeDocumentId).maybeSingle();
+    if (!data) return 'resume_not_found';
+  }
+  if (links.jobId) {
+    const { data } = await supabase.from('jobs').select('id').eq('id', links.jobId).maybeSingle();
+    if (!data) return 'job_not_found';
+  }
+  return null;
+}
+
+/**
+ * Drop cached sources (tests, or after a resume is re-parsed)
+ */
+export function clearCandidateContextCache(): void {
+  sourceCache.clear();
+}
@@ -0,0 +1,242 @@
+/**
+ * Copilot event fan-out
+ *
+ * Ingest routes (events, transcript, audio, stop) publish what they write for
+ * a session and the SSE stream route subscribes, instead of every connected
+ * client polling copilot_events. Two transports:
+ * - In-process (default): delivers to listeners on this server instance
+ * - Upstash Redis pub/sub: used when UPSTASH_REDIS_REST_* is set, so clients
+ *   on any instance receive events; COPILOT_PUBSUB=memory opts out
+ *
+ * Messages are hints, not the source of truth. copilot_events stays
+ * authoritative: the stream route resumes from its event cursor and
+ * resyncs from the database on connect and periodically, so a lost message
+ * only delays an event.
+ */
+
+import { env } from '@/lib/env';
+import type { SuggestionDelta } from '@/lib/copilotSuggestionStream';
+
+export type CopilotBusEvent = {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+};
+
+export type CopilotBusMessage =
+  /** A row was inserted into copilot_events */
+  | { type: 'copilot_event'; event: CopilotBusEvent }
+  /** Session status changed (stopped or expired); subscribers reload it */
+  | { type: 'session'; status: string }
+  | { type: 'suggestion.delta'; delta: SuggestionDelta };
+
+export type CopilotBusListener = (message: CopilotBusMessage) => void;
+
+interface CopilotBusTransport {
+  readonly name: 'memory' | 'upstash';
+  publish(sessionId: string, message: CopilotBusMessage): Promise<void>;
+  subscribe(sessionId: string, listener: CopilotBusListener): () => void;
+}
+
+// Delay before reopening a dropped Upstash subscription
+const RESUBSCRIBE_MS = 1_000;
+
+function channelFor(sessionId: string) {
+  return `copilot:session:${sessionId}`;
+}
+
+function deliver(listeners: Iterable<CopilotBusListener>, sessionId: string, message: CopilotBusMessage) {
+  for (const listener of listeners) {
+    try {
+      listener(message);
+    } catch (error) {
+      // A closed stream must not break delivery to the others
+      console.error('[copilot-bus] listener failed', {
+        sessionId,
+        type: message.type,
+        errorType: error instanceof Error ? error.name : 'unknown',
+      });
+    }
+  }
+}
+
+function addListener(
+  listeners: Map<string, Set<CopilotBusListener>>,
+  sessionId: string,
+  listener: CopilotBusListener
+): { set: Set<CopilotBusListener>; first: boolean } {
+  const existing = listeners.get(sessionId);
+  const set = existing ?? new Set<CopilotBusListener>();
+  set.add(listener);
+  listeners.set(sessionId, set);
+  return { set, first: !existing };
+}
+
+export function createMemoryTransport(): CopilotBusTransport {
+  const listeners = new Map<string, Set<CopilotBusListener>>();
+
+  return {
+    name: 'memory',
+    async publish(sessionId, message) {
+      deliver(listeners.get(sessionId) ?? [], sessionId, message);
+    },
+    subscribe(sessionId, listener) {
+      const { set } = addListener(listeners, sessionId, listener);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0 && listeners.get(sessionId) === set) listeners.delete(sessionId);
+      };
+    },
+  };
+}
+
+/**
+ * Upstash pub/sub over REST: PUBLISH is a regular command, SUBSCRIBE is a
+ * long-lived text/event-stream response. One subscription is held per
+ * session with local listeners and shared between them.
+ */
+export function createUpstashTransport(config: { url: string; token: string }): CopilotBusTransport {
+  const base = config.url.replace(/\/$/, '');
+  const listeners = new Map<string, Set<CopilotBusListener>>();
+  const subscriptions = new Map<string, AbortController>();
+  // Publishes are chained per session so deltas arrive in order
+  const publishQueue = new Map<string, Promise<void>>();
+
+  async function send(sessionId: string, message: CopilotBusMessage) {
+    const res = await fetch(base, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${config.token}`, 'content-type': 'application/json' },
+      body: JSON.stringify(['PUBLISH', channelFor(sessionId), JSON.stringify(message)]),
+    });
+    if (!res.ok) throw new Error(`Upstash publish error: ${res.status}`);
+  }
+
+  function handleLine(sessionId: string, line: string) {
+    // Frames look like "data: message,<channel>,<message>"
+    const prefix = `data: message,${channelFor(sessionId)},`;
+    if (!line.startsWith(prefix)) return;
+
+    let message: CopilotBusMessage;
+    try {
+      message = JSON.parse(line.slice(prefix.length)) as CopilotBusMessage;
+    } catch {
+      return;
+    }
+    deliver(listeners.get(sessionId) ?? [], sessionId, message);
+  }
+
+  async function listen(sessionId: string, abort: AbortController) {
+    while (!abort.signal.aborted) {
+      try {
+        const res = await fetch(`${base}/subscribe/${encodeURIComponent(channelFor(sessionId))}`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${config.token}`, Accept: 'text/event-stream' },
+          signal: abort.signal,
+        });
+        if (!res.ok || !res.body) throw new Error(`Upstash subscribe error: ${res.status}`);
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
+          for (const line of lines) handleLine(sessionId, line.trimEnd());
+        }
+      } catch (error) {
+        if (abort.signal.aborted) return;
+        console.error('[copilot-bus] subscription dropped', {
+          sessionId,
+          errorType: error instanceof Error ? error.name : 'unknown',
+        });
+      }
+      if (!abort.signal.aborted) await new Promise((resolve) => setTimeout(resolve, RESUBSCRIBE_MS));
+    }
+  }
+
+  return {
+    name: 'upstash',
+    publish(sessionId, message) {
+      const previous = publishQueue.get(sessionId) ?? Promise.resolve();
+      const next = previous.then(() => send(sessionId, message));
+      const settled = next.catch(() => undefined);
+      publishQueue.set(sessionId, settled);
+      void settled.then(() => {
+        if (publishQueue.get(sessionId) === settled) publishQueue.delete(sessionId);
+      });
+      return next;
+    },
+    subscribe(sessionId, listener) {
+      const { set, first } = addListener(listeners, sessionId, listener);
+      if (first) {
+        const abort = new AbortController();
+        subscriptions.set(sessionId, abort);
+        void listen(sessionId, abort);
+      }
+
+      return () => {
+        set.delete(listener);
+        if (set.size > 0 || listeners.get(sessionId) !== set) return;
+        listeners.delete(sessionId);
+        subscriptions.get(sessionId)?.abort();
+        subscriptions.delete(sessionId);
+      };
+    },
+  };
+}
+
+let transport: CopilotBusTransport | null = null;
+
+function getTransport(): CopilotBusTransport {
+  if (!transport) {
+    const useUpstash =
+      process.env.COPILOT_PUBSUB !== 'memory' && !!env.UPSTASH_REDIS_REST_URL && !!env.UPSTASH_REDIS_REST_TOKEN;
+    transport = useUpstash
+      ? createUpstashTransport({ url: env.UPSTASH_REDIS_REST_URL!, token: env.UPSTASH_REDIS_REST_TOKEN! })
+      : createMemoryTransport();
+  }
+  return transport;
+}
+
+/** Replace the transport (tests) */
+export function setCopilotBusTransport(next: CopilotBusTransport | null) {
+  transport = next;
+}
+
+/**
+ * Listen for a session's messages. Returns the unsubscribe function.
+ */
+export function subscribeCopilotSession(sessionId: string, listener: CopilotBusListener): () => void {
+  return getTransport().subscribe(sessionId, listener);
+}
+
+/**
+ * Publish to a session's subscribers. Never throws: failures are logged and
+ * subscribers pick the change up on their next resync.
+ */
+export async function publishCopilotMessage(sessionId: string, message: CopilotBusMessage): Promise<void> {
+  const current = getTransport();
+  try {
+    await current.publish(sessionId, message);
+  } catch (error) {
+    console.error('[copilot-bus] publish failed', {
+      sessionId,
+      type: message.type,
+      transport: current.name,
+      errorType: error instanceof Error ? error.name : 'unknown',
+    });
+  }
+}
+
+/**
+ * Publish newly stored copilot_events rows
+ */
+export async function publishCopilotEvents(sessionId: string, events: CopilotBusEvent[]): Promise<void> {
+  for (const event of events) {
+    await publishCopilotMessage(sessionId, { type: 'copilot_event', event });
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Copilot suggestion feedback
+ *
+ * Per-suggestion signals from the live copilot: helpful / not helpful, used
+ * or ignored, the answer the user actually gave (edited text) and how long
+ * the suggestion was on screen before it was first looked at. One row per
+ * suggestion event in copilot_suggestion_feedback; the suggestion's mode,
+ * model and prompt version are copied in so prompt versions can be compared
+ * (see the copilot_suggestion_feedback_stats view).
+ */
+
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+export type FeedbackRating = 'helpful' | 'not_helpful';
+
+export interface SuggestionFeedback {
+  id: string;
+  suggestion_event_id: string;
+  session_id: string;
+  user_id: string;
+  rating: FeedbackRating | null;
+  used: boolean | null;
+  edited_text: string | null;
+  glance_ms: number | null;
+  mode: string | null;
+  model: string | null;
+  prompt_id: string | null;
+  prompt_version: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const FEEDBACK_COLUMNS =
+  'id, suggestion_event_id, session_id, user_id, rating, used, edited_text, glance_ms, mode, model, prompt_id, prompt_version, created_at, updated_at';
+
+/**
+ * Fields left out are kept as stored; null clears a rating, used flag or edit.
+ */
+export const SuggestionFeedbackInputSchema = z
+  .object({
+    suggestionId: z.string().uuid(),
+    rating: z.enum(['helpful', 'not_helpful']).nullable().optional(),
+    used: z.boolean().nullable().optional(),
+    editedText: z.string().trim().max(4000).nullable().optional(),
+    glanceMs: z.number().int().min(0).max(3_600_000).optional(),
+  })
+  .refine(
+    (input) =>
+      input.rating !== undefined || input.used !== undefined || input.editedText !== undefined || input.glanceMs !== undefined,
+    'no feedback fields'
+  );
+
+export type SuggestionFeedbackInput = z.infer<typeof SuggestionFeedbackInputSchema>;
+
+/** The stored suggestion event feedback is recorded against */
+export interface FeedbackSuggestionEvent {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+}
+
+export interface FeedbackStats {
+  samples: number;
+  helpful: number;
+  not_helpful: number;
+  used: number;
+  ignored: number;
+  edited: number;
+  avg_glance_ms: number | null;
+  /** helpful / rated (null until something is rated) */
+  helpful_rate: number | null;
+  /** used / (used + ignored) */
+  used_rate: number | null;
+}
+
+export interface FeedbackGroupStats extends FeedbackStats {
+  mode: string | null;
+  model: string | null;
+  prompt_id: string | null;
+  prompt_version: string | null;
+}
+
+export interface SessionFeedbackSummary {
+  /** Answer suggestions generated in the session (failure notices excluded) */
+  suggestions: number;
+  totals: FeedbackStats;
+  by_prompt: FeedbackGroupStats[];
+}
+
+function payloadText(payload: Record<string, unknown>, key: string): string | null {
+  const value = payload[key];
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Columns to upsert for new feedback. Only the fields sent are written, so
+ * separate calls (a glance, then a thumbs up, then "used it") accumulate.
+ * The first glance wins, and an edit identical to the suggestion is no edit.
+ */
+export function buildFeedbackUpsert(
+  input: SuggestionFeedbackInput,
+  suggestion: FeedbackSuggestionEvent,
+  existing: Pick<SuggestionFeedback, 'glance_ms'> | null,
+  ids: { sessionId: string; userId: string }
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {
+    suggestion_event_id: suggestion.id,
+    session_id: ids.sessionId,
+    user_id: ids.userId,
+    mode: payloadText(suggestion.payload, 'mode'),
+    model: payloadText(suggestion.payload, 'model'),
+    prompt_id: payloadText(suggestion.payload, 'prompt_id'),
+    prompt_version: payloadText(suggestion.payload, 'prompt_version'),
+  };
+
+  if (input.rating !== undefined) row.rating = input.rating;
+  if (input.used !== undefined) row.used = input.used;
+  if (input.editedText !== undefined) {
+    const original = (payloadText(suggestion.payload, 'text') ?? '').trim();
+    row.edited_text = input.editedText && input.editedText !== original ? input.editedText : null;
+  }
+  if (input.glanceMs !== undefined && existing?.glance_ms == null) row.glance_ms = input.glanceMs;
+
+  return row;
+}
+
+function rate(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+function statsFor(rows: SuggestionFeedback[]): FeedbackStats {
+  const helpful = rows.filter((row) => row.rating === 'helpful').length;
+  const notHelpful = rows.filter((row) => row.rating === 'not_helpful').length;
+  const used = rows.filter((row) => row.used === true).length;
+  const ignored = rows.filter((row) => row.used === false).length;
+  const glances = rows.map((row) => row.glance_ms).filter((ms): ms is number => typeof ms === 'number');
+
+  return {
+    samples: rows.length,
+    helpful,
+    not_helpful: notHelpful,
+    used,
+    ignored,
+    edited: rows.filter((row) => row.edited_text !== null).length,
+    avg_glance_ms: glances.length ? Math.round(glances.reduce((sum, ms) => sum + ms, 0) / glances.length) : null,
+    helpful_rate: rate(helpful, helpful + notHelpful),
+    used_rate: rate(used, used + ignored),
+  };
+}
+
+/**
+ * Feedback totals plus a breakdown per mode, model and prompt version
+ * (same grouping as the copilot_suggestion_feedback_stats view)
+ */
+export function summarizeSuggestionFeedback(rows: SuggestionFeedback[], suggestions: number): SessionFeedbackSummary {
+  const groups = new Map<string, SuggestionFeedback[]>();
+  for (const row of rows) {
+    const key = JSON.stringify([row.mode, row.model, row.prompt_id, row.prompt_version]);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  const byPrompt = Array.from(groups.values())
+    .map((group) => ({
+      mode: group[0].mode,
+      model: group[0].model,
+      prompt_id: group[0].prompt_id,
+      prompt_version: group[0].prompt_version,
+      ...statsFor(group),
+    }))
+    .sort((a, b) => b.samples - a.samples);
+
+  return { suggestions, totals: statsFor(rows), by_prompt: byPrompt };
+}
+
+/**
+ * A session's feedback rows and the number of answer suggestions it produced
+ */
+export async function listSessionFeedback(supabase: ServerSupabase, sessionId: string, userId: string) {
+  const [{ data: feedback, error }, { count, error: countError }] = await Promise.all([
+    supabase
+      .from('copilot_suggestion_feedback')
+      .select(FEEDBACK_COLUMNS)
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .returns<SuggestionFeedback[]>(),
+    supabase
+      .from('copilot_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .eq('event_type', 'suggestion')
+      .eq('payload->>category', 'answer'),
+  ]);
+
+  if (error) throw error;
+  if (countError) throw countError;
+  return { feedback: feedback ?? [], suggestions: count ?? 0 };
+}
+
+/**
+ * Feedback summary for a session report. Failures are logged and reported
+ * as no summary so the report still loads.
+ */
+export async function loadSessionFeedbackSummary(
+  supabase: ServerSupabase,
+  sessionId: string,
+  userId: string
+): Promise<SessionFeedbackSummary | null> {
+  try {
+    const { feedback, suggestions } = await listSessionFeedback(supabase, sessionId, userId);
+    return summarizeSuggestionFeedback(feedback, suggestions);
+  } catch (error) {
+    console.error('[copilot-feedback] failed to load feedback', {
+      sessionId,
+      code: (error as { code?: string } | null)?.code ?? null,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Copilot question detection
+ *
+ * Decides whether a final interviewer transcript chunk completes a real
+ * question worth a suggestion. Routes are stateless, so detection works
+ * over the recent transcript events already stored for the session:
+ * - Fragments of one utterance (final interviewer chunks with short gaps and
+ *   no candidate speech between them) are merged
+ * - The utterance is classified as question, follow-up or statement
+ * - A suggestion fires once per complete question: fragments ending mid-
+ *   sentence wait for the rest, and repeats of a just-answered question are dropped
+ * - Questions are typed (behavioral, technical, system design, salary) for the prompt
+ */
+
+export type UtteranceKind = 'question' | 'follow_up' | 'statement';
+
+export type QuestionType = 'behavioral' | 'technical' | 'system_design' | 'salary' | 'general';
+
+export type QuestionDetectionReason = 'question' | 'follow_up' | 'statement' | 'incomplete' | 'already_suggested';
+
+export interface QuestionDetection {
+  kind: UtteranceKind;
+  type: QuestionType;
+  /** Utterance text with earlier fragments merged in */
+  text: string;
+  /** The question a follow-up refers back to */
+  followUpTo?: string;
+  complete: boolean;
+  shouldSuggest: boolean;
+  reason: QuestionDetectionReason;
+}
+
+/** Transcript event as stored (payload.question is written by questionDetectionPayload) */
+export interface DetectionTranscriptEvent {
+  payload: Record<string, unknown>;
+  created_at: string;
+}
+
+// Fragments further apart than this are separate utterances
+const UTTERANCE_GAP_MS = 4_000;
+// A repeat of the last suggested question within this window is not suggested again
+const REPEAT_WINDOW_MS = 20_000;
+// Short questions within this window of the last one are follow-ups to it
+const FOLLOW_UP_WINDOW_MS = 3 * 60_000;
+
+const INTERROGATIVE_START =
+  /^(?:what|why|how|when|where|which|who|whom|whose|can|could|would|will|should|do|does|did|have|has|had|are|is|was|were|may|shall)\b/;
+
+const PROMPT_START =
+  /^(?:tell me|walk me|take me|talk me|talk about|describe|explain|share|give me|show me|help me understand|imagine|suppose|let's say|design|implement|write|estimate)\b/;
+
+const FOLLOW_UP_START =
+  /^(?:and|so|but|then|what about|how about|what if|why|why not|how so|such as|for example|what else|anything else|can you elaborate|could you elaborate|elaborate|tell me more|say more|go deeper|can you go deeper|could you expand|expand on)\b/;
+
+// Fillers and acknowledgements never trigger on their own
+const FILLER = /^(?:ok(?:ay)?|right|sure|great|cool|nice|got it|i see|thanks?(?: you)?|perfect|alright|mm+ ?hmm|uh+|um+|yeah|yes|no|sounds good)[.!,]*$/;
+
+// Ending on one of these (without closing punctuation) means the sentence isn't finished
+const TRAILING_CONNECTOR = /\b(?:and|or|but|because|the|a|an|to|of|about|with|when|if|your|which|how|what|um|uh)$/;
+
+const BEHAVIORAL_OPENER = /^(?:tell me about a time|describe a (?:time|situation)|give me an example of a time|have you ever)\b/;
+
+const TYPE_KEYWORDS: Array<{ type: Exclude<QuestionType, 'general'>; patterns: RegExp[] }> = [
+  {
+    type: 'salary',
+    patterns: [/\bsalary\b/, /\bcompensation\b/, /\bpay\b/, /\bequity\b/, /\bexpectations?\b.*\b(?:pay|salary|comp)/, /\bsalary range\b/, /\bbenefits\b/, /\bbonus\b/, /\bnotice period\b/],
+  },
+  {
+    type: 'system_design',
+    patterns: [/\bdesign (?:a|an|the)\b/, /\barchitect/, /\bscal(?:e|able|ing)\b/, /\bdistributed\b/, /\bthroughput\b/, /\blatency\b/, /\bload balanc/, /\bshard/, /\bmicroservice/, /\bcach(?:e|ing)\b/, /\bhigh availability\b/, /\bqueue\b/],
+  },
+  {
+    type: 'technical',
+    patterns: [/\balgorithm/, /\bcomplexity\b/, /\bbig o\b/, /\bcode\b/, /\bimplement/, /\bfunction\b/, /\bdata structure/, /\bdebug/, /\bsql\b/, /\bapi\b/, /\barray\b/, /\bhash ?map\b/, /\blinked list\b/, /\btree\b/, /\bgraph\b/, /\brecursion\b/, /\btypescript\b|\bjavascript\b|\bpython\b|\bjava\b|\breact\b/],
+  },
+  {
+    type: 'behavioral',
+    patterns: [/\btell me about a time\b/, /\bdescribe a (?:time|situation)\b/, /\bexample of\b/, /\bconflict\b/, /\bdisagree/, /\bchalleng/, /\bfail(?:ure|ed)\b/, /\bmistake\b/, /\bteam\b/, /\blead(?:ership)?\b/, /\bproud\b/, /\bfeedback\b/, /\bweakness/, /\bstrength/, /\bmotivat/, /\bwhy do you want\b/, /\btell me about yourself\b/],
+  },
+];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s?'.,!-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function lastSentence(text: string): string {
+  const sentences = normalize(text)
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return sentences[sentences.length - 1] ?? '';
+}
+
+function isInterviewerFinal(event: DetectionTranscriptEvent): boolean {
+  return event.payload.speaker === 'interviewer' && event.payload.transcript_kind !== 'interim';
+}
+
+type StoredQuestion = { kind?: string; type?: string; text?: string; triggered?: boolean };
+
+function storedQuestion(event: DetectionTranscriptEvent): StoredQuestion | null {
+  const q = event.payload.question;
+  return typeof q === 'object' && q !== null ? (q as StoredQuestion) : null;
+}
+
+function textOf(event: DetectionTranscriptEvent): string {
+  return typeof event.payload.text === 'string' ? event.payload.text : '';
+}
+
+/**
+ * A final chunk that ends mid-sentence ("Tell me about a time when you,")
+ */
+export function isIncompleteFragment(text: string): boolean {
+  const trimmed = normalize(text);
+  if (!trimmed) return true;
+  if (/[,\-–—…:]$/.test(trimmed) || trimmed.endsWith('...')) return true;
+  if (/[.!?]$/.test(trimmed)) return false;
+  return TRAILING_CONNECTOR.test(trimmed);
+}
+
+/**
+ * Question vs follow-up vs statement, from the text alone plus whether a
+ * question was asked just before.
+ */
+export function classifyUtterance(text: string, hasPreviousQuestion = false): UtteranceKind {
+  const normalized = normalize(text);
+  if (!normalized || FILLER.test(normalized)) return 'statement';
+
+  const last = lastSentence(normalized);
+  const asks = normalized.includes('?') || INTERROGATIVE_START.test(last) || PROMPT_START.test(last);
+  if (!asks) return 'statement';
+
+  if (hasPreviousQuestion && (FOLLOW_UP_START.test(last) || last.split(' ').length <= 4)) {
+    return 'follow_up';
+  }
+  return 'question';
+}
+
+/**
+ * Topic of a question, used to steer the suggestion prompt
+ */
+export function classifyQuestionType(text: string): QuestionType {
+  const normalized = normalize(text);
+  // "Tell me about a time you scaled a service" is still behavioral
+  if (BEHAVIORAL_OPENER.test(lastSentence(normalized))) return 'behavioral';
+
+  let best: { type: QuestionType; score: number } = { type: 'general', score: 0 };
+
+  for (const { type, patterns } of TYPE_KEYWORDS) {
+    const score = patterns.reduce((sum, pattern) => sum + (pattern.test(normalized) ? 1 : 0), 0);
+    if (score > best.score) best = { type, score };
+  }
+  return best.type;
+}
+
+/**
+ * Detect whether a new interviewer chunk completes a question.
+ * `recent` holds the session's stored transcript events, newest first,
+ * not including the chunk being ingested.
+ */
+export function detectQuestion(args: {
+  text: string;
+  isFinal: boolean;
+  recent: DetectionTranscriptEvent[];
+  now?: number;
+}): QuestionDetection {
+  const now = args.now ?? Date.now();
+
+  // Fragments of the current utterance, oldest first
+  const fragments: string[] = [];
+  let previousQuestion: { text: string; type: QuestionType; at: number } | null = null;
+  let boundaryAt = now;
+  let inUtterance = true;
+
+  for (const event of args.recent) {
+    if (event.payload.transcript_kind === 'interim') continue;
+    const at = new Date(event.created_at).getTime();
+    const question = storedQuestion(event);
+
+    if (inUtterance) {
+      const continues =
+        isInterviewerFinal(event) && boundaryAt - at <= UTTERANCE_GAP_MS && !question?.triggered;
+      if (continues) {
+        fragments.unshift(textOf(event));
+        boundaryAt = at;
+        continue;
+      }
+      inUtterance = false;
+    }
+
+    if (question?.triggered) {
+      if (now - at <= FOLLOW_UP_WINDOW_MS) {
+        const type = (question.type as QuestionType | undefined) ?? 'general';
+        previousQuestion = { text: question.text ?? textOf(event), type, at };
+      }
+      break;
+    }
+  }
+
+  const text = [...fragments, args.text].map((part) => part.trim()).filter(Boolean).join(' ');
+  const complete = args.isFinal && !isIncompleteFragment(args.text);
+  const kind = classifyUtterance(text, previousQuestion !== null);
+  const ownType = classifyQuestionType(text);
+  const type = kind === 'follow_up' && ownType === 'general' ? (previousQuestion?.type ?? 'general') : ownType;
+
+  const base = { kind, type, complete };
+
+  if (!complete) {
+    return { ...base, text, shouldSuggest: false, reason: 'incomplete' };
+  }
+  if (kind === 'statement') {
+    return { ...base, text, shouldSuggest: false, reason: 'statement' };
+  }
+  if (
+    previousQuestion &&
+    now - previousQuestion.at <= REPEAT_WINDOW_MS &&
+    normalize(previousQuestion.text).replace(/[?.!]+$/, '') === normalize(text).replace(/[?.!]+$/, '')
+  ) {
+    return { ...base, text, shouldSuggest: false, reason: 'already_suggested' };
+  }
+  if (kind === 'follow_up' && previousQuestion) {
+    return { ...base, text, followUpTo: previousQuestion.text.trim(), shouldSuggest: true, reason: 'follow_up' };
+  }
+  return { ...base, text, shouldSuggest: true, reason: 'question' };
+}
+
+/**
+ * Stored on the transcript event as payload.question; `triggered` marks the
+ * chunk that produced a suggestion so later chunks can segment and debounce.
+ */
+export function questionDetectionPayload(detection: QuestionDetection, triggered: boolean): Record<string, unknown> {
+  return {
+    kind: detection.kind,
+    type: detection.type,
+    complete: detection.complete,
+    reason: detection.reason,
+    triggered,
+    // The merged question, so follow-ups can refer back to it
+    ...(triggered ? { text: detection.text } : {}),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Copilot speaker mapping
+ *
+ * The STT layer labels speech with raw speaker labels ('speaker:0' from
+ * diarization, 'channel:mic' / 'channel:tab' from separate capture). Each
+ * session maps labels to roles in metadata.speaker_map:
+ * - Capture channels default to mic = candidate, tab = interviewer
+ * - New diarized speakers are assigned in order of appearance: the first is
+ *   the interviewer (who usually opens), the second the candidate
+ * - A user correction rewrites the mapping and every stored transcript event
+ *   with that label
+ */
+
+import type { createClient } from '@/lib/supabase/server';
+import type { STTSpeaker } from '@/lib/sttProvider';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+export type SpeakerRole = 'interviewer' | 'candidate';
+
+export type SpeakerMap = Record<string, SpeakerRole>;
+
+export interface SpeakerAttribution {
+  role: SpeakerRole;
+  label: string | null;
+  confidence: number | null;
+  source: STTSpeaker['source'] | 'manual' | 'default';
+}
+
+const SPEAKER_LABEL_PATTERN = /^(?:speaker:\d{1,2}|channel:(?:mic|tab))$/;
+
+const CHANNEL_ROLES: SpeakerMap = {
+  'channel:mic': 'candidate',
+  'channel:tab': 'interviewer',
+};
+
+// Order in which newly seen diarized speakers are assigned
+const DIARIZED_ROLE_ORDER: SpeakerRole[] = ['interviewer', 'candidate'];
+
+export function isSpeakerLabel(value: unknown): value is string {
+  return typeof value === 'string' && SPEAKER_LABEL_PATTERN.test(value);
+}
+
+export function isSpeakerRole(value: unknown): value is SpeakerRole {
+  return value === 'interviewer' || value === 'candidate';
+}
+
+/**
+ * Read a session's speaker map, dropping malformed entries
+ */
+export function getSpeakerMap(metadata: Record<string, unknown> | null | undefined): SpeakerMap {
+  const raw = metadata?.speaker_map;
+  if (typeof raw !== 'object' || raw === null) return {};
+
+  const map: SpeakerMap = {};
+  for (const [label, role] of Object.entries(raw)) {
+    if (isSpeakerLabel(label) && isSpeakerRole(role)) map[label] = role;
+  }
+  return map;
+}
+
+/**
+ * Resolve the role for an STT speaker label.
+ * Returns the updated map when a new diarized speaker was assigned (caller persists it).
+ */
+export function resolveSpeakerRole(
+  speaker: STTSpeaker | undefined,
+  map: SpeakerMap
+): { attribution: SpeakerAttribution; map: SpeakerMap | null } {
+  if (!speaker || !isSpeakerLabel(speaker.label)) {
+    return { attribution: { role: 'interviewer', label: null, confidence: null, source: 'default' }, map: null };
+  }
+
+  const known = map[speaker.label] ?? CHANNEL_ROLES[speaker.label];
+  if (known) {
+    return {
+      attribution: { role: known, label: speaker.label, confidence: speaker.confidence, source: speaker.source },
+      map: null,
+    };
+  }
+
+  const assigned = Object.keys(map).filter((label) => label.startsWith('speaker:')).length;
+  const role = DIARIZED_ROLE_ORDER[assigned] ?? 'interviewer';
+  return {
+    attribution: { role, label: speaker.label, confidence: speaker.confidence, source: speaker.source },
+    map: { ...map, [speaker.label]: role },
+  };
+}
+
+/**
+ * Store the role of a newly heard diarized speaker in the session map,
+ * merged in place so other metadata written meanwhile is kept. A role
+ * another request stored first wins; the resulting map is returned.
+ */
+export async function saveSpeakerAssignment(
+  supabase: ServerSupabase,
+  sessionId: string,
+  label: string,
+  role: SpeakerRole
+): Promise<SpeakerMap> {
+  const { data, error } = await supabase.rpc('add_copilot_speaker', {
+    p_session_id: sessionId,
+    p_label: label,
+    p_speaker: role,
+  });
+  if (error) throw error;
+
+  return getSpeakerMap({ speaker_map: data });
+}
+
+/**
+ * Correct the role for a label: updates the session mapping and relabels
+ * every stored transcript event with that label.
+ * Returns the new map and the number of events updated.
+ */
+export async function relabelSessionSpeaker(
+  supabase: ServerSupabase,
+  session: { id: string; user_id: string; metadata: Record<string, unknown> | null },
+  label: string,
+  role: SpeakerRole
+): Promise<{ speakerMap: SpeakerMap; updated: number }> {
+  const speakerMap = { ...getSpeakerMap(session.metadata), [label]: role };
+
+  const { error: sessionError } = await supabase
+    .from('copilot_sessions')
+    .update({ metadata: { ...(session.metadata ?? {}), speaker_map: speakerMap } })
+    .eq('id', session.id)
+    .eq('user_id', session.user_id);
+  if (sessionError) throw sessionError;
+
+  const { data: updated, error: relabelError } = await supabase.rpc('relabel_copilot_speaker', {
+    p_session_id: session.id,
+    p_label: label,
+    p_speaker: role,
+  });
+  if (relabelError) throw relabelError;
+
+  return { speakerMap, updated: typeof updated === 'number' ? updated : 0 };
+}
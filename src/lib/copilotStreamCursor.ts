@@ -41,3 +41,11 @@ export function filterEventsAfterCursor<T extends StreamEventRowCursorShape>(
   if (!cursor) return rows;
   return rows.filter((row) => isEventAfterCursor(row, cursor));
 }
+
+/**
+ * Start of a catch-up read. Rows can commit out of created_at order, so a
+ * row may land behind the cursor; re-read this window and skip sent ids.
+ */
+export function catchUpSince(cursor: CopilotEventCursor, windowMs: number): string {
+  return new Date(new Date(cursor.createdAt).getTime() - windowMs).toISOString();
+}
@@ -1,11 +1,47 @@
-import type OpenAI from 'openai';
+import { z } from 'zod';
+import { LLMBudgetExceededError } from './llmBudget';
+import { renderPrompt, type RenderedPrompt } from './promptRegistry';
+import type { QuestionType } from './copilotQuestionDetection';
 
 export type SuggestionPromptInput = {
   mode: string;
   transcriptText: string;
   latestQuestion: string;
+  /** From question detection; steers the answer format */
+  questionType?: QuestionType;
+  /** Earlier question when latestQuestion is a follow-up */
+  followUpTo?: string;
+  /** Resume/job section from buildCandidateContext */
+  candidateContext?: string;
 };
 
+const QUESTION_TYPE_HINTS: Record<QuestionType, string> = {
+  behavioral: 'Question type: behavioral. Structure the answer as a STAR story (situation, task, action, result).',
+  technical: 'Question type: technical. Lead with the approach, then trade-offs and correctness details.',
+  system_design:
+    'Question type: system design. Clarify requirements first, then components, data flow, scaling and trade-offs.',
+  salary:
+    'Question type: salary / compensation. Help the candidate give a researched range or defer politely without committing to a number too early.',
+  general: '',
+};
+
+export type SuggestionPromptMessage = {
+  role: 'system' | 'user';
+  content: string;
+};
+
+// Model output contract; coding-only fields are ignored for other modes
+export const SuggestionOutputSchema = z.object({
+  short_answer: z.string().trim().min(1),
+  talking_points: z.array(z.string()).default([]),
+  follow_up: z.string().optional(),
+  complexity: z.string().optional(),
+  edge_cases: z.array(z.string()).optional(),
+  checklist: z.array(z.string()).optional(),
+});
+
+export type SuggestionOutput = z.infer<typeof SuggestionOutputSchema>;
+
 export type ParsedSuggestion = {
   shortAnswer: string;
   talkingPoints: string[];
@@ -16,10 +52,6 @@ export type ParsedSuggestion = {
   structured: Record<string, unknown>;
 };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
-}
-
 function asString(value: unknown): string | undefined {
   return typeof value === 'string' ? value.trim() : undefined;
 }
@@ -33,7 +65,14 @@ function asStringArray(value: unknown, maxItems = 6): string[] {
     .slice(0, maxItems);
 }
 
-export function buildSuggestionPrompt(args: SuggestionPromptInput): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+/**
+ * Render the suggestion prompt from the registry. The served version is
+ * sticky per `bucketKey` (the copilot session id) under a traffic split.
+ */
+export function renderSuggestionPrompt(
+  args: SuggestionPromptInput,
+  options: { version?: string; bucketKey?: string } = {}
+): RenderedPrompt {
   const modeHint =
     args.mode === 'coding'
       ? 'Focus on technical reasoning, constraints, edge cases, and complexity.'
@@ -43,35 +82,38 @@ export function buildSuggestionPrompt(args: SuggestionPromptInput): OpenAI.Chat.
           ? 'Focus on structured, confident video-interview responses.'
           : 'Focus on behavioral interview responses.';
 
+  const questionHint = args.questionType ? QUESTION_TYPE_HINTS[args.questionType] : '';
+
   const codingFields =
     args.mode === 'coding'
       ? ',\n  "complexity": "time/space complexity summary in one short line",\n  "edge_cases": ["edge case 1", "edge case 2"],\n  "checklist": ["step 1", "step 2", "step 3"]'
       : '';
 
-  return [
-    {
-      role: 'system',
-      content:
-        'You are an interview copilot. Return practical interview guidance only. Never invent user experience details not in context. Keep output concise and immediately usable.',
-    },
+  return renderPrompt(
+    'copilot_suggestion',
     {
-      role: 'user',
-      content: `Interview mode: ${args.mode}\n${modeHint}\n\nRecent transcript:\n${args.transcriptText}\n\nLatest interviewer question:\n${args.latestQuestion}\n\nReturn JSON with this exact shape:\n{\n  "short_answer": "<= 90 words",\n  "talking_points": ["bullet1", "bullet2", "bullet3"],\n  "follow_up": "one short clarifying follow-up user can ask if needed"${codingFields}\n}`,
+      mode: args.mode,
+      modeHint: questionHint ? `${modeHint}\n${questionHint}` : modeHint,
+      transcriptText: args.transcriptText,
+      latestQuestion: args.followUpTo
+        ? `${args.latestQuestion}\n(Follow-up to: ${args.followUpTo})`
+        : args.latestQuestion,
+      codingFields,
+      candidateContext: args.candidateContext ?? '',
     },
-  ];
+    options
+  );
 }
 
-export function parseSuggestionContent(content: string, mode: string): ParsedSuggestion {
-  let parsed: Record<string, unknown> = {};
-
-  try {
-    const candidate = JSON.parse(content) as unknown;
-    if (isRecord(candidate)) parsed = candidate;
-  } catch {
-    parsed = { short_answer: content };
-  }
+export function buildSuggestionPrompt(
+  args: SuggestionPromptInput,
+  options: { version?: string; bucketKey?: string } = {}
+): SuggestionPromptMessage[] {
+  return renderSuggestionPrompt(args, options).messages;
+}
 
-  const shortAnswer = asString(parsed.short_answer) ?? asString(content) ?? 'No suggestion generated.';
+export function toParsedSuggestion(parsed: SuggestionOutput, mode: string): ParsedSuggestion {
+  const shortAnswer = parsed.short_answer.trim() || 'No suggestion generated.';
   const talkingPoints = asStringArray(parsed.talking_points);
   const followUp = asString(parsed.follow_up);
 
@@ -99,3 +141,79 @@ export function parseSuggestionContent(content: string, mode: string): ParsedSug
     structured,
   };
 }
+
+export function suggestionFailureNotice(error: unknown): { text: string; error: string } {
+  if (error instanceof LLMBudgetExceededError) {
+    return {
+      text: 'Your monthly AI budget has been reached. Live suggestions resume next month or after the budget is raised.',
+      error: 'budget_exceeded',
+    };
+  }
+
+  return {
+    text: 'Suggestion generation is temporarily unavailable. Try rephrasing the question in one short sentence.',
+    error: 'provider_unavailable',
+  };
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Pull one top-level string field out of streamed JSON output as it arrives,
+ * before the object is complete. push() returns the newly decoded text
+ * ('' until the field starts, and after its closing quote).
+ */
+export function createJsonStringFieldExtractor(field: string): { push: (chunk: string) => string } {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`);
+  let raw = '';
+  let pos = -1;
+  let done = false;
+
+  return {
+    push(chunk: string) {
+      raw += chunk;
+      if (done) return '';
+
+      if (pos < 0) {
+        const match = start.exec(raw);
+        if (!match) return '';
+        pos = match.index + match[0].length;
+      }
+
+      let out = '';
+      while (pos < raw.length) {
+        const ch = raw[pos];
+        if (ch === '"') {
+          done = true;
+          break;
+        }
+        if (ch !== '\\') {
+          out += ch;
+          pos += 1;
+          continue;
+        }
+
+        // Escape sequences may be split across chunks; wait for the rest
+        const next = raw[pos + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = raw.slice(pos + 2, pos + 6);
+          if (hex.length < 4) break;
+          out += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+        out += JSON_ESCAPES[next] ?? next;
+        pos += 2;
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Stream `short_answer` out of suggestion output
+ */
+export function createShortAnswerExtractor(): { push: (chunk: string) => string } {
+  return createJsonStringFieldExtractor('short_answer');
+}
@@ -0,0 +1,65 @@
+/**
+ * Copilot suggestion streaming
+ *
+ * Suggestions are generated inside the ingest requests (events, transcript,
+ * audio) while clients listen on the SSE stream route. Partial answer text
+ * is published on the session's event bus and sent as `suggestion.delta`
+ * events. The finished suggestion is still stored in copilot_events under
+ * the same id and delivered as a normal event.
+ *
+ * Deltas are best effort and not replayed on reconnect; the stored
+ * suggestion is what counts.
+ */
+
+import { createShortAnswerExtractor } from '@/lib/copilotSuggestion';
+import { publishCopilotMessage } from '@/lib/copilotEventBus';
+
+export interface SuggestionDelta {
+  suggestion_id: string;
+  based_on_event_id: string;
+  /** Position of this delta; clients ignore repeats and gaps */
+  seq: number;
+  /** Answer text to append */
+  delta: string;
+  /** Generation failed; clients drop the partial text */
+  discarded?: boolean;
+}
+
+function publishDelta(sessionId: string, delta: SuggestionDelta) {
+  // onText is synchronous; the bus keeps publishes for a session in order
+  void publishCopilotMessage(sessionId, { type: 'suggestion.delta', delta });
+}
+
+/**
+ * Publisher for one suggestion: feed it raw LLM text via onText. The
+ * suggestion id is assigned up front so the stored event can reuse it.
+ */
+export function createSuggestionDeltaPublisher(sessionId: string, basedOnEventId: string) {
+  const suggestionId = crypto.randomUUID();
+  const extractor = createShortAnswerExtractor();
+  const startedAt = Date.now();
+  let seq = 0;
+  let firstDeltaMs: number | null = null;
+
+  return {
+    suggestionId,
+    onText(chunk: string) {
+      const delta = extractor.push(chunk);
+      if (!delta) return;
+      if (firstDeltaMs === null) firstDeltaMs = Date.now() - startedAt;
+      publishDelta(sessionId, { suggestion_id: suggestionId, based_on_event_id: basedOnEventId, seq: seq++, delta });
+    },
+    discard() {
+      if (seq === 0) return;
+      publishDelta(sessionId, {
+        suggestion_id: suggestionId,
+        based_on_event_id: basedOnEventId,
+        seq: seq++,
+        delta: '',
+        discarded: true,
+      });
+    },
+    /** Time from publisher creation to the first answer text (null if none streamed) */
+    firstDeltaMs: () => firstDeltaMs,
+  };
+}
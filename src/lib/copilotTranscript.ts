@@ -0,0 +1,408 @@
+/**
+ * Copilot transcript ingestion
+ *
+ * Shared by the `events`, `transcript` and `audio` session routes:
+ * - Sanitizes each chunk and stores it as a `transcript` event
+ * - Deduplicates retried interim chunks by interimId
+ * - Generates a suggestion once per complete interviewer question (see copilotQuestionDetection);
+ *   a question similar to one already answered for the same candidate context reuses that suggestion
+ * - Publishes every stored event to the session's stream subscribers
+ */
+
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+import { runStructuredLLMTask } from '@/lib/llmTaskRunner';
+import type { SpeakerAttribution } from '@/lib/copilotSpeakers';
+import { sanitizeCopilotText } from '@/lib/copilotSecurity';
+import { detectQuestion, questionDetectionPayload } from '@/lib/copilotQuestionDetection';
+import {
+  buildCandidateContext,
+  loadCandidateContextSource,
+  type CandidateContextSource,
+  type SessionContextLinks,
+} from '@/lib/copilotContext';
+import { findStoryForQuestion } from '@/lib/storyBank';
+import { createSuggestionDeltaPublisher } from '@/lib/copilotSuggestionStream';
+import { publishCopilotEvents } from '@/lib/copilotEventBus';
+import {
+  renderSuggestionPrompt,
+  SuggestionOutputSchema,
+  suggestionFailureNotice,
+  toParsedSuggestion,
+} from '@/lib/copilotSuggestion';
+import { startStage, endStage, type LatencyStage } from '@/lib/copilotLatency';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+// Common questions come back across sessions; suggestions for them are reused this long
+const SUGGESTION_CACHE_SECONDS = 24 * 60 * 60;
+
+type EventPayload = Record<string, unknown>;
+
+export type CopilotEventRow = {
+  id: string;
+  event_type: string;
+  payload: EventPayload;
+  created_at: string;
+};
+
+export const TranscriptChunkSchema = z.object({
+  speaker: z.enum(['interviewer', 'candidate', 'system']).default('interviewer'),
+  text: z.string().trim().min(1).max(4000),
+  isFinal: z.boolean().default(true),
+  interimId: z.string().trim().min(1).max(120).optional(),
+  clientTimestamp: z.string().datetime().optional(),
+  autoSuggest: z.boolean().optional(),
+});
+
+export type TranscriptChunkInput = z.infer<typeof TranscriptChunkSchema>;
+
+/** Speech-to-text metadata stored on events created from audio */
+export interface TranscriptSource {
+  provider: string;
+  confidence?: number;
+  /** How the chunk's speaker was decided (label is kept for later corrections) */
+  speaker?: SpeakerAttribution;
+}
+
+export interface AppendTranscriptArgs {
+  supabase: ServerSupabase;
+  sessionId: string;
+  userId: string;
+  mode: string;
+  chunks: TranscriptChunkInput[];
+  source?: TranscriptSource;
+  /** Linked resume/job; relevant excerpts are added to suggestion prompts */
+  contextLinks?: SessionContextLinks;
+  /** Called for recoverable failures (e.g. the suggestion LLM call) */
+  logError?: (errorClass: string, meta: Record<string, unknown>) => void;
+  /** Request tracked with startLatencyTracking; pipeline stages are timed against it */
+  latencyRequestId?: string;
+}
+
+export interface AppendTranscriptResult {
+  events: Array<Record<string, unknown>>;
+  suggestions: Array<Record<string, unknown>>;
+  rejected: number;
+}
+
+/**
+ * A transcript or suggestion row could not be written; the request should fail
+ */
+export class TranscriptIngestError extends Error {
+  constructor(
+    public readonly errorClass: string,
+    public readonly code: string | null
+  ) {
+    super(errorClass);
+    this.name = 'TranscriptIngestError';
+  }
+}
+
+/**
+ * A stored transcript chunk and the suggestions made for it, found by
+ * interimId so a retried upload is answered without transcribing it again
+ */
+export async function findTranscriptChunk(
+  supabase: ServerSupabase,
+  sessionId: string,
+  interimId: string
+): Promise<{ event: CopilotEventRow; suggestions: CopilotEventRow[] } | null> {
+  const { data: event } = await supabase
+    .from('copilot_events')
+    .select('id, event_type, payload, created_at')
+    .eq('session_id', sessionId)
+    .eq('event_type', 'transcript')
+    .eq('payload->>interim_id', interimId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle<CopilotEventRow>();
+  if (!event) return null;
+
+  const { data: suggestions } = await supabase
+    .from('copilot_events')
+    .select('id, event_type, payload, created_at')
+    .eq('session_id', sessionId)
+    .eq('event_type', 'suggestion')
+    .eq('payload->>based_on_event_id', event.id)
+    .order('created_at', { ascending: true })
+    .returns<CopilotEventRow[]>();
+
+  return { event, suggestions: suggestions ?? [] };
+}
+
+function matchesChunk(event: CopilotEventRow, chunk: TranscriptChunkInput, text: string) {
+  if (event.event_type !== 'transcript') return false;
+  const payload = event.payload;
+
+  return (
+    payload.speaker === chunk.speaker &&
+    payload.text === text &&
+    payload.transcript_kind === (chunk.isFinal ? 'final' : 'interim') &&
+    payload.interim_id === (chunk.interimId ?? null)
+  );
+}
+
+/**
+ * Append transcript chunks to an active session.
+ * Throws TranscriptIngestError if an event cannot be stored.
+ */
+export async function appendTranscriptChunks(args: AppendTranscriptArgs): Promise<AppendTranscriptResult> {
+  const { supabase, sessionId: id, userId, mode } = args;
+  const createdEvents: Array<Record<string, unknown>> = [];
+  const createdSuggestions: Array<Record<string, unknown>> = [];
+  let rejected = 0;
+  // Loaded on the first suggestion only
+  let contextSource: Promise<CandidateContextSource | null> | null = null;
+  const start = (stage: LatencyStage) => {
+    if (args.latencyRequestId) startStage(args.latencyRequestId, stage);
+  };
+  const end = (stage: LatencyStage) => {
+    if (args.latencyRequestId) endStage(args.latencyRequestId, stage);
+  };
+
+  const { data: recentTranscriptRows } = await supabase
+    .from('copilot_events')
+    .select('id, event_type, payload, created_at')
+    .eq('session_id', id)
+    .eq('event_type', 'transcript')
+    .order('created_at', { ascending: false })
+    .limit(40)
+    .returns<CopilotEventRow[]>();
+
+  const recentTranscriptEvents = (recentTranscriptRows ?? []).slice();
+
+  for (const chunk of args.chunks) {
+    start('transcript_parse');
+    const cleanedInput = sanitizeCopilotText(chunk.text);
+
+    if (!cleanedInput.sanitized.trim()) {
+      end('transcript_parse');
+      rejected += 1;
+      continue;
+    }
+
+    const duplicateEvent = chunk.interimId
+      ? recentTranscriptEvents.find((event) => matchesChunk(event, chunk, cleanedInput.sanitized))
+      : null;
+
+    if (duplicateEvent) {
+      end('transcript_parse');
+      createdEvents.push(duplicateEvent);
+      continue;
+    }
+
+    const payload: EventPayload = {
+      speaker: chunk.speaker,
+      text: cleanedInput.sanitized,
+      mode,
+      transcript_kind: chunk.isFinal ? 'final' : 'interim',
+      interim_id: chunk.interimId ?? null,
+      client_timestamp: chunk.clientTimestamp ?? null,
+      security: {
+        redactions: cleanedInput.redactions,
+        prompt_injection: cleanedInput.hasPromptInjection,
+      },
+    };
+    if (args.source) {
+      payload.stt = { provider: args.source.provider, confidence: args.source.confidence ?? null };
+    }
+    if (args.source?.speaker) {
+      payload.speaker_label = args.source.speaker.label;
+      payload.speaker_confidence = args.source.speaker.confidence;
+      payload.speaker_source = args.source.speaker.source;
+    }
+
+    const detection =
+      chunk.speaker === 'interviewer'
+        ? detectQuestion({ text: cleanedInput.sanitized, isFinal: chunk.isFinal, recent: recentTranscriptEvents })
+        : null;
+
+    const shouldSuggest =
+      (chunk.autoSuggest ?? true) &&
+      chunk.isFinal &&
+      detection?.shouldSuggest === true &&
+      !cleanedInput.hasPromptInjection;
+
+    if (detection) payload.question = questionDetectionPayload(detection, shouldSuggest);
+
+    end('transcript_parse');
+    start('suggestion_persist');
+    const { data: createdEvent, error: insertError } = await supabase
+      .from('copilot_events')
+      .insert({
+        session_id: id,
+        user_id: userId,
+        event_type: 'transcript',
+        payload,
+      })
+      .select('id, event_type, payload, created_at')
+      .single();
+
+    if (insertError || !createdEvent) {
+      end('suggestion_persist');
+      throw new TranscriptIngestError('db_insert_transcript_failed', insertError?.code ?? null);
+    }
+
+    createdEvents.push(createdEvent);
+    recentTranscriptEvents.unshift(createdEvent as CopilotEventRow);
+    await publishCopilotEvents(id, [createdEvent]);
+    end('suggestion_persist');
+
+    if (!shouldSuggest || !detection) continue;
+
+    start('context_retrieval');
+
+    const { data: transcriptRows } = await supabase
+      .from('copilot_events')
+      .select('id, payload, created_at')
+      .eq('session_id', id)
+      .eq('event_type', 'transcript')
+      .order('created_at', { ascending: false })
+      .limit(16);
+
+    const ordered = (transcriptRows ?? []).slice().reverse();
+    const transcriptText = ordered
+      .map((row) => {
+        const p = row.payload as EventPayload;
+        const speaker = typeof p.speaker === 'string' ? p.speaker : 'unknown';
+        const text = typeof p.text === 'string' ? p.text : '';
+        return `${speaker}: ${text}`;
+      })
+      .join('\n');
+
+    if (args.contextLinks && !contextSource) contextSource = loadCandidateContextSource(supabase, args.contextLinks);
+    const candidateContext = buildCandidateContext(contextSource ? await contextSource : null, detection);
+    const storyContext =
+      detection.type === 'behavioral'
+        ? await findStoryForQuestion(supabase, userId, detection.text)
+        : { text: '', story: null };
+    end('context_retrieval');
+
+    const prompt = renderSuggestionPrompt(
+      {
+        mode,
+        transcriptText: transcriptText || `${chunk.speaker}: ${cleanedInput.sanitized}`,
+        latestQuestion: detection.text,
+        questionType: detection.type,
+        followUpTo: detection.followUpTo,
+        candidateContext: candidateContext.text + storyContext.text,
+      },
+      { bucketKey: id }
+    );
+    const deltas = createSuggestionDeltaPublisher(id, createdEvent.id);
+
+    try {
+      start('llm_inference');
+      const completion = await runStructuredLLMTask({
+        taskType: prompt.taskType,
+        userId,
+        temperature: 0.3,
+        schema: SuggestionOutputSchema,
+        schemaName: 'copilot_suggestion',
+        messages: prompt.messages,
+        // Matched on the question; the transcript around it varies, the candidate context must not
+        cache: {
+          ttlSeconds: SUGGESTION_CACHE_SECONDS,
+          semanticKey: detection.text,
+          semanticContext: JSON.stringify([
+            prompt.promptId,
+            prompt.promptVersion,
+            mode,
+            detection.type,
+            candidateContext.text + storyContext.text,
+          ]),
+        },
+        onText: deltas.onText,
+      });
+
+      const parsedSuggestion = toParsedSuggestion(completion.data, mode);
+      end('llm_inference');
+      start('suggestion_persist');
+
+      const suggestionPayload: EventPayload = {
+        category: 'answer',
+        text: parsedSuggestion.shortAnswer,
+        based_on_event_id: createdEvent.id,
+        mode,
+        structured: parsedSuggestion.structured,
+        model: completion.model,
+        provider: completion.provider,
+        prompt_id: prompt.promptId,
+        prompt_version: prompt.promptVersion,
+        question_type: detection.type,
+      };
+      if (completion.cacheHit) suggestionPayload.cached = completion.cacheHit;
+      if (candidateContext.text) {
+        suggestionPayload.context = {
+          resume_passages: candidateContext.resumePassages,
+          job_requirements: candidateContext.jobRequirements,
+        };
+      }
+      if (storyContext.story) {
+        suggestionPayload.star_story = { id: storyContext.story.id, title: storyContext.story.title };
+      }
+      const firstDeltaMs = deltas.firstDeltaMs();
+      if (firstDeltaMs !== null) suggestionPayload.first_delta_ms = firstDeltaMs;
+
+      if (parsedSuggestion.talkingPoints.length > 0) suggestionPayload.talking_points = parsedSuggestion.talkingPoints;
+      if (parsedSuggestion.followUp) suggestionPayload.follow_up = parsedSuggestion.followUp;
+      if (parsedSuggestion.complexity) suggestionPayload.complexity = parsedSuggestion.complexity;
+      if (parsedSuggestion.edgeCases?.length) suggestionPayload.edge_cases = parsedSuggestion.edgeCases;
+      if (parsedSuggestion.checklist?.length) suggestionPayload.checklist = parsedSuggestion.checklist;
+
+      const { data: suggestionEvent, error: suggestionError } = await supabase
+        .from('copilot_events')
+        .insert({
+          id: deltas.suggestionId,
+          session_id: id,
+          user_id: userId,
+          event_type: 'suggestion',
+          payload: suggestionPayload,
+        })
+        .select('id, event_type, payload, created_at')
+        .single();
+
+      if (suggestionError || !suggestionEvent) {
+        throw new TranscriptIngestError('db_insert_suggestion_failed', suggestionError?.code ?? null);
+      }
+
+      createdSuggestions.push(suggestionEvent);
+      await publishCopilotEvents(id, [suggestionEvent]);
+      end('suggestion_persist');
+    } catch (e) {
+      deltas.discard();
+      end('llm_inference');
+      end('suggestion_persist');
+      if (e instanceof TranscriptIngestError) throw e;
+
+      args.logError?.('llm_suggestion_failed', {
+        sessionId: id,
+        errorType: e instanceof Error ? e.name : 'unknown',
+      });
+
+      const { data: fallbackSuggestion } = await supabase
+        .from('copilot_events')
+        .insert({
+          session_id: id,
+          user_id: userId,
+          event_type: 'suggestion',
+          payload: {
+            category: 'system',
+            ...suggestionFailureNotice(e),
+            based_on_event_id: createdEvent.id,
+            mode,
+          },
+        })
+        .select('id, event_type, payload, created_at')
+        .single();
+
+      if (fallbackSuggestion) {
+        createdSuggestions.push(fallbackSuggestion);
+        await publishCopilotEvents(id, [fallbackSuggestion]);
+      }
+    }
+  }
+
+  return { events: createdEvents, suggestions: createdSuggestions, rejected };
+}
@@ -7,8 +7,10 @@
  * - Tone customization
  */
 
-import OpenAI from 'openai';
-import { requireEnv } from './env';
+import { z } from 'zod';
+import { LLMBudgetExceededError } from './llmBudget';
+import { runStructuredLLMTask } from './llmTaskRunner';
+import { renderPrompt } from './promptRegistry';
 import { createAdminClient } from './supabase/admin';
 
 export type CoverLetterTone = 'professional' | 'friendly' | 'formal' | 'casual' | 'confident';
@@ -27,100 +29,64 @@ export interface CoverLetterOutput {
   content: string;
   matchedKeywords: string[];
   alignmentScore: number;
+  /** Registry prompt that produced this letter */
+  promptId: string;
+  promptVersion: string;
 }
 
+// Model output contract for generateCoverLetter
+export const CoverLetterOutputSchema = z.object({
+  content: z.string().trim().min(1),
+  matchedKeywords: z.array(z.string().trim().min(1)).default([]),
+  alignmentScore: z.number().min(0).max(100),
+});
+
 /**
- * Generate a cover letter based on job description and resume content
+ * Generate a cover letter based on job description and resume content.
+ * Pass the requesting user's id so their LLM settings apply.
+ * Throws LLMBudgetExceededError unchanged once the monthly budget is spent.
  */
-export async function generateCoverLetter(input: CoverLetterInput): Promise<CoverLetterOutput> {
-  const client = new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') });
-  
-  const toneGuidance = getToneGuidance(input.tone);
-  
-  const systemPrompt = `You are an expert career coach and cover letter writer. Your task is to write compelling, personalized cover letters that:
-1. Align the candidate's experience with the job requirements
-2. Use an appropriate tone: ${toneGuidance}
-3. Highlight specific achievements and skills from the resume
-4. Demonstrate genuine interest in the company and role
-5. Follow standard cover letter structure (introduction, body, conclusion)
-
-Guidelines:
-- Keep the cover letter to 3-4 paragraphs
-- Use concrete examples from the resume
-- Avoid generic phrases
-- Focus on value the candidate can bring to the company
-- Address the hiring manager directly when possible
-
-Also extract and return:
-- List of keywords from the job description that match the resume (matchedKeywords)
-- A score from 0-100 indicating how well the resume aligns with the job description (alignmentScore)`;
-
-  const userPrompt = `Please write a cover letter with the following details:
-
-**Job Information:**
-- Position: ${input.jobTitle}
-- Company: ${input.companyName}
-- Job Description:
-${input.jobDescription}
-
-**Candidate Resume:**
-${input.resumeContent}
-
-${input.userName ? `**Candidate Name:** ${input.userName}` : ''}
-${input.additionalContext ? `\n**Additional Context:** ${input.additionalContext}` : ''}
-
-**Tone:** ${input.tone}
-
-Please provide the cover letter followed by:
-- matchedKeywords: [list of matching keywords]
-- alignmentScore: [number 0-100]`;
+export async function generateCoverLetter(input: CoverLetterInput, userId?: string): Promise<CoverLetterOutput> {
+  const prompt = renderPrompt(
+    'cover_letter',
+    {
+      toneGuidance: getToneGuidance(input.tone),
+      jobTitle: input.jobTitle,
+      companyName: input.companyName,
+      jobDescription: input.jobDescription,
+      resumeContent: input.resumeContent,
+      candidateName: input.userName ? `**Candidate Name:** ${input.userName}` : '',
+      additionalContext: input.additionalContext ? `\n**Additional Context:** ${input.additionalContext}` : '',
+      tone: input.tone,
+    },
+    { bucketKey: userId }
+  );
 
   try {
-    const completion = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
+    const completion = await runStructuredLLMTask({
+      taskType: prompt.taskType,
+      userId,
+      schema: CoverLetterOutputSchema,
+      schemaName: 'cover_letter',
+      messages: prompt.messages,
+      cache: { personalized: true },
       temperature: 0.7,
     });
 
-    const response = completion.choices[0]?.message?.content ?? '';
-    
-    // Parse the response to extract cover letter and metadata
-    const parsed = parseCoverLetterResponse(response);
-    
-    return parsed;
+    return {
+      content: completion.data.content,
+      matchedKeywords: completion.data.matchedKeywords,
+      alignmentScore: Math.round(completion.data.alignmentScore),
+      promptId: prompt.promptId,
+      promptVersion: prompt.promptVersion,
+    };
   } catch (error) {
+    if (error instanceof LLMBudgetExceededError) throw error;
     console.error('Cover letter generation failed:', error);
     throw new Error('Failed to generate cover letter');
   }
 }
 
-/**
- * Parse LLM response to extract cover letter content and metadata
- */
-function parseCoverLetterResponse(response: string): CoverLetterOutput {
-  // Extract matched keywords
-  const keywordsMatch = response.match(/matchedKeywords:\s*\[(.*?)\]/i);
-  const keywords = keywordsMatch 
-    ? keywordsMatch[1].split(',').map(k => k.trim().replace(/["']/g, '')).filter(Boolean)
-    : [];
-  
-  // Extract alignment score
-  const scoreMatch = response.match(/alignmentScore:\s*(\d+)/i);
-  const alignmentScore = scoreMatch ? parseInt(scoreMatch[1], 10) : 50;
-  
-  // Extract cover letter content (everything before matchedKeywords or at the end)
-  const content = response.replace(/matchedKeywords:.*$/gim, '').replace(/alignmentScore:.*$/gim, '').trim();
-  
-  return {
-    content,
-    matchedKeywords: keywords,
-    alignmentScore: Math.min(100, Math.max(0, alignmentScore)),
-  };
-}
-
 /**
  * Get tone-specific guidance for the LLM
  */
@@ -12,15 +12,26 @@ const RawEnvSchema = z.object({
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
 
   // LLM Providers
-  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'google', 'auto']).optional(),
+  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'google', 'openai_compatible', 'auto']).optional(),
   OPENAI_API_KEY: z.string().min(1).optional(),
   ANTHROPIC_API_KEY: z.string().min(1).optional(),
   GOOGLE_GENERATIVE_AI_API_KEY: z.string().min(1).optional(),
 
+  // Self-hosted OpenAI-compatible server (llama.cpp, vLLM, Ollama, ...)
+  OPENAI_COMPATIBLE_BASE_URL: z.string().url().optional(),
+  OPENAI_COMPATIBLE_API_KEY: z.string().min(1).optional(),
+  OPENAI_COMPATIBLE_MODELS: z.string().min(1).optional(),
+
   // Default model preferences
   DEFAULT_MODEL: z.string().min(1).optional(),
   FALLBACK_MODEL: z.string().min(1).optional(),
 
+  // Prompt A/B traffic split, JSON: {"<prompt id>": {"<version>": weight}}
+  PROMPT_SPLITS: z.string().min(1).optional(),
+
+  // Encryption key for organization LLM API keys (base64, 32 bytes)
+  CREDENTIALS_ENCRYPTION_KEY: z.string().min(1).optional(),
+
   // Billing (server-only)
   STRIPE_SECRET_KEY: z.string().min(1).optional(),
   STRIPE_WEBHOOK_SECRET: z.string().min(1).optional(),
@@ -47,8 +58,13 @@ export const env = RawEnvSchema.parse({
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
   ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
   GOOGLE_GENERATIVE_AI_API_KEY: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+  OPENAI_COMPATIBLE_BASE_URL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+  OPENAI_COMPATIBLE_API_KEY: process.env.OPENAI_COMPATIBLE_API_KEY,
+  OPENAI_COMPATIBLE_MODELS: process.env.OPENAI_COMPATIBLE_MODELS,
   DEFAULT_MODEL: process.env.DEFAULT_MODEL,
   FALLBACK_MODEL: process.env.FALLBACK_MODEL,
+  PROMPT_SPLITS: process.env.PROMPT_SPLITS,
+  CREDENTIALS_ENCRYPTION_KEY: process.env.CREDENTIALS_ENCRYPTION_KEY,
 
   STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
   STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
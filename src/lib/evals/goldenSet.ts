@@ -0,0 +1,134 @@
+/**
+ * Golden-set fixtures for offline LLM evaluation
+ *
+ * Each case is a stored transcript plus the properties a good output must
+ * have. Keep transcripts free of real user data.
+ */
+
+import type { InterviewQA, MockInterviewReport } from '@/lib/mockInterviewReport';
+
+export interface SuggestionEvalCase {
+  kind: 'suggestion';
+  id: string;
+  mode: string;
+  transcriptText: string;
+  latestQuestion: string;
+  expect: {
+    /** short_answer word limit (prompt asks for <= 90) */
+    maxWords?: number;
+    minTalkingPoints?: number;
+    /** Case-insensitive terms the answer must mention */
+    mustMention?: string[];
+    /** Claims that would be invented for this transcript */
+    forbidden?: string[];
+  };
+}
+
+export interface ReportEvalCase {
+  kind: 'report';
+  id: string;
+  mode: string;
+  questions: InterviewQA[];
+  expect: {
+    overallScore?: { min: number; max: number };
+    hiringSignals?: MockInterviewReport['hiring_signal'][];
+    forbidden?: string[];
+  };
+}
+
+export type EvalCase = SuggestionEvalCase | ReportEvalCase;
+
+export const SUGGESTION_GOLDEN_SET: SuggestionEvalCase[] = [
+  {
+    kind: 'suggestion',
+    id: 'behavioral-conflict',
+    mode: 'behavioral',
+    transcriptText:
+      'interviewer: Thanks for joining.\nuser: Happy to be here. I was a backend engineer at a logistics startup for three years.\ninterviewer: Tell me about a time you disagreed with a teammate.',
+    latestQuestion: 'Tell me about a time you disagreed with a teammate.',
+    expect: {
+      maxWords: 90,
+      minTalkingPoints: 2,
+      forbidden: ['Google', 'Amazon', 'ten years'],
+    },
+  },
+  {
+    kind: 'suggestion',
+    id: 'coding-two-sum',
+    mode: 'coding',
+    transcriptText:
+      'interviewer: Given an array of integers and a target, return indices of the two numbers that add up to the target.\nuser: Can I assume exactly one solution exists?\ninterviewer: Yes.',
+    latestQuestion: 'Return indices of the two numbers that add up to the target.',
+    expect: {
+      maxWords: 90,
+      minTalkingPoints: 2,
+      mustMention: ['hash'],
+    },
+  },
+  {
+    kind: 'suggestion',
+    id: 'phone-why-company',
+    mode: 'phone',
+    transcriptText:
+      'interviewer: This is a quick screen for the product analyst role.\nuser: Sounds good.\ninterviewer: Why do you want to work here?',
+    latestQuestion: 'Why do you want to work here?',
+    expect: {
+      maxWords: 90,
+      minTalkingPoints: 2,
+    },
+  },
+  {
+    kind: 'suggestion',
+    id: 'video-weakness',
+    mode: 'video',
+    transcriptText:
+      'interviewer: What would your last manager say is your biggest area for growth?\nuser: Probably delegation.',
+    latestQuestion: 'What would your last manager say is your biggest area for growth?',
+    expect: {
+      maxWords: 90,
+      minTalkingPoints: 2,
+      mustMention: ['delegat'],
+    },
+  },
+];
+
+export const REPORT_GOLDEN_SET: ReportEvalCase[] = [
+  {
+    kind: 'report',
+    id: 'report-strong-behavioral',
+    mode: 'behavioral',
+    questions: [
+      {
+        question_text: 'Tell me about a project you led.',
+        response_text:
+          'I led the migration of our billing service to a queue-based design. I split the work into three milestones, kept stakeholders updated weekly, and we cut failed charges by 40%.',
+        question_type: 'behavioral',
+        difficulty: 'medium',
+      },
+      {
+        question_text: 'How do you handle a missed deadline?',
+        response_text:
+          'I flag the risk as soon as I see it, propose a reduced scope, and agree on a new date with the stakeholder before the original one passes.',
+        question_type: 'behavioral',
+        difficulty: 'medium',
+      },
+    ],
+    expect: {
+      overallScore: { min: 60, max: 100 },
+      hiringSignals: ['lean_hire', 'hire', 'strong_hire'],
+    },
+  },
+  {
+    kind: 'report',
+    id: 'report-no-responses',
+    mode: 'technical',
+    questions: [
+      { question_text: 'Explain how a hash map handles collisions.', response_text: null, question_type: 'technical' },
+      { question_text: 'What is the time complexity of binary search?', response_text: '', question_type: 'technical' },
+    ],
+    expect: {
+      overallScore: { min: 0, max: 40 },
+      hiringSignals: ['strong_no_hire', 'no_hire'],
+    },
+  },
+];
@@ -0,0 +1,25 @@
+/**
+ * Offline LLM evaluation
+ *
+ * Exports:
+ * - SUGGESTION_GOLDEN_SET, REPORT_GOLDEN_SET (fixtures)
+ * - scoreSuggestion, scoreReport, findUngroundedClaims (rubric)
+ * - runEvalSuite, diffEvalRuns, formatEvalDiff (runner)
+ */
+
+export { SUGGESTION_GOLDEN_SET, REPORT_GOLDEN_SET } from './goldenSet';
+export type { EvalCase, SuggestionEvalCase, ReportEvalCase } from './goldenSet';
+
+export { scoreSuggestion, scoreReport, findUngroundedClaims, countWords } from './rubric';
+export type { EvalCheck, EvalScore } from './rubric';
+
+export { runEvalSuite, diffEvalRuns, formatEvalDiff } from './runner';
+export type {
+  EvalClient,
+  EvalVariant,
+  EvalCaseResult,
+  EvalRunResult,
+  EvalCaseDiff,
+  EvalCaseStatus,
+  EvalDiff,
+} from './runner';
@@ -0,0 +1,157 @@
+/**
+ * Rubric scoring for offline evaluation
+ *
+ * Deterministic checks only (no LLM judge), so scores are comparable
+ * across prompt and model versions.
+ */
+
+import type { ParsedSuggestion } from '@/lib/copilotSuggestion';
+import type { MockInterviewReport } from '@/lib/mockInterviewReport';
+import type { ReportEvalCase, SuggestionEvalCase } from './goldenSet';
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  weight: number;
+  detail?: string;
+}
+
+export interface EvalScore {
+  /** Weighted share of passed checks, 0-1 */
+  score: number;
+  passed: boolean;
+  checks: EvalCheck[];
+}
+
+const RUBRIC_DIMENSIONS = ['clarity', 'confidence', 'relevance', 'structure'] as const;
+
+// Quantities a model could only know from the candidate ("5 years", "40%", "$2M")
+const QUANTITY = /\$\s?\d[\d,.]*\s?[kmb]?\b|\b\d[\d,.]*\s?(?:%|percent\b|years?\b|months?\b|x\b)/gi;
+// Employers or schools named in a first-person claim ("at Stripe", "joined Acme Corp")
+const ORGANIZATION = /\b(?:[Aa]t|[Jj]oined)\s+([A-Z][\w&.-]*(?:\s+[A-Z][\w&.-]*)*)/g;
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Quantities and organizations in `output` that never appear in `context`.
+ * A heuristic: it flags likely invented experience, not every invention.
+ */
+export function findUngroundedClaims(output: string, context: string, forbidden: string[] = []): string[] {
+  const haystack = context.toLowerCase();
+  const claims = new Set<string>();
+
+  for (const match of output.matchAll(QUANTITY)) {
+    const claim = match[0].trim();
+    if (!haystack.includes(claim.toLowerCase())) claims.add(claim);
+  }
+
+  for (const match of output.matchAll(ORGANIZATION)) {
+    const claim = match[1].trim();
+    if (!haystack.includes(claim.toLowerCase())) claims.add(claim);
+  }
+
+  for (const phrase of forbidden) {
+    if (output.toLowerCase().includes(phrase.toLowerCase())) claims.add(phrase);
+  }
+
+  return Array.from(claims);
+}
+
+function check(name: string, passed: boolean, weight = 1, detail?: string): EvalCheck {
+  return passed ? { name, passed, weight } : { name, passed, weight, detail };
+}
+
+function toScore(checks: EvalCheck[]): EvalScore {
+  const total = checks.reduce((sum, c) => sum + c.weight, 0);
+  const earned = checks.filter((c) => c.passed).reduce((sum, c) => sum + c.weight, 0);
+  return {
+    score: total > 0 ? earned / total : 0,
+    passed: checks.every((c) => c.passed),
+    checks,
+  };
+}
+
+export function scoreSuggestion(testCase: SuggestionEvalCase, suggestion: ParsedSuggestion): EvalScore {
+  const { expect } = testCase;
+  const maxWords = expect.maxWords ?? 90;
+  const minTalkingPoints = expect.minTalkingPoints ?? 2;
+  const words = countWords(suggestion.shortAnswer);
+  const output = [suggestion.shortAnswer, ...suggestion.talkingPoints, suggestion.followUp ?? ''].join('\n');
+
+  const missingFields: string[] = [];
+  if (!suggestion.shortAnswer) missingFields.push('short_answer');
+  if (suggestion.talkingPoints.length < minTalkingPoints) missingFields.push('talking_points');
+  if (testCase.mode === 'coding') {
+    if (!suggestion.complexity) missingFields.push('complexity');
+    if (!suggestion.edgeCases?.length) missingFields.push('edge_cases');
+    if (!suggestion.checklist?.length) missingFields.push('checklist');
+  }
+
+  const invented = findUngroundedClaims(
+    output,
+    `${testCase.transcriptText}\n${testCase.latestQuestion}`,
+    expect.forbidden
+  );
+  const unmentioned = (expect.mustMention ?? []).filter((term) => !output.toLowerCase().includes(term.toLowerCase()));
+
+  const checks = [
+    check('required_fields', missingFields.length === 0, 2, `missing: ${missingFields.join(', ')}`),
+    check('length_limit', words <= maxWords, 1, `${words} words > ${maxWords}`),
+    check('no_invented_experience', invented.length === 0, 2, `ungrounded: ${invented.join(', ')}`),
+  ];
+  if (expect.mustMention?.length) {
+    checks.push(check('mentions_expected', unmentioned.length === 0, 1, `not mentioned: ${unmentioned.join(', ')}`));
+  }
+
+  return toScore(checks);
+}
+
+/**
+ * Scores the schema-valid model output before normalization, so padding
+ * from normalizeMockInterviewReport does not hide weak outputs.
+ */
+export function scoreReport(testCase: ReportEvalCase, report: MockInterviewReport, context: string): EvalScore {
+  const { expect } = testCase;
+
+  const missingFields: string[] = [];
+  if (!report.summary.trim()) missingFields.push('summary');
+  if (report.strengths.length < 3) missingFields.push('strengths');
+  if (report.weaknesses.length < 3) missingFields.push('weaknesses');
+  if (report.next_steps.length < 3) missingFields.push('next_steps');
+  for (const dimension of RUBRIC_DIMENSIONS) {
+    if (!report.rubric[dimension].evidence.trim()) missingFields.push(`rubric.${dimension}.evidence`);
+  }
+
+  const output = [report.summary, ...report.strengths, ...report.weaknesses].join('\n');
+  const invented = findUngroundedClaims(output, context, expect.forbidden);
+
+  const checks = [
+    check('required_fields', missingFields.length === 0, 2, `missing: ${missingFields.join(', ')}`),
+    check('no_invented_experience', invented.length === 0, 2, `ungrounded: ${invented.join(', ')}`),
+  ];
+  if (expect.overallScore) {
+    const { min, max } = expect.overallScore;
+    checks.push(
+      check(
+        'overall_score_range',
+        report.overall_score >= min && report.overall_score <= max,
+        1,
+        `${report.overall_score} outside ${min}-${max}`
+      )
+    );
+  }
+  if (expect.hiringSignals?.length) {
+    checks.push(
+      check(
+        'hiring_signal',
+        expect.hiringSignals.includes(report.hiring_signal),
+        1,
+        `${report.hiring_signal} not in ${expect.hiringSignals.join(', ')}`
+      )
+    );
+  }
+
+  return toScore(checks);
+}
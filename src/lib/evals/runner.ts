@@ -0,0 +1,247 @@
+/**
+ * Offline Evaluation Runner
+ *
+ * - Replays golden-set cases through the production prompts
+ *   (copilot_suggestion, interview_report) and schemas
+ * - Any client exposing completeStructured works; tests pass a scripted one
+ * - Diffs two runs (prompt or model variants) case by case
+ */
+
+import { getLLMClient, type LLMClient } from '@/lib/llmRouter';
+import { renderPrompt, resolvePromptVersion, type RenderedPrompt } from '@/lib/promptRegistry';
+import { renderSuggestionPrompt, SuggestionOutputSchema, toParsedSuggestion } from '@/lib/copilotSuggestion';
+import { formatInterviewQA, MockInterviewReportSchema } from '@/lib/mockInterviewReport';
+import type { EvalCase } from './goldenSet';
+import { scoreReport, scoreSuggestion, type EvalScore } from './rubric';
+
+export type EvalClient = Pick<LLMClient, 'completeStructured'>;
+
+export interface EvalVariant {
+  label: string;
+  /** Pinned version per prompt id; unpinned prompts use the registry default weights */
+  promptVersions?: Record<string, string>;
+  model?: string;
+}
+
+export interface EvalCaseResult extends EvalScore {
+  caseId: string;
+  kind: EvalCase['kind'];
+  promptId: string;
+  promptVersion: string;
+  model: string | null;
+  latencyMs: number;
+  output: unknown;
+  error?: string;
+}
+
+export interface EvalRunResult {
+  label: string;
+  startedAt: string;
+  cases: EvalCaseResult[];
+  meanScore: number;
+  passRate: number;
+}
+
+export type EvalCaseStatus = 'improved' | 'regressed' | 'unchanged' | 'added' | 'removed';
+
+export interface EvalCaseDiff {
+  caseId: string;
+  baselineScore: number | null;
+  candidateScore: number | null;
+  delta: number;
+  status: EvalCaseStatus;
+  /** "+check" now passes, "-check" now fails */
+  flippedChecks: string[];
+}
+
+export interface EvalDiff {
+  baseline: string;
+  candidate: string;
+  meanScoreDelta: number;
+  passRateDelta: number;
+  cases: EvalCaseDiff[];
+}
+
+// Scores closer than this are treated as equal
+const SCORE_EPSILON = 1e-6;
+
+function pickVersion(promptId: string, caseId: string, variant: EvalVariant): string {
+  // Ignore PROMPT_SPLITS so runs do not depend on deployment config
+  return variant.promptVersions?.[promptId] ?? resolvePromptVersion(promptId, caseId, {});
+}
+
+async function runCase(testCase: EvalCase, variant: EvalVariant, client: EvalClient): Promise<EvalCaseResult> {
+  let prompt: RenderedPrompt;
+  let context = '';
+
+  if (testCase.kind === 'suggestion') {
+    prompt = renderSuggestionPrompt(testCase, {
+      version: pickVersion('copilot_suggestion', testCase.id, variant),
+    });
+  } else {
+    context = formatInterviewQA(testCase.questions);
+    prompt = renderPrompt(
+      'interview_report',
+      { mode: testCase.mode, qaList: context },
+      { version: pickVersion('interview_report', testCase.id, variant) }
+    );
+  }
+
+  const base = {
+    caseId: testCase.id,
+    kind: testCase.kind,
+    promptId: prompt.promptId,
+    promptVersion: prompt.promptVersion,
+  };
+  const startedAt = Date.now();
+
+  try {
+    if (testCase.kind === 'suggestion') {
+      const completion = await client.completeStructured(prompt.messages, SuggestionOutputSchema, {
+        schemaName: 'copilot_suggestion',
+        model: variant.model,
+        temperature: 0.3,
+      });
+      const suggestion = toParsedSuggestion(completion.data, testCase.mode);
+      return {
+        ...base,
+        ...scoreSuggestion(testCase, suggestion),
+        model: completion.model,
+        latencyMs: Date.now() - startedAt,
+        output: suggestion.structured,
+      };
+    }
+
+    const completion = await client.completeStructured(prompt.messages, MockInterviewReportSchema, {
+      schemaName: 'mock_interview_report',
+      model: variant.model,
+      temperature: 0.3,
+      max_tokens: 2000,
+    });
+    return {
+      ...base,
+      ...scoreReport(testCase, completion.data, context),
+      model: completion.model,
+      latencyMs: Date.now() - startedAt,
+      output: completion.data,
+    };
+  } catch (error) {
+    // Provider or schema failure scores zero rather than aborting the run
+    const message = error instanceof Error ? error.message : 'unknown_error';
+    return {
+      ...base,
+      score: 0,
+      passed: false,
+      checks: [{ name: 'completed', passed: false, weight: 1, detail: message }],
+      model: null,
+      latencyMs: Date.now() - startedAt,
+      output: null,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Run every case sequentially against one variant
+ */
+export async function runEvalSuite(
+  cases: EvalCase[],
+  variant: EvalVariant,
+  client: EvalClient = getLLMClient()
+): Promise<EvalRunResult> {
+  const startedAt = new Date().toISOString();
+  const results: EvalCaseResult[] = [];
+
+  for (const testCase of cases) {
+    results.push(await runCase(testCase, variant, client));
+  }
+
+  const count = results.length || 1;
+  return {
+    label: variant.label,
+    startedAt,
+    cases: results,
+    meanScore: results.reduce((sum, r) => sum + r.score, 0) / count,
+    passRate: results.filter((r) => r.passed).length / count,
+  };
+}
+
+function flippedChecks(baseline: EvalCaseResult, candidate: EvalCaseResult): string[] {
+  const before = new Map(baseline.checks.map((c) => [c.name, c.passed]));
+  const flipped: string[] = [];
+  for (const c of candidate.checks) {
+    const was = before.get(c.name);
+    if (was !== undefined && was !== c.passed) flipped.push(`${c.passed ? '+' : '-'}${c.name}`);
+  }
+  return flipped;
+}
+
+export function diffEvalRuns(baseline: EvalRunResult, candidate: EvalRunResult): EvalDiff {
+  const baselineById = new Map(baseline.cases.map((c) => [c.caseId, c]));
+  const candidateById = new Map(candidate.cases.map((c) => [c.caseId, c]));
+  const caseIds = Array.from(new Set([...baselineById.keys(), ...candidateById.keys()]));
+
+  const cases = caseIds.map((caseId): EvalCaseDiff => {
+    const before = baselineById.get(caseId);
+    const after = candidateById.get(caseId);
+
+    if (!before || !after) {
+      return {
+        caseId,
+        baselineScore: before?.score ?? null,
+        candidateScore: after?.score ?? null,
+        delta: 0,
+        status: before ? 'removed' : 'added',
+        flippedChecks: [],
+      };
+    }
+
+    const delta = after.score - before.score;
+    return {
+      caseId,
+      baselineScore: before.score,
+      candidateScore: after.score,
+      delta,
+      status: delta > SCORE_EPSILON ? 'improved' : delta < -SCORE_EPSILON ? 'regressed' : 'unchanged',
+      flippedChecks: flippedChecks(before, after),
+    };
+  });
+
+  return {
+    baseline: baseline.label,
+    candidate: candidate.label,
+    meanScoreDelta: candidate.meanScore - baseline.meanScore,
+    passRateDelta: candidate.passRate - baseline.passRate,
+    cases,
+  };
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : score.toFixed(2);
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(2)}`;
+}
+
+/**
+ * Markdown summary suitable for a PR comment
+ */
+export function formatEvalDiff(diff: EvalDiff): string {
+  const lines = [
+    `### Eval: ${diff.baseline} → ${diff.candidate}`,
+    '',
+    `Mean score ${formatDelta(diff.meanScoreDelta)}, pass rate ${formatDelta(diff.passRateDelta * 100)} pts`,
+    '',
+    '| Case | Baseline | Candidate | Δ | Status | Checks |',
+    '| --- | --- | --- | --- | --- | --- |',
+  ];
+
+  for (const c of diff.cases) {
+    lines.push(
+      `| ${c.caseId} | ${formatScore(c.baselineScore)} | ${formatScore(c.candidateScore)} | ${formatDelta(c.delta)} | ${c.status} | ${c.flippedChecks.join(' ') || '—'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
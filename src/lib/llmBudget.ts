@@ -0,0 +1,249 @@
+/**
+ * LLM Cost Ledger & Budgets
+ *
+ * - Records one llm_usage_ledger row per LLMClient attempt (tokens, cents, latency)
+ * - Enforces monthly spend budgets per plan (per user) and per organization
+ *   with a soft warning threshold and a hard stop; spend on an organization's
+ *   own keys (BYOK) counts toward the organization budget only
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+
+function admin() {
+  // IMPORTANT: don't initialize at module-eval time (Next build imports API routes).
+  return createAdminClient();
+}
+
+export interface LLMLedgerEntry {
+  userId?: string | null;
+  organizationId?: string | null;
+  taskType?: string | null;
+  model: string;
+  provider: string;
+  /** aborted = the caller stopped reading a stream; its tokens are still billed */
+  status: 'succeeded' | 'failed' | 'aborted';
+  inputTokens: number;
+  outputTokens: number;
+  costCents: number;
+  latencyMs: number;
+  fallbackPosition: number;
+  /** Organization credential that served the attempt (null = platform key) */
+  credentialId?: string | null;
+  error?: string;
+}
+
+export type BudgetStatus = 'ok' | 'warn' | 'blocked';
+
+export interface BudgetScope {
+  spentCents: number;
+  /** null = unlimited */
+  budgetCents: number | null;
+  warnPct: number;
+  status: BudgetStatus;
+}
+
+export interface LLMBudgetCheck {
+  allowed: boolean;
+  status: BudgetStatus;
+  user: BudgetScope;
+  organization: BudgetScope | null;
+}
+
+export class LLMBudgetExceededError extends Error {
+  constructor(public readonly scope: 'user' | 'organization', public readonly budget: BudgetScope) {
+    super(`Monthly LLM budget exceeded for ${scope}`);
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+const DEFAULT_WARN_PCT = 80;
+
+/**
+ * Record an LLM attempt in the cost ledger
+ */
+export async function recordLLMUsage(entry: LLMLedgerEntry): Promise<void> {
+  try {
+    const { error } = await admin()
+      .from('llm_usage_ledger')
+      .insert({
+        user_id: entry.userId ?? null,
+        organization_id: entry.organizationId ?? null,
+        task_type: entry.taskType ?? null,
+        model: entry.model,
+        provider: entry.provider,
+        status: entry.status,
+        input_tokens: entry.inputTokens,
+        output_tokens: entry.outputTokens,
+        cost_cents: entry.costCents,
+        latency_ms: Math.round(entry.latencyMs),
+        fallback_position: entry.fallbackPosition,
+        credential_id: entry.credentialId ?? null,
+        // Organization keys are paid by the organization, not the user's plan
+        billed_to_organization: Boolean(entry.credentialId),
+        error: entry.error ?? null,
+      });
+
+    if (error) {
+      console.error('Failed to record LLM usage:', error);
+    }
+  } catch (error) {
+    // Don't throw - ledger writes should not break the main flow
+    console.error('Failed to record LLM usage:', error);
+  }
+}
+
+/**
+ * Classify spend against a budget
+ */
+export function evaluateBudget(spentCents: number, budgetCents: number | null, warnPct = DEFAULT_WARN_PCT): BudgetStatus {
+  if (budgetCents === null) return 'ok';
+  if (spentCents >= budgetCents) return 'blocked';
+  if (spentCents >= (budgetCents * warnPct) / 100) return 'warn';
+  return 'ok';
+}
+
+function toScope(spentCents: number, budgetCents: number | null, warnPct: number | null | undefined): BudgetScope {
+  const pct = warnPct ?? DEFAULT_WARN_PCT;
+  return {
+    spentCents: Math.round(spentCents * 100) / 100,
+    budgetCents,
+    warnPct: pct,
+    status: evaluateBudget(spentCents, budgetCents, pct),
+  };
+}
+
+function worstStatus(...statuses: BudgetStatus[]): BudgetStatus {
+  if (statuses.includes('blocked')) return 'blocked';
+  if (statuses.includes('warn')) return 'warn';
+  return 'ok';
+}
+
+/**
+ * Get the organization a user is an active member of (if any)
+ */
+export async function getUserOrganizationId(userId: string): Promise<string | null> {
+  try {
+    const { data } = await admin()
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle();
+
+    return data?.organization_id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check month-to-date spend against the user's plan budget and the org budget.
+ * Fails open: if spend cannot be read, the request is allowed.
+ */
+export async function checkLLMBudget(userId: string, organizationId?: string | null): Promise<LLMBudgetCheck> {
+  try {
+    const client = admin();
+    const { data: planRows } = await client.rpc('get_user_plan', { p_user_id: userId });
+    const planId: string = planRows?.[0]?.plan_id ?? 'free';
+
+    const [{ data: planBudget }, { data: orgBudget }, { data: spend }] = await Promise.all([
+      client
+        .from('plans')
+        .select('llm_budget_cents_monthly, llm_budget_warn_pct')
+        .eq('id', planId)
+        .maybeSingle(),
+      organizationId
+        ? client
+            .from('organizations')
+            .select('llm_budget_cents_monthly, llm_budget_warn_pct')
+            .eq('id', organizationId)
+            .maybeSingle()
+        : Promise.resolve({ data: null }),
+      client.rpc('get_llm_spend', {
+        p_user_id: userId,
+        p_organization_id: organizationId ?? null,
+      }),
+    ]);
+
+    const spendRow = spend?.[0];
+    const user = toScope(
+      Number(spendRow?.user_spend_cents ?? 0),
+      planBudget?.llm_budget_cents_monthly ?? null,
+      planBudget?.llm_budget_warn_pct,
+    );
+    const organization = organizationId
+      ? toScope(
+          Number(spendRow?.organization_spend_cents ?? 0),
+          orgBudget?.llm_budget_cents_monthly ?? null,
+          orgBudget?.llm_budget_warn_pct,
+        )
+      : null;
+
+    const status = worstStatus(user.status, organization?.status ?? 'ok');
+    return { allowed: status !== 'blocked', status, user, organization };
+  } catch (error) {
+    console.error('Failed to check LLM budget:', error);
+    const user = toScope(0, null, DEFAULT_WARN_PCT);
+    return { allowed: true, status: 'ok', user, organization: null };
+  }
+}
+
+/**
+ * Throw LLMBudgetExceededError if a budget check is blocked
+ */
+export function assertWithinBudget(check: LLMBudgetCheck): void {
+  if (check.allowed) return;
+  if (check.organization?.status === 'blocked') {
+    throw new LLMBudgetExceededError('organization', check.organization);
+  }
+  throw new LLMBudgetExceededError('user', check.user);
+}
+
+/**
+ * Month-to-date organization spend with breakdowns (for team analytics)
+ */
+export async function getOrganizationLLMSpend(organizationId: string): Promise<BudgetScope & {
+  byModel: Record<string, number>;
+  byTaskType: Record<string, number>;
+  requests: number;
+}> {
+  const client = admin();
+  const periodStart = new Date();
+  periodStart.setUTCDate(1);
+  periodStart.setUTCHours(0, 0, 0, 0);
+
+  const [{ data: rows, error }, { data: org }] = await Promise.all([
+    client
+      .from('llm_usage_ledger')
+      .select('model, task_type, cost_cents')
+      .eq('organization_id', organizationId)
+      .gte('created_at', periodStart.toISOString()),
+    client
+      .from('organizations')
+      .select('llm_budget_cents_monthly, llm_budget_warn_pct')
+      .eq('id', organizationId)
+      .maybeSingle(),
+  ]);
+
+  if (error) throw error;
+
+  const byModel: Record<string, number> = {};
+  const byTaskType: Record<string, number> = {};
+  let spent = 0;
+
+  for (const row of rows || []) {
+    const cents = Number(row.cost_cents) || 0;
+    spent += cents;
+    byModel[row.model] = (byModel[row.model] || 0) + cents;
+    const task = row.task_type || 'unknown';
+    byTaskType[task] = (byTaskType[task] || 0) + cents;
+  }
+
+  return {
+    ...toScope(spent, org?.llm_budget_cents_monthly ?? null, org?.llm_budget_warn_pct),
+    byModel,
+    byTaskType,
+    requests: rows?.length || 0,
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * LLM Response Cache - Reuse completions for repeated prompts
+ *
+ * - Every entry belongs to one user/organization scope and is never served
+ *   outside it
+ * - Exact match: normalized messages + model + temperature + output format
+ * - Optional semantic match: embedding similarity on a caller-supplied key
+ *   (e.g. a common interview question), within the same task/model/format
+ *   and only when the rest of the prompt (the semantic context) is identical
+ * - Per-task TTLs; personalized requests are never cached
+ * - Hit-rate counters per task type
+ * - Embedding calls are written to the cost ledger as `cache_embedding`,
+ *   attributed to the request's user and organization
+ *
+ * Entries live in cache.ts (Upstash, or memory in development). The semantic
+ * index is in-process, like the model health table.
+ */
+
+import { createHash } from 'crypto';
+import { getCache, invalidateCache, setCache } from './cache';
+import { getLLMClient, type LLMLedgerContext, type TaskType } from './llmRouter';
+
+export interface LLMCacheOptions {
+  /** Output depends on user-specific context; never read or written */
+  personalized?: boolean;
+  /** Override the task TTL; 0 disables caching */
+  ttlSeconds?: number;
+  /** Text matched by embedding similarity when there is no exact hit */
+  semanticKey?: string;
+  /**
+   * Everything else the response depends on; must match exactly for a
+   * semantic hit. Defaults to every message but the last.
+   */
+  semanticContext?: string;
+}
+
+export interface LLMCacheRequest {
+  taskType: TaskType;
+  /** Owner of the entry, from llmCacheScope(); entries never cross scopes */
+  scope: string;
+  messages: Array<{ role: string; content: string }>;
+  /** Primary model (or chain head) the request targets */
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  /** Output contract, e.g. 'text', 'json_object' or a schema name */
+  format?: string;
+  /** Who the semantic-key embeddings are billed to */
+  owner?: { userId?: string; organizationId?: string | null };
+}
+
+export interface CachedLLMResponse {
+  text: string;
+  model: string;
+  provider: string;
+  data?: unknown;
+}
+
+export type LLMCacheHit = 'exact' | 'semantic';
+
+export interface LLMCacheLookup {
+  hit: LLMCacheHit | null;
+  response: CachedLLMResponse | null;
+}
+
+export interface LLMCacheStats {
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number;
+}
+
+export type Embedder = (text: string, ledger: LLMLedgerContext) => Promise<number[] | null>;
+
+/** Default TTL per task type; 0 = not cached unless the caller sets ttlSeconds */
+export const LLM_CACHE_TTL_SECONDS: Record<TaskType, number> = {
+  simple_qa: 24 * 60 * 60,
+  coding: 60 * 60,
+  analysis: 24 * 60 * 60,
+  writing: 0,
+  conversation: 10 * 60,
+  complex: 60 * 60,
+};
+
+interface SemanticEntry {
+  vector: number[];
+  key: string;
+  expiresAt: number;
+}
+
+export interface LLMResponseCacheOptions {
+  embed: Embedder;
+  /** Minimum cosine similarity for a semantic hit */
+  similarityThreshold: number;
+  /** Max semantic entries kept per namespace (oldest evicted) */
+  maxSemanticEntries: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: LLMResponseCacheOptions = {
+  embed: (text, ledger) => getLLMClient().embed(text, { ledger }),
+  similarityThreshold: 0.93,
+  maxSemanticEntries: 500,
+};
+
+const KEY_PREFIX = 'llm:';
+
+function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim();
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Cache scope for a request made on behalf of a user and their organization
+ */
+export function llmCacheScope(owner: { userId?: string | null; organizationId?: string | null }): string {
+  return `org:${owner.organizationId ?? '-'}:user:${owner.userId ?? '-'}`;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Exact-match key: scope, whitespace-normalized messages, model, temperature, format
+ */
+export function llmCacheKey(request: LLMCacheRequest): string {
+  const payload = JSON.stringify({
+    scope: request.scope,
+    messages: request.messages.map((m) => [m.role, normalizeContent(m.content)]),
+    model: request.model,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens ?? null,
+    format: request.format ?? 'text',
+  });
+  return `${KEY_PREFIX}${request.taskType}:${hash(payload)}`;
+}
+
+function embeddingLedger(request: LLMCacheRequest): LLMLedgerContext {
+  return { ...request.owner, taskType: 'cache_embedding' };
+}
+
+function ttlFor(request: LLMCacheRequest, options?: LLMCacheOptions): number {
+  if (options?.personalized) return 0;
+  return options?.ttlSeconds ?? LLM_CACHE_TTL_SECONDS[request.taskType];
+}
+
+export class LLMResponseCache {
+  private readonly semantic = new Map<string, SemanticEntry[]>();
+  private readonly stats = new Map<TaskType, Omit<LLMCacheStats, 'hitRate'>>();
+  private readonly opts: LLMResponseCacheOptions;
+
+  constructor(opts?: Partial<LLMResponseCacheOptions>) {
+    this.opts = { ...DEFAULT_CACHE_OPTIONS, ...opts };
+  }
+
+  /**
+   * Look up a cached response. Cache errors count as misses.
+   */
+  async lookup(request: LLMCacheRequest, options?: LLMCacheOptions): Promise<LLMCacheLookup> {
+    if (ttlFor(request, options) <= 0) {
+      this.count(request.taskType, 'bypassed');
+      return { hit: null, response: null };
+    }
+
+    try {
+      const exact = await getCache<CachedLLMResponse>(llmCacheKey(request));
+      if (exact.hit && exact.data) {
+        this.count(request.taskType, 'hits');
+        return { hit: 'exact', response: exact.data };
+      }
+
+      if (options?.semanticKey) {
+        const match = await this.findSemantic(request, options.semanticKey, options);
+        if (match) {
+          const similar = await getCache<CachedLLMResponse>(match);
+          if (similar.hit && similar.data) {
+            this.count(request.taskType, 'semanticHits');
+            return { hit: 'semantic', response: similar.data };
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('[llm-cache] lookup failed', {
+        taskType: request.taskType,
+        errorType: error instanceof Error ? error.name : 'unknown',
+      });
+    }
+
+    this.count(request.taskType, 'misses');
+    return { hit: null, response: null };
+  }
+
+  /**
+   * Store a response. Never throws.
+   */
+  async store(request: LLMCacheRequest, response: CachedLLMResponse, options?: LLMCacheOptions): Promise<void> {
+    const ttlSeconds = ttlFor(request, options);
+    if (ttlSeconds <= 0) return;
+
+    const key = llmCacheKey(request);
+    try {
+      await setCache(key, response, { ttlSeconds });
+
+      if (options?.semanticKey) {
+        const vector = await this.opts.embed(normalizeContent(options.semanticKey), embeddingLedger(request));
+        if (vector) {
+          this.indexSemantic(this.namespace(request, options), { vector, key, expiresAt: Date.now() + ttlSeconds * 1000 });
+        }
+      }
+    } catch (error) {
+      console.warn('[llm-cache] store failed', {
+        taskType: request.taskType,
+        errorType: error instanceof Error ? error.name : 'unknown',
+      });
+    }
+  }
+
+  getStats(): Record<string, LLMCacheStats> {
+    const result: Record<string, LLMCacheStats> = {};
+    for (const [taskType, s] of this.stats) {
+      const lookups = s.hits + s.semanticHits + s.misses;
+      result[taskType] = { ...s, hitRate: lookups > 0 ? (s.hits + s.semanticHits) / lookups : 0 };
+    }
+    return result;
+  }
+
+  /**
+   * Drop cached responses, the semantic index and counters
+   */
+  async clear(): Promise<void> {
+    this.semantic.clear();
+    this.stats.clear();
+    await invalidateCache(KEY_PREFIX);
+  }
+
+  // Semantic hits must share scope, task, model, temperature, output format and context
+  private namespace(request: LLMCacheRequest, options?: LLMCacheOptions): string {
+    const context =
+      options?.semanticContext ??
+      JSON.stringify(request.messages.slice(0, -1).map((m) => [m.role, normalizeContent(m.content)]));
+    const format = request.format ?? 'text';
+    return `${request.scope}:${request.taskType}:${request.model}:${request.temperature}:${format}:${hash(context)}`;
+  }
+
+  private async findSemantic(
+    request: LLMCacheRequest,
+    semanticKey: string,
+    options?: LLMCacheOptions
+  ): Promise<string | null> {
+    const now = Date.now();
+    const entries = (this.semantic.get(this.namespace(request, options)) ?? []).filter((e) => e.expiresAt > now);
+    if (entries.length === 0) return null;
+
+    const vector = await this.opts.embed(normalizeContent(semanticKey), embeddingLedger(request));
+    if (!vector) return null;
+
+    let best: { key: string; similarity: number } | null = null;
+    for (const entry of entries) {
+      const similarity = cosineSimilarity(vector, entry.vector);
+      if (similarity >= this.opts.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { key: entry.key, similarity };
+      }
+    }
+    return best?.key ?? null;
+  }
+
+  private indexSemantic(namespace: string, entry: SemanticEntry): void {
+    const now = Date.now();
+    const entries = (this.semantic.get(namespace) ?? []).filter((e) => e.expiresAt > now && e.key !== entry.key);
+    entries.push(entry);
+    if (entries.length > this.opts.maxSemanticEntries) entries.splice(0, entries.length - this.opts.maxSemanticEntries);
+    this.semantic.set(namespace, entries);
+  }
+
+  private count(taskType: TaskType, field: keyof Omit<LLMCacheStats, 'hitRate'>): void {
+    const s = this.stats.get(taskType) ?? { hits: 0, semanticHits: 0, misses: 0, bypassed: 0 };
+    s[field]++;
+    this.stats.set(taskType, s);
+  }
+}
+
+// Singleton shared by the task runner and /api/llm
+let llmCache: LLMResponseCache | null = null;
+
+export function getLLMCache(): LLMResponseCache {
+  if (!llmCache) {
+    llmCache = new LLMResponseCache();
+  }
+  return llmCache;
+}
@@ -0,0 +1,312 @@
+/**
+ * Organization LLM Credentials (bring your own key)
+ *
+ * - Organizations store their own OpenAI/Anthropic/Gemini keys, encrypted
+ *   at rest (see secrets.ts); members' requests are served with those keys,
+ *   and only by providers they have keys for unless the organization opts
+ *   into platform fallback (llm_platform_fallback)
+ * - Optional allowed-models list narrows every fallback chain
+ * - Each request served in an organization context is written to the audit
+ *   log with the credential (or platform key) that served it
+ */
+
+import { createHash } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { logAuditEvent } from './audit';
+import { getLLMClient, LLMClient, MODEL_CONFIGS, type LLMClientCredentials, type TaskType } from './llmRouter';
+import { decryptSecret, encryptSecret, secretHint } from './secrets';
+
+function admin() {
+  // IMPORTANT: don't initialize at module-eval time (Next build imports API routes).
+  return createAdminClient();
+}
+
+export const BYOK_PROVIDERS = ['openai', 'anthropic', 'google'] as const;
+export type BYOKProvider = (typeof BYOK_PROVIDERS)[number];
+
+export interface OrganizationLLMCredentialSummary {
+  id: string;
+  provider: BYOKProvider;
+  key_hint: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrganizationLLMConfig {
+  organizationId: string;
+  credentials: LLMClientCredentials;
+  hints: Partial<Record<BYOKProvider, string>>;
+  /** null = every model may be used */
+  allowedModels: string[] | null;
+  /** Stored keys limit the chain to their providers (no llm_platform_fallback) */
+  ownKeysOnly: boolean;
+}
+
+export class LLMModelNotAllowedError extends Error {
+  constructor(public readonly organizationId: string) {
+    super('No model in the fallback chain is allowed for this organization');
+    this.name = 'LLMModelNotAllowedError';
+  }
+}
+
+export class LLMCredentialsUnavailableError extends Error {
+  constructor(public readonly organizationId: string) {
+    super('Organization LLM settings could not be loaded');
+    this.name = 'LLMCredentialsUnavailableError';
+  }
+}
+
+// Decrypted configs are cached briefly so each request doesn't hit the DB
+const CONFIG_TTL_MS = 60_000;
+const configCache = new Map<string, { config: OrganizationLLMConfig | null; expiresAt: number }>();
+const clientCache = new Map<string, { fingerprint: string; client: LLMClient }>();
+
+export function isBYOKProvider(value: unknown): value is BYOKProvider {
+  return typeof value === 'string' && (BYOK_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Drop cached credentials for an organization (after a key change)
+ */
+export function invalidateOrganizationLLMConfig(organizationId?: string): void {
+  if (organizationId) {
+    configCache.delete(organizationId);
+    clientCache.delete(organizationId);
+  } else {
+    configCache.clear();
+    clientCache.clear();
+  }
+}
+
+/**
+ * Load an organization's keys and model restrictions.
+ * Returns null when the organization uses platform keys with no restrictions.
+ * Throws LLMCredentialsUnavailableError when the settings can't be read: the
+ * allowed-models list must not be skipped because of a DB error.
+ */
+export async function getOrganizationLLMConfig(organizationId: string): Promise<OrganizationLLMConfig | null> {
+  const cached = configCache.get(organizationId);
+  if (cached && cached.expiresAt > Date.now()) return cached.config;
+
+  const [{ data: rows, error: credError }, { data: org, error: orgError }] = await Promise.all([
+    admin()
+      .from('organization_llm_credentials')
+      .select('id, provider, encrypted_key, key_hint')
+      .eq('organization_id', organizationId),
+    admin()
+      .from('organizations')
+      .select('llm_allowed_models, llm_platform_fallback')
+      .eq('id', organizationId)
+      .maybeSingle(),
+  ]);
+  if (credError || orgError) {
+    console.error('[llm-credentials] failed to load organization config', {
+      organizationId,
+      errorCode: (credError ?? orgError)?.code ?? null,
+    });
+    throw new LLMCredentialsUnavailableError(organizationId);
+  }
+
+  const keyRows = (rows ?? []).filter((row) => isBYOKProvider(row.provider));
+  const credentials: LLMClientCredentials = {};
+  const hints: OrganizationLLMConfig['hints'] = {};
+  for (const row of keyRows) {
+    const provider = row.provider as BYOKProvider;
+    try {
+      credentials[provider] = { id: row.id, apiKey: decryptSecret(row.encrypted_key) };
+      hints[provider] = row.key_hint;
+    } catch (error) {
+      // Skip only this key; the other keys and the model restrictions still apply
+      console.error('[llm-credentials] failed to decrypt credential', {
+        organizationId,
+        credentialId: row.id,
+        provider,
+        errorType: error instanceof Error ? error.name : 'unknown',
+      });
+    }
+  }
+
+  const allowedModels = Array.isArray(org?.llm_allowed_models) ? (org.llm_allowed_models as string[]) : null;
+  // A key that failed to decrypt still counts: its requests must not move to platform keys
+  const ownKeysOnly = keyRows.length > 0 && org?.llm_platform_fallback !== true;
+  const config =
+    Object.keys(credentials).length > 0 || allowedModels || ownKeysOnly
+      ? { organizationId, credentials, hints, allowedModels, ownKeysOnly }
+      : null;
+
+  configCache.set(organizationId, { config, expiresAt: Date.now() + CONFIG_TTL_MS });
+  return config;
+}
+
+function keyDigest(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Client using the organization's keys. Platform keys fill the gaps, but
+ * restrictToAllowedModels keeps ownKeysOnly chains off those providers.
+ */
+export function getLLMClientFor(config: OrganizationLLMConfig | null): LLMClient {
+  if (!config || Object.keys(config.credentials).length === 0) return getLLMClient();
+
+  // Keys are rotated in place (same row id), so the key itself must be part of the fingerprint
+  const fingerprint = Object.entries(config.credentials)
+    .map(([provider, credential]) => `${provider}:${credential?.id}:${keyDigest(credential?.apiKey ?? '')}`)
+    .sort()
+    .join(',');
+  const cached = clientCache.get(config.organizationId);
+  if (cached && cached.fingerprint === fingerprint) return cached.client;
+
+  const client = new LLMClient(config.credentials);
+  clientCache.set(config.organizationId, { fingerprint, client });
+  return client;
+}
+
+/**
+ * Whether the organization may use a model: it is on the allowed list, and
+ * with ownKeysOnly its provider has a working organization key
+ */
+export function isModelAllowed(modelId: string, config: OrganizationLLMConfig | null): boolean {
+  if (!config) return true;
+  if (config.allowedModels && !config.allowedModels.includes(modelId)) return false;
+  if (!config.ownKeysOnly) return true;
+
+  const provider = MODEL_CONFIGS[modelId]?.provider;
+  return isBYOKProvider(provider) && Boolean(config.credentials[provider]);
+}
+
+/**
+ * Narrow a fallback chain to the models the organization may use.
+ * Throws LLMModelNotAllowedError if nothing is left to try.
+ */
+export function restrictToAllowedModels(chain: string[], config: OrganizationLLMConfig | null): string[] {
+  if (!config?.allowedModels && !config?.ownKeysOnly) return chain;
+
+  const restricted = chain.filter((id) => isModelAllowed(id, config));
+  if (restricted.length > 0) return restricted;
+
+  // The task chain has no usable model; try the allowed list (or every model) itself
+  const fallback = (config.allowedModels ?? Object.keys(MODEL_CONFIGS)).filter(
+    (id) => MODEL_CONFIGS[id] && isModelAllowed(id, config)
+  );
+  if (fallback.length === 0) throw new LLMModelNotAllowedError(config.organizationId);
+  return fallback;
+}
+
+/**
+ * Audit which key served a request (never throws)
+ */
+export async function logLLMCredentialUse(args: {
+  config: OrganizationLLMConfig;
+  userId?: string;
+  taskType?: TaskType;
+  model: string;
+  provider: string;
+}): Promise<void> {
+  const credentialId = isBYOKProvider(args.provider) ? args.config.credentials[args.provider]?.id : undefined;
+  const hint = isBYOKProvider(args.provider) ? args.config.hints[args.provider] : undefined;
+
+  try {
+    await logAuditEvent({
+      organization_id: args.config.organizationId,
+      user_id: args.userId,
+      action: 'llm.request',
+      resource_type: 'llm_credential',
+      resource_id: credentialId ?? 'platform',
+      details: {
+        model: args.model,
+        provider: args.provider,
+        task_type: args.taskType ?? null,
+        credential: credentialId ? 'organization' : 'platform',
+        key_hint: hint ?? null,
+      },
+    });
+  } catch (error) {
+    // Runs after a successful (paid) completion; never turn that into a failure
+    console.error('[llm-credentials] failed to audit credential use', {
+      organizationId: args.config.organizationId,
+      errorType: error instanceof Error ? error.name : 'unknown',
+    });
+  }
+}
+
+export async function listOrganizationCredentials(organizationId: string): Promise<OrganizationLLMCredentialSummary[]> {
+  const { data, error } = await admin()
+    .from('organization_llm_credentials')
+    .select('id, provider, key_hint, created_by, created_at, updated_at')
+    .eq('organization_id', organizationId)
+    .order('provider', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as OrganizationLLMCredentialSummary[];
+}
+
+/**
+ * Store (or replace) an organization's key for a provider
+ */
+export async function setOrganizationCredential(
+  organizationId: string,
+  provider: BYOKProvider,
+  apiKey: string,
+  userId: string
+): Promise<OrganizationLLMCredentialSummary> {
+  const { data, error } = await admin()
+    .from('organization_llm_credentials')
+    .upsert(
+      {
+        organization_id: organizationId,
+        provider,
+        encrypted_key: encryptSecret(apiKey),
+        key_hint: secretHint(apiKey),
+        created_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'organization_id,provider' }
+    )
+    .select('id, provider, key_hint, created_by, created_at, updated_at')
+    .single();
+
+  if (error) throw error;
+  invalidateOrganizationLLMConfig(organizationId);
+
+  await logAuditEvent({
+    organization_id: organizationId,
+    user_id: userId,
+    action: 'organization.llm_credential_set',
+    resource_type: 'llm_credential',
+    resource_id: data.id,
+    details: { provider, key_hint: data.key_hint },
+  });
+
+  return data as OrganizationLLMCredentialSummary;
+}
+
+export async function deleteOrganizationCredential(
+  organizationId: string,
+  provider: BYOKProvider,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await admin()
+    .from('organization_llm_credentials')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('provider', provider)
+    .select('id, key_hint');
+
+  if (error) throw error;
+  invalidateOrganizationLLMConfig(organizationId);
+
+  const deleted = data?.[0];
+  if (!deleted) return false;
+
+  await logAuditEvent({
+    organization_id: organizationId,
+    user_id: userId,
+    action: 'organization.llm_credential_delete',
+    resource_type: 'llm_credential',
+    resource_id: deleted.id,
+    details: { provider, key_hint: deleted.key_hint },
+  });
+  return true;
+}
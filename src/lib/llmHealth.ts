@@ -0,0 +1,182 @@
+/**
+ * LLM Model Health - Rolling latency/error table fed by real LLMClient outcomes
+ *
+ * - Per-model rolling window: p50/p95 latency, error rate, timeout rate
+ * - Per-provider circuit breaker (same CircuitBreaker as the STT registry)
+ * - Used by selectModel/getFallbackChain to demote degraded models and
+ *   skip providers whose circuit is open
+ *
+ * State is in-process: each server instance learns from its own traffic.
+ */
+
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from './sttProvider';
+
+export type ModelOutcome = 'success' | 'error' | 'timeout';
+
+export type ModelHealthStatus = 'unknown' | 'healthy' | 'degraded';
+
+export interface ModelHealthSnapshot {
+  modelId: string;
+  samples: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  errorRate: number;
+  timeoutRate: number;
+  status: ModelHealthStatus;
+}
+
+export interface ModelHealthOptions {
+  /** Max samples kept per model */
+  windowSize: number;
+  /** Samples older than this are ignored */
+  windowMs: number;
+  /** Below this many samples a model is 'unknown' and static config is used */
+  minSamples: number;
+  /** Error rate (errors + timeouts) at or above which a model is degraded */
+  maxErrorRate: number;
+  /** Timeout rate at or above which a model is degraded */
+  maxTimeoutRate: number;
+  /** p95 above baseline latency × this factor marks a model degraded */
+  latencyDegradeFactor: number;
+  circuit: Partial<CircuitBreakerOptions>;
+}
+
+interface Sample {
+  at: number;
+  latencyMs: number;
+  outcome: ModelOutcome;
+}
+
+const DEFAULT_HEALTH_OPTIONS: ModelHealthOptions = {
+  windowSize: 50,
+  windowMs: 10 * 60_000,
+  minSamples: 5,
+  maxErrorRate: 0.25,
+  maxTimeoutRate: 0.2,
+  latencyDegradeFactor: 3,
+  circuit: { failureThreshold: 3, resetTimeoutMs: 30_000 },
+};
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Classify a provider error as a timeout (vs. any other failure)
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return /timeout|timed out|aborted|ETIMEDOUT/i.test(`${error.name} ${error.message}`);
+}
+
+export class ModelHealthTracker {
+  private readonly samples = new Map<string, Sample[]>();
+  private readonly circuits = new Map<string, CircuitBreaker>();
+  private readonly opts: ModelHealthOptions;
+
+  constructor(opts?: Partial<ModelHealthOptions>) {
+    this.opts = { ...DEFAULT_HEALTH_OPTIONS, ...opts };
+  }
+
+  /**
+   * Record the outcome of one model attempt
+   */
+  record(modelId: string, provider: string, outcome: ModelOutcome, latencyMs: number): void {
+    const list = this.samples.get(modelId) ?? [];
+    list.push({ at: Date.now(), latencyMs, outcome });
+    if (list.length > this.opts.windowSize) list.splice(0, list.length - this.opts.windowSize);
+    this.samples.set(modelId, list);
+
+    const circuit = this.circuit(provider);
+    if (outcome === 'success') circuit.recordSuccess();
+    else circuit.recordFailure();
+  }
+
+  /**
+   * Rolling health for a model. `baselineLatencyMs` is the static
+   * avgLatencyMs used to judge whether observed p95 is abnormal.
+   */
+  snapshot(modelId: string, baselineLatencyMs?: number): ModelHealthSnapshot {
+    const cutoff = Date.now() - this.opts.windowMs;
+    const recent = (this.samples.get(modelId) ?? []).filter((s) => s.at >= cutoff);
+    const latencies = recent
+      .filter((s) => s.outcome === 'success')
+      .map((s) => s.latencyMs)
+      .sort((a, b) => a - b);
+
+    const errors = recent.filter((s) => s.outcome !== 'success').length;
+    const timeouts = recent.filter((s) => s.outcome === 'timeout').length;
+    const errorRate = recent.length > 0 ? errors / recent.length : 0;
+    const timeoutRate = recent.length > 0 ? timeouts / recent.length : 0;
+    const p50 = percentile(latencies, 50);
+    const p95 = percentile(latencies, 95);
+
+    let status: ModelHealthStatus = 'unknown';
+    if (recent.length >= this.opts.minSamples) {
+      const slow =
+        baselineLatencyMs !== undefined &&
+        p95 !== null &&
+        p95 > baselineLatencyMs * this.opts.latencyDegradeFactor;
+      status =
+        errorRate >= this.opts.maxErrorRate || timeoutRate >= this.opts.maxTimeoutRate || slow
+          ? 'degraded'
+          : 'healthy';
+    }
+
+    return {
+      modelId,
+      samples: recent.length,
+      p50LatencyMs: p50,
+      p95LatencyMs: p95,
+      errorRate,
+      timeoutRate,
+      status,
+    };
+  }
+
+  /**
+   * Observed p50 latency once enough samples exist, otherwise the baseline
+   */
+  effectiveLatency(modelId: string, baselineLatencyMs: number): number {
+    const snap = this.snapshot(modelId, baselineLatencyMs);
+    return snap.status !== 'unknown' && snap.p50LatencyMs !== null ? snap.p50LatencyMs : baselineLatencyMs;
+  }
+
+  isDegraded(modelId: string, baselineLatencyMs?: number): boolean {
+    return this.snapshot(modelId, baselineLatencyMs).status === 'degraded';
+  }
+
+  canAttemptProvider(provider: string): boolean {
+    return this.circuit(provider).canAttempt();
+  }
+
+  providerState(provider: string): CircuitState {
+    return this.circuit(provider).currentState;
+  }
+
+  reset(): void {
+    this.samples.clear();
+    this.circuits.clear();
+  }
+
+  private circuit(provider: string): CircuitBreaker {
+    let cb = this.circuits.get(provider);
+    if (!cb) {
+      cb = new CircuitBreaker(this.opts.circuit);
+      this.circuits.set(provider, cb);
+    }
+    return cb;
+  }
+}
+
+// Singleton shared by the router and the client
+let modelHealth: ModelHealthTracker | null = null;
+
+export function getModelHealth(): ModelHealthTracker {
+  if (!modelHealth) {
+    modelHealth = new ModelHealthTracker();
+  }
+  return modelHealth;
+}
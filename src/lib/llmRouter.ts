@@ -2,22 +2,38 @@
  * LLM Router - Multi-provider AI model routing with cost/latency optimization
  * 
  * Features:
- * - Multi-provider support (OpenAI, Anthropic, Google Gemini)
+ * - Multi-provider support (OpenAI, Anthropic, Google Gemini, self-hosted OpenAI-compatible)
  * - Cost optimization (route to cheaper models when appropriate)
  * - Latency optimization (faster models for simple tasks)
  * - User preference storage
  * - Automatic fallback chain
+ * - Token streaming with normalized deltas
+ * - Per-attempt cost ledger (tokens, cents, latency, fallback position)
+ * - Adaptive routing from observed latency/error rates (see llmHealth.ts)
+ * - Structured output: zod-validated objects with repair retries
  */
 
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { z } from 'zod';
 import { createAdminClient } from './supabase/admin';
+import { recordLLMUsage } from './llmBudget';
+import { getModelHealth, isTimeoutError } from './llmHealth';
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'google', 'openai_compatible'] as const;
+export type LLMProviderId = (typeof LLM_PROVIDERS)[number];
+
+// Used by LLMClient.embed for semantic cache lookups
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_COST_PER_1K = 0.002; // in cents
 
 // Model configurations
 export interface ModelConfig {
   id: string;
-  provider: 'openai' | 'anthropic' | 'google';
+  provider: LLMProviderId;
+  /** Model name sent to the provider API when it differs from `id` */
+  providerModel?: string;
   name: string;
   contextWindow: number;
   costPer1kInput: number;  // in cents
@@ -122,8 +138,41 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     strengths: ['reasoning', 'multimodal', 'long context'],
     bestFor: ['complex reasoning', 'analysis', 'multimodal'],
   },
+  
+  // Self-hosted OpenAI-compatible models (from env)
+  ...openAICompatibleModelConfigs(),
 };
 
+/**
+ * Build configs for models served by a self-hosted OpenAI-compatible server
+ * (llama.cpp, vLLM, Ollama, ...). OPENAI_COMPATIBLE_MODELS is a comma-separated
+ * list of model names; each becomes `local/<name>` at zero cost.
+ */
+export function openAICompatibleModelConfigs(
+  modelList = process.env.OPENAI_COMPATIBLE_MODELS
+): Record<string, ModelConfig> {
+  const configs: Record<string, ModelConfig> = {};
+  const names = (modelList ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  
+  for (const name of names) {
+    const id = `local/${name}`;
+    configs[id] = {
+      id,
+      provider: 'openai_compatible',
+      providerModel: name,
+      name: `${name} (self-hosted)`,
+      contextWindow: 8192,
+      costPer1kInput: 0,
+      costPer1kOutput: 0,
+      avgLatencyMs: 1000,
+      strengths: ['privacy', 'zero cost', 'offline'],
+      bestFor: ['development', 'privacy-sensitive workloads'],
+    };
+  }
+  
+  return configs;
+}
+
 // Task types for routing
 export type TaskType = 
   | 'simple_qa'      // Simple questions, quick responses
@@ -161,6 +210,40 @@ export interface FallbackConfig {
   fallbacks: string[];  // Model IDs in order of preference
 }
 
+// Token usage reported by a provider
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Response format hint; json_object/json_schema map to each provider's native JSON mode
+export type LLMResponseFormat =
+  | 'text'
+  | 'json_object'
+  | { type: 'json_schema'; name: string; schema: Record<string, unknown> };
+
+// Normalized finish reasons across providers
+export type LLMFinishReason = 'stop' | 'length' | 'content_filter' | 'tool_use' | 'other';
+
+// Normalized streaming delta
+export type LLMStreamDelta =
+  | { type: 'text'; text: string }
+  | ({ type: 'usage' } & LLMUsage)
+  | { type: 'finish'; reason: LLMFinishReason; model: string; provider: string };
+
+// Attribution for llm_usage_ledger rows written by the client
+export interface LLMLedgerContext {
+  userId?: string;
+  organizationId?: string | null;
+  /** cache_embedding = semantic cache lookups and writes (see embed) */
+  taskType?: TaskType | 'cache_embedding';
+}
+
+// Provider streams report the finish reason; the client stamps model/provider
+type ProviderStreamDelta =
+  | Exclude<LLMStreamDelta, { type: 'finish' }>
+  | { type: 'finish'; reason: LLMFinishReason };
+
 // Default fallback chains by task type
 export const FALLBACK_CHAINS: Record<TaskType, FallbackConfig> = {
   simple_qa: {
@@ -189,6 +272,24 @@ export const FALLBACK_CHAINS: Record<TaskType, FallbackConfig> = {
   },
 };
 
+/**
+ * Reorder models by observed health: providers with an open circuit are
+ * dropped (unless that would leave nothing) and degraded models go last.
+ */
+function rankByHealth<T>(items: T[], configOf: (item: T) => ModelConfig | undefined): T[] {
+  const health = getModelHealth();
+  const reachable = items.filter((item) => {
+    const config = configOf(item);
+    return !config || health.canAttemptProvider(config.provider);
+  });
+  const pool = reachable.length > 0 ? reachable : items;
+  const isDegraded = (item: T) => {
+    const config = configOf(item);
+    return config ? health.isDegraded(config.id, config.avgLatencyMs) : false;
+  };
+  return [...pool.filter((item) => !isDegraded(item)), ...pool.filter(isDegraded)];
+}
+
 /**
  * Determine the best model based on task type and optimization preferences
  */
@@ -253,19 +354,31 @@ export function selectModel(options: RoutingOptions = {}): string {
     });
   }
 
+  // Skip open circuits and demote degraded models; observed p50 replaces
+  // the static avgLatencyMs once enough samples exist
+  const health = getModelHealth();
+  candidateModels = rankByHealth(candidateModels, (m) => m);
+  const demoted = (m: ModelConfig) => (health.isDegraded(m.id, m.avgLatencyMs) ? 1 : 0);
+  const latencyOf = (m: ModelConfig) => health.effectiveLatency(m.id, m.avgLatencyMs);
+
   // Apply optimization strategy
   let selectedModel: ModelConfig | null = null;
 
   if (preferQuality) {
     // Sort by quality (inverse of latency as proxy), take best
-    selectedModel = candidateModels.sort((a, b) => b.avgLatencyMs - a.avgLatencyMs)[0] ?? null;
+    selectedModel = candidateModels.sort(
+      (a, b) => demoted(a) - demoted(b) || b.avgLatencyMs - a.avgLatencyMs
+    )[0] ?? null;
   } else if (preferSpeed || taskType === 'simple_qa') {
     // Sort by latency (fastest first)
-    selectedModel = candidateModels.sort((a, b) => a.avgLatencyMs - b.avgLatencyMs)[0] ?? null;
+    selectedModel = candidateModels.sort(
+      (a, b) => demoted(a) - demoted(b) || latencyOf(a) - latencyOf(b)
+    )[0] ?? null;
   } else if (preferCost) {
     // Sort by total cost (input + output)
     selectedModel = candidateModels.sort(
-      (a, b) => a.costPer1kInput + a.costPer1kOutput - (b.costPer1kInput + b.costPer1kOutput)
+      (a, b) => demoted(a) - demoted(b) ||
+        a.costPer1kInput + a.costPer1kOutput - (b.costPer1kInput + b.costPer1kOutput)
     )[0] ?? null;
   } else {
     // Default: balance of speed and cost (prefer mini/fast models)
@@ -275,10 +388,10 @@ export function selectModel(options: RoutingOptions = {}): string {
   }
 
   // Apply constraints
-  if (maxLatencyMs && selectedModel && selectedModel.avgLatencyMs > maxLatencyMs) {
+  if (maxLatencyMs && selectedModel && latencyOf(selectedModel) > maxLatencyMs) {
     selectedModel = candidateModels
-      .filter((m) => m.avgLatencyMs <= maxLatencyMs)
-      .sort((a, b) => a.avgLatencyMs - b.avgLatencyMs)[0] ?? null;
+      .filter((m) => latencyOf(m) <= maxLatencyMs)
+      .sort((a, b) => latencyOf(a) - latencyOf(b))[0] ?? null;
   }
 
   if (maxCost && selectedModel) {
@@ -294,17 +407,22 @@ export function selectModel(options: RoutingOptions = {}): string {
 }
 
 /**
- * Get the fallback chain for a task
+ * Get the fallback chain for a task, reordered by observed model health
  */
 export function getFallbackChain(taskType: TaskType = 'conversation', primaryModel?: string): string[] {
   const chain = FALLBACK_CHAINS[taskType];
   if (!chain) return ['gpt-4o-mini'];
   
-  if (primaryModel && primaryModel !== chain.primary) {
-    return [primaryModel, ...chain.fallbacks];
-  }
+  const ordered = primaryModel && primaryModel !== chain.primary
+    ? [primaryModel, ...chain.fallbacks]
+    : [chain.primary, ...chain.fallbacks];
+  
+  // Self-hosted models are the last resort in every chain
+  const selfHosted = Object.values(MODEL_CONFIGS)
+    .filter((m) => m.provider === 'openai_compatible' && !ordered.includes(m.id))
+    .map((m) => m.id);
   
-  return [chain.primary, ...chain.fallbacks];
+  return rankByHealth([...ordered, ...selfHosted], (id) => MODEL_CONFIGS[id]);
 }
 
 /**
@@ -370,27 +488,69 @@ export async function saveUserPreferences(prefs: UserLLMPreferences): Promise<Us
   };
 }
 
+/** A customer-supplied provider key (e.g. an organization's own OpenAI key) */
+export interface LLMProviderCredential {
+  apiKey: string;
+  /** Credential row id, written to the ledger for each attempt it serves */
+  id: string;
+}
+
+/** Per-provider keys that replace the platform env keys */
+export type LLMClientCredentials = Partial<Record<'openai' | 'anthropic' | 'google', LLMProviderCredential>>;
+
 /**
  * Unified LLM client that handles all providers
  */
 export class LLMClient {
   private openai: OpenAI | null = null;
+  private openaiCompatible: OpenAI | null = null;
   private anthropic: Anthropic | null = null;
   private google: GoogleGenerativeAI | null = null;
+  private readonly credentialIds: Partial<Record<string, string>> = {};
   
-  constructor() {
-    // Initialize clients based on available API keys
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  constructor(credentials: LLMClientCredentials = {}) {
+    // Supplied credentials win; otherwise use the platform keys from env
+    const openaiKey = credentials.openai?.apiKey ?? process.env.OPENAI_API_KEY;
+    const anthropicKey = credentials.anthropic?.apiKey ?? process.env.ANTHROPIC_API_KEY;
+    const googleKey = credentials.google?.apiKey ?? process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    
+    for (const [provider, credential] of Object.entries(credentials)) {
+      if (credential) this.credentialIds[provider] = credential.id;
+    }
+    
+    if (openaiKey) {
+      this.openai = new OpenAI({ apiKey: openaiKey });
+    }
+    if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+      // Local servers usually ignore the key, but the SDK requires one
+      this.openaiCompatible = new OpenAI({
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      });
     }
-    if (process.env.ANTHROPIC_API_KEY) {
-      this.anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    if (anthropicKey) {
+      this.anthropic = new Anthropic({ apiKey: anthropicKey });
     }
-    if (process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      this.google = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+    if (googleKey) {
+      this.google = new GoogleGenerativeAI(googleKey);
     }
   }
   
+  /**
+   * Id of the supplied credential serving a provider (null = platform key)
+   */
+  credentialFor(provider: string): string | null {
+    return this.credentialIds[provider] ?? null;
+  }
+  
+  /**
+   * Circuit key: a customer key fails independently of the platform key
+   */
+  private circuitKey(provider: string): string {
+    const credentialId = this.credentialIds[provider];
+    return credentialId ? `${provider}:${credentialId}` : provider;
+  }
+  
   /**
    * Check if a provider is available
    */
@@ -398,6 +558,8 @@ export class LLMClient {
     switch (provider) {
       case 'openai':
         return this.openai !== null;
+      case 'openai_compatible':
+        return this.openaiCompatible !== null;
       case 'anthropic':
         return this.anthropic !== null;
       case 'google':
@@ -407,6 +569,47 @@ export class LLMClient {
     }
   }
   
+  /**
+   * Embed text for similarity lookups (OpenAI only), with a ledger row per call.
+   * Returns null when no embedding provider is configured.
+   */
+  async embed(text: string, options: { ledger?: LLMLedgerContext } = {}): Promise<number[] | null> {
+    if (!this.openai) return null;
+    
+    const startedAt = Date.now();
+    let inputTokens = 0;
+    let error: Error | undefined;
+    try {
+      const response = await this.openai.embeddings.create({
+        model: EMBEDDING_MODEL,
+        input: text,
+      });
+      inputTokens = response.usage?.prompt_tokens ?? 0;
+      return response.data[0]?.embedding ?? null;
+    } catch (e) {
+      error = e instanceof Error ? e : new Error(String(e));
+      throw e;
+    } finally {
+      const credentialId = this.credentialFor('openai');
+      await recordLLMUsage({
+        userId: options.ledger?.userId,
+        organizationId: options.ledger?.organizationId,
+        taskType: options.ledger?.taskType,
+        model: EMBEDDING_MODEL,
+        provider: 'openai',
+        status: error ? 'failed' : 'succeeded',
+        inputTokens,
+        outputTokens: 0,
+        // Fractions of a cent; the ledger keeps four decimals
+        costCents: Math.round((inputTokens / 1000) * EMBEDDING_COST_PER_1K * 10_000) / 10_000,
+        latencyMs: Date.now() - startedAt,
+        fallbackPosition: 0,
+        credentialId,
+        error: error?.message,
+      });
+    }
+  }
+  
   /**
    * Execute completion with fallback chain
    */
@@ -417,20 +620,24 @@ export class LLMClient {
       temperature?: number;
       max_tokens?: number;
       fallbackChain?: string[];
+      responseFormat?: LLMResponseFormat;
+      ledger?: LLMLedgerContext;
     } = {}
-  ): Promise<{ text: string; model: string; provider: string; raw: unknown }> {
+  ): Promise<{ text: string; model: string; provider: string; usage: LLMUsage | null; raw: unknown }> {
     const { 
       model: requestedModel, 
       temperature = 0.7, 
       max_tokens = 4096,
-      fallbackChain 
+      fallbackChain,
+      responseFormat = 'text',
+      ledger,
     } = options;
     
     const modelsToTry = fallbackChain ?? [requestedModel ?? selectModel()];
     
     let lastError: Error | null = null;
     
-    for (const modelId of modelsToTry) {
+    for (const [position, modelId] of modelsToTry.entries()) {
       const config = MODEL_CONFIGS[modelId];
       if (!config) {
         console.warn(`Unknown model: ${modelId}, skipping`);
@@ -442,8 +649,16 @@ export class LLMClient {
         continue;
       }
       
+      if (!getModelHealth().canAttemptProvider(this.circuitKey(config.provider))) {
+        console.warn(`Provider ${config.provider} circuit open, skipping ${modelId}`);
+        lastError = lastError ?? new Error(`Provider ${config.provider} circuit open`);
+        continue;
+      }
+      
+      const startedAt = Date.now();
       try {
-        const result = await this.executeCompletion(config, messages, { temperature, max_tokens });
+        const result = await this.executeCompletion(config, messages, { temperature, max_tokens, responseFormat });
+        await this.recordAttempt(ledger, config, position, startedAt, result.usage);
         return {
           ...result,
           model: modelId,
@@ -452,6 +667,7 @@ export class LLMClient {
       } catch (error) {
         console.error(`Model ${modelId} failed:`, error);
         lastError = error instanceof Error ? error : new Error(String(error));
+        await this.recordAttempt(ledger, config, position, startedAt, null, lastError);
         // Continue to next fallback
       }
     }
@@ -460,14 +676,153 @@ export class LLMClient {
     throw lastError ?? new Error('All model fallbacks exhausted');
   }
   
+  /**
+   * Complete into a zod-validated object.
+   * Uses each provider's native structured mode (OpenAI json_schema,
+   * Anthropic forced tool call, Gemini JSON mime type); if the output still
+   * fails validation, the model is shown the issues and asked to repair it.
+   *
+   * With `onText`, the first attempt is streamed and its raw text is passed
+   * on as it arrives. Streams run without native structured mode, so the
+   * prompt must ask for JSON; repair attempts are not streamed.
+   */
+  async completeStructured<T>(
+    messages: Array<{ role: string; content: string }>,
+    schema: z.ZodType<T>,
+    options: {
+      schemaName: string;
+      maxRepairs?: number;
+      model?: string;
+      temperature?: number;
+      max_tokens?: number;
+      fallbackChain?: string[];
+      ledger?: LLMLedgerContext;
+      onText?: (text: string) => void;
+    }
+  ): Promise<{ data: T; text: string; model: string; provider: string; usage: LLMUsage | null; repairs: number; raw: unknown }> {
+    const { schemaName, maxRepairs = 1, onText, ...completeOptions } = options;
+    const responseFormat = jsonSchemaFormat(schemaName, schema);
+    
+    const conversation = [...messages];
+    let usage: LLMUsage | null = null;
+    let lastIssues = '';
+    let lastText = '';
+    
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const result =
+        attempt === 0 && onText
+          ? await this.collectStream(conversation, completeOptions, onText)
+          : await this.complete(conversation, { ...completeOptions, responseFormat });
+      usage = sumUsage(usage, result.usage);
+      
+      const parsed = parseStructuredOutput(result.text, schema);
+      if (parsed.success) {
+        recordStructuredOutcome(schemaName, attempt, true);
+        return { ...result, data: parsed.data, usage, repairs: attempt };
+      }
+      
+      lastIssues = parsed.issues;
+      lastText = result.text;
+      conversation.push(
+        { role: 'assistant', content: result.text || '(empty)' },
+        {
+          role: 'user',
+          content: `That output did not match the required schema:\n${parsed.issues}\n\nReturn only the corrected JSON object.`,
+        }
+      );
+    }
+    
+    recordStructuredOutcome(schemaName, maxRepairs, false);
+    throw new LLMStructuredOutputError(schemaName, lastIssues, lastText);
+  }
+  
+  /**
+   * Run a stream to completion, passing text deltas to `onText`
+   */
+  private async collectStream(
+    messages: Array<{ role: string; content: string }>,
+    options: { model?: string; temperature?: number; max_tokens?: number; fallbackChain?: string[]; ledger?: LLMLedgerContext },
+    onText: (text: string) => void
+  ): Promise<{ text: string; model: string; provider: string; usage: LLMUsage | null; raw: unknown }> {
+    let text = '';
+    let usage: LLMUsage | null = null;
+    let served: { model: string; provider: string } | null = null;
+    
+    for await (const delta of this.stream(messages, options)) {
+      if (delta.type === 'text') {
+        text += delta.text;
+        onText(delta.text);
+      } else if (delta.type === 'usage') {
+        usage = { inputTokens: delta.inputTokens, outputTokens: delta.outputTokens };
+      } else {
+        served = { model: delta.model, provider: delta.provider };
+      }
+    }
+    
+    const model = served?.model ?? options.model ?? options.fallbackChain?.[0] ?? 'unknown';
+    return { text, usage, model, provider: served?.provider ?? MODEL_CONFIGS[model]?.provider ?? 'unknown', raw: null };
+  }
+  
+  /**
+   * Feed one attempt into the health table and the cost ledger (never throws).
+   * An aborted attempt was stopped by the caller; the provider itself served fine.
+   */
+  private async recordAttempt(
+    ledger: LLMLedgerContext | undefined,
+    config: ModelConfig,
+    fallbackPosition: number,
+    startedAt: number,
+    usage: LLMUsage | null,
+    error?: Error,
+    aborted = false
+  ): Promise<void> {
+    try {
+      const latencyMs = Date.now() - startedAt;
+      // Samples from a customer key stay out of the model's platform health, so
+      // one organization's revoked key doesn't degrade the model for everyone
+      const credentialId = this.credentialFor(config.provider);
+      getModelHealth().record(
+        credentialId ? `${config.id}@${credentialId}` : config.id,
+        this.circuitKey(config.provider),
+        error ? (isTimeoutError(error) ? 'timeout' : 'error') : 'success',
+        latencyMs
+      );
+
+      const cost = usage ? estimateCost(config.id, usage.inputTokens, usage.outputTokens) : null;
+      await recordLLMUsage({
+        userId: ledger?.userId,
+        organizationId: ledger?.organizationId,
+        taskType: ledger?.taskType,
+        model: config.id,
+        provider: config.provider,
+        status: error ? 'failed' : aborted ? 'aborted' : 'succeeded',
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        costCents: cost?.totalCost ?? 0,
+        latencyMs,
+        fallbackPosition,
+        credentialId,
+        error: error?.message,
+      });
+    } catch (recordError) {
+      // Bookkeeping must not fail (or retry) an attempt that already ran
+      console.error('[llm-router] failed to record attempt', {
+        model: config.id,
+        errorType: recordError instanceof Error ? recordError.name : 'unknown',
+      });
+    }
+  }
+  
   private async executeCompletion(
     config: ModelConfig,
     messages: Array<{ role: string; content: string }>,
-    options: { temperature: number; max_tokens: number }
-  ): Promise<{ text: string; raw: unknown }> {
+    options: { temperature: number; max_tokens: number; responseFormat: LLMResponseFormat }
+  ): Promise<{ text: string; usage: LLMUsage | null; raw: unknown }> {
     switch (config.provider) {
       case 'openai':
-        return this.executeOpenAI(config.id, messages, options);
+        return this.executeOpenAI(this.openai, config.id, messages, options);
+      case 'openai_compatible':
+        return this.executeOpenAI(this.openaiCompatible, config.providerModel ?? config.id, messages, options);
       case 'anthropic':
         return this.executeAnthropic(config.id, messages, options);
       case 'google':
@@ -478,70 +833,379 @@ export class LLMClient {
   }
   
   private async executeOpenAI(
+    client: OpenAI | null,
     model: string,
     messages: Array<{ role: string; content: string }>,
-    options: { temperature: number; max_tokens: number }
-  ): Promise<{ text: string; raw: unknown }> {
-    if (!this.openai) throw new Error('OpenAI not initialized');
+    options: { temperature: number; max_tokens: number; responseFormat: LLMResponseFormat }
+  ): Promise<{ text: string; usage: LLMUsage | null; raw: unknown }> {
+    if (!client) throw new Error('OpenAI not initialized');
     
-    const completion = await this.openai.chat.completions.create({
+    const completion = await client.chat.completions.create({
       model,
       messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
       temperature: options.temperature,
       max_tokens: options.max_tokens,
+      ...openAIResponseFormat(options.responseFormat),
     });
     
     const text = completion.choices[0]?.message?.content ?? '';
-    return { text, raw: completion };
+    const usage = completion.usage
+      ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+      : null;
+    return { text, usage, raw: completion };
   }
   
   private async executeAnthropic(
     model: string,
     messages: Array<{ role: string; content: string }>,
-    options: { temperature: number; max_tokens: number }
-  ): Promise<{ text: string; raw: unknown }> {
+    options: { temperature: number; max_tokens: number; responseFormat: LLMResponseFormat }
+  ): Promise<{ text: string; usage: LLMUsage | null; raw: unknown }> {
     if (!this.anthropic) throw new Error('Anthropic not initialized');
     
     // Convert messages to Anthropic format
     const systemMessage = messages.find((m) => m.role === 'system');
     const nonSystemMessages = messages.filter((m) => m.role !== 'system');
     
+    // Structured output: force a single tool call whose input is the schema
+    const format = options.responseFormat;
+    const tool = typeof format === 'object'
+      ? {
+          name: format.name,
+          description: `Return the ${format.name} result`,
+          input_schema: format.schema as Anthropic.Messages.Tool.InputSchema,
+        }
+      : null;
+    
     const completion = await this.anthropic.messages.create({
       model,
       system: systemMessage?.content,
       messages: nonSystemMessages as Anthropic.Messages.MessageParam[],
       temperature: options.temperature,
       max_tokens: options.max_tokens,
+      ...(tool ? { tools: [tool], tool_choice: { type: 'tool' as const, name: tool.name } } : {}),
     });
     
-    const text = completion.content[0]?.type === 'text' 
-      ? completion.content[0].text 
-      : '';
-    return { text, raw: completion };
+    const toolUse = completion.content.find((block) => block.type === 'tool_use');
+    const textBlock = completion.content.find((block) => block.type === 'text');
+    const text = toolUse
+      ? JSON.stringify(toolUse.input)
+      : textBlock?.type === 'text' ? textBlock.text : '';
+    const usage = { inputTokens: completion.usage.input_tokens, outputTokens: completion.usage.output_tokens };
+    return { text, usage, raw: completion };
   }
   
   private async executeGoogle(
     model: string,
     messages: Array<{ role: string; content: string }>,
-    _options: { temperature: number; max_tokens: number }
-  ): Promise<{ text: string; raw: unknown }> {
+    options: { temperature: number; max_tokens: number; responseFormat: LLMResponseFormat }
+  ): Promise<{ text: string; usage: LLMUsage | null; raw: unknown }> {
     if (!this.google) throw new Error('Google Generative AI not initialized');
     
     // Use the gemini-2.0-flash or gemini-pro model
     const geminiModel = this.google.getGenerativeModel({ 
-      model: model.includes('flash') ? 'gemini-2.0-flash' : 'gemini-2.0-pro' 
+      model: model.includes('flash') ? 'gemini-2.0-flash' : 'gemini-2.0-pro',
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.max_tokens,
+        ...(options.responseFormat !== 'text' ? { responseMimeType: 'application/json' } : {}),
+      },
     });
     
     // Convert messages to Google format
-    const prompt = messages
+    let prompt = messages
       .map((m) => `${m.role === 'system' ? '' : `${m.role}: `}${m.content}`)
       .join('\n');
     
+    // Gemini's responseSchema only accepts an OpenAPI subset; describe the schema instead
+    if (typeof options.responseFormat === 'object') {
+      prompt += `\n\nRespond with JSON matching this JSON Schema:\n${JSON.stringify(options.responseFormat.schema)}`;
+    }
+    
     const result = await geminiModel.generateContent(prompt);
     const response = result.response;
     const text = response.text();
+    const usage = response.usageMetadata
+      ? { inputTokens: response.usageMetadata.promptTokenCount, outputTokens: response.usageMetadata.candidatesTokenCount }
+      : null;
     
-    return { text, raw: response };
+    return { text, usage, raw: response };
+  }
+
+  /**
+   * Stream completion deltas with fallback chain.
+   * Falls over to the next model only if nothing has been emitted yet;
+   * once a delta has reached the caller, a mid-stream failure is rethrown.
+   */
+  async *stream(
+    messages: Array<{ role: string; content: string }>,
+    options: {
+      model?: string;
+      temperature?: number;
+      max_tokens?: number;
+      fallbackChain?: string[];
+      ledger?: LLMLedgerContext;
+    } = {}
+  ): AsyncGenerator<LLMStreamDelta> {
+    const { 
+      model: requestedModel, 
+      temperature = 0.7, 
+      max_tokens = 4096,
+      fallbackChain,
+      ledger,
+    } = options;
+    
+    const modelsToTry = fallbackChain ?? [requestedModel ?? selectModel()];
+    
+    let lastError: Error | null = null;
+    
+    for (const [position, modelId] of modelsToTry.entries()) {
+      const config = MODEL_CONFIGS[modelId];
+      if (!config) {
+        console.warn(`Unknown model: ${modelId}, skipping`);
+        continue;
+      }
+      
+      if (!this.isProviderAvailable(config.provider)) {
+        console.warn(`Provider ${config.provider} not available, skipping ${modelId}`);
+        continue;
+      }
+      
+      if (!getModelHealth().canAttemptProvider(this.circuitKey(config.provider))) {
+        console.warn(`Provider ${config.provider} circuit open, skipping ${modelId}`);
+        lastError = lastError ?? new Error(`Provider ${config.provider} circuit open`);
+        continue;
+      }
+      
+      let emitted = false;
+      let emittedText = '';
+      let usage: LLMUsage | null = null;
+      let recorded = false;
+      const startedAt = Date.now();
+      try {
+        for await (const delta of this.executeStream(config, messages, { temperature, max_tokens })) {
+          emitted = true;
+          if (delta.type === 'text') {
+            emittedText += delta.text;
+          } else if (delta.type === 'usage') {
+            usage = { inputTokens: delta.inputTokens, outputTokens: delta.outputTokens };
+          }
+          yield delta.type === 'finish'
+            ? { ...delta, model: modelId, provider: config.provider }
+            : delta;
+        }
+        recorded = true;
+        await this.recordAttempt(ledger, config, position, startedAt, usage);
+        return;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        recorded = true;
+        await this.recordAttempt(ledger, config, position, startedAt, usage, err);
+        if (emitted) throw error;
+        console.error(`Model ${modelId} stream failed:`, error);
+        lastError = err;
+        // Continue to next fallback
+      } finally {
+        // The consumer stopped early (client disconnect, discarded suggestion); the tokens were still spent
+        if (!recorded) {
+          await this.recordAttempt(
+            ledger,
+            config,
+            position,
+            startedAt,
+            usage ?? estimateUsage(messages, emittedText),
+            undefined,
+            true
+          );
+        }
+      }
+    }
+    
+    // All fallbacks exhausted
+    throw lastError ?? new Error('All model fallbacks exhausted');
+  }
+  
+  private executeStream(
+    config: ModelConfig,
+    messages: Array<{ role: string; content: string }>,
+    options: { temperature: number; max_tokens: number }
+  ): AsyncGenerator<ProviderStreamDelta> {
+    switch (config.provider) {
+      case 'openai':
+        return this.streamOpenAI(this.openai, config.id, messages, options);
+      case 'openai_compatible':
+        return this.streamOpenAI(this.openaiCompatible, config.providerModel ?? config.id, messages, options);
+      case 'anthropic':
+        return this.streamAnthropic(config.id, messages, options);
+      case 'google':
+        return this.streamGoogle(config.id, messages, options);
+      default:
+        throw new Error(`Unsupported provider: ${config.provider}`);
+    }
+  }
+  
+  private async *streamOpenAI(
+    client: OpenAI | null,
+    model: string,
+    messages: Array<{ role: string; content: string }>,
+    options: { temperature: number; max_tokens: number }
+  ): AsyncGenerator<ProviderStreamDelta> {
+    if (!client) throw new Error('OpenAI not initialized');
+    
+    const stream = await client.chat.completions.create({
+      model,
+      messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+      temperature: options.temperature,
+      max_tokens: options.max_tokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    
+    let finishReason: LLMFinishReason = 'stop';
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      if (choice?.delta?.content) {
+        yield { type: 'text', text: choice.delta.content };
+      }
+      if (choice?.finish_reason) {
+        finishReason = normalizeFinishReason(choice.finish_reason);
+      }
+      // With include_usage, the final chunk carries usage and no choices
+      if (chunk.usage) {
+        yield {
+          type: 'usage',
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+        };
+      }
+    }
+    
+    yield { type: 'finish', reason: finishReason };
+  }
+  
+  private async *streamAnthropic(
+    model: string,
+    messages: Array<{ role: string; content: string }>,
+    options: { temperature: number; max_tokens: number }
+  ): AsyncGenerator<ProviderStreamDelta> {
+    if (!this.anthropic) throw new Error('Anthropic not initialized');
+    
+    // Convert messages to Anthropic format
+    const systemMessage = messages.find((m) => m.role === 'system');
+    const nonSystemMessages = messages.filter((m) => m.role !== 'system');
+    
+    const stream = await this.anthropic.messages.create({
+      model,
+      system: systemMessage?.content,
+      messages: nonSystemMessages as Anthropic.Messages.MessageParam[],
+      temperature: options.temperature,
+      max_tokens: options.max_tokens,
+      stream: true,
+    });
+    
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let finishReason: LLMFinishReason = 'stop';
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message.usage.input_tokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            yield { type: 'text', text: event.delta.text };
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage.output_tokens;
+          if (event.delta.stop_reason) {
+            finishReason = normalizeFinishReason(event.delta.stop_reason);
+          }
+          break;
+      }
+    }
+    
+    // Anthropic reports usage in two halves; emit once after content
+    yield { type: 'usage', inputTokens, outputTokens };
+    yield { type: 'finish', reason: finishReason };
+  }
+  
+  private async *streamGoogle(
+    model: string,
+    messages: Array<{ role: string; content: string }>,
+    options: { temperature: number; max_tokens: number }
+  ): AsyncGenerator<ProviderStreamDelta> {
+    if (!this.google) throw new Error('Google Generative AI not initialized');
+    
+    const geminiModel = this.google.getGenerativeModel({ 
+      model: model.includes('flash') ? 'gemini-2.0-flash' : 'gemini-2.0-pro',
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.max_tokens,
+      },
+    });
+    
+    // Convert messages to Google format
+    const prompt = messages
+      .map((m) => `${m.role === 'system' ? '' : `${m.role}: `}${m.content}`)
+      .join('\n');
+    
+    const result = await geminiModel.generateContentStream(prompt);
+    
+    let usage: LLMUsage | null = null;
+    let finishReason: LLMFinishReason = 'stop';
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield { type: 'text', text };
+      }
+      const reason = chunk.candidates?.[0]?.finishReason;
+      if (reason) {
+        finishReason = normalizeFinishReason(reason);
+      }
+      // Gemini repeats cumulative usage on every chunk; keep the latest
+      if (chunk.usageMetadata) {
+        usage = {
+          inputTokens: chunk.usageMetadata.promptTokenCount,
+          outputTokens: chunk.usageMetadata.candidatesTokenCount,
+        };
+      }
+    }
+    
+    if (usage) {
+      yield { type: 'usage', ...usage };
+    }
+    yield { type: 'finish', reason: finishReason };
+  }
+}
+
+/**
+ * Map provider-specific finish/stop reasons onto a common set
+ */
+function normalizeFinishReason(reason: string): LLMFinishReason {
+  switch (reason) {
+    case 'stop':
+    case 'end_turn':
+    case 'stop_sequence':
+    case 'STOP':
+      return 'stop';
+    case 'length':
+    case 'max_tokens':
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'content_filter':
+    case 'refusal':
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    case 'tool_calls':
+    case 'function_call':
+    case 'tool_use':
+      return 'tool_use';
+    default:
+      return 'other';
   }
 }
 
@@ -627,6 +1291,116 @@ export function detectTaskType(
   return 'conversation';
 }
 
+// ---------------------------------------------------------------------------
+// Structured output
+// ---------------------------------------------------------------------------
+
+export class LLMStructuredOutputError extends Error {
+  constructor(
+    public readonly schemaName: string,
+    public readonly issues: string,
+    public readonly lastText: string
+  ) {
+    super(`LLM output failed ${schemaName} validation: ${issues}`);
+    this.name = 'LLMStructuredOutputError';
+  }
+}
+
+export interface StructuredOutputStats {
+  requests: number;
+  /** Requests that needed at least one repair round */
+  repaired: number;
+  /** Requests that still failed validation after all repairs */
+  failed: number;
+}
+
+const structuredOutputStats = new Map<string, StructuredOutputStats>();
+
+function recordStructuredOutcome(schemaName: string, repairs: number, ok: boolean): void {
+  const stats = structuredOutputStats.get(schemaName) ?? { requests: 0, repaired: 0, failed: 0 };
+  stats.requests += 1;
+  if (repairs > 0) stats.repaired += 1;
+  if (!ok) stats.failed += 1;
+  structuredOutputStats.set(schemaName, stats);
+  
+  if (repairs > 0 || !ok) {
+    console.warn('[llm-structured] repair needed', { schemaName, repairs, ok });
+  }
+}
+
+/**
+ * Per-schema repair/failure counts since process start
+ */
+export function getStructuredOutputStats(): Record<string, StructuredOutputStats & { repairRate: number }> {
+  const out: Record<string, StructuredOutputStats & { repairRate: number }> = {};
+  for (const [name, stats] of structuredOutputStats) {
+    out[name] = { ...stats, repairRate: stats.requests > 0 ? stats.repaired / stats.requests : 0 };
+  }
+  return out;
+}
+
+export function resetStructuredOutputStats(): void {
+  structuredOutputStats.clear();
+}
+
+// Rough token count (~4 characters per token) for streams stopped before the provider reported usage
+function estimateUsage(messages: Array<{ role: string; content: string }>, outputText: string): LLMUsage {
+  const inputChars = messages.reduce((sum, message) => sum + message.content.length, 0);
+  return { inputTokens: Math.ceil(inputChars / 4), outputTokens: Math.ceil(outputText.length / 4) };
+}
+
+function sumUsage(a: LLMUsage | null, b: LLMUsage | null): LLMUsage | null {
+  if (!a || !b) return a ?? b;
+  return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+function jsonSchemaFormat(name: string, schema: z.ZodType): LLMResponseFormat {
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return { type: 'json_schema', name, schema: jsonSchema };
+}
+
+function openAIResponseFormat(format: LLMResponseFormat) {
+  if (format === 'json_object') {
+    return { response_format: { type: 'json_object' as const } };
+  }
+  if (typeof format === 'object') {
+    return {
+      response_format: {
+        type: 'json_schema' as const,
+        json_schema: { name: format.name, schema: format.schema, strict: false },
+      },
+    };
+  }
+  return {};
+}
+
+/**
+ * Parse model output as JSON (tolerating a markdown fence) and validate it
+ */
+export function parseStructuredOutput<T>(
+  text: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; issues: string } {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  
+  let candidate: unknown;
+  try {
+    candidate = JSON.parse(unfenced);
+  } catch {
+    return { success: false, issues: 'Output is not valid JSON.' };
+  }
+  
+  const result = schema.safeParse(candidate);
+  if (result.success) return { success: true, data: result.data };
+  
+  const issues = result.error.issues
+    .slice(0, 10)
+    .map((issue) => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+  return { success: false, issues };
+}
+
 // Singleton instance
 let llmClient: LLMClient | null = null;
 
@@ -0,0 +1,290 @@
+/**
+ * LLM Task Runner - Single server-side entry point for feature LLM calls
+ *
+ * Copilot suggestions, session summaries and cover letters call this with a
+ * TaskType instead of instantiating provider SDKs directly, so that:
+ * - User llm_settings (preferred model, temperature, max tokens) apply
+ * - The task's fallback chain is used when a provider fails
+ * - Every call returns token usage and an estimated cost
+ * - Monthly plan/organization spend budgets are enforced before the call
+ *   and every attempt is written to the cost ledger
+ * - Repeated prompts are served from the LLM response cache unless the
+ *   request is marked personalized
+ * - Organizations with their own provider keys (BYOK) are served with those
+ *   keys, restricted to their allowed models, and audited per request
+ */
+
+import type { z } from 'zod';
+import { llmProvider } from './env';
+import {
+  MODEL_CONFIGS,
+  estimateCost,
+  getFallbackChain,
+  getUserPreferences,
+  type LLMClient,
+  type LLMLedgerContext,
+  type LLMResponseFormat,
+  type LLMUsage,
+  type TaskType,
+  type UserLLMPreferences,
+} from './llmRouter';
+import {
+  assertWithinBudget,
+  checkLLMBudget,
+  getUserOrganizationId,
+  type BudgetStatus,
+} from './llmBudget';
+import {
+  getLLMCache,
+  llmCacheScope,
+  type CachedLLMResponse,
+  type LLMCacheHit,
+  type LLMCacheOptions,
+  type LLMCacheRequest,
+} from './llmCache';
+import {
+  getLLMClientFor,
+  getOrganizationLLMConfig,
+  logLLMCredentialUse,
+  restrictToAllowedModels,
+  type OrganizationLLMConfig,
+} from './llmCredentials';
+
+export interface LLMTaskRequest {
+  taskType: TaskType;
+  messages: Array<{ role: string; content: string }>;
+  /** User whose llm_settings apply (omit for system tasks) */
+  userId?: string;
+  /** Task default; the user's saved temperature only applies when omitted */
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: LLMResponseFormat;
+  /** Response cache policy; mark user-specific prompts `personalized` */
+  cache?: LLMCacheOptions;
+}
+
+export interface LLMTaskResult {
+  text: string;
+  model: string;
+  provider: string;
+  usage: LLMUsage | null;
+  /** Estimated cost in cents (0 when the provider reports no usage) */
+  costCents: number;
+  /** Index of the serving model in the fallback chain (0 = primary) */
+  fallbackPosition: number;
+  /** Month-to-date budget status before this call ('warn' = nearing the cap) */
+  budgetStatus: BudgetStatus;
+  /** Set when the response came from the cache (no provider call, no cost) */
+  cacheHit: LLMCacheHit | null;
+}
+
+/**
+ * Resolve the ordered model chain for a task.
+ * A valid user-preferred model goes first; if LLM_PROVIDER pins a provider,
+ * its models are tried first and the other providers stay as fallbacks, so
+ * an outage of the pinned provider does not take the task down.
+ */
+export function resolveTaskChain(taskType: TaskType, preferredModel?: string): string[] {
+  const primary = preferredModel && MODEL_CONFIGS[preferredModel] ? preferredModel : undefined;
+  const chain = getFallbackChain(taskType, primary);
+
+  const pinned = llmProvider();
+  if (pinned === 'auto') return chain;
+
+  const isPinned = (id: string) => MODEL_CONFIGS[id]?.provider === pinned;
+  return [...chain.filter(isPinned), ...chain.filter((id) => !isPinned(id))];
+}
+
+async function loadPreferences(userId?: string): Promise<UserLLMPreferences | null> {
+  if (!userId) return null;
+  try {
+    return await getUserPreferences(userId);
+  } catch (error) {
+    // Preferences are an optimization; never fail the task because of them
+    console.warn('[llm-task] failed to load user preferences', {
+      errorType: error instanceof Error ? error.name : 'unknown',
+    });
+    return null;
+  }
+}
+
+export interface StructuredLLMTaskRequest<T> extends Omit<LLMTaskRequest, 'responseFormat'> {
+  schema: z.ZodType<T>;
+  /** Stable name used for the provider schema/tool and repair-rate stats */
+  schemaName: string;
+  /** Repair prompts to try after a validation failure (default 1) */
+  maxRepairs?: number;
+  /** Receive raw output text as it streams (first attempt only; cache hits are not streamed) */
+  onText?: (text: string) => void;
+}
+
+export interface StructuredLLMTaskResult<T> extends LLMTaskResult {
+  data: T;
+  /** Repair rounds needed before the output validated (0 = first try) */
+  repairs: number;
+}
+
+interface PreparedTask {
+  client: LLMClient;
+  organization: OrganizationLLMConfig | null;
+  chain: string[];
+  temperature: number;
+  maxTokens: number;
+  budgetStatus: BudgetStatus;
+  ledger: LLMLedgerContext;
+}
+
+async function prepareTask(request: Omit<LLMTaskRequest, 'messages' | 'responseFormat'>): Promise<PreparedTask> {
+  const organizationId = request.userId ? await getUserOrganizationId(request.userId) : null;
+
+  let budgetStatus: BudgetStatus = 'ok';
+  if (request.userId) {
+    // Throws LLMBudgetExceededError once the user or org hits its monthly cap
+    const budget = await checkLLMBudget(request.userId, organizationId);
+    assertWithinBudget(budget);
+    budgetStatus = budget.status;
+  }
+
+  const prefs = await loadPreferences(request.userId);
+  const organization = organizationId ? await getOrganizationLLMConfig(organizationId) : null;
+
+  return {
+    client: getLLMClientFor(organization),
+    organization,
+    // Throws LLMModelNotAllowedError if the org allows none of the task's models
+    chain: restrictToAllowedModels(resolveTaskChain(request.taskType, prefs?.preferred_model), organization),
+    temperature: request.temperature ?? prefs?.temperature ?? 0.7,
+    maxTokens: request.maxTokens ?? prefs?.max_tokens ?? 4096,
+    budgetStatus,
+    ledger: { userId: request.userId, organizationId, taskType: request.taskType },
+  };
+}
+
+function toTaskResult(
+  task: PreparedTask,
+  completion: { text: string; model: string; provider: string; usage: LLMUsage | null }
+): LLMTaskResult {
+  const cost = completion.usage
+    ? estimateCost(completion.model, completion.usage.inputTokens, completion.usage.outputTokens)
+    : null;
+
+  return {
+    text: completion.text,
+    model: completion.model,
+    provider: completion.provider,
+    usage: completion.usage,
+    costCents: cost?.totalCost ?? 0,
+    fallbackPosition: Math.max(0, task.chain.indexOf(completion.model)),
+    budgetStatus: task.budgetStatus,
+    cacheHit: null,
+  };
+}
+
+function toCacheRequest(request: LLMTaskRequest, task: PreparedTask, format: string): LLMCacheRequest {
+  return {
+    taskType: request.taskType,
+    scope: llmCacheScope(task.ledger),
+    messages: request.messages,
+    model: task.chain[0] ?? 'auto',
+    temperature: task.temperature,
+    maxTokens: task.maxTokens,
+    format,
+    owner: { userId: task.ledger.userId, organizationId: task.ledger.organizationId },
+  };
+}
+
+function fromCache(task: PreparedTask, cached: CachedLLMResponse, hit: LLMCacheHit): LLMTaskResult {
+  return {
+    text: cached.text,
+    model: cached.model,
+    provider: cached.provider,
+    usage: null,
+    costCents: 0,
+    fallbackPosition: Math.max(0, task.chain.indexOf(cached.model)),
+    budgetStatus: task.budgetStatus,
+    cacheHit: hit,
+  };
+}
+
+async function auditCredentialUse(
+  task: PreparedTask,
+  request: Pick<LLMTaskRequest, 'userId' | 'taskType'>,
+  completion: { model: string; provider: string }
+): Promise<void> {
+  if (!task.organization) return;
+  await logLLMCredentialUse({
+    config: task.organization,
+    userId: request.userId,
+    taskType: request.taskType,
+    model: completion.model,
+    provider: completion.provider,
+  });
+}
+
+function formatName(format: LLMResponseFormat | undefined): string {
+  if (!format) return 'text';
+  return typeof format === 'string' ? format : `json_schema:${format.name}`;
+}
+
+/**
+ * Run an LLM task through the multi-provider router
+ */
+export async function runLLMTask(request: LLMTaskRequest): Promise<LLMTaskResult> {
+  const task = await prepareTask(request);
+  const cache = getLLMCache();
+  const cacheRequest = toCacheRequest(request, task, formatName(request.responseFormat));
+
+  const cached = await cache.lookup(cacheRequest, request.cache);
+  if (cached.hit && cached.response) return fromCache(task, cached.response, cached.hit);
+
+  const completion = await task.client.complete(request.messages, {
+    fallbackChain: task.chain,
+    temperature: task.temperature,
+    max_tokens: task.maxTokens,
+    responseFormat: request.responseFormat,
+    ledger: task.ledger,
+  });
+
+  await cache.store(
+    cacheRequest,
+    { text: completion.text, model: completion.model, provider: completion.provider },
+    request.cache
+  );
+  await auditCredentialUse(task, request, completion);
+  return toTaskResult(task, completion);
+}
+
+/**
+ * Run an LLM task whose output must validate against a zod schema.
+ * Throws LLMStructuredOutputError if the output never validates.
+ */
+export async function runStructuredLLMTask<T>(request: StructuredLLMTaskRequest<T>): Promise<StructuredLLMTaskResult<T>> {
+  const task = await prepareTask(request);
+  const cache = getLLMCache();
+  const cacheRequest = toCacheRequest(request, task, `schema:${request.schemaName}`);
+
+  const cached = await cache.lookup(cacheRequest, request.cache);
+  if (cached.hit && cached.response) {
+    // Re-validate: the schema may have changed since the entry was written
+    const parsed = request.schema.safeParse(cached.response.data);
+    if (parsed.success) return { ...fromCache(task, cached.response, cached.hit), data: parsed.data, repairs: 0 };
+  }
+
+  const completion = await task.client.completeStructured(request.messages, request.schema, {
+    schemaName: request.schemaName,
+    maxRepairs: request.maxRepairs,
+    fallbackChain: task.chain,
+    temperature: task.temperature,
+    max_tokens: task.maxTokens,
+    ledger: task.ledger,
+    ...(request.onText ? { onText: request.onText } : {}),
+  });
+
+  await cache.store(
+    cacheRequest,
+    { text: completion.text, model: completion.model, provider: completion.provider, data: completion.data },
+    request.cache
+  );
+  await auditCredentialUse(task, request, completion);
+  return { ...toTaskResult(task, completion), data: completion.data, repairs: completion.repairs };
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { describeSpeechMetrics, type SpeechMetrics } from '@/lib/speechMetrics';
 
 const ReportDimensionSchema = z.object({
   score: z.number().min(1).max(5),
@@ -6,8 +7,10 @@ const ReportDimensionSchema = z.object({
   recommendation: z.string().default(''),
 });
 
+export const RUBRIC_DIMENSIONS = ['clarity', 'confidence', 'relevance', 'structure'] as const;
+
 // PRD-aligned rubric: clarity, confidence, relevance, structure
-const RubricSchema = z.object({
+export const MockInterviewRubricSchema = z.object({
   clarity: ReportDimensionSchema,
   confidence: ReportDimensionSchema,
   relevance: ReportDimensionSchema,
@@ -23,10 +26,11 @@ export const MockInterviewReportSchema = z.object({
   strengths: z.array(z.string()).default([]),
   weaknesses: z.array(z.string()).default([]),
   next_steps: z.array(z.string()).default([]),
-  rubric: RubricSchema,
+  rubric: MockInterviewRubricSchema,
 });
 
 export type MockInterviewReport = z.infer<typeof MockInterviewReportSchema>;
+export type MockInterviewRubric = z.infer<typeof MockInterviewRubricSchema>;
 
 function clampScore(value: unknown) {
   if (typeof value !== 'number' || Number.isNaN(value)) return 3;
@@ -109,10 +113,23 @@ export function fallbackMockInterviewReport(mode: string): MockInterviewReport {
   return report;
 }
 
+/**
+ * Rubric with every dimension present and scores clamped to 1-5; missing
+ * fields come from `fallback`
+ */
+export function normalizeMockInterviewRubric(input: unknown, fallback: MockInterviewRubric): MockInterviewRubric {
+  const maybeRubric = (typeof input === 'object' && input ? input : {}) as Record<string, unknown>;
+  return {
+    clarity: normalizeDimension(maybeRubric.clarity, fallback.clarity),
+    confidence: normalizeDimension(maybeRubric.confidence, fallback.confidence),
+    relevance: normalizeDimension(maybeRubric.relevance, fallback.relevance),
+    structure: normalizeDimension(maybeRubric.structure, fallback.structure),
+  };
+}
+
 export function normalizeMockInterviewReport(input: unknown, mode: string): MockInterviewReport {
   const base = fallbackMockInterviewReport(mode);
   const maybe = (typeof input === 'object' && input ? input : {}) as Record<string, unknown>;
-  const maybeRubric = (typeof maybe.rubric === 'object' && maybe.rubric ? maybe.rubric : {}) as Record<string, unknown>;
 
   const strengths = ensureMinimumItems(normalizeStringList(maybe.strengths), base.strengths, 3);
   const weaknesses = ensureMinimumItems(normalizeStringList(maybe.weaknesses), base.weaknesses, 3);
@@ -138,17 +155,45 @@ export function normalizeMockInterviewReport(input: unknown, mode: string): Mock
     strengths,
     weaknesses,
     next_steps: nextSteps,
-    rubric: {
-      clarity: normalizeDimension(maybeRubric.clarity, base.rubric.clarity),
-      confidence: normalizeDimension(maybeRubric.confidence, base.rubric.confidence),
-      relevance: normalizeDimension(maybeRubric.relevance, base.rubric.relevance),
-      structure: normalizeDimension(maybeRubric.structure, base.rubric.structure),
-    },
+    rubric: normalizeMockInterviewRubric(maybe.rubric, base.rubric),
   };
 
   return MockInterviewReportSchema.parse(normalized);
 }
 
+export type InterviewQA = {
+  question_text: string;
+  response_text?: string | null;
+  question_type?: string | null;
+  difficulty?: string | null;
+  /** Per-answer scores (answer_scoring), when the answer has been scored */
+  evaluation?: { rubric?: Partial<MockInterviewRubric>; delivery?: SpeechMetrics } | null;
+};
+
+function formatAnswerScores(evaluation: InterviewQA['evaluation']): string | null {
+  const rubric = evaluation?.rubric;
+  if (!rubric) return null;
+  const scores = RUBRIC_DIMENSIONS.filter((dimension) => typeof rubric[dimension]?.score === 'number').map(
+    (dimension) => `${dimension} ${rubric[dimension]?.score}/5`
+  );
+  return scores.length ? scores.join(', ') : null;
+}
+
+// Q&A block fed to the interview_report prompt
+export function formatInterviewQA(questions: InterviewQA[]): string {
+  return questions
+    .map((q, i) => {
+      const difficulty = q.difficulty || 'medium';
+      const type = q.question_type || 'general';
+      const scores = formatAnswerScores(q.evaluation);
+      const delivery = q.evaluation?.delivery;
+      return `Q${i + 1} [${type}, ${difficulty}]: ${q.question_text}\nA: ${q.response_text || '(no response)'}${
+        scores ? `\nAnswer scores: ${scores}` : ''
+      }${delivery ? `\nSpoken delivery: ${describeSpeechMetrics(delivery)}` : ''}`;
+    })
+    .join('\n\n');
+}
+
 export function reportToLegacyPayload(report: MockInterviewReport) {
   return {
     mode: report.mode,
@@ -0,0 +1,578 @@
+/**
+ * Mock interviewer
+ *
+ * Generates the interviewer's side of a mock interview: the opening
+ * question, follow-up probes, the next question and the wrap-up. The
+ * question plan is the session's interview_questions; when it runs out the
+ * adaptive planner adds the next question from the question bank, and
+ * failing that the question the interviewer writes itself is added as it
+ * is asked. Role, seniority and interview type come from
+ * interview_sessions.meta.
+ *
+ * Turn state is derived from the stored messages. Every interviewer
+ * message records its action and question in meta, so each turn knows
+ * where the interview stands whichever request produced the last one.
+ */
+
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+import { renderPrompt, type RenderedPrompt } from '@/lib/promptRegistry';
+import { runStructuredLLMTask } from '@/lib/llmTaskRunner';
+import { LLMBudgetExceededError } from '@/lib/llmBudget';
+import { createJsonStringFieldExtractor } from '@/lib/copilotSuggestion';
+import { sanitizeCopilotText } from '@/lib/copilotSecurity';
+import { planNextQuestion, sessionQuestionCount } from '@/lib/questionPlanner';
+import { tryScoreAnswer } from '@/lib/answerScoring';
+import { combineSpeechMetrics, parseSpeechMetrics, type SpeechMetrics } from '@/lib/speechMetrics';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+export const INTERVIEWER_ACTIONS = ['follow_up', 'next_question', 'wrap_up'] as const;
+
+export type InterviewerAction = (typeof INTERVIEWER_ACTIONS)[number];
+
+// Model output contract
+export const InterviewerTurnSchema = z.object({
+  action: z.enum(INTERVIEWER_ACTIONS),
+  message: z.string().trim().min(1),
+});
+
+export type InterviewerTurnOutput = z.infer<typeof InterviewerTurnSchema>;
+
+/** Follow-up probes allowed on one question before moving on */
+export const MAX_FOLLOW_UPS = 2;
+
+const MAX_TRANSCRIPT_MESSAGES = 24;
+const MAX_MESSAGE_CHARS = 1500;
+const QUESTION_TYPES = ['behavioral', 'technical', 'situational', 'general'] as const;
+
+export const INTERVIEW_MESSAGE_COLUMNS = 'id, role, content, meta, created_at';
+
+export interface InterviewMessage {
+  id: string;
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  meta?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface PlannedQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  difficulty: string;
+  order_index: number;
+  /** Bank rubric (competencies, sample answer, hints) used to score the answer */
+  rubric?: Record<string, unknown> | null;
+}
+
+export interface InterviewPlan {
+  role: string;
+  seniority: string;
+  mode: string;
+  questions: PlannedQuestion[];
+  /** Main questions to ask before wrapping up */
+  questionCount: number;
+}
+
+export interface InterviewerState {
+  /** Main questions asked so far (follow-ups excluded) */
+  questionsAsked: number;
+  /** Follow-ups asked on the current question */
+  followUps: number;
+  /** Plan question currently being answered */
+  currentQuestionId: string | null;
+  wrappedUp: boolean;
+  /** The interviewer spoke last and the candidate has not answered yet */
+  awaitingAnswer: boolean;
+  allowed: InterviewerAction[];
+  /** First plan question not asked yet */
+  nextQuestion: PlannedQuestion | null;
+}
+
+/** Stored in interview_session_messages.meta for interviewer turns */
+export interface InterviewerTurnMeta {
+  action: InterviewerAction;
+  question_id: string | null;
+  prompt_id: string;
+  prompt_version: string;
+  model: string;
+}
+
+export interface InterviewSessionRow {
+  id: string;
+  title?: string | null;
+  status?: string | null;
+  meta?: Record<string, unknown> | null;
+}
+
+export interface InterviewerTurnResult {
+  message: InterviewMessage;
+  action: InterviewerAction;
+  /** Scores the answer the interviewer moved on from; run once the reply has been sent */
+  settle: () => Promise<void>;
+}
+
+export class InterviewerTurnError extends Error {
+  constructor(public readonly code: 'interview_completed' | 'awaiting_answer') {
+    super(code === 'interview_completed' ? 'The interview has been wrapped up' : 'Waiting for the candidate to answer');
+    this.name = 'InterviewerTurnError';
+  }
+}
+
+function metaText(meta: Record<string, unknown> | null | undefined, key: string): string | null {
+  const value = meta?.[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function clip(text: string, max = MAX_MESSAGE_CHARS) {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function turnAction(message: InterviewMessage): InterviewerAction {
+  const action = message.meta?.action;
+  // Interviewer messages written before turn tracking count as questions
+  return INTERVIEWER_ACTIONS.includes(action as InterviewerAction) ? (action as InterviewerAction) : 'next_question';
+}
+
+export function planFromSession(session: InterviewSessionRow, questions: PlannedQuestion[]): InterviewPlan {
+  return {
+    role: metaText(session.meta, 'role') ?? 'Not specified',
+    seniority: metaText(session.meta, 'seniority') ?? 'Not specified',
+    mode: metaText(session.meta, 'mode') ?? 'general',
+    questions,
+    questionCount: sessionQuestionCount(session.meta, questions.length),
+  };
+}
+
+/**
+ * Where the interview stands and which actions the next turn may take
+ */
+export function interviewerState(plan: InterviewPlan, messages: InterviewMessage[]): InterviewerState {
+  const asked = new Set<string>();
+  let questionsAsked = 0;
+  let followUps = 0;
+  let currentQuestionId: string | null = null;
+  let wrappedUp = false;
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+    const action = turnAction(message);
+    if (action === 'wrap_up') {
+      wrappedUp = true;
+    } else if (action === 'follow_up') {
+      followUps += 1;
+    } else {
+      questionsAsked += 1;
+      followUps = 0;
+      currentQuestionId = typeof message.meta?.question_id === 'string' ? message.meta.question_id : null;
+      if (currentQuestionId) asked.add(currentQuestionId);
+    }
+  }
+
+  const spoken = messages.filter((message) => message.role !== 'system');
+  const awaitingAnswer = questionsAsked > 0 && spoken[spoken.length - 1]?.role === 'assistant';
+
+  const allowed: InterviewerAction[] = [];
+  if (!wrappedUp) {
+    if (questionsAsked === 0) {
+      allowed.push('next_question');
+    } else {
+      if (followUps < MAX_FOLLOW_UPS) allowed.push('follow_up');
+      allowed.push(questionsAsked < plan.questionCount ? 'next_question' : 'wrap_up');
+    }
+  }
+
+  return {
+    questionsAsked,
+    followUps,
+    currentQuestionId,
+    wrappedUp,
+    awaitingAnswer,
+    allowed,
+    nextQuestion: plan.questions.find((question) => !asked.has(question.id)) ?? null,
+  };
+}
+
+/**
+ * Keep the model's action if allowed; otherwise move on (next question, or
+ * the wrap-up once the plan is done). The message is kept as written.
+ */
+export function normalizeInterviewerTurn(output: InterviewerTurnOutput, state: InterviewerState): InterviewerTurnOutput {
+  if (state.allowed.includes(output.action)) return output;
+  const action = state.allowed.includes('next_question') ? 'next_question' : state.allowed[state.allowed.length - 1];
+  return { ...output, action: action ?? 'wrap_up' };
+}
+
+// Candidate messages since the current question was asked
+function candidateMessagesSinceQuestion(messages: InterviewMessage[]): InterviewMessage[] {
+  let start = 0;
+  messages.forEach((message, index) => {
+    if (message.role === 'assistant' && turnAction(message) === 'next_question') start = index + 1;
+  });
+  return messages.slice(start).filter((message) => message.role === 'user');
+}
+
+/**
+ * Candidate messages since the current question was asked (its follow-ups
+ * included), i.e. the answer to record on the plan question
+ */
+export function candidateAnswerSinceQuestion(messages: InterviewMessage[]): string {
+  return candidateMessagesSinceQuestion(messages)
+    .map((message) => message.content.trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Delivery metrics for the current answer when it was spoken (voice mode
+ * stores them in message meta.speech); null for typed answers
+ */
+export function candidateSpeechSinceQuestion(messages: InterviewMessage[]): SpeechMetrics | null {
+  return combineSpeechMetrics(
+    candidateMessagesSinceQuestion(messages)
+      .map((message) => parseSpeechMetrics(message.meta?.speech))
+      .filter((metrics): metrics is SpeechMetrics => metrics !== null)
+  );
+}
+
+/**
+ * Delivery metrics of each spoken answer, keyed by the question it answers
+ * (follow-ups included); typed answers have no entry
+ */
+export function candidateSpeechByQuestion(messages: InterviewMessage[]): Map<string, SpeechMetrics> {
+  const byQuestion = new Map<string, SpeechMetrics[]>();
+  let questionId: string | null = null;
+
+  for (const message of messages) {
+    if (message.role === 'assistant') {
+      // Follow-ups stay on the question they probe
+      const action = turnAction(message);
+      if (action === 'wrap_up') questionId = null;
+      else if (action === 'next_question') {
+        questionId = typeof message.meta?.question_id === 'string' ? message.meta.question_id : null;
+      }
+      continue;
+    }
+    const metrics = message.role === 'user' && questionId ? parseSpeechMetrics(message.meta?.speech) : null;
+    if (metrics && questionId) byQuestion.set(questionId, [...(byQuestion.get(questionId) ?? []), metrics]);
+  }
+
+  const combined = new Map<string, SpeechMetrics>();
+  for (const [id, metrics] of byQuestion) {
+    const delivery = combineSpeechMetrics(metrics);
+    if (delivery) combined.set(id, delivery);
+  }
+  return combined;
+}
+
+function formatTranscript(messages: InterviewMessage[]): string {
+  const lines = messages
+    .filter((message) => message.role !== 'system')
+    .slice(-MAX_TRANSCRIPT_MESSAGES)
+    .map((message) =>
+      message.role === 'assistant'
+        ? `Interviewer: ${clip(message.content)}`
+        : `Candidate: ${clip(sanitizeCopilotText(message.content).sanitized)}`
+    );
+  return lines.length ? lines.join('\n') : '(no conversation yet)';
+}
+
+export function renderInterviewerPrompt(
+  plan: InterviewPlan,
+  state: InterviewerState,
+  messages: InterviewMessage[],
+  options: { version?: string; bucketKey?: string } = {}
+): RenderedPrompt {
+  const askedQuestions = messages
+    .filter((message) => message.role === 'assistant' && turnAction(message) === 'next_question')
+    .map((message, index) => `${index + 1}. ${clip(message.content, 300)}`);
+
+  const nextQuestion = state.nextQuestion
+    ? `${state.nextQuestion.question_text} [${state.nextQuestion.question_type}, ${state.nextQuestion.difficulty}]`
+    : state.allowed.includes('next_question')
+      ? '(none planned; write one)'
+      : '(none)';
+
+  return renderPrompt(
+    'mock_interviewer',
+    {
+      role: plan.role,
+      seniority: plan.seniority,
+      mode: plan.mode,
+      progress:
+        state.questionsAsked === 0
+          ? `Not started; ${plan.questionCount} questions planned`
+          : `Question ${state.questionsAsked} of ${plan.questionCount}, ${state.followUps} follow-up(s) asked on it`,
+      askedQuestions: askedQuestions.length ? askedQuestions.join('\n') : '(none yet)',
+      nextQuestion,
+      allowedActions: state.allowed.join(', '),
+      transcript: formatTranscript(messages),
+    },
+    options
+  );
+}
+
+async function recordAnswer(
+  supabase: ServerSupabase,
+  questionId: string,
+  messages: InterviewMessage[]
+): Promise<string | null> {
+  const answer = candidateAnswerSinceQuestion(messages);
+  if (!answer) return null;
+
+  const { error } = await supabase
+    .from('interview_questions')
+    .update({ response_text: answer, answered_at: new Date().toISOString() })
+    .eq('id', questionId);
+  if (error) {
+    console.error('[mock-interviewer] failed to record answer', { questionId, code: error.code ?? null });
+    return null;
+  }
+  return answer;
+}
+
+async function scoreRecordedAnswer(
+  supabase: ServerSupabase,
+  plan: InterviewPlan,
+  args: { questionId: string; answer: string; history: InterviewMessage[]; sessionId: string; userId: string }
+): Promise<void> {
+  const question = plan.questions.find((candidate) => candidate.id === args.questionId);
+  if (!question) return;
+
+  await tryScoreAnswer(supabase, {
+    question: { ...question, response_text: args.answer },
+    delivery: candidateSpeechSinceQuestion(args.history),
+    mode: plan.mode,
+    userId: args.userId,
+    sessionId: args.sessionId,
+  });
+}
+
+async function addPlanQuestion(
+  supabase: ServerSupabase,
+  ids: { sessionId: string; userId: string },
+  plan: InterviewPlan,
+  text: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('interview_questions')
+    .insert({
+      session_id: ids.sessionId,
+      user_id: ids.userId,
+      question_text: text,
+      question_type: QUESTION_TYPES.includes(plan.mode as (typeof QUESTION_TYPES)[number]) ? plan.mode : 'general',
+      order_index: plan.questions.reduce((max, question) => Math.max(max, question.order_index + 1), 0),
+    })
+    .select('id')
+    .single<{ id: string }>();
+
+  if (error || !data) {
+    console.error('[mock-interviewer] failed to add question', { sessionId: ids.sessionId, code: error?.code ?? null });
+    return null;
+  }
+  return data.id;
+}
+
+async function updateStatus(supabase: ServerSupabase, session: InterviewSessionRow, action: InterviewerAction) {
+  const status = action === 'wrap_up' ? 'completed' : session.status === 'draft' ? 'in_progress' : null;
+  if (!status) return;
+
+  const { error } = await supabase.from('interview_sessions').update({ status }).eq('id', session.id);
+  if (error) console.error('[mock-interviewer] failed to update status', { sessionId: session.id, code: error.code ?? null });
+}
+
+/**
+ * Generate, store and return the interviewer's next turn. `onText` receives
+ * the message text as it streams. Scoring the answer it moved on from is
+ * left to `settle`, so the reply isn't held back by it. Throws
+ * InterviewerTurnError when it is not the interviewer's turn, and LLM
+ * errors as-is.
+ */
+export async function runInterviewerTurn(
+  supabase: ServerSupabase,
+  args: { session: InterviewSessionRow; userId: string; onText?: (text: string) => void }
+): Promise<InterviewerTurnResult> {
+  const { session, userId } = args;
+
+  const [{ data: messages, error: messagesError }, { data: questions, error: questionsError }] = await Promise.all([
+    supabase
+      .from('interview_session_messages')
+      .select(INTERVIEW_MESSAGE_COLUMNS)
+      .eq('session_id', session.id)
+      .order('created_at', { ascending: true })
+      .returns<InterviewMessage[]>(),
+    supabase
+      .from('interview_questions')
+      .select('id, question_text, question_type, difficulty, order_index, rubric')
+      .eq('session_id', session.id)
+      .order('order_index', { ascending: true })
+      .returns<PlannedQuestion[]>(),
+  ]);
+  if (messagesError) throw messagesError;
+  if (questionsError) throw questionsError;
+
+  const history = messages ?? [];
+  const plan = planFromSession(session, questions ?? []);
+  let state = interviewerState(plan, history);
+  if (state.allowed.length === 0) throw new InterviewerTurnError('interview_completed');
+  if (state.awaitingAnswer) throw new InterviewerTurnError('awaiting_answer');
+
+  // Plan ran out: let the adaptive planner pick the next question from the bank.
+  // It works from the scores so far, so the answer just given is recorded and scored first
+  let answered: string | null = null;
+  let scored = false;
+  if (state.allowed.includes('next_question') && !state.nextQuestion) {
+    if (state.currentQuestionId) {
+      answered = await recordAnswer(supabase, state.currentQuestionId, history);
+      if (answered) {
+        await scoreRecordedAnswer(supabase, plan, {
+          questionId: state.currentQuestionId,
+          answer: answered,
+          history,
+          sessionId: session.id,
+          userId,
+        });
+        scored = true;
+      }
+    }
+    const planned = await planNextQuestion(supabase, { session, userId });
+    if (planned) {
+      plan.questions.push(planned);
+      state = { ...state, nextQuestion: planned };
+    }
+  }
+
+  const prompt = renderInterviewerPrompt(plan, state, history, { bucketKey: session.id });
+  const extractor = createJsonStringFieldExtractor('message');
+  const onText = args.onText;
+
+  const completion = await runStructuredLLMTask({
+    taskType: prompt.taskType,
+    userId,
+    temperature: 0.6,
+    maxTokens: 400,
+    schema: InterviewerTurnSchema,
+    schemaName: 'mock_interviewer_turn',
+    messages: prompt.messages,
+    cache: { personalized: true },
+    ...(onText
+      ? {
+          onText: (chunk: string) => {
+            const text = extractor.push(chunk);
+            if (text) onText(text);
+          },
+        }
+      : {}),
+  });
+
+  const turn = normalizeInterviewerTurn(completion.data, state);
+
+  if (!answered && turn.action !== 'follow_up' && state.currentQuestionId) {
+    answered = await recordAnswer(supabase, state.currentQuestionId, history);
+  }
+
+  let questionId = state.currentQuestionId;
+  if (turn.action === 'next_question') {
+    questionId =
+      state.nextQuestion?.id ?? (await addPlanQuestion(supabase, { sessionId: session.id, userId }, plan, turn.message));
+  } else if (turn.action === 'wrap_up') {
+    questionId = null;
+  }
+
+  const meta: InterviewerTurnMeta = {
+    action: turn.action,
+    question_id: questionId,
+    prompt_id: prompt.promptId,
+    prompt_version: prompt.promptVersion,
+    model: completion.model,
+  };
+
+  const { data: stored, error } = await supabase
+    .from('interview_session_messages')
+    .insert({ session_id: session.id, user_id: userId, role: 'assistant', content: turn.message, meta })
+    .select(INTERVIEW_MESSAGE_COLUMNS)
+    .single<InterviewMessage>();
+  if (error || !stored) throw error ?? new Error('Failed to store interviewer message');
+
+  await updateStatus(supabase, session, turn.action);
+
+  // Score the answer the interviewer just moved on from, unless the planner already needed it
+  const answeredQuestionId = state.currentQuestionId;
+  const settle = async () => {
+    if (!answered || scored || !answeredQuestionId) return;
+    await scoreRecordedAnswer(supabase, plan, {
+      questionId: answeredQuestionId,
+      answer: answered,
+      history,
+      sessionId: session.id,
+      userId,
+    });
+  };
+
+  return { message: stored, action: turn.action, settle };
+}
+
+/**
+ * Status and error code for a failed turn
+ */
+export function interviewerTurnFailure(error: unknown): { status: number; error: string } {
+  if (error instanceof InterviewerTurnError) return { status: 409, error: error.code };
+  if (error instanceof LLMBudgetExceededError) return { status: 403, error: 'llm_budget_exceeded' };
+  return { status: 502, error: 'interviewer_unavailable' };
+}
+
+function sse(event: string, payload: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify({ type: event, payload })}\n\n`;
+}
+
+/**
+ * SSE body for a turn: `lead` events first, then `delta` events with the
+ * interviewer's text as it streams, and `done` with the stored message (or
+ * `error`). The turn is still stored if the client disconnects, and the
+ * answer is scored after `done`.
+ */
+export function streamInterviewerTurn(
+  run: (onText: (text: string) => void) => Promise<InterviewerTurnResult>,
+  lead: Array<[event: string, payload: unknown]> = []
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Writes after a disconnect are dropped instead of failing the turn
+      const send = (event: string, payload: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(sse(event, payload)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      for (const [event, payload] of lead) send(event, payload);
+
+      try {
+        const result = await run((text) => send('delta', { text }));
+        send('done', { message: result.message, action: result.action });
+        await result.settle();
+      } catch (error) {
+        const failure = interviewerTurnFailure(error);
+        if (failure.status >= 500) {
+          console.error('[mock-interviewer] turn failed', {
+            errorType: error instanceof Error ? error.name : 'unknown',
+          });
+        }
+        send('error', { error: failure.error });
+      }
+
+      if (closed) return;
+      closed = true;
+      controller.close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
@@ -18,6 +18,13 @@ export interface Organization {
   sso_provider: 'saml' | 'oidc' | null;
   sso_config: Record<string, unknown>;
   settings: Record<string, unknown>;
+  /** Monthly LLM spend cap for all members in cents (null = unlimited) */
+  llm_budget_cents_monthly?: number | null;
+  llm_budget_warn_pct?: number;
+  /** Models members may use (null = all) */
+  llm_allowed_models?: string[] | null;
+  /** With organization keys, also use platform keys for other providers */
+  llm_platform_fallback?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,189 @@
+/**
+ * Prompt Template Registry
+ *
+ * - Versioned prompt templates (id, version, variables, target task type)
+ * - `{{variable}}` rendering with strict variable checks
+ * - A/B traffic split between versions, sticky per bucket key (e.g. session id)
+ *
+ * Callers record the rendered { promptId, promptVersion } next to whatever
+ * the prompt produced so outcomes can be compared per version.
+ */
+
+import type { TaskType } from './llmRouter';
+import { COPILOT_SUGGESTION_PROMPTS } from './prompts/copilotSuggestion';
+import { COPILOT_SUMMARY_PROMPTS } from './prompts/copilotSummary';
+import { INTERVIEW_REPORT_PROMPTS } from './prompts/interviewReport';
+import { COVER_LETTER_PROMPTS } from './prompts/coverLetter';
+import { MOCK_INTERVIEWER_PROMPTS } from './prompts/mockInterviewer';
+import { ANSWER_SCORING_PROMPTS } from './prompts/answerScoring';
+
+export interface PromptMessageTemplate {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  taskType: TaskType;
+  /** Every `{{name}}` placeholder used by the messages */
+  variables: readonly string[];
+  messages: readonly PromptMessageTemplate[];
+  /** Default traffic weight when no PROMPT_SPLITS override exists */
+  weight: number;
+}
+
+export interface RenderedPrompt {
+  promptId: string;
+  promptVersion: string;
+  taskType: TaskType;
+  messages: Array<{ role: 'system' | 'user'; content: string }>;
+}
+
+/** Version -> weight, per prompt id */
+export type PromptSplits = Record<string, Record<string, number>>;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+const registry = new Map<string, PromptTemplate[]>();
+
+/**
+ * Register a template version. Throws if the messages use undeclared variables.
+ */
+export function registerPrompt(template: PromptTemplate): void {
+  const declared = new Set(template.variables);
+  for (const message of template.messages) {
+    for (const match of message.content.matchAll(PLACEHOLDER)) {
+      if (!declared.has(match[1])) {
+        throw new PromptTemplateError(`${template.id}@${template.version} uses undeclared variable "${match[1]}"`);
+      }
+    }
+  }
+
+  const versions = (registry.get(template.id) ?? []).filter((t) => t.version !== template.version);
+  registry.set(template.id, [...versions, template]);
+}
+
+for (const template of [
+  ...COPILOT_SUGGESTION_PROMPTS,
+  ...COPILOT_SUMMARY_PROMPTS,
+  ...INTERVIEW_REPORT_PROMPTS,
+  ...COVER_LETTER_PROMPTS,
+  ...MOCK_INTERVIEWER_PROMPTS,
+  ...ANSWER_SCORING_PROMPTS,
+]) {
+  registerPrompt(template);
+}
+
+export function getPromptTemplate(id: string, version: string): PromptTemplate | undefined {
+  return registry.get(id)?.find((t) => t.version === version);
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return Array.from(registry.values()).flat();
+}
+
+/**
+ * Parse PROMPT_SPLITS, e.g. {"copilot_suggestion":{"v1":50,"v2":50}}.
+ * Invalid JSON is ignored so a bad override never breaks prompting.
+ */
+export function parsePromptSplits(raw: string | undefined): PromptSplits {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (typeof parsed !== 'object' || parsed === null) return {};
+
+    const splits: PromptSplits = {};
+    for (const [id, versions] of Object.entries(parsed as Record<string, unknown>)) {
+      if (typeof versions !== 'object' || versions === null) continue;
+      splits[id] = {};
+      for (const [version, weight] of Object.entries(versions as Record<string, unknown>)) {
+        if (typeof weight === 'number' && weight >= 0) splits[id][version] = weight;
+      }
+    }
+    return splits;
+  } catch {
+    console.warn('[prompts] ignoring invalid PROMPT_SPLITS');
+    return {};
+  }
+}
+
+// FNV-1a: stable, dependency-free bucketing
+function bucketOf(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 10_000 / 10_000;
+}
+
+/**
+ * Pick the version to serve for a prompt id.
+ * The same bucket key always gets the same version for a given split.
+ */
+export function resolvePromptVersion(
+  id: string,
+  bucketKey?: string,
+  splits: PromptSplits = parsePromptSplits(process.env.PROMPT_SPLITS)
+): string {
+  const versions = registry.get(id);
+  if (!versions || versions.length === 0) {
+    throw new PromptTemplateError(`Unknown prompt: ${id}`);
+  }
+
+  const override = splits[id];
+  const weighted = versions
+    .map((t) => ({ version: t.version, weight: override ? override[t.version] ?? 0 : t.weight }))
+    .filter((v) => v.weight > 0);
+
+  // Nothing has traffic: serve the last registered version
+  if (weighted.length === 0) return versions[versions.length - 1].version;
+
+  const total = weighted.reduce((sum, v) => sum + v.weight, 0);
+  const point = (bucketKey !== undefined ? bucketOf(`${id}:${bucketKey}`) : Math.random()) * total;
+
+  let cumulative = 0;
+  for (const v of weighted) {
+    cumulative += v.weight;
+    if (point < cumulative) return v.version;
+  }
+  return weighted[weighted.length - 1].version;
+}
+
+/**
+ * Render a prompt. Pass `version` to pin one, otherwise the split picks it.
+ */
+export function renderPrompt(
+  id: string,
+  variables: Record<string, string>,
+  options: { version?: string; bucketKey?: string } = {}
+): RenderedPrompt {
+  const version = options.version ?? resolvePromptVersion(id, options.bucketKey);
+  const template = getPromptTemplate(id, version);
+  if (!template) {
+    throw new PromptTemplateError(`Unknown prompt version: ${id}@${version}`);
+  }
+
+  const missing = template.variables.filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`${id}@${version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  return {
+    promptId: template.id,
+    promptVersion: template.version,
+    taskType: template.taskType,
+    messages: template.messages.map((message) => ({
+      role: message.role,
+      content: message.content.replace(PLACEHOLDER, (_, name: string) => variables[name]),
+    })),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Copilot live suggestion prompts
+ *
+ * Variables: mode, modeHint, transcriptText, latestQuestion, codingFields, candidateContext
+ * (candidateContext is '' or a leading-blank-line section, so prompts without
+ * a linked resume/job render exactly as before)
+ */
+
+import type { PromptTemplate } from '@/lib/promptRegistry';
+
+const VARIABLES = ['mode', 'modeHint', 'transcriptText', 'latestQuestion', 'codingFields', 'candidateContext'] as const;
+
+const OUTPUT_SHAPE =
+  'Return JSON with this exact shape:\n{\n  "short_answer": "<= 90 words",\n  "talking_points": ["bullet1", "bullet2", "bullet3"],\n  "follow_up": "one short clarifying follow-up user can ask if needed"{{codingFields}}\n}';
+
+export const COPILOT_SUGGESTION_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'copilot_suggestion',
+    version: 'v1',
+    taskType: 'conversation',
+    variables: VARIABLES,
+    weight: 100,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are an interview copilot. Return practical interview guidance only. Never invent user experience details not in context. Keep output concise and immediately usable.',
+      },
+      {
+        role: 'user',
+        content: `Interview mode: {{mode}}\n{{modeHint}}\n\nRecent transcript:\n{{transcriptText}}\n\nLatest interviewer question:\n{{latestQuestion}}{{candidateContext}}\n\n${OUTPUT_SHAPE}`,
+      },
+    ],
+  },
+  {
+    // Leads with the answer's structure before the content; off until given traffic
+    id: 'copilot_suggestion',
+    version: 'v2',
+    taskType: 'conversation',
+    variables: VARIABLES,
+    weight: 0,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are an interview copilot whispering guidance to a candidate mid-interview. Lead with a direct answer the candidate can say out loud, then the points that support it. Only use experience details present in the transcript. Be brief: the candidate reads this while talking.',
+      },
+      {
+        role: 'user',
+        content: `Interview mode: {{mode}}\n{{modeHint}}\n\nLatest interviewer question:\n{{latestQuestion}}\n\nRecent transcript (oldest first):\n{{transcriptText}}{{candidateContext}}\n\nOpen short_answer with a one-sentence direct answer. Order talking_points by importance.\n\n${OUTPUT_SHAPE}`,
+      },
+    ],
+  },
+];
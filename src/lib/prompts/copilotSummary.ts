@@ -0,0 +1,29 @@
+/**
+ * Copilot end-of-session summary prompts
+ *
+ * Variables: mode, transcript
+ */
+
+import type { PromptTemplate } from '@/lib/promptRegistry';
+
+export const COPILOT_SUMMARY_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'copilot_summary',
+    version: 'v1',
+    taskType: 'analysis',
+    variables: ['mode', 'transcript'],
+    weight: 100,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are an interview coach creating final evaluation reports. Be specific, concise, and actionable. Return strict JSON only.',
+      },
+      {
+        role: 'user',
+        content:
+          'Mode: {{mode}}\n\nSession log:\n{{transcript}}\n\nReturn JSON with keys:\n- overall_score (0-100 number)\n- hiring_signal (one of: strong_no_hire, no_hire, lean_no_hire, lean_hire, hire, strong_hire)\n- summary (string)\n- strengths (string[])\n- weaknesses (string[])\n- next_steps (string[])\n- rubric (object with dimensions: clarity, confidence, relevance, structure).\nEach dimension must include: score (1-5), evidence (string), recommendation (string).',
+      },
+    ],
+  },
+];
@@ -0,0 +1,69 @@
+/**
+ * Cover letter prompts
+ *
+ * Variables: toneGuidance, jobTitle, companyName, jobDescription,
+ * resumeContent, candidateName, additionalContext, tone.
+ * candidateName/additionalContext are pre-formatted lines (or empty).
+ */
+
+import type { PromptTemplate } from '@/lib/promptRegistry';
+
+export const COVER_LETTER_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'cover_letter',
+    version: 'v1',
+    taskType: 'writing',
+    variables: [
+      'toneGuidance',
+      'jobTitle',
+      'companyName',
+      'jobDescription',
+      'resumeContent',
+      'candidateName',
+      'additionalContext',
+      'tone',
+    ],
+    weight: 100,
+    messages: [
+      {
+        role: 'system',
+        content: `You are an expert career coach and cover letter writer. Your task is to write compelling, personalized cover letters that:
+1. Align the candidate's experience with the job requirements
+2. Use an appropriate tone: {{toneGuidance}}
+3. Highlight specific achievements and skills from the resume
+4. Demonstrate genuine interest in the company and role
+5. Follow standard cover letter structure (introduction, body, conclusion)
+
+Guidelines:
+- Keep the cover letter to 3-4 paragraphs
+- Use concrete examples from the resume
+- Avoid generic phrases
+- Focus on value the candidate can bring to the company
+- Address the hiring manager directly when possible
+
+Return a JSON object with:
+- content: the full cover letter text
+- matchedKeywords: keywords from the job description that match the resume
+- alignmentScore: a number from 0-100 indicating how well the resume aligns with the job description`,
+      },
+      {
+        role: 'user',
+        content: `Please write a cover letter with the following details:
+
+**Job Information:**
+- Position: {{jobTitle}}
+- Company: {{companyName}}
+- Job Description:
+{{jobDescription}}
+
+**Candidate Resume:**
+{{resumeContent}}
+
+{{candidateName}}
+{{additionalContext}}
+
+**Tone:** {{tone}}`,
+      },
+    ],
+  },
+];
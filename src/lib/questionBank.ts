@@ -0,0 +1,290 @@
+/**
+ * Interview question bank
+ *
+ * Reusable interview questions tagged by type, difficulty, competencies,
+ * roles and companies, with a sample strong answer and rubric hints. Rows
+ * without an organization are the curated global bank; organizations add
+ * their own (owners and admins, one at a time or imported from CSV/JSON).
+ * Mock interview sessions are seeded from a filtered pack of bank questions.
+ */
+
+import Papa from 'papaparse';
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+import { inferCompetencies, STORY_COMPETENCIES } from '@/lib/storyBank';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+export const QUESTION_TYPES = ['behavioral', 'technical', 'situational', 'general'] as const;
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+export type QuestionDifficulty = (typeof QUESTION_DIFFICULTIES)[number];
+
+export interface BankQuestion {
+  id: string;
+  organization_id: string | null;
+  created_by: string | null;
+  question_text: string;
+  question_type: QuestionType;
+  difficulty: QuestionDifficulty;
+  competencies: string[];
+  roles: string[];
+  company_tags: string[];
+  sample_answer: string;
+  rubric_hints: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export const QUESTION_BANK_COLUMNS =
+  'id, organization_id, created_by, question_text, question_type, difficulty, competencies, roles, company_tags, sample_answer, rubric_hints, created_at, updated_at';
+
+const MAX_IMPORT_ROWS = 500;
+/** Bank questions considered when picking a session pack */
+export const MAX_PACK_CANDIDATES = 200;
+
+const DIFFICULTY_ORDER: Record<QuestionDifficulty, number> = { easy: 0, medium: 1, hard: 2 };
+
+const tagList = z.array(z.string().trim().min(1).max(80)).max(20);
+
+export const BankQuestionInputSchema = z.object({
+  question_text: z.string().trim().min(1).max(2000),
+  question_type: z.enum(QUESTION_TYPES).default('behavioral'),
+  difficulty: z.enum(QUESTION_DIFFICULTIES).default('medium'),
+  competencies: z.array(z.enum(STORY_COMPETENCIES)).max(STORY_COMPETENCIES.length).optional(),
+  roles: tagList.default([]),
+  company_tags: tagList.default([]),
+  sample_answer: z.string().trim().max(4000).default(''),
+  rubric_hints: z.array(z.string().trim().min(1).max(300)).max(10).default([]),
+});
+
+export type BankQuestionInput = z.infer<typeof BankQuestionInputSchema>;
+
+/** Fields left out keep their stored value */
+export const BankQuestionUpdateSchema = z
+  .object({
+    question_text: z.string().trim().min(1).max(2000),
+    question_type: z.enum(QUESTION_TYPES),
+    difficulty: z.enum(QUESTION_DIFFICULTIES),
+    competencies: z.array(z.enum(STORY_COMPETENCIES)).max(STORY_COMPETENCIES.length),
+    roles: tagList,
+    company_tags: tagList,
+    sample_answer: z.string().trim().max(4000),
+    rubric_hints: z.array(z.string().trim().min(1).max(300)).max(10),
+  })
+  .partial()
+  .refine((input) => Object.keys(input).length > 0, 'no fields to update');
+
+/**
+ * Bank filters, shared by search and session packs. `scope` narrows to the
+ * global bank or to the organization's own questions (default: both).
+ */
+export const QuestionFiltersSchema = z
+  .object({
+    q: z.string().trim().min(1).max(200).optional(),
+    type: z.enum(QUESTION_TYPES).optional(),
+    difficulty: z.enum(QUESTION_DIFFICULTIES).optional(),
+    competency: z.enum(STORY_COMPETENCIES).optional(),
+    role: z.string().trim().min(1).max(80).optional(),
+    company: z.string().trim().min(1).max(80).optional(),
+    organization_id: z.string().uuid().optional(),
+    scope: z.enum(['all', 'global', 'organization']).default('all'),
+  })
+  .refine((filters) => filters.scope !== 'organization' || filters.organization_id, {
+    message: 'organization_id is required for scope=organization',
+    path: ['organization_id'],
+  });
+
+export type QuestionFilters = z.infer<typeof QuestionFiltersSchema>;
+
+export interface ImportError {
+  /** 1-based data row (CSV header excluded) */
+  row: number;
+  message: string;
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Normalize validated input into a row; tags are lowercased and deduplicated,
+ * and competencies are inferred from the question when not given.
+ */
+export function toBankRow(input: BankQuestionInput) {
+  return {
+    question_text: input.question_text,
+    question_type: input.question_type,
+    difficulty: input.difficulty,
+    competencies: input.competencies ?? inferCompetencies(`${input.question_text} ${input.sample_answer}`),
+    roles: normalizeTags(input.roles),
+    company_tags: normalizeTags(input.company_tags),
+    sample_answer: input.sample_answer,
+    rubric_hints: input.rubric_hints,
+  };
+}
+
+/** Same normalization for a partial update */
+export function toBankUpdate(input: z.infer<typeof BankQuestionUpdateSchema>): Record<string, unknown> {
+  const update: Record<string, unknown> = { ...input };
+  if (input.roles) update.roles = normalizeTags(input.roles);
+  if (input.company_tags) update.company_tags = normalizeTags(input.company_tags);
+  return update;
+}
+
+// CSV list cells hold several values separated by ";" or "|"
+function splitList(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return value
+    .split(/[;|]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function fromImportRecord(record: Record<string, unknown>): Record<string, unknown> {
+  const text = (key: string) => {
+    const value = record[key];
+    return typeof value === 'string' && value.trim() === '' ? undefined : value;
+  };
+
+  return {
+    question_text: text('question_text') ?? text('question'),
+    question_type: text('question_type') ?? text('type'),
+    difficulty: text('difficulty'),
+    competencies: splitList(text('competencies')),
+    roles: splitList(text('roles') ?? text('role')) ?? [],
+    company_tags: splitList(text('company_tags') ?? text('companies') ?? text('company')) ?? [],
+    sample_answer: text('sample_answer') ?? '',
+    rubric_hints: splitList(text('rubric_hints')) ?? [],
+  };
+}
+
+/**
+ * Parse a CSV (header row) or JSON (array, or { questions: [...] }) import.
+ * Valid rows are returned normalized; invalid rows are reported, not thrown.
+ */
+export function parseQuestionImport(
+  format: 'csv' | 'json',
+  content: string
+): { questions: ReturnType<typeof toBankRow>[]; errors: ImportError[] } {
+  let records: unknown[];
+
+  if (format === 'csv') {
+    const parsed = Papa.parse<Record<string, string>>(content, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim().toLowerCase().replace(/\s+/g, '_'),
+    });
+    records = parsed.data;
+  } else {
+    try {
+      const json = JSON.parse(content) as unknown;
+      const list = Array.isArray(json) ? json : (json as { questions?: unknown } | null)?.questions;
+      if (!Array.isArray(list)) return { questions: [], errors: [{ row: 0, message: 'Expected an array of questions' }] };
+      records = list;
+    } catch {
+      return { questions: [], errors: [{ row: 0, message: 'Invalid JSON' }] };
+    }
+  }
+
+  const questions: ReturnType<typeof toBankRow>[] = [];
+  const errors: ImportError[] = [];
+
+  records.slice(0, MAX_IMPORT_ROWS).forEach((record, index) => {
+    if (typeof record !== 'object' || record === null) {
+      errors.push({ row: index + 1, message: 'Expected an object' });
+      return;
+    }
+    const parse = BankQuestionInputSchema.safeParse(fromImportRecord(record as Record<string, unknown>));
+    if (!parse.success) {
+      const issue = parse.error.issues[0];
+      errors.push({ row: index + 1, message: `${issue.path.join('.') || 'row'}: ${issue.message}` });
+      return;
+    }
+    questions.push(toBankRow(parse.data));
+  });
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: MAX_IMPORT_ROWS + 1, message: `Only the first ${MAX_IMPORT_ROWS} rows are imported` });
+  }
+
+  return { questions, errors };
+}
+
+/**
+ * Bank questions matching the filters (global and organization rows the
+ * caller can read; RLS hides other organizations)
+ */
+export async function searchQuestionBank(
+  supabase: ServerSupabase,
+  filters: QuestionFilters,
+  limit = 20
+): Promise<BankQuestion[]> {
+  let query = supabase.from('question_bank').select(QUESTION_BANK_COLUMNS);
+
+  if (filters.scope === 'global') {
+    query = query.is('organization_id', null);
+  } else if (filters.scope === 'organization' && filters.organization_id) {
+    query = query.eq('organization_id', filters.organization_id);
+  } else if (filters.organization_id) {
+    query = query.or(`organization_id.is.null,organization_id.eq.${filters.organization_id}`);
+  }
+
+  if (filters.q) query = query.textSearch('search_vector', filters.q, { type: 'websearch', config: 'english' });
+  if (filters.type) query = query.eq('question_type', filters.type);
+  if (filters.difficulty) query = query.eq('difficulty', filters.difficulty);
+  if (filters.competency) query = query.contains('competencies', [filters.competency]);
+  if (filters.role) query = query.contains('roles', [filters.role.toLowerCase()]);
+  if (filters.company) query = query.contains('company_tags', [filters.company.toLowerCase()]);
+
+  const { data, error } = await query.order('created_at', { ascending: true }).limit(limit).returns<BankQuestion[]>();
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Pick `count` questions for a session, skipping bank questions the session
+ * already has, ordered from easy to hard
+ */
+export function buildQuestionPack(
+  candidates: BankQuestion[],
+  options: { count: number; exclude?: Iterable<string>; random?: () => number }
+): BankQuestion[] {
+  const exclude = new Set(options.exclude ?? []);
+  const random = options.random ?? Math.random;
+
+  const pool = candidates.filter((question) => !exclude.has(question.id));
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool
+    .slice(0, options.count)
+    .sort((a, b) => DIFFICULTY_ORDER[a.difficulty] - DIFFICULTY_ORDER[b.difficulty]);
+}
+
+/**
+ * interview_questions rows for a pack; the sample answer and rubric hints go
+ * into the question's rubric
+ */
+export function toSessionQuestionRows(
+  pack: BankQuestion[],
+  ids: { sessionId: string; userId: string; startIndex: number }
+) {
+  return pack.map((question, index) => ({
+    session_id: ids.sessionId,
+    user_id: ids.userId,
+    bank_question_id: question.id,
+    question_text: question.question_text,
+    question_type: question.question_type,
+    difficulty: question.difficulty,
+    order_index: ids.startIndex + index,
+    rubric: {
+      competencies: question.competencies,
+      sample_answer: question.sample_answer,
+      hints: question.rubric_hints,
+    },
+  }));
+}
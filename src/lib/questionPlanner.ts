@@ -0,0 +1,280 @@
+/**
+ * Adaptive question planner
+ *
+ * Picks a mock interview's next question from the question bank using the
+ * difficulty recommendation from the scored answers so far, the competencies
+ * the session has not covered yet and the questions already asked. The
+ * interviewer calls it when the question plan runs out, and scoring an
+ * answer calls it once every planned question has been answered, so
+ * sessions adapt without the client choosing questions.
+ */
+
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+import { inferCompetencies } from '@/lib/storyBank';
+import {
+  MAX_PACK_CANDIDATES,
+  QUESTION_TYPES,
+  searchQuestionBank,
+  toSessionQuestionRows,
+  type BankQuestion,
+  type QuestionDifficulty,
+  type QuestionFilters,
+} from '@/lib/questionBank';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+/** Questions asked when neither the plan nor meta.question_count sets more */
+export const DEFAULT_QUESTION_COUNT = 5;
+
+// Difficulty weights for adaptive scoring
+const DIFFICULTY_WEIGHTS: Record<QuestionDifficulty, number> = {
+  easy: 1,
+  medium: 2,
+  hard: 3,
+};
+
+// Performance thresholds (answer scores are 1-5)
+const DIFFICULTY_THRESHOLDS = {
+  medium_to_hard: 4.0, // Avg score >= 4.0 -> increase difficulty
+  hard_to_medium: 2.5, // Avg score < 2.5 -> decrease difficulty
+};
+
+export interface QuestionScore {
+  difficulty: string;
+  score: number | null;
+}
+
+export interface DifficultyRecommendation {
+  total_questions: number;
+  avg_score: number;
+  current_difficulty: QuestionDifficulty;
+  recommended_difficulty: QuestionDifficulty;
+  performance_trend: 'improving' | 'declining' | 'stable';
+}
+
+/** A session question as the planner sees it */
+export interface SessionQuestion {
+  id: string;
+  bank_question_id: string | null;
+  question_text: string;
+  difficulty: string;
+  response_score: number | null;
+  answered_at: string | null;
+  order_index: number;
+  rubric: Record<string, unknown> | null;
+}
+
+export interface PlannedPick {
+  question: BankQuestion;
+  recommended_difficulty: QuestionDifficulty;
+  /** Uncovered competencies this question covers */
+  covers: string[];
+}
+
+export const SESSION_QUESTION_COLUMNS =
+  'id, bank_question_id, question_text, difficulty, response_score, answered_at, order_index, rubric';
+
+/**
+ * Questions to ask in a session: meta.question_count, or at least the
+ * default (more if the plan already has more)
+ */
+export function sessionQuestionCount(meta: Record<string, unknown> | null | undefined, planned: number): number {
+  const count = meta?.question_count;
+  return typeof count === 'number' && Number.isInteger(count) && count > 0
+    ? Math.min(count, 20)
+    : Math.max(planned, DEFAULT_QUESTION_COUNT);
+}
+
+function calculateTrend(questions: QuestionScore[]): DifficultyRecommendation['performance_trend'] {
+  if (questions.length < 3) return 'stable';
+
+  const recent = questions.slice(-2);
+  const older = questions.slice(0, -2);
+
+  if (recent.length === 0 || older.length === 0) return 'stable';
+
+  const recentAvg = recent.reduce((s, q) => s + (q.score || 0), 0) / recent.length;
+  const olderAvg = older.reduce((s, q) => s + (q.score || 0), 0) / older.length;
+
+  const diff = recentAvg - olderAvg;
+  if (diff > 0.5) return 'improving';
+  if (diff < -0.5) return 'declining';
+  return 'stable';
+}
+
+/**
+ * Difficulty recommendation from scored answers, in the order asked
+ */
+export function recommendDifficulty(answeredQuestions: QuestionScore[]): DifficultyRecommendation {
+  const totalWeight = answeredQuestions.reduce(
+    (sum, q) => sum + (DIFFICULTY_WEIGHTS[q.difficulty as QuestionDifficulty] || 2),
+    0
+  );
+  const totalScore = answeredQuestions.reduce((sum, q) => sum + (q.score || 0), 0);
+  const avgScore = answeredQuestions.length > 0 ? totalScore / answeredQuestions.length : 0;
+  const avgWeight = answeredQuestions.length > 0 ? totalWeight / answeredQuestions.length : 2;
+
+  // Determine current difficulty level based on average weight
+  let currentLevel: QuestionDifficulty = 'medium';
+  if (avgWeight < 1.5) currentLevel = 'easy';
+  else if (avgWeight > 2.5) currentLevel = 'hard';
+
+  // Calculate recommended difficulty
+  let recommendedDifficulty: QuestionDifficulty = currentLevel;
+
+  if (answeredQuestions.length >= 2) {
+    if (avgScore >= DIFFICULTY_THRESHOLDS.medium_to_hard && currentLevel !== 'hard') {
+      recommendedDifficulty = currentLevel === 'easy' ? 'medium' : 'hard';
+    } else if (avgScore < DIFFICULTY_THRESHOLDS.hard_to_medium && currentLevel !== 'easy') {
+      recommendedDifficulty = currentLevel === 'hard' ? 'medium' : 'easy';
+    }
+  }
+
+  return {
+    total_questions: answeredQuestions.length,
+    avg_score: Math.round(avgScore * 10) / 10,
+    current_difficulty: currentLevel,
+    recommended_difficulty: recommendedDifficulty,
+    performance_trend: calculateTrend(answeredQuestions),
+  };
+}
+
+function questionCompetencies(question: SessionQuestion): string[] {
+  const stored = question.rubric?.competencies;
+  return Array.isArray(stored) && stored.length
+    ? stored.filter((item): item is string => typeof item === 'string')
+    : inferCompetencies(question.question_text);
+}
+
+/**
+ * Best bank question to ask next: closest to the recommended difficulty,
+ * covering the most competencies the session has not touched, never one
+ * already asked. Earlier candidates win ties.
+ */
+export function selectNextQuestion(
+  candidates: BankQuestion[],
+  asked: SessionQuestion[],
+  recommended: QuestionDifficulty
+): PlannedPick | null {
+  const askedIds = new Set(asked.map((question) => question.bank_question_id).filter(Boolean));
+  const askedTexts = new Set(asked.map((question) => question.question_text.trim().toLowerCase()));
+  const covered = new Set(asked.flatMap(questionCompetencies));
+
+  let best: { pick: PlannedPick; score: number } | null = null;
+  for (const question of candidates) {
+    if (askedIds.has(question.id) || askedTexts.has(question.question_text.trim().toLowerCase())) continue;
+
+    const distance = Math.abs(DIFFICULTY_WEIGHTS[question.difficulty] - DIFFICULTY_WEIGHTS[recommended]);
+    const covers = question.competencies.filter((competency) => !covered.has(competency));
+    // Difficulty fit outweighs coverage: one uncovered competency never beats a better difficulty match
+    const score = (distance === 0 ? 4 : distance === 1 ? 1 : 0) + Math.min(covers.length, 2) * 1.5;
+
+    if (!best || score > best.score) best = { pick: { question, recommended_difficulty: recommended, covers }, score };
+  }
+  return best?.pick ?? null;
+}
+
+/**
+ * Bank filters for a session: interview type, role, company and the
+ * organization's bank from interview_sessions.meta
+ */
+export function sessionBankFilters(meta: Record<string, unknown> | null | undefined): QuestionFilters {
+  const text = (key: string) => {
+    const value = meta?.[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const mode = text('mode');
+  const organizationId = text('organization_id');
+
+  return {
+    scope: 'all',
+    type: QUESTION_TYPES.find((type) => type === mode),
+    role: text('role'),
+    company: text('company'),
+    organization_id: z.string().uuid().safeParse(organizationId).success ? organizationId : undefined,
+  };
+}
+
+async function loadCandidates(supabase: ServerSupabase, filters: QuestionFilters): Promise<BankQuestion[]> {
+  // Widen the search when the session's role/company tags match nothing
+  const attempts: QuestionFilters[] = [
+    filters,
+    { ...filters, role: undefined, company: undefined },
+    { ...filters, role: undefined, company: undefined, type: undefined },
+  ];
+  for (const attempt of attempts) {
+    const candidates = await searchQuestionBank(supabase, attempt, MAX_PACK_CANDIDATES);
+    if (candidates.length > 0) return candidates;
+  }
+  return [];
+}
+
+/**
+ * Append the next adaptive question to the session's plan and return it.
+ * Returns null when the session has its full count of questions, nothing
+ * in the bank fits, or (with `whenAllAnswered`) a planned question is still
+ * unanswered. Failures are logged and return null.
+ */
+export async function planNextQuestion(
+  supabase: ServerSupabase,
+  args: {
+    session: { id: string; meta?: Record<string, unknown> | null };
+    userId: string;
+    whenAllAnswered?: boolean;
+  }
+): Promise<(SessionQuestion & { question_type: string }) | null> {
+  const { session, userId } = args;
+
+  try {
+    const { data, error } = await supabase
+      .from('interview_questions')
+      .select(SESSION_QUESTION_COLUMNS)
+      .eq('session_id', session.id)
+      .order('order_index', { ascending: true })
+      .returns<SessionQuestion[]>();
+    if (error) throw error;
+
+    const questions = data ?? [];
+    if (args.whenAllAnswered && questions.some((question) => !question.answered_at)) return null;
+    if (questions.length >= sessionQuestionCount(session.meta, 0)) return null;
+
+    const recommendation = recommendDifficulty(
+      questions
+        .filter((question) => question.response_score !== null)
+        .map((question) => ({ difficulty: question.difficulty, score: question.response_score }))
+    );
+    const pick = selectNextQuestion(
+      await loadCandidates(supabase, sessionBankFilters(session.meta)),
+      questions,
+      recommendation.recommended_difficulty
+    );
+    if (!pick) return null;
+
+    const [row] = toSessionQuestionRows([pick.question], {
+      sessionId: session.id,
+      userId,
+      startIndex: questions.reduce((max, question) => Math.max(max, question.order_index + 1), 0),
+    });
+    const { data: inserted, error: insertError } = await supabase
+      .from('interview_questions')
+      .insert({
+        ...row,
+        rubric: {
+          ...row.rubric,
+          adaptive: { recommended_difficulty: pick.recommended_difficulty, covers: pick.covers },
+        },
+      })
+      .select(`${SESSION_QUESTION_COLUMNS}, question_type`)
+      .single<SessionQuestion & { question_type: string }>();
+    if (insertError) throw insertError;
+
+    return inserted;
+  } catch (error) {
+    console.error('[question-planner] failed to plan next question', {
+      sessionId: session.id,
+      code: (error as { code?: string } | null)?.code ?? null,
+    });
+    return null;
+  }
+}
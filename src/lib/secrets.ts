@@ -0,0 +1,62 @@
+/**
+ * Secret encryption at rest (AES-256-GCM)
+ *
+ * Used for customer-supplied credentials such as organization LLM API keys.
+ * CREDENTIALS_ENCRYPTION_KEY is a base64-encoded 32-byte key.
+ * Ciphertext format: v1:<iv>:<auth tag>:<ciphertext> (base64 parts)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+export class SecretEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretEncryptionError';
+  }
+}
+
+function encryptionKey(): Buffer {
+  const raw = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new SecretEncryptionError('CREDENTIALS_ENCRYPTION_KEY is not configured');
+  }
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new SecretEncryptionError('CREDENTIALS_ENCRYPTION_KEY must be 32 bytes (base64)');
+  }
+  return key;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new SecretEncryptionError('Unrecognized secret format');
+  }
+
+  const key = encryptionKey();
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new SecretEncryptionError('Secret could not be decrypted');
+  }
+}
+
+/**
+ * Last four characters, for display and audit ("sk-…AbCd")
+ */
+export function secretHint(secret: string): string {
+  return secret.length <= 4 ? '…' : `…${secret.slice(-4)}`;
+}
@@ -0,0 +1,134 @@
+/**
+ * Spoken answer delivery metrics
+ *
+ * Speaking rate, filler words and pauses for answers given by voice in mock
+ * interviews. Computed from the transcript, the recording length and the
+ * STT provider's word or segment timings; stored on the candidate's
+ * message and added to the answer's per-answer score.
+ */
+
+import type { STTSpan } from '@/lib/sttProvider';
+
+export interface SpeechMetrics {
+  /** Length of the recording (ms) */
+  duration_ms: number;
+  word_count: number;
+  words_per_minute: number | null;
+  filler_count: number;
+  /** Count per filler, e.g. { "um": 3, "you know": 1 } */
+  fillers: Record<string, number>;
+  /** Gaps of at least LONG_PAUSE_MS between timed words; null without timings */
+  pause_count: number | null;
+  longest_pause_ms: number | null;
+}
+
+/** A gap this long between words counts as a pause */
+export const LONG_PAUSE_MS = 1_500;
+
+// Speaking rate bands used in the delivery summary
+const SLOW_WPM = 110;
+const FAST_WPM = 170;
+
+const FILLERS = ['um', 'uh', 'erm', 'er', 'ah', 'hmm', 'you know', 'i mean', 'sort of', 'kind of', 'basically'];
+
+const FILLER_PATTERN = new RegExp(
+  `\\b(${FILLERS.map((filler) => filler.replace(/ /g, '\\s+')).join('|')})\\b`,
+  'gi'
+);
+
+export function countFillers(text: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const match of text.matchAll(FILLER_PATTERN)) {
+    const filler = match[1].toLowerCase().replace(/\s+/g, ' ');
+    counts[filler] = (counts[filler] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Metrics for one spoken answer. `durationMs` is the recording length the
+ * client measured; without it the timed span of speech is used.
+ */
+export function speechMetrics(input: { text: string; durationMs?: number | null; spans?: STTSpan[] }): SpeechMetrics {
+  const wordCount = input.text.split(/\s+/).filter(Boolean).length;
+  const fillers = countFillers(input.text);
+  const spans = [...(input.spans ?? [])].sort((a, b) => a.start - b.start);
+
+  const spanDurationMs = spans.length ? (spans[spans.length - 1].end - spans[0].start) * 1000 : 0;
+  const durationMs = Math.round(input.durationMs && input.durationMs > 0 ? input.durationMs : spanDurationMs);
+
+  let pauseCount: number | null = null;
+  let longestPauseMs: number | null = null;
+  if (spans.length > 0) {
+    pauseCount = 0;
+    longestPauseMs = 0;
+    for (let i = 1; i < spans.length; i++) {
+      const gapMs = (spans[i].start - spans[i - 1].end) * 1000;
+      if (gapMs >= LONG_PAUSE_MS) pauseCount += 1;
+      longestPauseMs = Math.max(longestPauseMs, Math.round(gapMs));
+    }
+  }
+
+  return {
+    duration_ms: durationMs,
+    word_count: wordCount,
+    words_per_minute: durationMs > 0 ? Math.round((wordCount / durationMs) * 60_000) : null,
+    filler_count: Object.values(fillers).reduce((sum, count) => sum + count, 0),
+    fillers,
+    pause_count: pauseCount,
+    longest_pause_ms: longestPauseMs,
+  };
+}
+
+/** Metrics for an answer given across several recordings (follow-ups) */
+export function combineSpeechMetrics(parts: SpeechMetrics[]): SpeechMetrics | null {
+  if (parts.length === 0) return null;
+
+  const durationMs = parts.reduce((sum, part) => sum + part.duration_ms, 0);
+  const wordCount = parts.reduce((sum, part) => sum + part.word_count, 0);
+  const fillers: Record<string, number> = {};
+  for (const part of parts) {
+    for (const [filler, count] of Object.entries(part.fillers)) fillers[filler] = (fillers[filler] ?? 0) + count;
+  }
+  const timed = parts.filter((part) => part.pause_count !== null);
+
+  return {
+    duration_ms: durationMs,
+    word_count: wordCount,
+    words_per_minute: durationMs > 0 ? Math.round((wordCount / durationMs) * 60_000) : null,
+    filler_count: parts.reduce((sum, part) => sum + part.filler_count, 0),
+    fillers,
+    pause_count: timed.length ? timed.reduce((sum, part) => sum + (part.pause_count ?? 0), 0) : null,
+    longest_pause_ms: timed.length ? Math.max(...timed.map((part) => part.longest_pause_ms ?? 0)) : null,
+  };
+}
+
+/** Stored metrics from message meta, if valid */
+export function parseSpeechMetrics(value: unknown): SpeechMetrics | null {
+  const maybe = (typeof value === 'object' && value ? value : null) as Partial<SpeechMetrics> | null;
+  if (!maybe || typeof maybe.duration_ms !== 'number' || typeof maybe.word_count !== 'number') return null;
+  return {
+    duration_ms: maybe.duration_ms,
+    word_count: maybe.word_count,
+    words_per_minute: typeof maybe.words_per_minute === 'number' ? maybe.words_per_minute : null,
+    filler_count: typeof maybe.filler_count === 'number' ? maybe.filler_count : 0,
+    fillers: typeof maybe.fillers === 'object' && maybe.fillers ? maybe.fillers : {},
+    pause_count: typeof maybe.pause_count === 'number' ? maybe.pause_count : null,
+    longest_pause_ms: typeof maybe.longest_pause_ms === 'number' ? maybe.longest_pause_ms : null,
+  };
+}
+
+/** One-line delivery summary, e.g. "142 wpm (good pace), 3 filler words, 1 long pause" */
+export function describeSpeechMetrics(metrics: SpeechMetrics): string {
+  const parts: string[] = [];
+  if (metrics.words_per_minute !== null) {
+    const pace =
+      metrics.words_per_minute < SLOW_WPM ? 'slow' : metrics.words_per_minute > FAST_WPM ? 'fast' : 'good pace';
+    parts.push(`${metrics.words_per_minute} wpm (${pace})`);
+  }
+  parts.push(`${metrics.filler_count} filler word${metrics.filler_count === 1 ? '' : 's'}`);
+  if (metrics.pause_count !== null) {
+    parts.push(`${metrics.pause_count} long pause${metrics.pause_count === 1 ? '' : 's'}`);
+  }
+  return parts.join(', ');
+}
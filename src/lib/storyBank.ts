@@ -0,0 +1,265 @@
+/**
+ * STAR story bank
+ *
+ * Users keep reusable behavioral stories (situation, task, action, result)
+ * tagged with competencies. Drafts can be imported from resume bullets, and
+ * the best-matching story for a behavioral question is surfaced in live
+ * copilot suggestions and mock interviews.
+ */
+
+import { z } from 'zod';
+import type { createClient } from '@/lib/supabase/server';
+import { sanitizeCopilotText } from '@/lib/copilotSecurity';
+import { splitResumePassages, tokenize } from '@/lib/copilotContext';
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+export const STORY_COMPETENCIES = [
+  'leadership',
+  'conflict',
+  'failure',
+  'ownership',
+  'teamwork',
+  'impact',
+  'ambiguity',
+  'communication',
+  'technical_depth',
+  'customer_focus',
+] as const;
+
+export type StoryCompetency = (typeof STORY_COMPETENCIES)[number];
+
+export type StorySource = 'manual' | 'resume';
+
+export interface StarStory {
+  id: string;
+  user_id: string;
+  title: string;
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  tags: string[];
+  competencies: StoryCompetency[];
+  source: StorySource;
+  resume_document_id: string | null;
+  times_used: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Fields a user can write; drafts from resume import use the same shape */
+export type StarStoryDraft = Pick<
+  StarStory,
+  'title' | 'situation' | 'task' | 'action' | 'result' | 'tags' | 'competencies' | 'source' | 'resume_document_id'
+>;
+
+export interface StoryMatch {
+  story: StarStory;
+  score: number;
+  /** Competencies shared by the question and the story */
+  competencies: StoryCompetency[];
+}
+
+export const STORY_COLUMNS =
+  'id, user_id, title, situation, task, action, result, tags, competencies, source, resume_document_id, times_used, last_used_at, created_at, updated_at';
+
+const MAX_STORIES_FOR_MATCHING = 200;
+const MAX_IMPORT_DRAFTS = 20;
+
+export const StarStoryInputSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  situation: z.string().trim().max(2000).default(''),
+  task: z.string().trim().max(2000).default(''),
+  action: z.string().trim().max(2000).default(''),
+  result: z.string().trim().max(2000).default(''),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).default([]),
+  competencies: z.array(z.enum(STORY_COMPETENCIES)).max(STORY_COMPETENCIES.length).optional(),
+});
+
+export type StarStoryInput = z.infer<typeof StarStoryInputSchema>;
+
+const COMPETENCY_PATTERNS: Record<StoryCompetency, RegExp> = {
+  leadership: /\b(?:led|lead(?:ing|ership)?|mentor(?:ed|ing)?|coach(?:ed|ing)?|manag(?:ed|er|ing)|directed|spearheaded|influenc(?:e|ed))\b/i,
+  conflict: /\b(?:conflicts?|disagree(?:d|ment)?|push(?:ed)? back|tension|difficult (?:coworker|colleague|stakeholder|person)|resolv(?:e|ed))\b/i,
+  failure: /\b(?:fail(?:ed|ure)?|mistakes?|went wrong|outages?|incidents?|post-?mortem|setbacks?)\b/i,
+  ownership: /\b(?:own(?:ed|ership)?|took (?:charge|initiative)|initiative|proactive(?:ly)?|end-to-end|above and beyond)\b/i,
+  teamwork: /\b(?:team(?:work|mates?)?|collaborat(?:e|ed|ion)|cross-functional|partner(?:ed)?)\b/i,
+  impact: /\b(?:increas(?:e|ed)|reduc(?:e|ed)|improv(?:e|ed)|sav(?:e|ed)|cut(?:ting)?|grew|revenue|impact)\b|\d+\s?%|\$\d/i,
+  ambiguity: /\b(?:ambigu(?:ous|ity)|unclear|uncertain(?:ty)?|prioriti[sz](?:e|ed|ation)|trade-?offs?|tight deadline)\b/i,
+  communication: /\b(?:present(?:ed)?|communicat(?:e|ed|ion)|explain(?:ed)?|persuad(?:e|ed)|convinc(?:e|ed)|stakeholders?|negotiat(?:e|ed))\b/i,
+  technical_depth: /\b(?:architect(?:ed|ure)?|designed|built|migrat(?:e|ed|ion)|scal(?:e|ed|ing)|debugg(?:ed|ing)|optimi[sz](?:e|ed)|performance)\b/i,
+  customer_focus: /\b(?:customers?|clients?|user experience|user feedback|satisfaction|nps)\b/i,
+};
+
+// Where a resume bullet turns from what was done to what came of it
+const RESULT_BOUNDARY =
+  /(?:,\s*|\s+)(?=(?:resulting in|leading to|which (?:cut|reduced|increased|improved|saved)|cutting|reducing|increasing|improving|saving|achieving|growing)\b)/i;
+
+const ACTION_START = /^(?:[A-Z][a-z]+ed|Led|Built|Ran|Drove|Grew|Won|Cut|Wrote|Made|Took|Set up|Shipped)\b/;
+
+/**
+ * Competencies a piece of text speaks to (question or story)
+ */
+export function inferCompetencies(text: string): StoryCompetency[] {
+  return STORY_COMPETENCIES.filter((competency) => COMPETENCY_PATTERNS[competency].test(text));
+}
+
+function storyText(story: Pick<StarStory, 'title' | 'situation' | 'task' | 'action' | 'result'>): string {
+  return [story.title, story.situation, story.task, story.action, story.result].join(' ');
+}
+
+/**
+ * Normalize validated input into a row; competencies are inferred when not given.
+ */
+export function toStoryRow(input: StarStoryInput): Omit<StarStoryDraft, 'source' | 'resume_document_id'> {
+  const tags = Array.from(new Set(input.tags.map((tag) => tag.toLowerCase())));
+  return {
+    title: input.title,
+    situation: input.situation,
+    task: input.task,
+    action: input.action,
+    result: input.result,
+    tags,
+    competencies: input.competencies ?? inferCompetencies(storyText(input)),
+  };
+}
+
+function titleFrom(action: string): string {
+  const words = action.replace(/[.;]+$/, '').split(' ');
+  return words.length <= 8 ? words.join(' ') : `${words.slice(0, 8).join(' ')}…`;
+}
+
+/**
+ * Draft stories from the accomplishment bullets of a parsed resume. A bullet
+ * becomes the action (and result, when it states one); situation and task
+ * are left for the user to fill in.
+ */
+export function draftStoriesFromResume(parsedText: string, resumeDocumentId: string | null): StarStoryDraft[] {
+  const drafts: StarStoryDraft[] = [];
+
+  for (const passage of splitResumePassages(parsedText)) {
+    if (passage.section !== 'experience' && passage.section !== 'projects') continue;
+    if (!ACTION_START.test(passage.text)) continue;
+
+    const [action, ...rest] = passage.text.split(RESULT_BOUNDARY);
+    const result = rest.join(' ').replace(/^./, (c) => c.toUpperCase());
+    drafts.push({
+      title: titleFrom(action),
+      situation: '',
+      task: '',
+      action: action.trim(),
+      result: result.trim(),
+      tags: [],
+      competencies: inferCompetencies(passage.text),
+      source: 'resume',
+      resume_document_id: resumeDocumentId,
+    });
+    if (drafts.length >= MAX_IMPORT_DRAFTS) break;
+  }
+  return drafts;
+}
+
+/**
+ * Rank stories for a question: shared competencies count most, then tags,
+ * then word overlap. Stories that share nothing with the question are dropped.
+ */
+export function matchStories(stories: StarStory[], question: string, limit = 3): StoryMatch[] {
+  const questionCompetencies = inferCompetencies(question);
+  const queryTokens = new Set(tokenize(question));
+  if (questionCompetencies.length === 0 && queryTokens.size === 0) return [];
+
+  return stories
+    .map((story) => {
+      const competencies = questionCompetencies.filter((c) => story.competencies.includes(c));
+      const tagHits = story.tags.filter((tag) => tokenize(tag).some((token) => queryTokens.has(token))).length;
+      const storyTokens = new Set(tokenize(storyText(story)));
+      let overlap = 0;
+      for (const token of queryTokens) if (storyTokens.has(token)) overlap += 1;
+
+      return { story, competencies, score: competencies.length * 3 + tagHits * 2 + overlap };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.story.updated_at.localeCompare(a.story.updated_at))
+    .slice(0, limit);
+}
+
+/**
+ * Prompt section for the best match ('' when there is none). Stories are
+ * user-written, so contact details are redacted and injected instructions
+ * are skipped like any other prompt input.
+ */
+export function buildStoryContext(matches: StoryMatch[]): { text: string; story: StarStory | null } {
+  for (const { story } of matches) {
+    const clean = sanitizeCopilotText(
+      [
+        `Title: ${story.title}`,
+        story.situation && `Situation: ${story.situation}`,
+        story.task && `Task: ${story.task}`,
+        story.action && `Action: ${story.action}`,
+        story.result && `Result: ${story.result}`,
+      ]
+        .filter(Boolean)
+        .join('\n')
+    );
+    if (clean.hasPromptInjection) continue;
+
+    return {
+      text: `\n\nCandidate's prepared STAR story (structure the answer around it and keep its facts):\n${clean.sanitized}`,
+      story,
+    };
+  }
+  return { text: '', story: null };
+}
+
+/**
+ * The user's stories, most recently edited first
+ */
+export async function listStories(supabase: ServerSupabase, userId: string, limit = MAX_STORIES_FOR_MATCHING) {
+  const { data, error } = await supabase
+    .from('star_stories')
+    .select(STORY_COLUMNS)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+    .returns<StarStory[]>();
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Best-matching story for a behavioral question. Failures are logged and
+ * treated as an empty bank so suggestions still work.
+ */
+export async function findStoryForQuestion(
+  supabase: ServerSupabase,
+  userId: string,
+  question: string
+): Promise<{ text: string; story: StarStory | null }> {
+  try {
+    const stories = await listStories(supabase, userId);
+    const context = buildStoryContext(matchStories(stories, question));
+    if (context.story) await recordStoryUse(supabase, context.story);
+    return context;
+  } catch (error) {
+    console.error('[story-bank] failed to load stories', {
+      userId,
+      errorType: error instanceof Error ? error.name : 'unknown',
+    });
+    return { text: '', story: null };
+  }
+}
+
+/**
+ * Bump the usage counter shown in the story bank. Incremented in the
+ * database so concurrent suggestions all count; leaves updated_at alone.
+ */
+export async function recordStoryUse(supabase: ServerSupabase, story: Pick<StarStory, 'id'>) {
+  const { error } = await supabase.rpc('record_star_story_use', { p_story_id: story.id });
+
+  if (error) {
+    console.error('[story-bank] failed to record story use', { storyId: story.id, code: error.code ?? null });
+  }
+}
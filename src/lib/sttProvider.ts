@@ -13,6 +13,18 @@
 
 export type TranscriptState = 'partial' | 'final' | 'error';
 
+/** Raw speaker attribution from the STT layer (mapped to a role per session) */
+export interface STTSpeaker {
+  /** 'speaker:<n>' from diarization, or 'channel:mic' / 'channel:tab' */
+  label: string;
+  /** 0-1 */
+  confidence: number;
+  source: 'diarization' | 'channel';
+}
+
+/** Separate capture channels: the candidate's microphone and the meeting tab */
+export type AudioChannel = 'mic' | 'tab';
+
 export interface TranscriptChunk {
   /** Idempotency key — deduplicate on ingest */
   idempotencyKey: string;
@@ -26,23 +38,118 @@ export interface TranscriptChunk {
   receivedAt: string;
   /** Provider-reported confidence 0-1, if available */
   confidence?: number;
+  speaker?: STTSpeaker;
+}
+
+/** A stretch of speech, in seconds from the start of the audio */
+export interface STTSpan {
+  start: number;
+  end: number;
 }
 
 export interface STTProviderResult {
   text: string;
   isFinal: boolean;
   confidence?: number;
+  /** Dominant speaker, when the provider diarizes */
+  speaker?: STTSpeaker;
+  /** Word (or segment) timings, when the provider reports them */
+  spans?: STTSpan[];
   providerMeta?: Record<string, unknown>;
 }
 
+export interface STTTranscribeOptions {
+  language?: string;
+  /** Container/codec of the buffer, e.g. 'audio/webm' */
+  mimeType?: string;
+  /** Capture channel; when set it decides the speaker label */
+  channel?: AudioChannel;
+}
+
+// ---------------------------------------------------------------------------
+// Speaker attribution
+// ---------------------------------------------------------------------------
+
+/** A dedicated capture channel is a strong signal, but tab audio can include the candidate's echo */
+const CHANNEL_SPEAKER_CONFIDENCE = 0.9;
+
+/**
+ * Dominant speaker of a diarized result, weighted by word confidence.
+ * Confidence is that speaker's share of the weighted words.
+ */
+export function dominantSpeaker(words: Array<{ speaker?: number; confidence?: number }>): STTSpeaker | undefined {
+  const weights = new Map<number, number>();
+  let total = 0;
+  for (const word of words) {
+    if (typeof word.speaker !== 'number') continue;
+    const weight = word.confidence ?? 1;
+    weights.set(word.speaker, (weights.get(word.speaker) ?? 0) + weight);
+    total += weight;
+  }
+  if (total <= 0) return undefined;
+
+  let best: [number, number] | null = null;
+  for (const entry of weights) {
+    if (!best || entry[1] > best[1]) best = entry;
+  }
+  return best ? { label: `speaker:${best[0]}`, confidence: best[1] / total, source: 'diarization' } : undefined;
+}
+
+/**
+ * Timed speech spans from provider words or segments; undefined when the
+ * provider reported no timings
+ */
+export function speechSpans(items: Array<{ start?: number; end?: number }> | undefined): STTSpan[] | undefined {
+  const spans = (items ?? [])
+    .filter((item) => typeof item.start === 'number' && typeof item.end === 'number' && item.end >= item.start)
+    .map((item) => ({ start: item.start as number, end: item.end as number }));
+  return spans.length > 0 ? spans : undefined;
+}
+
+/**
+ * Attach the speaker label: the capture channel wins over diarization, since
+ * diarization indices are only stable within one provider stream.
+ */
+export function attributeSpeaker<T extends STTProviderResult>(result: T, channel?: AudioChannel): T {
+  if (!channel) return result;
+  return { ...result, speaker: { label: `channel:${channel}`, confidence: CHANNEL_SPEAKER_CONFIDENCE, source: 'channel' } };
+}
+
 export interface STTProvider {
   readonly name: string;
   /** Process a raw audio buffer and return partial/final transcript */
-  transcribe(audio: ArrayBuffer, opts?: { language?: string }): Promise<STTProviderResult>;
+  transcribe(audio: ArrayBuffer, opts?: STTTranscribeOptions): Promise<STTProviderResult>;
   /** Health ping — return true if the provider is reachable */
   healthCheck(): Promise<boolean>;
 }
 
+// ---------------------------------------------------------------------------
+// Streaming (duplex) contract — optional
+// ---------------------------------------------------------------------------
+
+export interface STTStreamHandlers {
+  /** Interim (isFinal=false) and final results, in order */
+  onResult(result: STTProviderResult): void;
+  /** The stream failed and will produce no more results */
+  onError(error: unknown): void;
+}
+
+export interface STTStream {
+  /** Push the next audio chunk */
+  send(audio: ArrayBuffer): void;
+  /** Flush buffered audio; resolves after the last final result is delivered */
+  close(): Promise<void>;
+}
+
+export interface StreamingSTTProvider extends STTProvider {
+  /** Open a live stream: push audio, receive partial/final results as they arrive */
+  openStream(handlers: STTStreamHandlers, opts?: STTTranscribeOptions): Promise<STTStream>;
+}
+
+export function isStreamingSTTProvider(provider: STTProvider): provider is StreamingSTTProvider {
+  return typeof (provider as Partial<StreamingSTTProvider>).openStream === 'function';
+}
+
 // ---------------------------------------------------------------------------
 // Circuit Breaker
 // ---------------------------------------------------------------------------
@@ -116,7 +223,7 @@ export class STTProviderRegistry {
    * Attempt transcription across the provider chain.
    * First healthy + circuit-closed provider wins; others are fallbacks.
    */
-  async transcribe(audio: ArrayBuffer, opts?: { language?: string }): Promise<STTProviderResult & { provider: string }> {
+  async transcribe(audio: ArrayBuffer, opts?: STTTranscribeOptions): Promise<STTProviderResult & { provider: string }> {
     const errors: Array<{ provider: string; error: unknown }> = [];
 
     for (const entry of this.providers) {
@@ -128,7 +235,7 @@ export class STTProviderRegistry {
       try {
         const result = await entry.provider.transcribe(audio, opts);
         entry.cb.recordSuccess();
-        return { ...result, provider: entry.provider.name };
+        return { ...attributeSpeaker(result, opts?.channel), provider: entry.provider.name };
       } catch (err) {
         entry.cb.recordFailure();
         errors.push({ provider: entry.provider.name, error: err });
@@ -138,6 +245,19 @@ export class STTProviderRegistry {
     throw new STTAllProvidersFailedError(errors);
   }
 
+  /**
+   * Open a transcript stream for a session.
+   * The first streaming provider with a closed circuit serves it live; if it
+   * fails (on open or mid-stream) the rest of the stream falls back to batch
+   * transcription. Each batch tries every provider whose circuit is closed,
+   * so a provider that failed once is retried once its breaker allows.
+   */
+  async openStream(opts: STTRegistryStreamOptions): Promise<STTRegistryStream> {
+    const stream = new STTRegistryStream(this.providers, opts);
+    await stream.start();
+    return stream;
+  }
+
   get registeredProviders(): string[] {
     return this.providers.map((e) => e.provider.name);
   }
@@ -154,6 +274,182 @@ export class STTAllProvidersFailedError extends Error {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Registry stream (live with batch failover)
+// ---------------------------------------------------------------------------
+
+export interface STTRegistryStreamOptions extends STTTranscribeOptions {
+  sessionId: string;
+  /** Partial chunks share the idempotency key of the final that replaces them */
+  onChunk(chunk: TranscriptChunk): void;
+  /** Every provider failed; the stream accepts no more audio */
+  onError?(error: STTAllProvidersFailedError): void;
+  /** In batch mode, transcribe once this much audio is buffered (default 160 KB) */
+  batchBytes?: number;
+}
+
+type RegistryEntry = { provider: STTProvider; cb: CircuitBreaker };
+
+const DEFAULT_BATCH_BYTES = 160_000;
+
+function concatAudio(parts: ArrayBuffer[]): ArrayBuffer {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(new Uint8Array(part), offset);
+    offset += part.byteLength;
+  }
+  return out.buffer;
+}
+
+export class STTRegistryStream {
+  private live: { entry: RegistryEntry; stream: STTStream } | null = null;
+  /** Audio not yet covered by a final result (replayed on failover) */
+  private pending: ArrayBuffer[] = [];
+  private pendingBytes = 0;
+  /** First chunk carries the container header (webm/ogg) needed to decode a replay */
+  private header: ArrayBuffer | null = null;
+  /** Live open and mid-stream failures, reported with a failed batch */
+  private readonly liveErrors: Array<{ provider: string; error: unknown }> = [];
+  private batchQueue: Promise<void> = Promise.resolve();
+  private seq = 1;
+  private closed = false;
+
+  constructor(
+    private readonly entries: RegistryEntry[],
+    private readonly opts: STTRegistryStreamOptions,
+  ) {}
+
+  /** 'batch' once no live provider is available or after failover */
+  get mode(): 'live' | 'batch' {
+    return this.live ? 'live' : 'batch';
+  }
+
+  get provider(): string | null {
+    return this.live?.entry.provider.name ?? null;
+  }
+
+  async start(): Promise<void> {
+    for (const entry of this.entries) {
+      if (!isStreamingSTTProvider(entry.provider) || !entry.cb.canAttempt()) continue;
+
+      try {
+        const stream = await entry.provider.openStream(
+          {
+            onResult: (result) => {
+              if (this.live?.entry !== entry) return;
+              if (result.isFinal) entry.cb.recordSuccess();
+              this.emit(result, entry.provider.name);
+            },
+            onError: (error) => {
+              if (this.live?.entry === entry) this.failLive(error);
+            },
+          },
+          { language: this.opts.language, mimeType: this.opts.mimeType, channel: this.opts.channel },
+        );
+        this.live = { entry, stream };
+        return;
+      } catch (err) {
+        entry.cb.recordFailure();
+        this.liveErrors.push({ provider: entry.provider.name, error: err });
+      }
+    }
+  }
+
+  send(audio: ArrayBuffer): void {
+    if (this.closed) throw new Error('STT stream is closed');
+    if (!this.header) this.header = audio;
+    this.pending.push(audio);
+    this.pendingBytes += audio.byteLength;
+
+    if (this.live) {
+      try {
+        this.live.stream.send(audio);
+      } catch (err) {
+        this.failLive(err);
+      }
+      return;
+    }
+
+    if (this.pendingBytes >= (this.opts.batchBytes ?? DEFAULT_BATCH_BYTES)) this.flushBatch();
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return this.batchQueue;
+    this.closed = true;
+
+    if (this.live) {
+      try {
+        await this.live.stream.close();
+      } catch (err) {
+        this.failLive(err);
+      }
+    }
+    if (!this.live && this.pending.length > 0) this.flushBatch();
+    await this.batchQueue;
+  }
+
+  private emit(result: STTProviderResult, provider: string): void {
+    if (result.text.trim()) {
+      const attributed = attributeSpeaker(result, this.opts.channel);
+      this.opts.onChunk(buildTranscriptChunk(this.opts.sessionId, { ...attributed, provider }, this.seq));
+    }
+    if (result.isFinal) {
+      this.seq += 1;
+      this.pending = [];
+      this.pendingBytes = 0;
+    }
+  }
+
+  private failLive(error: unknown): void {
+    if (!this.live) return;
+    const { entry, stream } = this.live;
+    this.live = null;
+    entry.cb.recordFailure();
+    this.liveErrors.push({ provider: entry.provider.name, error });
+    stream.close().catch(() => undefined);
+
+    // Replay what the live provider never finalized
+    if (this.pending.length > 0) this.flushBatch();
+  }
+
+  private flushBatch(): void {
+    const parts = this.header && this.pending[0] !== this.header ? [this.header, ...this.pending] : this.pending;
+    const audio = concatAudio(parts);
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    this.batchQueue = this.batchQueue.then(() => this.transcribeBatch(audio));
+  }
+
+  private async transcribeBatch(audio: ArrayBuffer): Promise<void> {
+    const errors: Array<{ provider: string; error: unknown }> = [];
+    for (const entry of this.entries) {
+      if (!entry.cb.canAttempt()) {
+        errors.push({ provider: entry.provider.name, error: 'circuit_open' });
+        continue;
+      }
+
+      try {
+        const result = await entry.provider.transcribe(audio, {
+          language: this.opts.language,
+          mimeType: this.opts.mimeType,
+          channel: this.opts.channel,
+        });
+        entry.cb.recordSuccess();
+        this.emit({ ...result, isFinal: true }, entry.provider.name);
+        return;
+      } catch (err) {
+        entry.cb.recordFailure();
+        errors.push({ provider: entry.provider.name, error: err });
+      }
+    }
+
+    this.closed = true;
+    this.opts.onError?.(new STTAllProvidersFailedError([...this.liveErrors, ...errors]));
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Transcript Chunk Builder (idempotent)
 // ---------------------------------------------------------------------------
@@ -174,6 +470,7 @@ export function buildTranscriptChunk(
     provider: result.provider,
     receivedAt: new Date().toISOString(),
     confidence: result.confidence,
+    speaker: result.speaker,
   };
 }
 
@@ -0,0 +1,18 @@
+/**
+ * STT Auth Context
+ *
+ * Builds the rate-limit context for speech routes from the user's plan and
+ * organization. Limits are per plan tier, pooled per organization.
+ */
+
+import { getUserPlan } from '@/lib/quota';
+import { getUserOrganizationId } from '@/lib/llmBudget';
+import type { STTAuthContext } from './factory';
+
+export async function getSTTAuthContext(userId: string): Promise<STTAuthContext> {
+  const [plan, orgId] = await Promise.all([getUserPlan(userId), getUserOrganizationId(userId)]);
+  const tier: STTAuthContext['tier'] =
+    plan.plan_id === 'enterprise' ? 'enterprise' : plan.plan_id === 'pro' ? 'pro' : 'free';
+
+  return { userId, orgId: orgId ?? undefined, tier };
+}
@@ -5,8 +5,20 @@
  * Supports real-time transcription with partial/final results.
  */
 
-import { createClient, DeepgramClient } from '@deepgram/sdk';
-import type { STTProvider, STTProviderResult } from '@/lib/sttProvider';
+import {
+  createClient,
+  DeepgramClient,
+  LiveTranscriptionEvents,
+  type LiveTranscriptionEvent,
+} from '@deepgram/sdk';
+import { dominantSpeaker, speechSpans } from '@/lib/sttProvider';
+import type {
+  STTProviderResult,
+  STTStream,
+  STTStreamHandlers,
+  STTTranscribeOptions,
+  StreamingSTTProvider,
+} from '@/lib/sttProvider';
 
 export interface DeepgramProviderConfig {
   apiKey: string;
@@ -14,19 +26,21 @@ export interface DeepgramProviderConfig {
   language?: string;
   /** Model to use (e.g., 'nova-2', 'base') */
   model?: string;
+  /** Max wait for the live socket to open / drain on close (default: 10s) */
+  streamTimeoutMs?: number;
 }
 
 /**
  * Deepgram STT Provider implementation.
- * Uses Deepgram's REST API for transcription.
- *
- * For production real-time, consider using Deepgram's streaming API with WebSockets.
+ * Batch chunks use the pre-recorded REST API; openStream uses live WebSockets
+ * with interim results.
  */
-export class DeepgramSTTProvider implements STTProvider {
+export class DeepgramSTTProvider implements StreamingSTTProvider {
   readonly name = 'deepgram';
   private readonly client: DeepgramClient;
   private readonly language: string;
   private readonly model: string;
+  private readonly streamTimeoutMs: number;
 
   constructor(config: DeepgramProviderConfig) {
     if (!config.apiKey) {
@@ -36,28 +50,31 @@ export class DeepgramSTTProvider implements STTProvider {
     this.client = createClient(config.apiKey);
     this.language = config.language ?? 'en-US';
     this.model = config.model ?? 'nova-2';
+    this.streamTimeoutMs = config.streamTimeoutMs ?? 10_000;
   }
 
   async transcribe(
     audio: ArrayBuffer,
-    opts?: { language?: string },
+    opts?: STTTranscribeOptions,
   ): Promise<STTProviderResult> {
     const language = opts?.language ?? this.language;
     
     // For production real-time, use live WebSocket streaming
     // Here we use the pre-recorded endpoint for simplicity
-    const response = await this.client.transcription.preRecorded(
-      { buffer: Buffer.from(audio) },
+    const { result: response, error } = await this.client.listen.prerecorded.transcribeFile(
+      Buffer.from(audio),
       {
         language,
         model: this.model,
         punctuate: true,
         paragraphs: true,
+        diarize: true,
       }
     );
+    if (error) throw error;
 
     // The response structure from Deepgram
-    const results = response.results?.channels?.[0]?.alternatives?.[0];
+    const results = response?.results?.channels?.[0]?.alternatives?.[0];
     if (!results) {
       return {
         text: '',
@@ -70,14 +87,86 @@ export class DeepgramSTTProvider implements STTProvider {
       text: results.transcript ?? '',
       isFinal: true, // Prerecorded endpoint returns final results
       confidence: results.confidence ?? 0,
+      speaker: dominantSpeaker(results.words ?? []),
+      spans: speechSpans(results.words),
+    };
+  }
+
+  async openStream(handlers: STTStreamHandlers, opts?: STTTranscribeOptions): Promise<STTStream> {
+    const connection = this.client.listen.live({
+      language: opts?.language ?? this.language,
+      model: this.model,
+      punctuate: true,
+      interim_results: true,
+      diarize: true,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        connection.removeAllListeners();
+        connection.disconnect();
+        reject(new Error('Deepgram live connection timed out'));
+      }, this.streamTimeoutMs);
+      connection.once(LiveTranscriptionEvents.Open, () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      connection.once(LiveTranscriptionEvents.Error, (err: unknown) => {
+        clearTimeout(timer);
+        reject(err instanceof Error ? err : new Error('Deepgram live connection failed'));
+      });
+    });
+
+    let closing = false;
+    let closed = false;
+
+    connection.on(LiveTranscriptionEvents.Transcript, (data: LiveTranscriptionEvent) => {
+      const alternative = data.channel?.alternatives?.[0];
+      if (!alternative) return;
+      handlers.onResult({
+        text: alternative.transcript ?? '',
+        isFinal: Boolean(data.is_final),
+        confidence: alternative.confidence,
+        speaker: dominantSpeaker(alternative.words ?? []),
+        providerMeta: { start: data.start, duration: data.duration, speechFinal: data.speech_final ?? false },
+      });
+    });
+    connection.on(LiveTranscriptionEvents.Error, (err: unknown) => {
+      if (!closing) handlers.onError(err);
+    });
+    connection.on(LiveTranscriptionEvents.Close, () => {
+      closed = true;
+      if (!closing) handlers.onError(new Error('Deepgram live connection closed'));
+    });
+
+    return {
+      send: (audio) => {
+        if (closed) throw new Error('Deepgram live connection closed');
+        connection.send(audio);
+      },
+      close: () =>
+        new Promise<void>((resolve) => {
+          if (closed) return resolve();
+          closing = true;
+          // Final results for buffered audio arrive before the socket closes
+          const timer = setTimeout(() => {
+            connection.disconnect();
+            resolve();
+          }, this.streamTimeoutMs);
+          connection.once(LiveTranscriptionEvents.Close, () => {
+            clearTimeout(timer);
+            resolve();
+          });
+          connection.requestClose();
+        }),
     };
   }
 
   async healthCheck(): Promise<boolean> {
     try {
       // Simple health check - attempt to get project info
-      await this.client.manage.getProjects();
-      return true;
+      const { error } = await this.client.manage.getProjects();
+      return !error;
     } catch {
       return false;
     }
@@ -2,7 +2,8 @@
  * STT Provider Factory
  *
  * Creates production-ready STT provider registry with:
- * - Ordered fallback chain (Deepgram → Whisper → Null)
+ * - Ordered fallback chain (Local Whisper → Deepgram → Whisper → Null)
+ * - Live streaming via Deepgram, failing over to batch Whisper
  * - Authentication and ownership validation
  * - Rate limiting per user/org
  * - Circuit breaker configuration
@@ -11,17 +12,25 @@
 import {
   STTProviderRegistry,
   NullSTTProvider,
+  isStreamingSTTProvider,
   type STTProviderResult,
   type STTProvider,
+  type STTStream,
+  type STTStreamHandlers,
+  type STTTranscribeOptions,
+  type StreamingSTTProvider,
 } from '@/lib/sttProvider';
 import { createDeepgramProvider } from './deepgramProvider';
 import { createWhisperProvider } from './whisperProvider';
+import { createLocalWhisperProvider } from './localWhisperProvider';
 import { STTRateLimiter, getGlobalRateLimiter } from './rateLimit';
 
 /**
  * Provider ordering priority (lower = higher priority)
  */
 export enum ProviderPriority {
+  /** Self-hosted; first when configured so audio stays on our infrastructure */
+  LOCAL_WHISPER = 0,
   DEEPGRAM = 1,
   WHISPER = 2,
   NULL = 3,
@@ -67,7 +76,7 @@ class AuthenticatedSTTProvider implements STTProvider {
 
   async transcribe(
     audio: ArrayBuffer,
-    opts?: { language?: string },
+    opts?: STTTranscribeOptions,
   ): Promise<STTProviderResult> {
     return this.inner.transcribe(audio, opts);
   }
@@ -77,11 +86,35 @@ class AuthenticatedSTTProvider implements STTProvider {
   }
 }
 
+/**
+ * Streaming variant; keeps openStream visible through the wrapper.
+ */
+class AuthenticatedStreamingSTTProvider extends AuthenticatedSTTProvider implements StreamingSTTProvider {
+  private readonly streaming: StreamingSTTProvider;
+
+  constructor(inner: StreamingSTTProvider, rateLimiter: STTRateLimiter) {
+    super(inner, rateLimiter);
+    this.streaming = inner;
+  }
+
+  openStream(handlers: STTStreamHandlers, opts?: STTTranscribeOptions): Promise<STTStream> {
+    return this.streaming.openStream(handlers, opts);
+  }
+}
+
+function authenticated(inner: STTProvider, rateLimiter: STTRateLimiter): STTProvider {
+  return isStreamingSTTProvider(inner)
+    ? new AuthenticatedStreamingSTTProvider(inner, rateLimiter)
+    : new AuthenticatedSTTProvider(inner, rateLimiter);
+}
+
 /**
  * Create the production STT provider registry.
- * Order: Deepgram → Whisper → Null (fallback)
+ * Order (ProviderPriority): Local Whisper → Deepgram → Whisper → Null (fallback)
  *
  * Environment variables:
+ * - LOCAL_WHISPER_URL: Self-hosted Whisper server (LOCAL_WHISPER_API: openai | whisper.cpp)
+ * - STT_LOCAL_ONLY: 'true' to never send audio to cloud providers
  * - DEEPGRAM_API_KEY: Deepgram API key
  * - OPENAI_API_KEY: OpenAI API key
  * - STT_RATE_LIMIT_MAX: Max requests per window (default: 100)
@@ -90,31 +123,36 @@ class AuthenticatedSTTProvider implements STTProvider {
 export function createProductionSTTRegistry(): STTProviderRegistry {
   const registry = new STTProviderRegistry();
   const globalLimiter = getGlobalRateLimiter();
-
-  // Register providers in priority order with circuit breaker config
-  // Deepgram: Primary provider (fast, accurate, cost-effective)
-  const deepgram = createDeepgramProvider();
-  if (deepgram) {
-    registry.register(
-      new AuthenticatedSTTProvider(deepgram, globalLimiter),
-      { failureThreshold: 3, resetTimeoutMs: 30_000 }
+  const localOnly = process.env.STT_LOCAL_ONLY === 'true';
+
+  const candidates: Array<{ priority: ProviderPriority; label: string; provider: STTProvider | null }> = [
+    // Local Whisper: self-hosted, no third-party data sharing
+    { priority: ProviderPriority.LOCAL_WHISPER, label: 'Local Whisper', provider: createLocalWhisperProvider() },
+  ];
+  if (localOnly) {
+    console.log('[STT] STT_LOCAL_ONLY set; cloud providers disabled');
+  } else {
+    candidates.push(
+      // Deepgram: Primary cloud provider (fast, accurate, cost-effective)
+      { priority: ProviderPriority.DEEPGRAM, label: 'Deepgram', provider: createDeepgramProvider() },
+      // Whisper: Secondary cloud provider (high quality, OpenAI-backed)
+      { priority: ProviderPriority.WHISPER, label: 'Whisper', provider: createWhisperProvider() },
     );
-    console.log('[STT] Registered Deepgram provider');
   }
 
-  // Whisper: Secondary provider (high quality, OpenAI-backed)
-  const whisper = createWhisperProvider();
-  if (whisper) {
+  // Register providers in priority order with circuit breaker config
+  for (const { label, provider } of candidates.sort((a, b) => a.priority - b.priority)) {
+    if (!provider) continue;
     registry.register(
-      new AuthenticatedSTTProvider(whisper, globalLimiter),
+      authenticated(provider, globalLimiter),
       { failureThreshold: 3, resetTimeoutMs: 30_000 }
     );
-    console.log('[STT] Registered Whisper provider');
+    console.log(`[STT] Registered ${label} provider`);
   }
 
   // Null provider: Ultimate fallback (always available)
   registry.register(
-    new AuthenticatedSTTProvider(new NullSTTProvider(), globalLimiter),
+    authenticated(new NullSTTProvider(), globalLimiter),
     { failureThreshold: Number.MAX_SAFE_INTEGER, resetTimeoutMs: 0 }
   );
   console.log('[STT] Registered Null provider (fallback)');
@@ -141,17 +179,30 @@ export function getRateLimitStatus(userId: string, tier: string): {
   };
 }
 
+/**
+ * Tier limiters live for the process so windows persist across requests.
+ */
+const tierLimiters = new Map<string, STTRateLimiter>();
+
+function getTierLimiter(tier: string): STTRateLimiter {
+  const key = TIER_LIMITS[tier] ? tier : 'free';
+  let limiter = tierLimiters.get(key);
+  if (!limiter) {
+    limiter = new STTRateLimiter(TIER_LIMITS[key]);
+    tierLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
 /**
  * Check if request is allowed under rate limits.
  * Throws if rate limited.
  */
 export async function checkRateLimit(auth: STTAuthContext): Promise<void> {
-  const tierLimits = TIER_LIMITS[auth.tier] ?? TIER_LIMITS.free;
   const key = auth.orgId ?? auth.userId;
 
   // Use tier-specific limiter
-  const limiter = new STTRateLimiter(tierLimits);
-  const result = limiter.check(key);
+  const result = getTierLimiter(auth.tier).check(key);
 
   if (!result.allowed) {
     const error = new Error(`Rate limit exceeded. Retry after ${result.retryAfter}ms`) as Error & {
@@ -199,4 +250,5 @@ export function getSTTRegistry(): STTProviderRegistry {
  */
 export function resetSTTRegistry(): void {
   _registry = null;
+  tierLimiters.clear();
 }
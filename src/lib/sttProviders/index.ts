@@ -4,9 +4,10 @@
  * Exports:
  * - DeepgramSTTProvider, createDeepgramProvider
  * - WhisperSTTProvider, createWhisperProvider
+ * - LocalWhisperSTTProvider, createLocalWhisperProvider
  * - STTRateLimiter, getGlobalRateLimiter
  * - createProductionSTTRegistry, getSTTRegistry, resetSTTRegistry
- * - STTAuthContext, checkRateLimit, validateAuth
+ * - STTAuthContext, getSTTAuthContext, checkRateLimit, validateAuth
  */
 
 export { DeepgramSTTProvider, createDeepgramProvider } from './deepgramProvider';
@@ -15,6 +16,9 @@ export type { DeepgramProviderConfig } from './deepgramProvider';
 export { WhisperSTTProvider, createWhisperProvider } from './whisperProvider';
 export type { WhisperProviderConfig } from './whisperProvider';
 
+export { LocalWhisperSTTProvider, createLocalWhisperProvider } from './localWhisperProvider';
+export type { LocalWhisperAPI, LocalWhisperProviderConfig } from './localWhisperProvider';
+
 export { STTRateLimiter, getGlobalRateLimiter } from './rateLimit';
 export type { RateLimitConfig, RateLimitResult } from './rateLimit';
 
@@ -28,3 +32,5 @@ export {
   ProviderPriority,
 } from './factory';
 export type { STTAuthContext } from './factory';
+
+export { getSTTAuthContext } from './authContext';
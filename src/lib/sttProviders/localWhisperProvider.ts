@@ -0,0 +1,164 @@
+/**
+ * Local Whisper STT Provider
+ *
+ * Transcribes against a self-hosted Whisper server so audio never leaves
+ * infrastructure we control. Two server APIs are supported:
+ * - 'openai': OpenAI-compatible servers (faster-whisper-server / speaches)
+ *   at POST /v1/audio/transcriptions
+ * - 'whisper.cpp': the whisper.cpp example server at POST /inference
+ */
+
+import { speechSpans, type STTProvider, type STTProviderResult, type STTTranscribeOptions } from '@/lib/sttProvider';
+import { audioExtension } from './whisperProvider';
+
+export type LocalWhisperAPI = 'openai' | 'whisper.cpp';
+
+export interface LocalWhisperProviderConfig {
+  /** Server base URL (e.g., 'http://localhost:8000') */
+  baseURL: string;
+  /** Server API flavor (default: 'openai') */
+  api?: LocalWhisperAPI;
+  /** Model name sent to OpenAI-compatible servers (default: 'Systran/faster-whisper-small') */
+  model?: string;
+  /** Default language code (e.g., 'en') */
+  language?: string;
+  /** Bearer token, if the server sits behind auth (optional) */
+  apiKey?: string;
+  /** Request timeout (default: 30s; CPU inference is slow) */
+  timeoutMs?: number;
+}
+
+const ENDPOINTS: Record<LocalWhisperAPI, { transcribe: string; health: string }> = {
+  openai: { transcribe: '/v1/audio/transcriptions', health: '/health' },
+  'whisper.cpp': { transcribe: '/inference', health: '/' },
+};
+
+interface WhisperServerResponse {
+  text?: string;
+  segments?: Array<{ start?: number; end?: number; avg_logprob?: number; no_speech_prob?: number }>;
+  error?: string | { message?: string };
+}
+
+export function isLocalWhisperAPI(value: unknown): value is LocalWhisperAPI {
+  return value === 'openai' || value === 'whisper.cpp';
+}
+
+/**
+ * Local Whisper STT Provider implementation.
+ * Batch only: each chunk is posted as a multipart upload.
+ */
+export class LocalWhisperSTTProvider implements STTProvider {
+  readonly name = 'local-whisper';
+  private readonly baseURL: string;
+  private readonly api: LocalWhisperAPI;
+  private readonly model: string;
+  private readonly language: string;
+  private readonly apiKey?: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: LocalWhisperProviderConfig) {
+    if (!config.baseURL) {
+      throw new Error('Local Whisper server URL is required');
+    }
+
+    this.baseURL = config.baseURL.replace(/\/+$/, '');
+    this.api = config.api ?? 'openai';
+    this.model = config.model ?? 'Systran/faster-whisper-small';
+    this.language = config.language ?? 'en';
+    this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs ?? 30_000;
+  }
+
+  async transcribe(
+    audio: ArrayBuffer,
+    opts?: STTTranscribeOptions,
+  ): Promise<STTProviderResult> {
+    const mimeType = opts?.mimeType ?? 'audio/webm';
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), `audio.${audioExtension(mimeType)}`);
+    form.append('language', opts?.language ?? this.language);
+    form.append('response_format', 'verbose_json');
+    if (this.api === 'openai') {
+      form.append('model', this.model);
+    } else {
+      form.append('temperature', '0');
+    }
+
+    let body: WhisperServerResponse;
+    try {
+      const res = await fetch(`${this.baseURL}${ENDPOINTS[this.api].transcribe}`, {
+        method: 'POST',
+        headers: this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : undefined,
+        body: form,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      body = (await res.json().catch(() => ({}))) as WhisperServerResponse;
+      if (!res.ok) {
+        const detail = typeof body.error === 'string' ? body.error : body.error?.message;
+        throw new Error(detail ?? `HTTP ${res.status}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Local Whisper transcription failed: ${message}`);
+    }
+
+    return {
+      text: (body.text ?? '').trim(),
+      isFinal: true,
+      confidence: this.calculateConfidence(body.segments),
+      spans: speechSpans(body.segments),
+    };
+  }
+
+  /**
+   * Mean per-segment token probability (exp of avg_logprob), discounted by
+   * the no-speech probability. whisper.cpp omits these, so it may be undefined.
+   */
+  private calculateConfidence(segments: WhisperServerResponse['segments']): number | undefined {
+    const scored = (segments ?? []).filter((seg) => typeof seg.avg_logprob === 'number');
+    if (scored.length === 0) return undefined;
+
+    const total = scored.reduce(
+      (sum, seg) => sum + Math.exp(seg.avg_logprob as number) * (1 - (seg.no_speech_prob ?? 0)),
+      0,
+    );
+    return Math.max(0, Math.min(1, total / scored.length));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const res = await fetch(`${this.baseURL}${ENDPOINTS[this.api].health}`, {
+        headers: this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : undefined,
+        signal: AbortSignal.timeout(5_000),
+      });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Create a local Whisper provider from environment variables.
+ * Uses LOCAL_WHISPER_URL; returns null when it is not set (the provider is opt-in).
+ */
+export function createLocalWhisperProvider(): LocalWhisperSTTProvider | null {
+  const baseURL = process.env.LOCAL_WHISPER_URL;
+  if (!baseURL) return null;
+
+  const api = process.env.LOCAL_WHISPER_API ?? 'openai';
+  if (!isLocalWhisperAPI(api)) {
+    console.warn(`[STT] Unknown LOCAL_WHISPER_API "${api}" (expected openai or whisper.cpp)`);
+    return null;
+  }
+
+  const timeoutMs = Number(process.env.LOCAL_WHISPER_TIMEOUT_MS);
+  return new LocalWhisperSTTProvider({
+    baseURL,
+    api,
+    model: process.env.LOCAL_WHISPER_MODEL,
+    language: process.env.WHISPER_LANGUAGE ?? 'en',
+    apiKey: process.env.LOCAL_WHISPER_API_KEY,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+  });
+}
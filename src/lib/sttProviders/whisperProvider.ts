@@ -6,7 +6,7 @@
  */
 
 import OpenAI from 'openai';
-import type { STTProvider, STTProviderResult } from '@/lib/sttProvider';
+import { speechSpans, type STTProvider, type STTProviderResult, type STTTranscribeOptions } from '@/lib/sttProvider';
 
 export interface WhisperProviderConfig {
   apiKey: string;
@@ -20,6 +20,20 @@ export interface WhisperProviderConfig {
   baseURL?: string;
 }
 
+/** File extension per audio MIME type; Whisper servers detect the format from the upload name */
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+};
+
+export function audioExtension(mimeType: string): string {
+  return AUDIO_EXTENSIONS[mimeType.split(';')[0].trim()] ?? 'webm';
+}
+
 /**
  * OpenAI Whisper STT Provider implementation.
  * Uses OpenAI's Whisper-1 model for transcription.
@@ -49,15 +63,16 @@ export class WhisperSTTProvider implements STTProvider {
 
   async transcribe(
     audio: ArrayBuffer,
-    opts?: { language?: string },
+    opts?: STTTranscribeOptions,
   ): Promise<STTProviderResult> {
     const language = opts?.language ?? this.language;
+    const mimeType = opts?.mimeType ?? 'audio/webm';
 
     // Create a Blob from the ArrayBuffer
-    const audioBlob = new Blob([audio], { type: 'audio/webm' });
+    const audioBlob = new Blob([audio], { type: mimeType });
     
-    // Convert to File for OpenAI API
-    const audioFile = new File([audioBlob], 'audio.webm', { type: 'audio/webm' });
+    // Convert to File for OpenAI API (Whisper infers the format from the extension)
+    const audioFile = new File([audioBlob], `audio.${audioExtension(mimeType)}`, { type: mimeType });
 
     try {
       const response = await this.client.audio.transcriptions.create({
@@ -75,6 +90,7 @@ export class WhisperSTTProvider implements STTProvider {
           isFinal: true,
           // Whisper doesn't always provide confidence, estimate from segments
           confidence: this.calculateConfidence(response),
+          spans: 'segments' in response ? speechSpans(response.segments) : undefined,
         };
       }
 
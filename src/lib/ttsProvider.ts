@@ -0,0 +1,182 @@
+/**
+ * TTS Provider Adapter Abstraction
+ *
+ * Speaks interviewer turns in voice mock interviews. Mirrors the STT layer:
+ * providers behind one interface, tried in order with a circuit breaker
+ * each, and a stand-in that always answers so voice mode works without a
+ * TTS service (local dev, tests, outages).
+ */
+
+import { CircuitBreaker, type CircuitBreakerOptions } from '@/lib/sttProvider';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TTSSynthesizeOptions {
+  /** Provider voice name; providers fall back to their default */
+  voice?: string;
+  /** Playback speed multiplier (0.5-2, default 1) */
+  speed?: number;
+}
+
+export interface TTSResult {
+  audio: ArrayBuffer;
+  /** e.g. 'audio/mpeg', 'audio/wav' */
+  mimeType: string;
+  /** Provider model that produced the audio, when it has one */
+  model?: string;
+}
+
+export interface TTSProvider {
+  readonly name: string;
+  /** Price in cents per 1,000 input characters; unset = free (self-hosted, stand-in) */
+  readonly costPer1kChars?: number;
+  /** Synthesize speech for the text */
+  synthesize(text: string, opts?: TTSSynthesizeOptions): Promise<TTSResult>;
+  /** Health ping — return true if the provider is reachable */
+  healthCheck(): Promise<boolean>;
+}
+
+/** Longest text sent to a provider in one request */
+export const MAX_TTS_CHARS = 4000;
+
+// ---------------------------------------------------------------------------
+// Provider Registry (fallback chain)
+// ---------------------------------------------------------------------------
+
+export class TTSProviderRegistry {
+  private readonly providers: Array<{ provider: TTSProvider; cb: CircuitBreaker }> = [];
+
+  register(provider: TTSProvider, cbOpts?: Partial<CircuitBreakerOptions>): void {
+    this.providers.push({ provider, cb: new CircuitBreaker(cbOpts) });
+  }
+
+  /**
+   * Synthesize across the provider chain.
+   * First circuit-closed provider that succeeds wins; others are fallbacks.
+   * Returns the characters sent and their estimated cost for the ledger.
+   */
+  async synthesize(
+    text: string,
+    opts?: TTSSynthesizeOptions,
+  ): Promise<TTSResult & { provider: string; characters: number; costCents: number }> {
+    const input = text.trim().slice(0, MAX_TTS_CHARS);
+    const errors: Array<{ provider: string; error: unknown }> = [];
+
+    for (const entry of this.providers) {
+      if (!entry.cb.canAttempt()) {
+        errors.push({ provider: entry.provider.name, error: 'circuit_open' });
+        continue;
+      }
+
+      try {
+        const result = await entry.provider.synthesize(input, opts);
+        entry.cb.recordSuccess();
+        const costCents = ((entry.provider.costPer1kChars ?? 0) * input.length) / 1000;
+        return {
+          ...result,
+          provider: entry.provider.name,
+          characters: input.length,
+          costCents: Math.round(costCents * 100) / 100,
+        };
+      } catch (err) {
+        entry.cb.recordFailure();
+        errors.push({ provider: entry.provider.name, error: err });
+      }
+    }
+
+    throw new TTSAllProvidersFailedError(errors);
+  }
+
+  get registeredProviders(): string[] {
+    return this.providers.map((e) => e.provider.name);
+  }
+}
+
+export class TTSAllProvidersFailedError extends Error {
+  constructor(public readonly providerErrors: Array<{ provider: string; error: unknown }>) {
+    super(`All TTS providers failed: ${providerErrors.map((e) => e.provider).join(', ')}`);
+    this.name = 'TTSAllProvidersFailedError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stand-in Provider (local dev, tests, fallback)
+// ---------------------------------------------------------------------------
+
+const STAND_IN_SAMPLE_RATE = 8_000;
+/** One soft beep per word, paced like speech (~150 wpm) */
+const STAND_IN_WORD_SECONDS = 0.4;
+const STAND_IN_MAX_SECONDS = 30;
+
+/** 16-bit mono PCM WAV */
+export function encodeWav(samples: Int16Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+  return buffer;
+}
+
+/**
+ * Needs no service: renders a soft beep per word, so playback timing and
+ * the voice loop behave like real speech without a TTS provider.
+ */
+export class StandInTTSProvider implements TTSProvider {
+  readonly name = 'stand-in';
+
+  async synthesize(text: string, opts?: TTSSynthesizeOptions): Promise<TTSResult> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const speed = Math.max(0.5, Math.min(2, opts?.speed ?? 1));
+    const wordSamples = Math.round((STAND_IN_WORD_SECONDS / speed) * STAND_IN_SAMPLE_RATE);
+    const beepSamples = Math.round(wordSamples * 0.6);
+    const total = Math.min(words * wordSamples, STAND_IN_MAX_SECONDS * STAND_IN_SAMPLE_RATE);
+
+    const samples = new Int16Array(total);
+    for (let i = 0; i < total; i++) {
+      const position = i % wordSamples;
+      if (position < beepSamples) {
+        // 440 Hz at low volume, faded in and out to avoid clicks
+        const envelope = Math.sin((Math.PI * position) / beepSamples);
+        samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / STAND_IN_SAMPLE_RATE) * envelope * 3_000);
+      }
+    }
+
+    return { audio: encodeWav(samples, STAND_IN_SAMPLE_RATE), mimeType: 'audio/wav' };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+export class FailingTTSProvider implements TTSProvider {
+  readonly name: string;
+  constructor(name = 'failing') {
+    this.name = name;
+  }
+  async synthesize(): Promise<TTSResult> {
+    throw new Error(`${this.name}_provider_unavailable`);
+  }
+  async healthCheck(): Promise<boolean> {
+    return false;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * TTS Provider Factory
+ *
+ * Creates the TTS provider registry:
+ * - OpenAI (or a self-hosted OpenAI-compatible server) when configured
+ * - Stand-in as the last fallback, so voice mode always has audio
+ */
+
+import { StandInTTSProvider, TTSProviderRegistry } from '@/lib/ttsProvider';
+import { createOpenAITTSProvider } from './openaiProvider';
+
+/**
+ * Create the production TTS provider registry.
+ *
+ * Environment variables:
+ * - TTS_API_KEY / OPENAI_API_KEY: OpenAI-compatible TTS key
+ * - TTS_BASE_URL: Self-hosted OpenAI-compatible TTS server (optional)
+ * - TTS_MODEL, TTS_VOICE: Model and default voice (optional)
+ * - TTS_STAND_IN_ONLY: 'true' to never call a TTS service
+ */
+export function createProductionTTSRegistry(): TTSProviderRegistry {
+  const registry = new TTSProviderRegistry();
+
+  if (process.env.TTS_STAND_IN_ONLY === 'true') {
+    console.log('[TTS] TTS_STAND_IN_ONLY set; TTS services disabled');
+  } else {
+    const openai = createOpenAITTSProvider();
+    if (openai) {
+      registry.register(openai, { failureThreshold: 3, resetTimeoutMs: 30_000 });
+      console.log('[TTS] Registered OpenAI TTS provider');
+    }
+  }
+
+  // Stand-in: ultimate fallback (always available)
+  registry.register(new StandInTTSProvider(), { failureThreshold: Number.MAX_SAFE_INTEGER, resetTimeoutMs: 0 });
+  console.log('[TTS] Registered stand-in provider (fallback)');
+
+  return registry;
+}
+
+/**
+ * Global registry instance (singleton).
+ */
+let _registry: TTSProviderRegistry | null = null;
+
+export function getTTSRegistry(): TTSProviderRegistry {
+  if (!_registry) {
+    _registry = createProductionTTSRegistry();
+  }
+  return _registry;
+}
+
+/**
+ * Reset the global registry (for testing).
+ */
+export function resetTTSRegistry(): void {
+  _registry = null;
+}
@@ -0,0 +1,12 @@
+/**
+ * TTS Providers - Production implementations
+ *
+ * Exports:
+ * - OpenAITTSProvider, createOpenAITTSProvider
+ * - createProductionTTSRegistry, getTTSRegistry, resetTTSRegistry
+ */
+
+export { OpenAITTSProvider, createOpenAITTSProvider } from './openaiProvider';
+export type { OpenAITTSProviderConfig } from './openaiProvider';
+
+export { createProductionTTSRegistry, getTTSRegistry, resetTTSRegistry } from './factory';
@@ -0,0 +1,89 @@
+/**
+ * OpenAI TTS Provider
+ *
+ * Synthesizes speech with OpenAI's audio/speech API. Also works against
+ * self-hosted OpenAI-compatible TTS servers (Kokoro-FastAPI, openedai-speech)
+ * through `baseURL`, so voices can stay on our infrastructure.
+ */
+
+import OpenAI from 'openai';
+import type { TTSProvider, TTSResult, TTSSynthesizeOptions } from '@/lib/ttsProvider';
+
+export interface OpenAITTSProviderConfig {
+  apiKey: string;
+  /** API base URL for self-hosted or proxied servers (optional) */
+  baseURL?: string;
+  /** Model to use (default: 'gpt-4o-mini-tts') */
+  model?: string;
+  /** Default voice (default: 'alloy') */
+  voice?: string;
+}
+
+/** OpenAI list price, ~1 minute of speech per 1,000 characters */
+const OPENAI_TTS_COST_PER_1K_CHARS = 1.5;
+
+/**
+ * OpenAI TTS Provider implementation.
+ * Returns MP3 audio.
+ */
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai-tts';
+  /** Self-hosted servers are not billed per request */
+  readonly costPer1kChars: number;
+  private readonly client: OpenAI;
+  private readonly model: string;
+  private readonly voice: string;
+
+  constructor(config: OpenAITTSProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    this.model = config.model ?? 'gpt-4o-mini-tts';
+    this.voice = config.voice ?? 'alloy';
+    this.costPer1kChars = config.baseURL ? 0 : OPENAI_TTS_COST_PER_1K_CHARS;
+  }
+
+  async synthesize(text: string, opts?: TTSSynthesizeOptions): Promise<TTSResult> {
+    try {
+      const response = await this.client.audio.speech.create({
+        model: this.model,
+        voice: opts?.voice ?? this.voice,
+        input: text,
+        response_format: 'mp3',
+        speed: opts?.speed,
+      });
+      return { audio: await response.arrayBuffer(), mimeType: 'audio/mpeg', model: this.model };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`OpenAI TTS failed: ${message}`);
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.retrieve(this.model);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Create an OpenAI TTS provider from environment variables.
+ * Uses TTS_API_KEY (falling back to OPENAI_API_KEY), TTS_BASE_URL, TTS_MODEL
+ * and TTS_VOICE; returns null when no key is set.
+ */
+export function createOpenAITTSProvider(): OpenAITTSProvider | null {
+  const apiKey = process.env.TTS_API_KEY ?? process.env.OPENAI_API_KEY;
+  if (!apiKey) return null;
+
+  return new OpenAITTSProvider({
+    apiKey,
+    baseURL: process.env.TTS_BASE_URL,
+    model: process.env.TTS_MODEL,
+    voice: process.env.TTS_VOICE,
+  });
+}
@@ -0,0 +1,82 @@
+-- LLM cost ledger + monthly spend budgets
+-- Adds: llm_usage_ledger (one row per LLMClient attempt), plan/org budget columns, get_llm_spend()
+-- Apply with: supabase db push or psql
+
+-- 1) llm_usage_ledger
+create table if not exists public.llm_usage_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete set null,
+  task_type text,
+  model text not null,
+  provider text not null,
+  status text not null default 'succeeded' check (status in ('succeeded', 'failed')),
+  input_tokens int not null default 0,
+  output_tokens int not null default 0,
+  cost_cents numeric(12, 4) not null default 0,
+  latency_ms int not null default 0,
+  fallback_position int not null default 0,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.llm_usage_ledger enable row level security;
+
+-- Users see their own spend
+create policy "llm_usage_ledger_read_own" on public.llm_usage_ledger
+for select to authenticated
+using (user_id = auth.uid());
+
+-- Org owners/admins see their organization's spend
+create policy "llm_usage_ledger_read_org_admin" on public.llm_usage_ledger
+for select to authenticated
+using (
+  organization_id in (
+    select organization_id from public.organization_members
+    where user_id = auth.uid()
+    and role in ('owner', 'admin')
+  )
+);
+
+create index if not exists llm_usage_ledger_user_id_created_at_idx
+  on public.llm_usage_ledger(user_id, created_at desc);
+
+create index if not exists llm_usage_ledger_org_id_created_at_idx
+  on public.llm_usage_ledger(organization_id, created_at desc);
+
+-- 2) Budgets (null = unlimited)
+alter table public.plans
+add column if not exists llm_budget_cents_monthly int,
+add column if not exists llm_budget_warn_pct int not null default 80;
+
+alter table public.organizations
+add column if not exists llm_budget_cents_monthly int,
+add column if not exists llm_budget_warn_pct int not null default 80;
+
+comment on column public.plans.llm_budget_cents_monthly is 'Monthly LLM spend cap per user in cents; requests are blocked once reached (null = unlimited)';
+comment on column public.organizations.llm_budget_cents_monthly is 'Monthly LLM spend cap for all members combined in cents (null = unlimited)';
+
+update public.plans set llm_budget_cents_monthly = 100 where id = 'free' and llm_budget_cents_monthly is null;
+update public.plans set llm_budget_cents_monthly = 2000 where id = 'pro' and llm_budget_cents_monthly is null;
+
+-- 3) Helper function: month-to-date spend (server-side only)
+create or replace function public.get_llm_spend(
+  p_user_id uuid,
+  p_organization_id uuid default null
+)
+returns table (
+  user_spend_cents numeric,
+  organization_spend_cents numeric
+) security definer as $$
+declare
+  v_period_start timestamptz := date_trunc('month', now());
+begin
+  return query select
+    (select coalesce(sum(l.cost_cents), 0) from public.llm_usage_ledger l
+      where l.user_id = p_user_id and l.created_at >= v_period_start),
+    (select coalesce(sum(l.cost_cents), 0) from public.llm_usage_ledger l
+      where p_organization_id is not null
+        and l.organization_id = p_organization_id
+        and l.created_at >= v_period_start);
+end;
+$$ language plpgsql;
@@ -0,0 +1,45 @@
+-- Prompt registry versioning
+-- Adds: prompt_id/prompt_version on interview_reports, prompt_version_outcomes view
+-- Copilot suggestions/summaries carry prompt_id/prompt_version in their payload jsonb
+-- Apply with: supabase db push or psql
+
+-- 1) Which prompt produced each report
+alter table public.interview_reports
+  add column if not exists prompt_id text,
+  add column if not exists prompt_version text;
+
+create index if not exists interview_reports_prompt_version_idx
+  on public.interview_reports (prompt_id, prompt_version);
+
+-- 2) Outcome comparison per prompt version (respects the caller's RLS)
+create or replace view public.prompt_version_outcomes
+with (security_invoker = true) as
+select
+  'interview_report'::text as source,
+  r.prompt_id,
+  r.prompt_version,
+  count(*)::int as samples,
+  avg(r.overall_score)::numeric(6, 2) as avg_overall_score
+from public.interview_reports r
+where r.prompt_id is not null
+group by r.prompt_id, r.prompt_version
+union all
+select
+  'copilot_suggestion'::text as source,
+  e.payload->>'prompt_id' as prompt_id,
+  e.payload->>'prompt_version' as prompt_version,
+  count(*)::int as samples,
+  null::numeric(6, 2) as avg_overall_score
+from public.copilot_events e
+where e.event_type = 'suggestion' and e.payload ? 'prompt_id'
+group by e.payload->>'prompt_id', e.payload->>'prompt_version'
+union all
+select
+  'copilot_summary'::text as source,
+  s.payload->>'prompt_id' as prompt_id,
+  s.payload->>'prompt_version' as prompt_version,
+  count(*)::int as samples,
+  avg((s.payload->'report'->>'overall_score')::numeric)::numeric(6, 2) as avg_overall_score
+from public.copilot_summaries s
+where s.summary_type = 'final' and s.payload ? 'prompt_id'
+group by s.payload->>'prompt_id', s.payload->>'prompt_version';
@@ -0,0 +1,47 @@
+-- Organization LLM credentials (bring your own key)
+-- Adds: organization_llm_credentials (encrypted provider keys), organizations.llm_allowed_models,
+--       llm_usage_ledger.credential_id
+-- Apply with: supabase db push or psql
+
+-- 1) organization_llm_credentials
+-- encrypted_key is AES-256-GCM ciphertext (CREDENTIALS_ENCRYPTION_KEY); plaintext never leaves the server
+create table if not exists public.organization_llm_credentials (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  provider text not null check (provider in ('openai', 'anthropic', 'google')),
+  encrypted_key text not null,
+  key_hint text not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (organization_id, provider)
+);
+
+alter table public.organization_llm_credentials enable row level security;
+
+-- Owners/admins can see which providers have keys (hints only via the API)
+create policy "organization_llm_credentials_read_admin" on public.organization_llm_credentials
+for select to authenticated
+using (
+  organization_id in (
+    select organization_id from public.organization_members
+    where user_id = auth.uid()
+    and role in ('owner', 'admin')
+  )
+);
+
+-- Writes go through the service role (API route checks for owner)
+
+-- 2) Allowed models (null = all models)
+alter table public.organizations
+add column if not exists llm_allowed_models text[];
+
+comment on column public.organizations.llm_allowed_models is 'Model ids members may use; fallback chains are narrowed to this list (null = unrestricted)';
+
+-- 3) Ledger attribution
+alter table public.llm_usage_ledger
+add column if not exists credential_id uuid references public.organization_llm_credentials(id) on delete set null;
+
+create index if not exists llm_usage_ledger_credential_id_created_at_idx
+  on public.llm_usage_ledger(credential_id, created_at desc)
+  where credential_id is not null;
@@ -0,0 +1,35 @@
+-- Copilot speaker labels
+-- Transcript events created from audio carry payload.speaker_label ('speaker:0', 'channel:mic', ...)
+-- and the session keeps a label -> role mapping in copilot_sessions.metadata.speaker_map.
+-- Adds: relabel_copilot_speaker() to apply a corrected role to every stored event with a label
+-- Apply with: supabase db push or psql
+
+-- Runs as the caller so the copilot_events RLS policies still apply
+create or replace function public.relabel_copilot_speaker(
+  p_session_id uuid,
+  p_label text,
+  p_speaker text
+)
+returns int security invoker as $$
+declare
+  v_updated int;
+begin
+  if p_speaker not in ('interviewer', 'candidate') then
+    raise exception 'invalid speaker: %', p_speaker;
+  end if;
+
+  update public.copilot_events
+  set payload = jsonb_set(payload, '{speaker}', to_jsonb(p_speaker))
+  where session_id = p_session_id
+    and event_type = 'transcript'
+    and payload->>'speaker_label' = p_label
+    and payload->>'speaker' is distinct from p_speaker;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$ language plpgsql;
+
+create index if not exists idx_copilot_events_speaker_label
+on public.copilot_events (session_id, (payload->>'speaker_label'))
+where event_type = 'transcript';
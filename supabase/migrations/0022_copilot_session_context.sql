@@ -0,0 +1,16 @@
+-- Copilot session context
+-- Adds: copilot_sessions.resume_document_id, copilot_sessions.job_id
+-- Linked rows ground live suggestions in the user's resume and target job.
+-- Apply with: supabase db push or psql
+
+alter table public.copilot_sessions
+add column if not exists resume_document_id uuid references public.resume_documents(id) on delete set null,
+add column if not exists job_id uuid references public.jobs(id) on delete set null;
+
+create index if not exists copilot_sessions_resume_document_id_idx
+on public.copilot_sessions(resume_document_id)
+where resume_document_id is not null;
+
+create index if not exists copilot_sessions_job_id_idx
+on public.copilot_sessions(job_id)
+where job_id is not null;
@@ -0,0 +1,41 @@
+-- STAR story bank
+-- Adds: star_stories table + RLS + indexes
+-- Users keep reusable behavioral stories (situation, task, action, result);
+-- live copilot and mock interviews retrieve the best match for a question.
+-- Apply with: supabase db push or psql
+
+create table if not exists public.star_stories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  situation text not null default '',
+  task text not null default '',
+  action text not null default '',
+  result text not null default '',
+  tags text[] not null default '{}',
+  competencies text[] not null default '{}',
+  source text not null default 'manual' check (source in ('manual', 'resume')),
+  resume_document_id uuid references public.resume_documents(id) on delete set null,
+  times_used int not null default 0,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists set_star_stories_updated_at on public.star_stories;
+create trigger set_star_stories_updated_at
+before update on public.star_stories
+for each row execute procedure public.set_updated_at();
+
+alter table public.star_stories enable row level security;
+
+create policy "star_stories_crud_own" on public.star_stories
+for all to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create index if not exists star_stories_user_id_updated_at_idx
+  on public.star_stories(user_id, updated_at desc);
+
+create index if not exists star_stories_competencies_idx
+  on public.star_stories using gin(competencies);
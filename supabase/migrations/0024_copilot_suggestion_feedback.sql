@@ -0,0 +1,59 @@
+-- Copilot suggestion feedback
+-- Adds: copilot_suggestion_feedback table + RLS + indexes, copilot_suggestion_feedback_stats view
+-- One row per suggestion event: thumbs up/down, edited text, used/ignored and
+-- time until the user first looked at it. Mode, model and prompt version are
+-- copied from the suggestion payload so prompts can be compared.
+-- Apply with: supabase db push or psql
+
+create table if not exists public.copilot_suggestion_feedback (
+  id uuid primary key default gen_random_uuid(),
+  suggestion_event_id uuid not null unique references public.copilot_events(id) on delete cascade,
+  session_id uuid not null references public.copilot_sessions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  rating text check (rating in ('helpful', 'not_helpful')),
+  used boolean,
+  edited_text text,
+  glance_ms int check (glance_ms >= 0),
+  mode text,
+  model text,
+  prompt_id text,
+  prompt_version text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists set_copilot_suggestion_feedback_updated_at on public.copilot_suggestion_feedback;
+create trigger set_copilot_suggestion_feedback_updated_at
+before update on public.copilot_suggestion_feedback
+for each row execute procedure public.set_updated_at();
+
+alter table public.copilot_suggestion_feedback enable row level security;
+
+create policy "copilot_suggestion_feedback_crud_own" on public.copilot_suggestion_feedback
+for all to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create index if not exists copilot_suggestion_feedback_session_id_idx
+  on public.copilot_suggestion_feedback(session_id);
+
+create index if not exists copilot_suggestion_feedback_prompt_version_idx
+  on public.copilot_suggestion_feedback(prompt_id, prompt_version);
+
+-- Feedback per mode, model and prompt version (respects the caller's RLS)
+create or replace view public.copilot_suggestion_feedback_stats
+with (security_invoker = true) as
+select
+  f.mode,
+  f.model,
+  f.prompt_id,
+  f.prompt_version,
+  count(*)::int as samples,
+  count(*) filter (where f.rating = 'helpful')::int as helpful,
+  count(*) filter (where f.rating = 'not_helpful')::int as not_helpful,
+  count(*) filter (where f.used)::int as used,
+  count(*) filter (where f.used = false)::int as ignored,
+  count(*) filter (where f.edited_text is not null)::int as edited,
+  avg(f.glance_ms)::numeric(10, 1) as avg_glance_ms
+from public.copilot_suggestion_feedback f
+group by f.mode, f.model, f.prompt_id, f.prompt_version;
@@ -0,0 +1,12 @@
+-- Mock interviewer turns
+-- Adds: interview_session_messages.meta
+-- Interviewer messages record the turn they took (follow_up, next_question,
+-- wrap_up), the planned question they belong to and the prompt version, so
+-- the next turn can pick up where the conversation left off.
+-- Apply with: supabase db push or psql
+
+alter table public.interview_session_messages
+add column if not exists meta jsonb not null default '{}'::jsonb;
+
+create index if not exists interview_session_messages_session_id_created_at_idx
+on public.interview_session_messages(session_id, created_at);
@@ -0,0 +1,128 @@
+-- Interview question bank
+-- Adds: question_bank table + RLS + indexes, interview_questions.bank_question_id, curated global questions
+-- Reusable questions tagged by type, difficulty, competencies, roles and
+-- companies. Rows with no organization_id are the global bank (written by the
+-- service role); organization rows are managed by org owners and admins.
+-- Sessions are seeded from filtered packs of these questions.
+-- Apply with: supabase db push or psql
+
+create table if not exists public.question_bank (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references public.organizations(id) on delete cascade,
+  created_by uuid references auth.users(id) on delete set null,
+  question_text text not null,
+  question_type text not null default 'behavioral' check (question_type in ('behavioral', 'technical', 'situational', 'general')),
+  difficulty text not null default 'medium' check (difficulty in ('easy', 'medium', 'hard')),
+  competencies text[] not null default '{}',
+  roles text[] not null default '{}',
+  company_tags text[] not null default '{}',
+  sample_answer text not null default '',
+  rubric_hints text[] not null default '{}',
+  search_vector tsvector generated always as (to_tsvector('english', question_text)) stored,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists set_question_bank_updated_at on public.question_bank;
+create trigger set_question_bank_updated_at
+before update on public.question_bank
+for each row execute procedure public.set_updated_at();
+
+alter table public.question_bank enable row level security;
+
+-- Global questions are readable by everyone; organization questions by active members
+create policy "question_bank_read" on public.question_bank
+for select to authenticated
+using (
+  organization_id is null
+  or organization_id in (
+    select organization_id from public.organization_members
+    where user_id = auth.uid()
+    and status = 'active'
+  )
+);
+
+-- Owners and admins manage their organization's questions
+create policy "question_bank_manage_admin" on public.question_bank
+for all to authenticated
+using (
+  organization_id in (
+    select organization_id from public.organization_members
+    where user_id = auth.uid()
+    and status = 'active'
+    and role in ('owner', 'admin')
+  )
+)
+with check (
+  organization_id in (
+    select organization_id from public.organization_members
+    where user_id = auth.uid()
+    and status = 'active'
+    and role in ('owner', 'admin')
+  )
+);
+
+create index if not exists question_bank_organization_id_idx
+  on public.question_bank(organization_id);
+
+create index if not exists question_bank_search_vector_idx
+  on public.question_bank using gin(search_vector);
+
+create index if not exists question_bank_competencies_idx
+  on public.question_bank using gin(competencies);
+
+create index if not exists question_bank_roles_idx
+  on public.question_bank using gin(roles);
+
+create index if not exists question_bank_company_tags_idx
+  on public.question_bank using gin(company_tags);
+
+-- Session questions seeded from the bank keep a link to it
+alter table public.interview_questions
+add column if not exists bank_question_id uuid references public.question_bank(id) on delete set null;
+
+-- Curated global questions
+insert into public.question_bank (question_text, question_type, difficulty, competencies, roles, sample_answer, rubric_hints)
+select v.question_text, v.question_type, v.difficulty, v.competencies, v.roles, v.sample_answer, v.rubric_hints
+from (values
+  ('Tell me about yourself.', 'general', 'easy', '{communication}'::text[], '{}'::text[],
+   'A two-minute arc: current role and scope, one or two achievements with numbers, and why this role is the next step.',
+   '{"Under two minutes","Ties past experience to the role","Ends with motivation for this job"}'::text[]),
+  ('Why do you want to work here?', 'general', 'easy', '{communication}', '{}',
+   'Connects specific things about the company (product, mission, engineering culture) to the candidate''s own goals and strengths.',
+   '{"Mentions company specifics","Links to own goals","Avoids generic praise"}'),
+  ('Tell me about a time you disagreed with a teammate. How did you resolve it?', 'behavioral', 'medium', '{conflict,teamwork,communication}', '{}',
+   'STAR story: a real disagreement, listening to the other side, a data-driven or compromise resolution, and a good outcome for the team.',
+   '{"Describes both viewpoints fairly","Shows a concrete resolution step","States the outcome and what was learned"}'),
+  ('Describe a project you led from start to finish.', 'behavioral', 'medium', '{leadership,ownership,impact}', '{}',
+   'STAR story with clear personal ownership, how the work was planned and delegated, obstacles handled and a measurable result.',
+   '{"Clear personal role","Planning and delegation","Quantified result"}'),
+  ('Tell me about a time you failed. What did you learn?', 'behavioral', 'medium', '{failure,ownership}', '{}',
+   'Owns a real mistake without blaming others, explains the impact, what was done to recover and what changed afterwards.',
+   '{"Takes ownership","Explains recovery","Concrete lesson applied later"}'),
+  ('Tell me about a time you had to make a decision with incomplete information.', 'behavioral', 'hard', '{ambiguity,ownership}', '{}',
+   'Explains what was known and unknown, how risk was bounded, the decision and how it was revisited as information arrived.',
+   '{"Frames the unknowns","Bounds the risk","Describes follow-up or reversal plan"}'),
+  ('Describe a time you went above and beyond for a customer.', 'behavioral', 'medium', '{customer_focus,impact}', '{}',
+   'Identifies the customer need, the extra effort and its trade-offs, and the effect on the customer and business.',
+   '{"Understands the customer need","Specific actions","Outcome for the customer"}'),
+  ('How would you handle a teammate who consistently misses deadlines?', 'situational', 'medium', '{teamwork,leadership,communication}', '{}',
+   'Starts with a private conversation to understand causes, agrees on support and expectations, and escalates only with evidence.',
+   '{"Seeks root cause first","Sets clear expectations","Escalation is a last resort"}'),
+  ('Walk me through how you would design a URL shortener.', 'technical', 'medium', '{technical_depth}', '{software engineer,backend engineer}',
+   'Clarifies scale, proposes an API, ID generation, storage and caching, then covers redirects, analytics and failure modes.',
+   '{"Clarifies requirements and scale","Reasonable data model and ID scheme","Discusses caching and trade-offs"}'),
+  ('Explain the difference between a process and a thread.', 'technical', 'easy', '{technical_depth}', '{software engineer}',
+   'Processes have separate address spaces; threads share memory within a process. Covers cost of creation, context switching and synchronization.',
+   '{"Memory isolation","Scheduling and overhead","Concurrency hazards"}'),
+  ('How would you find and fix a slow database query in production?', 'technical', 'hard', '{technical_depth,ownership}', '{software engineer,backend engineer,data engineer}',
+   'Measures first (slow query log, EXPLAIN), checks indexes and query shape, tests the fix safely and verifies the improvement.',
+   '{"Measures before changing","Uses query plans","Safe rollout and verification"}'),
+  ('How do you prioritize when everything is urgent?', 'situational', 'medium', '{ambiguity,communication}', '{product manager}',
+   'Uses impact and urgency to rank work, makes trade-offs explicit to stakeholders and revisits the plan as things change.',
+   '{"Explicit prioritization method","Communicates trade-offs","Adapts as priorities shift"}')
+) as v(question_text, question_type, difficulty, competencies, roles, sample_answer, rubric_hints)
+where not exists (
+  select 1 from public.question_bank q
+  where q.organization_id is null and lower(q.question_text) = lower(v.question_text)
+);
@@ -0,0 +1,13 @@
+-- Per-answer scoring
+-- Adds: interview_questions.evaluation, interview_questions.scored_at
+-- Each answered question is scored on the report rubric (clarity,
+-- confidence, relevance, structure) with evidence quotes from the answer
+-- and a suggested improved answer. response_score keeps the overall 1-5
+-- score; the breakdown lives in evaluation.
+-- Apply with: supabase db push or psql
+
+alter table public.interview_questions
+add column if not exists evaluation jsonb;
+
+alter table public.interview_questions
+add column if not exists scored_at timestamptz;
@@ -0,0 +1,42 @@
+-- BYOK billing scope
+-- Adds: organizations.llm_platform_fallback, llm_usage_ledger.billed_to_organization;
+--       get_llm_spend() leaves organization-key spend out of the plan budget
+-- Organizations with their own keys are served only by the providers they have
+-- keys for, unless they opt into platform fallback.
+-- Apply with: supabase db push or psql
+
+-- 1) Opt-in to platform keys for providers without an organization key
+alter table public.organizations
+add column if not exists llm_platform_fallback boolean not null default false;
+
+comment on column public.organizations.llm_platform_fallback is 'With organization LLM keys, also fall back to platform keys (billed to the platform) for other providers';
+
+-- 2) Who paid for an attempt; kept when the credential is deleted (credential_id is set null)
+alter table public.llm_usage_ledger
+add column if not exists billed_to_organization boolean not null default false;
+
+update public.llm_usage_ledger set billed_to_organization = true where credential_id is not null;
+
+-- 3) Plan budgets cover platform-billed spend only; the organization budget covers all of its members' spend
+create or replace function public.get_llm_spend(
+  p_user_id uuid,
+  p_organization_id uuid default null
+)
+returns table (
+  user_spend_cents numeric,
+  organization_spend_cents numeric
+) security definer as $$
+declare
+  v_period_start timestamptz := date_trunc('month', now());
+begin
+  return query select
+    (select coalesce(sum(l.cost_cents), 0) from public.llm_usage_ledger l
+      where l.user_id = p_user_id
+        and not l.billed_to_organization
+        and l.created_at >= v_period_start),
+    (select coalesce(sum(l.cost_cents), 0) from public.llm_usage_ledger l
+      where p_organization_id is not null
+        and l.organization_id = p_organization_id
+        and l.created_at >= v_period_start);
+end;
+$$ language plpgsql;
@@ -0,0 +1,10 @@
+-- Aborted LLM attempts
+-- Adds: 'aborted' ledger status for streams the caller stopped reading (client
+--       disconnect, discarded suggestion); their tokens still count toward budgets
+-- Apply with: supabase db push or psql
+
+alter table public.llm_usage_ledger
+drop constraint if exists llm_usage_ledger_status_check;
+
+alter table public.llm_usage_ledger
+add constraint llm_usage_ledger_status_check check (status in ('succeeded', 'failed', 'aborted'));
@@ -0,0 +1,34 @@
+-- Copilot speaker map updates
+-- Adds: add_copilot_speaker() to record a new diarized speaker's role in
+--       copilot_sessions.metadata.speaker_map in place, so heartbeat, consent
+--       or other speaker updates written meanwhile are not overwritten
+-- Apply with: supabase db push or psql
+
+-- Runs as the caller so the copilot_sessions RLS policies still apply
+create or replace function public.add_copilot_speaker(
+  p_session_id uuid,
+  p_label text,
+  p_speaker text
+)
+returns jsonb security invoker as $$
+declare
+  v_map jsonb;
+begin
+  if p_speaker not in ('interviewer', 'candidate') then
+    raise exception 'invalid speaker: %', p_speaker;
+  end if;
+
+  -- A role another request stored first for the label is kept
+  update public.copilot_sessions
+  set metadata = jsonb_set(
+    coalesce(metadata, '{}'::jsonb),
+    '{speaker_map}',
+    jsonb_build_object(p_label, p_speaker)
+      || case when jsonb_typeof(metadata->'speaker_map') = 'object' then metadata->'speaker_map' else '{}'::jsonb end
+  )
+  where id = p_session_id
+  returning metadata->'speaker_map' into v_map;
+
+  return v_map;
+end;
+$$ language plpgsql;
@@ -0,0 +1,38 @@
+-- STAR story usage counter
+-- Adds: record_star_story_use() to count a story's use atomically
+-- Changes: star_stories.updated_at only moves on edits, so the bank's
+--          "recently edited" ordering is not reshuffled by copilot use
+-- Apply with: supabase db push or psql
+
+create or replace function public.set_star_stories_updated_at()
+returns trigger as $$
+begin
+  -- Usage bookkeeping is not an edit
+  if (to_jsonb(new) - 'times_used' - 'last_used_at' - 'updated_at')
+     is distinct from (to_jsonb(old) - 'times_used' - 'last_used_at' - 'updated_at') then
+    new.updated_at = now();
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists set_star_stories_updated_at on public.star_stories;
+create trigger set_star_stories_updated_at
+before update on public.star_stories
+for each row execute procedure public.set_star_stories_updated_at();
+
+-- Runs as the caller so the star_stories RLS policies still apply
+create or replace function public.record_star_story_use(p_story_id uuid)
+returns int security invoker as $$
+declare
+  v_times_used int;
+begin
+  update public.star_stories
+  set times_used = times_used + 1,
+      last_used_at = now()
+  where id = p_story_id
+  returning times_used into v_times_used;
+
+  return v_times_used;
+end;
+$$ language plpgsql;